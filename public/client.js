@@ -1,5 +1,19 @@
-async function fetchJSON(url, opts) {
-  const res = await fetch(url, opts);
+// Session or API token, kept for this browser tab only
+let authToken = sessionStorage.getItem('authToken');
+// Card session shown in the status panel; card requests are refused once that card is removed
+let cardSession = null;
+// Reader chosen in the status panel; card requests go to /api/readers/<name>/...
+let selectedReader = null;
+
+function cardPath(path) {
+  return selectedReader ? `/api/readers/${encodeURIComponent(selectedReader)}${path}` : `/api${path}`;
+}
+
+async function fetchJSON(url, opts = {}) {
+  const headers = Object.assign({}, opts.headers, authToken ? { Authorization: 'Bearer ' + authToken } : {},
+    cardSession ? { 'X-Card-Session': cardSession } : {});
+  const res = await fetch(url, Object.assign({}, opts, { headers }));
+  if (res.status === 401 && !url.startsWith('/api/auth/')) showLogin();
   if (!res.ok) {
     const txt = await res.text();
     throw new Error(txt || res.statusText);
@@ -17,6 +31,7 @@ function renderStatus(data) {
   if (card?.present) {
     html.push(`<div><strong>Card Present:</strong> Yes</div>`);
     if (card.uid) html.push(`<div><strong>UID:</strong> ${card.uid}</div>`);
+    if (card.cardSession) html.push(`<div><strong>Session:</strong> ${card.cardSession}</div>`);
     if (card.cardUidHex) html.push(`<div><strong>UID (DESFire):</strong> ${card.cardUidHex}</div>`);
     if (card.atr) html.push(`<div><strong>ATR:</strong> ${card.atr}</div>`);
     if (card.type) html.push(`<div><strong>Type:</strong> ${card.type}</div>`);
@@ -35,9 +50,29 @@ function renderStatus(data) {
   s.innerHTML = html.join('');
 }
 
+function renderReaders(readers) {
+  const select = el('readerSelect');
+  const names = readers.map((r) => r.name);
+  if (select.options.length !== names.length || names.some((n, i) => select.options[i].value !== n)) {
+    select.innerHTML = '';
+    readers.forEach((r) => {
+      const opt = document.createElement('option');
+      opt.value = r.name;
+      opt.textContent = r.name;
+      select.appendChild(opt);
+    });
+  }
+  if (!names.includes(selectedReader)) selectedReader = names[0] || null;
+  select.value = selectedReader || '';
+}
+
 async function loadStatus() {
-  const data = await fetchJSON('/api/status');
-  renderStatus(data);
+  const { readers } = await fetchJSON('/api/readers');
+  renderReaders(readers);
+  const selected = readers.find((r) => r.name === selectedReader);
+  const card = selected ? selected.card : { present: false };
+  cardSession = card.present ? card.cardSession || null : null;
+  renderStatus({ reader: selectedReader, card });
 }
 
 async function loadScripts() {
@@ -51,12 +86,13 @@ async function loadScripts() {
     btn.onclick = async () => {
       log(`Running: npm run ${name}`);
       try {
-        await fetchJSON('/api/run-script', {
+        const { pid } = await fetchJSON('/api/run-script', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({ script: name }),
         });
         log(`Started: ${name}`);
+        watchScript(pid);
       } catch (e) {
         log(`Error starting script: ${e.message}`);
       }
@@ -65,6 +101,20 @@ async function loadScripts() {
   });
 }
 
+// The output of a script run is only shown to the user who started it
+async function watchScript(pid) {
+  try {
+    const run = await fetchJSON(`/api/run-script/${pid}`);
+    if (run.running) {
+      setTimeout(() => watchScript(pid), 1000);
+      return;
+    }
+    log(`[${run.script}] exit ${run.code}\n${run.output}`);
+  } catch (e) {
+    log(`Error reading script output: ${e.message}`);
+  }
+}
+
 function log(msg) {
   const area = el('log');
   const ts = new Date().toLocaleTimeString();
@@ -136,6 +186,107 @@ async function kmShow(reveal) {
   } catch (e) { log('kmShow failed: ' + e.message); }
 }
 
+async function kmSetKey() {
+  try {
+    const appId = parseAppIdHex('kmAppId');
+    const keyNo = parseInt(el('kmKeyNo').value || '0', 10);
+    const version = parseInt(el('kmKeyVersion').value || '0', 10);
+    const keyHex = el('kmKeyHex').value.trim();
+    const kcv = el('kmKcv').value.trim();
+    if (!keyHex || !kcv) throw new Error('Key and KCV required');
+    const r = await fetchJSON('/api/keys/set', {
+      method: 'POST', headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ appId, keyNo, keyHex, keyType: el('kmKeyType').value, version, kcv, save: true })
+    });
+    el('kmKeyHex').value = '';
+    el('kmOut').textContent = JSON.stringify(r, null, 2);
+    log(`K${keyNo} of ${el('kmAppId').value} set (KCV ${r.kcv})`);
+  } catch (e) { log('kmSetKey failed: ' + e.message); }
+}
+
+async function kmRotateKey() {
+  try {
+    const appId = parseAppIdHex('kmAppId');
+    const keyNo = parseInt(el('kmKeyNo').value || '0', 10);
+    if (!confirm(`Replace K${keyNo} with a new key version? Cards keep working with the old version until upgraded.`)) return;
+    const r = await fetchJSON('/api/keys/rotate-key', {
+      method: 'POST', headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ appId, keyNo, save: true })
+    });
+    el('kmOut').textContent = JSON.stringify(r, null, 2);
+    log(`K${keyNo} of ${el('kmAppId').value} rotated to version ${r.version}`);
+  } catch (e) { log('kmRotateKey failed: ' + e.message); }
+}
+
+async function kmCampaign(action) {
+  try {
+    const appId = parseAppIdHex('kmAppId');
+    if (action === 'complete' && !confirm('Make the new key set current? Cards not yet rolled keep working with the old keys.')) return;
+    const r = await fetchJSON(action === 'upgrade' ? cardPath('/campaigns/upgrade') : `/api/campaigns/${action}`, {
+      method: 'POST', headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ appId })
+    });
+    el('kmOut').textContent = JSON.stringify(r, null, 2);
+    log(`Key set rotation ${action}: ${el('kmAppId').value}`);
+  } catch (e) { log(`kmCampaign ${action} failed: ` + e.message); }
+}
+
+async function kmCampaignStatus() {
+  try {
+    const r = await fetchJSON('/api/campaigns');
+    el('kmOut').textContent = JSON.stringify(r, null, 2);
+  } catch (e) { log('kmCampaignStatus failed: ' + e.message); }
+}
+
+async function kmRotateMaster() {
+  try {
+    const currentPassword = el('kmCurrentPassword').value;
+    const newPassword = el('kmNewPassword').value;
+    if (!currentPassword || !newPassword) throw new Error('Current and new master password are required');
+    if (!confirm('Re-encrypt all stored key sets under the new master password?')) return;
+    const r = await fetchJSON('/api/keys/rotate-master', {
+      method: 'POST', headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ currentPassword, newPassword })
+    });
+    el('kmCurrentPassword').value = '';
+    el('kmNewPassword').value = '';
+    el('kmOut').textContent = JSON.stringify(r, null, 2);
+    log('Master password rotated; update KEYSTORE_MASTER_PASSWORD');
+  } catch (e) { log('kmRotateMaster failed: ' + e.message); }
+}
+
+async function kmSubmitShare() {
+  try {
+    const share = el('kmShare').value.trim();
+    if (!share) throw new Error('Key share is required');
+    const r = await fetchJSON('/api/keys/unlock', {
+      method: 'POST', headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ share })
+    });
+    el('kmShare').value = '';
+    el('kmOut').textContent = JSON.stringify(r, null, 2);
+    log(r.unlocked ? 'Keystore unlocked' : `Key share accepted (${r.received.length}/${r.threshold})`);
+  } catch (e) {
+    el('kmShare').value = '';
+    log('kmSubmitShare failed: ' + e.message);
+  }
+}
+
+async function kmUnlockStatus() {
+  try {
+    const r = await fetchJSON('/api/keys/unlock');
+    el('kmOut').textContent = JSON.stringify(r, null, 2);
+  } catch (e) { log('kmUnlockStatus failed: ' + e.message); }
+}
+
+async function kmResetShares() {
+  try {
+    const r = await fetchJSON('/api/keys/unlock/reset', { method: 'POST' });
+    el('kmOut').textContent = JSON.stringify(r, null, 2);
+    log('Entered key shares discarded');
+  } catch (e) { log('kmResetShares failed: ' + e.message); }
+}
+
 async function appAuth() {
   try {
     const aid = parseAppIdHex('appAid');
@@ -144,13 +295,15 @@ async function appAuth() {
     const keyType = el('appKeyType').value;
     const keyHex = el('appKeyHex').value.trim();
     const body = { aid, source, keyNo };
-    if (source === 'manual') Object.assign(body, { keyType, keyHex });
-    const r = await fetchJSON('/api/app/auth', {
+    const kcv = el('appKcv').value.trim();
+    if (source === 'manual') Object.assign(body, { keyType, keyHex, kcv: kcv || undefined });
+    if (source === 'keystore') Object.assign(body, { upgrade: el('appUpgrade').value === '1', method: keyType === 'AES_EV2' ? 'AES_EV2' : undefined });
+    const r = await fetchJSON(cardPath('/app/auth'), {
       method: 'POST', headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(body)
     });
     el('kmOut').textContent = JSON.stringify(r, null, 2);
-    log(`App ${el('appAid').value} authenticated`);
+    log(`App ${el('appAid').value} authenticated` + (r.upgraded && r.upgraded.length ? ` (upgraded ${r.upgraded.map((n) => 'K' + n).join(', ')})` : ''));
   } catch (e) { log('appAuth failed: ' + e.message); }
 }
 async function eraseCard() {
@@ -160,7 +313,7 @@ async function eraseCard() {
     const keyHex = el('keyHex').value.trim();
     const keyNo = parseInt(el('keyNo').value || '0', 10);
     const body = (keyHex ? { keyType, keyHex, keyNo } : {});
-    await fetchJSON('/api/erase', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+    await fetchJSON(cardPath('/erase'), { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
     log('Card erased successfully');
     await loadStatus();
   } catch (e) {
@@ -174,7 +327,7 @@ async function authPicc() {
     const keyHex = el('keyHex').value.trim();
     const keyNo = parseInt(el('keyNo').value || '0', 10);
     if (!keyHex) { alert('Enter key hex'); return; }
-    await fetchJSON('/api/auth-picc', {
+    await fetchJSON(cardPath('/auth-picc'), {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ keyType, keyHex, keyNo })
@@ -186,6 +339,10 @@ async function authPicc() {
 }
 
 el('refresh').onclick = loadStatus;
+el('readerSelect').onchange = () => {
+  selectedReader = el('readerSelect').value || null;
+  loadStatus().catch(err => log('Status error: ' + err.message));
+};
 el('erase').onclick = eraseCard;
 el('clear-log').onclick = () => { el('log').textContent = ''; };
 el('authPicc').onclick = authPicc;
@@ -196,6 +353,17 @@ el('kmLoad').onclick = kmLoad;
 el('kmList').onclick = kmList;
 el('kmShow').onclick = () => kmShow(false);
 el('kmReveal').onclick = () => kmShow(true);
+el('kmSetKey').onclick = kmSetKey;
+el('kmRotateKey').onclick = kmRotateKey;
+el('kmCampaignStart').onclick = () => kmCampaign('start');
+el('kmCampaignUpgrade').onclick = () => kmCampaign('upgrade');
+el('kmCampaignStatus').onclick = kmCampaignStatus;
+el('kmCampaignComplete').onclick = () => kmCampaign('complete');
+el('kmCampaignCancel').onclick = () => kmCampaign('cancel');
+el('kmRotateMaster').onclick = kmRotateMaster;
+el('kmSubmitShare').onclick = kmSubmitShare;
+el('kmUnlockStatus').onclick = kmUnlockStatus;
+el('kmResetShares').onclick = kmResetShares;
 el('appAuth').onclick = appAuth;
 
 function collectPayAuth() {
@@ -210,7 +378,7 @@ function collectPayAuth() {
 
 async function payStatus() {
   try {
-    const r = await fetchJSON('/api/payment/status');
+    const r = await fetchJSON(cardPath('/payment/status'));
     el('payOut').textContent = JSON.stringify(r, null, 2);
   } catch (e) { log('payStatus failed: ' + e.message); }
 }
@@ -219,7 +387,7 @@ async function payCredit() {
   try {
     const amount = parseInt(el('payAmount').value || '0', 10);
     const body = { amount, ...collectPayAuth() };
-    const r = await fetchJSON('/api/payment/credit', {
+    const r = await fetchJSON(cardPath('/payment/credit'), {
       method: 'POST', headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(body)
     });
@@ -231,7 +399,7 @@ async function payDebit() {
   try {
     const amount = parseInt(el('payAmount').value || '0', 10);
     const body = { amount, ...collectPayAuth() };
-    const r = await fetchJSON('/api/payment/debit', {
+    const r = await fetchJSON(cardPath('/payment/debit'), {
       method: 'POST', headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(body)
     });
@@ -239,33 +407,117 @@ async function payDebit() {
   } catch (e) { log('payDebit failed: ' + e.message); }
 }
 
+async function payRefund() {
+  try {
+    const amount = parseInt(el('payAmount').value || '0', 10);
+    const body = { amount, ...collectPayAuth() };
+    const r = await fetchJSON(cardPath('/payment/refund'), {
+      method: 'POST', headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+    el('payOut').textContent = JSON.stringify(r, null, 2);
+  } catch (e) { log('payRefund failed: ' + e.message); }
+}
+
+async function payHistory() {
+  try {
+    const r = await fetchJSON(cardPath('/payment/history'));
+    el('payOut').textContent = JSON.stringify(r, null, 2);
+  } catch (e) { log('payHistory failed: ' + e.message); }
+}
+
 el('payStatus').onclick = payStatus;
+el('payRefund').onclick = payRefund;
+el('payHistory').onclick = payHistory;
 el('payCredit').onclick = payCredit;
 el('payDebit').onclick = payDebit;
 
-// Initial load and periodic refresh
-loadStatus().catch(err => log('Status error: ' + err.message));
-loadScripts().catch(err => log('Scripts error: ' + err.message));
-setInterval(() => loadStatus().catch(() => {}), 1500);
-
-// Subscribe to server logs via SSE
-try {
-  const events = new EventSource('/api/logs');
-  events.onmessage = (e) => {
-    try {
-      const line = JSON.parse(e.data);
-      log(line);
-    } catch {
-      log(e.data);
-    }
-  };
-  events.onerror = () => {
-    // will auto-reconnect by default
-  };
-} catch (e) {
-  log('SSE init failed: ' + e.message);
+let statusTimer = null;
+let events = null;
+
+function showLogin() {
+  if (statusTimer) clearInterval(statusTimer);
+  statusTimer = null;
+  if (events) events.close();
+  events = null;
+  authToken = null;
+  sessionStorage.removeItem('authToken');
+  el('panel').hidden = true;
+  el('session').hidden = true;
+  el('login').hidden = false;
 }
 
+async function login() {
+  try {
+    const r = await fetchJSON('/api/auth/login', {
+      method: 'POST', headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username: el('loginUser').value.trim(), password: el('loginPassword').value })
+    });
+    el('loginPassword').value = '';
+    el('loginError').textContent = '';
+    authToken = r.token;
+    sessionStorage.setItem('authToken', authToken);
+    await startSession();
+  } catch (e) {
+    let msg = e.message;
+    try { msg = JSON.parse(msg).error || msg; } catch {}
+    el('loginError').textContent = msg;
+  }
+}
+
+async function logout() {
+  try { await fetchJSON('/api/auth/logout', { method: 'POST' }); } catch {}
+  showLogin();
+}
+
+// Show the panel for the logged-in user; permissions decide what the server allows
+async function startSession() {
+  let me;
+  try {
+    me = await fetchJSON('/api/auth/me');
+  } catch {
+    showLogin();
+    return;
+  }
+  el('sessionUser').textContent = `${me.username} (${me.role})`;
+  el('login').hidden = true;
+  el('session').hidden = false;
+  el('panel').hidden = false;
+
+  // Initial load and periodic refresh
+  if (me.permissions.includes('status:read')) {
+    loadStatus().catch(err => log('Status error: ' + err.message));
+    statusTimer = setInterval(() => loadStatus().catch(() => {}), 1500);
+  }
+  if (me.permissions.includes('scripts:run')) {
+    loadScripts().catch(err => log('Scripts error: ' + err.message));
+  }
+
+  // Subscribe to server logs via SSE (EventSource cannot send headers)
+  if (!me.permissions.includes('logs:read')) return;
+  try {
+    events = new EventSource('/api/logs' + (authToken ? '?token=' + encodeURIComponent(authToken) : ''));
+    events.onmessage = (e) => {
+      try {
+        const line = JSON.parse(e.data);
+        log(line);
+      } catch {
+        log(e.data);
+      }
+    };
+    events.onerror = () => {
+      // will auto-reconnect by default
+    };
+  } catch (e) {
+    log('SSE init failed: ' + e.message);
+  }
+}
+
+el('loginButton').onclick = login;
+el('loginPassword').onkeydown = (e) => { if (e.key === 'Enter') login(); };
+el('logout').onclick = logout;
+startSession();
+
 // Collapsible sections
 function initCollapsibles() {
   const secs = document.querySelectorAll('.collapsible');
@@ -0,0 +1,252 @@
+/**
+ * Audit log appends: the lock file shared by processes, the order of queued
+ * records, and write failures, which raise an alarm instead of failing the
+ * operation they record; verification of edited, cut and replaced logs
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import DESFireCard, { CommMode } from '../../card/desfire';
+import { SimulatedReader } from '../../card/simulatedReader';
+import { SimulatedCard } from '../../card/simulator';
+import {
+  AUDIT_GENESIS,
+  AuditEvent,
+  AuditLog,
+  AuditRecord,
+  audit,
+  configureAuditLog,
+  flushAuditLog,
+  onAuditFailure
+} from '../auditLog';
+
+let dir: string;
+let file: string;
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'desfire-audit-'));
+  file = path.join(dir, 'audit.jsonl');
+});
+
+afterEach(() => {
+  configureAuditLog(null);
+  onAuditFailure(() => undefined);
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('appending', () => {
+  test('waits for a lock held by another process without blocking the event loop', async () => {
+    const log = new AuditLog(file);
+    fs.writeFileSync(`${file}.lock`, '12345');
+
+    let ticks = 0;
+    const timer = setInterval(() => ticks++, 5);
+    const appended = log.append({ action: 'key.load' });
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    expect(fs.existsSync(file)).toBe(false);
+    fs.unlinkSync(`${file}.lock`);
+
+    const record = await appended;
+    clearInterval(timer);
+    expect(ticks).toBeGreaterThan(3);
+    expect(record.seq).toBe(1);
+    expect(fs.existsSync(`${file}.lock`)).toBe(false);
+  });
+
+  test('breaks a lock left over by a crashed writer', async () => {
+    fs.writeFileSync(`${file}.lock`, '12345');
+    const old = new Date(Date.now() - 60_000);
+    fs.utimesSync(`${file}.lock`, old, old);
+
+    expect((await new AuditLog(file).append({ action: 'key.load' })).seq).toBe(1);
+  });
+
+  test('records of writers sharing a log form one chain in call order', async () => {
+    const web = new AuditLog(file, { defaultActor: 'web' });
+    const cli = new AuditLog(file, { defaultActor: 'cli:ops' });
+
+    const records = await Promise.all(
+      Array.from({ length: 20 }, (_, i) => (i % 2 ? cli : web).append({ action: 'card.debit', details: { i } }))
+    );
+    expect(records.map((record) => record.seq).sort((a, b) => a - b)).toEqual(Array.from({ length: 20 }, (_, i) => i + 1));
+    // Each writer keeps the order of its own calls
+    const order = (actor: string) => records.filter((record) => record.actor === actor).map((record) => record.seq);
+    expect(order('web')).toEqual([...order('web')].sort((a, b) => a - b));
+    expect(order('cli:ops')).toEqual([...order('cli:ops')].sort((a, b) => a - b));
+    expect(AuditLog.verify(file)).toMatchObject({ ok: true, records: 20 });
+  });
+});
+
+describe('write failures', () => {
+  /** An audit log whose file cannot be written (it is a directory) */
+  function brokenLog(): jest.Mock<void, [Error, AuditEvent]> {
+    fs.mkdirSync(file);
+    configureAuditLog(new AuditLog(file));
+    const alarm = jest.fn<void, [Error, AuditEvent]>();
+    onAuditFailure(alarm);
+    return alarm;
+  }
+
+  test('go to the failure handler, not to the caller', async () => {
+    const alarm = brokenLog();
+
+    expect(await audit({ action: 'key.reveal' })).toBe(false);
+    expect(alarm).toHaveBeenCalledTimes(1);
+    expect(alarm.mock.calls[0][1].action).toBe('key.reveal');
+  });
+
+  test('do not fail a completed card operation', async () => {
+    const reader = new SimulatedReader('Test Reader');
+    reader.present(new SimulatedCard({ model: 'EV2' }));
+    const card = new DESFireCard(reader);
+    await card.selectApplication(0);
+    await card.createApplication(0x0000C1, 0x0F, 1, 0x00);
+    await card.selectApplication(0x0000C1);
+    await card.createValueFile(0, CommMode.PLAIN, Buffer.from([0xEE, 0xEE]), 0, 1000, 0, 0);
+
+    const alarm = brokenLog();
+    await card.credit(0, 100);
+    await card.commitTransaction();
+    await flushAuditLog();
+
+    expect(await card.getValue(0)).toBe(100);
+    expect(alarm.mock.calls.map(([, event]) => event.action)).toEqual(['card.credit', 'card.commit-transaction']);
+    expect(alarm.mock.calls[0][1].outcome).toBeUndefined();
+  });
+});
+
+describe('verification', () => {
+  const HMAC_KEY = Buffer.alloc(32, 0x42);
+
+  /** A log of five records */
+  async function writeLog(hmacKey?: Buffer): Promise<AuditRecord[]> {
+    const log = new AuditLog(file, { hmacKey, defaultActor: 'cli:ops' });
+    const records: AuditRecord[] = [];
+    for (let i = 1; i <= 5; i++) records.push(await log.append({ action: 'card.debit', details: { amount: i } }));
+    return records;
+  }
+
+  const readLines = () => fs.readFileSync(file, 'utf8').trim().split('\n');
+  const writeLines = (lines: string[]) => fs.writeFileSync(file, lines.join('\n') + '\n');
+  const writeHead = (record: AuditRecord) => fs.writeFileSync(`${file}.head`, JSON.stringify({ seq: record.seq, hash: record.hash }));
+
+  /** Recompute the chain from the first changed record on, as someone rewriting the log would */
+  function rechain(records: AuditRecord[]): AuditRecord[] {
+    let prev = AUDIT_GENESIS;
+    return records.map((record) => {
+      const { hash: _hash, ...body } = { ...record, prev };
+      const hash = crypto.createHash('sha256').update(prev).update(JSON.stringify(body)).digest('hex');
+      prev = hash;
+      return { ...body, hash };
+    });
+  }
+
+  test('each record chains to the previous one with SHA-256(prev || record)', async () => {
+    const records = await writeLog();
+    expect(records[0].prev).toBe(AUDIT_GENESIS);
+    expect(rechain(records)).toEqual(records);
+    expect(records.slice(1).map((record) => record.prev)).toEqual(records.slice(0, -1).map((record) => record.hash));
+    expect(AuditLog.verify(file)).toEqual({ ok: true, records: 5, head: { seq: 5, hash: records[4].hash }, errors: [] });
+  });
+
+  test('an edited record fails its hash', async () => {
+    await writeLog();
+    const lines = readLines();
+    lines[2] = lines[2].replace('"amount":3', '"amount":300');
+    writeLines(lines);
+
+    expect(AuditLog.verify(file)).toMatchObject({ ok: false, errors: ['line 3: hash mismatch (record edited)'] });
+  });
+
+  test('an edited record with a recomputed hash breaks the chain to the next one', async () => {
+    const records = await writeLog();
+    const edited = rechain([...records.slice(0, 2), { ...records[2], details: { amount: 300 } }])[2];
+    writeLines(records.map((record, i) => JSON.stringify(i === 2 ? edited : record)));
+
+    expect(AuditLog.verify(file).errors).toEqual(['line 4: does not chain to the previous record']);
+  });
+
+  test('a removed record breaks the sequence and the chain', async () => {
+    await writeLog();
+    const lines = readLines();
+    lines.splice(1, 1);
+    writeLines(lines);
+
+    expect(AuditLog.verify(file).errors).toEqual([
+      'line 2: sequence 3, expected 2 (records missing or reordered)',
+      'line 2: does not chain to the previous record'
+    ]);
+  });
+
+  test('a log cut back to an earlier record no longer matches its head', async () => {
+    await writeLog();
+    writeLines(readLines().slice(0, 3));
+
+    expect(AuditLog.verify(file)).toMatchObject({
+      ok: false,
+      records: 3,
+      errors: ['head: record 5 is not in the log (log truncated or replaced)']
+    });
+  });
+
+  test('a log cut back together with its head is caught by an anchor', async () => {
+    const records = await writeLog();
+    writeLines(readLines().slice(0, 3));
+    writeHead(records[2]);
+    expect(AuditLog.verify(file).ok).toBe(true);
+
+    const anchor = { seq: 4, hash: records[3].hash };
+    expect(AuditLog.verify(file, { anchors: [anchor] }).errors).toEqual([
+      'anchor 4: hash does not match (log truncated or rewritten)'
+    ]);
+  });
+
+  test('a rewritten log and head are caught by an anchor', async () => {
+    const records = await writeLog();
+    const rewritten = rechain([records[0], { ...records[1], details: { amount: 200 } }, ...records.slice(2)]);
+    writeLines(rewritten.map((record) => JSON.stringify(record)));
+    writeHead(rewritten[4]);
+    expect(AuditLog.verify(file).ok).toBe(true);
+
+    expect(AuditLog.verify(file, { anchors: [{ seq: 5, hash: records[4].hash }] }).errors).toEqual([
+      'anchor 5: hash does not match (log truncated or rewritten)'
+    ]);
+  });
+
+  test('with an HMAC key the chain cannot be recomputed without the key', async () => {
+    const records = await writeLog(HMAC_KEY);
+    expect(AuditLog.verify(file, { hmacKey: HMAC_KEY }).ok).toBe(true);
+    expect(AuditLog.verify(file).errors).toHaveLength(5);
+
+    const rewritten = rechain([records[0], { ...records[1], details: { amount: 200 } }, ...records.slice(2)]);
+    writeLines(rewritten.map((record) => JSON.stringify(record)));
+    writeHead(rewritten[4]);
+    expect(AuditLog.verify(file, { hmacKey: HMAC_KEY }).errors).toEqual(
+      [1, 2, 3, 4, 5].map((line) => `line ${line}: hash mismatch (record edited or wrong HMAC key)`)
+    );
+  });
+
+  test('records added behind the head, a missing head and garbage are reported', async () => {
+    const records = await writeLog();
+    const extra = rechain([...records, { ...records[4], seq: 6 }])[5];
+    writeLines([...readLines(), JSON.stringify(extra)]);
+    expect(AuditLog.verify(file).errors).toEqual(['head: log has records after 5 that were not appended by the audit log']);
+
+    fs.unlinkSync(`${file}.head`);
+    expect(AuditLog.verify(file).errors).toEqual(['head: missing']);
+
+    writeLines([...readLines().slice(0, 5), 'not json']);
+    writeHead(records[4]);
+    expect(AuditLog.verify(file).errors).toEqual(['line 6: not a JSON record']);
+  });
+});
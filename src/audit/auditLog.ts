@@ -0,0 +1,347 @@
+/**
+ * Audit Log
+ * Append-only record of key and card operations: who generated, loaded,
+ * revealed, exported or used keys, and every authenticate, credit, debit and
+ * format with the card UID.
+ *
+ * One JSON object per line. Each record carries the hash of the previous one
+ * (SHA-256, or HMAC-SHA256 with AUDIT_LOG_HMAC_KEY), so an edited, inserted
+ * or removed line breaks the chain. The hash of the last record is also kept
+ * in <file>.head, which detects a log cut back to an earlier record. Copy the
+ * head hash elsewhere from time to time (an anchor) to also detect a log and
+ * head that were replaced together.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+export type AuditOutcome = 'ok' | 'failed';
+
+export interface AuditEvent {
+  /** Operation, e.g. key.generate, key.reveal, card.authenticate, card.debit */
+  action: string;
+  /** Who performed it (default: the actor of the current request or process) */
+  actor?: string;
+  /** Card UID (hex) */
+  uid?: string;
+  /** Application ID (0xXXXXXX) */
+  appId?: string;
+  keyNo?: number;
+  outcome?: AuditOutcome;
+  error?: string;
+  details?: Record<string, unknown>;
+}
+
+export interface AuditRecord extends AuditEvent {
+  seq: number;
+  time: string;
+  actor: string;
+  outcome: AuditOutcome;
+  /** Hash of the previous record */
+  prev: string;
+  hash: string;
+}
+
+export interface AuditHead {
+  seq: number;
+  hash: string;
+}
+
+export interface AuditLogOptions {
+  /** Key for HMAC-SHA256 chaining; without it anyone can recompute the chain */
+  hmacKey?: Buffer;
+  /** Actor recorded outside of runAsActor() */
+  defaultActor?: string;
+}
+
+export interface AuditVerifyResult {
+  ok: boolean;
+  records: number;
+  head: AuditHead | null;
+  errors: string[];
+}
+
+/** prev of the first record */
+export const AUDIT_GENESIS = '0'.repeat(64);
+
+// The tail read when appending must contain the whole last line
+const TAIL_BYTES = 64 * 1024;
+
+// Lock held by the process appending to a log (<file>.lock)
+const LOCK_TIMEOUT_MS = 5000;
+const LOCK_STALE_MS = 30000;
+const LOCK_RETRY_MS = 10;
+
+const actorContext = new AsyncLocalStorage<string>();
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+function chainHash(key: Buffer | undefined, prev: string, body: string): string {
+  const mac = key ? crypto.createHmac('sha256', key) : crypto.createHash('sha256');
+  return mac.update(prev).update(body).digest('hex');
+}
+
+function lastLine(file: string): string | null {
+  if (!fs.existsSync(file)) return null;
+  const fd = fs.openSync(file, 'r');
+  try {
+    const size = fs.fstatSync(fd).size;
+    const length = Math.min(size, TAIL_BYTES);
+    const buffer = Buffer.alloc(length);
+    fs.readSync(fd, buffer, 0, length, size - length);
+    const lines = buffer.toString('utf8').split('\n').filter((line) => line.trim());
+    return lines.length ? lines[lines.length - 1] : null;
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Run fn holding <file>.lock (created with O_EXCL), so processes sharing a log
+ * do not both chain to the same last record
+ * The lock is waited for without blocking the event loop. A lock older than
+ * LOCK_STALE_MS is left over from a crashed writer and is broken.
+ */
+async function withFileLock<T>(file: string, fn: () => T): Promise<T> {
+  const lock = `${file}.lock`;
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  let handle: fs.promises.FileHandle | null = null;
+  while (handle === null) {
+    try {
+      handle = await fs.promises.open(lock, 'wx', 0o600);
+    } catch (error: any) {
+      if (error?.code !== 'EEXIST') throw error;
+      try {
+        if (Date.now() - (await fs.promises.stat(lock)).mtimeMs > LOCK_STALE_MS) {
+          await fs.promises.unlink(lock);
+          continue;
+        }
+      } catch {
+        continue; // Released meanwhile
+      }
+      if (Date.now() > deadline) throw new Error(`Audit log ${file} is locked (${lock})`);
+      await sleep(LOCK_RETRY_MS);
+    }
+  }
+  try {
+    await handle.write(String(process.pid));
+    return fn();
+  } finally {
+    await handle.close();
+    await fs.promises.unlink(lock);
+  }
+}
+
+export class AuditLog {
+  private hmacKey?: Buffer;
+  private defaultActor: string;
+  /** Appends of this process, in order */
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(public readonly file: string, options: AuditLogOptions = {}) {
+    this.hmacKey = options.hmacKey;
+    this.defaultActor = options.defaultActor || `process:${os.userInfo().username}`;
+    fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+  }
+
+  /**
+   * Append an event and return the chained record
+   * Appends of this process are queued in call order. Each one takes the lock
+   * file only while it reads the last line and appends after it, so several
+   * processes (web server, CLI) can share one log. Actor and time are those
+   * of the call.
+   */
+  append(event: AuditEvent): Promise<AuditRecord> {
+    const entry: AuditEvent & { actor: string; time: string } = {
+      ...event,
+      actor: event.actor || actorContext.getStore() || this.defaultActor,
+      time: new Date().toISOString()
+    };
+    const record = this.queue.then(() => withFileLock(this.file, () => this.appendLocked(entry)));
+    this.queue = record.catch(() => undefined);
+    return record;
+  }
+
+  /**
+   * Wait until the appends queued so far are done
+   */
+  async flush(): Promise<void> {
+    await this.queue;
+  }
+
+  private appendLocked(event: AuditEvent & { actor: string; time: string }): AuditRecord {
+    const last = lastLine(this.file);
+    let seq = 1;
+    let prev = AUDIT_GENESIS;
+    if (last) {
+      const previous = JSON.parse(last) as AuditRecord;
+      seq = previous.seq + 1;
+      prev = previous.hash;
+    }
+
+    const { action, uid, appId, keyNo, error, details } = event;
+    const body = {
+      seq,
+      time: event.time,
+      actor: event.actor,
+      action,
+      uid,
+      appId,
+      keyNo,
+      outcome: event.outcome || 'ok',
+      error,
+      details,
+      prev
+    };
+    const text = JSON.stringify(body);
+    const record: AuditRecord = { ...body, hash: chainHash(this.hmacKey, prev, text) };
+
+    fs.appendFileSync(this.file, JSON.stringify(record) + '\n', { mode: 0o600 });
+    const head: AuditHead = { seq, hash: record.hash };
+    fs.writeFileSync(`${this.file}.head.tmp`, JSON.stringify(head), { mode: 0o600 });
+    fs.renameSync(`${this.file}.head.tmp`, `${this.file}.head`);
+    return record;
+  }
+
+  /**
+   * Check the chain of a log file, its head and optional anchors
+   * @param anchors Hashes recorded earlier (seq -> hash) that must still be in the log
+   */
+  static verify(file: string, options: { hmacKey?: Buffer; anchors?: AuditHead[] } = {}): AuditVerifyResult {
+    const errors: string[] = [];
+    const lines = fs.readFileSync(file, 'utf8').split('\n');
+    if (lines[lines.length - 1] === '') lines.pop();
+
+    const hashes = new Map<number, string>();
+    let prev = AUDIT_GENESIS;
+    let expectedSeq = 1;
+    lines.forEach((line, index) => {
+      const lineNo = index + 1;
+      let record: AuditRecord;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        errors.push(`line ${lineNo}: not a JSON record`);
+        return;
+      }
+      const { hash, ...body } = record;
+      if (record.seq !== expectedSeq) {
+        errors.push(`line ${lineNo}: sequence ${record.seq}, expected ${expectedSeq} (records missing or reordered)`);
+      }
+      if (record.prev !== prev) {
+        errors.push(`line ${lineNo}: does not chain to the previous record`);
+      }
+      if (chainHash(options.hmacKey, record.prev, JSON.stringify(body)) !== hash) {
+        errors.push(`line ${lineNo}: hash mismatch (record edited${options.hmacKey ? ' or wrong HMAC key' : ''})`);
+      }
+      hashes.set(record.seq, hash);
+      prev = hash;
+      expectedSeq = (typeof record.seq === 'number' ? record.seq : expectedSeq) + 1;
+    });
+
+    let head: AuditHead | null = null;
+    if (fs.existsSync(`${file}.head`)) {
+      head = JSON.parse(fs.readFileSync(`${file}.head`, 'utf8')) as AuditHead;
+      if (hashes.get(head.seq) !== head.hash) {
+        errors.push(`head: record ${head.seq} is not in the log (log truncated or replaced)`);
+      } else if (head.seq !== expectedSeq - 1) {
+        errors.push(`head: log has records after ${head.seq} that were not appended by the audit log`);
+      }
+    } else if (lines.length) {
+      errors.push('head: missing');
+    }
+
+    (options.anchors || []).forEach((anchor) => {
+      if (hashes.get(anchor.seq) !== anchor.hash) {
+        errors.push(`anchor ${anchor.seq}: hash does not match (log truncated or rewritten)`);
+      }
+    });
+
+    return { ok: errors.length === 0, records: lines.length, head, errors };
+  }
+}
+
+let current: AuditLog | null = null;
+
+/**
+ * Set the process-wide audit log (null disables auditing)
+ */
+export function configureAuditLog(log: AuditLog | null): void {
+  current = log;
+}
+
+export function getAuditLog(): AuditLog | null {
+  return current;
+}
+
+/**
+ * Audit log configured from the environment
+ *   AUDIT_LOG_FILE      log path (default ./logs/audit.jsonl); "off" disables the log
+ *   AUDIT_LOG_HMAC_KEY  hex key for HMAC chaining
+ */
+export function auditLogFromEnv(defaultActor?: string): AuditLog | null {
+  const file = process.env.AUDIT_LOG_FILE || './logs/audit.jsonl';
+  if (file === 'off') return null;
+  return new AuditLog(file, { hmacKey: auditHmacKeyFromEnv(), defaultActor });
+}
+
+export function auditHmacKeyFromEnv(): Buffer | undefined {
+  const hex = process.env.AUDIT_LOG_HMAC_KEY;
+  return hex ? Buffer.from(hex.replace(/\s+/g, ''), 'hex') : undefined;
+}
+
+export type AuditFailureHandler = (error: Error, event: AuditEvent) => void;
+
+let failureHandler: AuditFailureHandler = (error, event) => {
+  console.error(`AUDIT LOG FAILURE: ${event.action} was not recorded: ${error.message}`);
+};
+
+/**
+ * Set what happens when a record cannot be written (default: console.error)
+ */
+export function onAuditFailure(handler: AuditFailureHandler): void {
+  failureHandler = handler;
+}
+
+/**
+ * Record an event in the configured audit log (no-op when none is configured)
+ * The record is queued and a write error never fails the caller, whose
+ * operation may already have taken effect (a committed debit); it goes to the
+ * audit failure handler instead. Await the result where an operation must
+ * not go ahead unrecorded.
+ * @returns Whether the record was written
+ */
+export function audit(event: AuditEvent): Promise<boolean> {
+  if (!current) return Promise.resolve(true);
+  return current.append(event).then(
+    () => true,
+    (error) => {
+      failureHandler(error instanceof Error ? error : new Error(String(error)), event);
+      return false;
+    }
+  );
+}
+
+/**
+ * Wait until the queued records are written (before process.exit())
+ */
+export async function flushAuditLog(): Promise<void> {
+  await current?.flush();
+}
+
+/**
+ * Run fn with actor as the default actor of audit events (follows async calls)
+ */
+export function runAsActor<T>(actor: string, fn: () => T): T {
+  return actorContext.run(actor, fn);
+}
+
+/**
+ * Format an application ID the way audit records do
+ */
+export function auditAppId(appId: number): string {
+  return `0x${appId.toString(16).padStart(6, '0')}`;
+}
@@ -10,7 +10,7 @@
  */
 
 import 'dotenv/config';
-import NFCReaderManager from './card/reader';
+import { createReaderManager } from './card/transport';
 import DESFireCard from './card/desfire';
 import KeyManager from './card/keyManager';
 
@@ -30,7 +30,7 @@ async function testAuthentication() {
   // Set master key for encrypted storage (in production, use env variable)
   keyManager.setMasterKey('test-master-password-change-in-production');
 
-  const readerManager = new NFCReaderManager();
+  const readerManager = createReaderManager();
 
   // Wait for reader
   await new Promise<void>((resolve) => {
@@ -221,7 +221,7 @@ async function testAuthentication() {
 
     // Change K0 (Master Key) first
     const newK0 = keyManager.getKey(APP1_SABADO_PAYMENT, 0);
-    await desfireCard.changeKeyEV2(0, newK0, 1); // Version 1
+    await desfireCard.changeKey(0, newK0, undefined, 1); // Version 1
     console.log('✓ K0 changed');
 
     // Re-authenticate with new K0
@@ -230,7 +230,7 @@ async function testAuthentication() {
     // Change other keys
     for (let i = 1; i < 5; i++) {
       const newKey = keyManager.getKey(APP1_SABADO_PAYMENT, i);
-      await desfireCard.changeKeyEV2(i, newKey, 1);
+      await desfireCard.changeKey(i, newKey, defaultKey, 1);
       console.log(`✓ K${i} changed`);
     }
 
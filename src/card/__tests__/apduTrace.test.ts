@@ -0,0 +1,137 @@
+/**
+ * APDU traces: replay of a recorded session (fixtures/plain-value-session.jsonl,
+ * recorded on the card simulator), and recording through RecordingTransport
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  ApduRecorder,
+  ApduTraceRecord,
+  readApduTrace,
+  RecordingTransport,
+  ReplayReaderManager,
+  ReplayTransport
+} from '../apduTrace';
+import DESFireCard from '../desfire';
+import { CardEvent, Transport } from '../transport';
+
+const SESSION = path.join(__dirname, 'fixtures/plain-value-session.jsonl');
+const READER = 'Simulated DESFire EV2 Reader 0';
+const UID = '04a2c91a6b4f80';
+const APP = 0x0000C1;
+
+/**
+ * The recorded session: a blank card gets an application with a free value
+ * file, which is credited 250 and debited 100
+ */
+async function runSession(card: DESFireCard): Promise<{ uid: Buffer; apps: number[]; files: number[]; value: number }> {
+  const { uid } = await card.getVersion();
+  await card.selectApplication(0);
+  await card.getApplicationIDs();
+  await card.createApplication(APP, 0x0F, 1, 0x00);
+  const apps = await card.getApplicationIDs();
+  await card.selectApplication(APP);
+  await card.createValueFile(0, 0x00, Buffer.from([0xEE, 0xEE]), 0, 10000, 0, 0);
+  const files = await card.getFileIDs();
+  await card.credit(0, 250);
+  await card.commitTransaction();
+  await card.debit(0, 100);
+  await card.commitTransaction();
+  return { uid, apps, files, value: await card.getValue(0) };
+}
+
+/** Transport answering 9000 on both paths */
+class EchoTransport implements Transport {
+  readonly reader = { name: 'Echo Reader' };
+  readonly name = 'Echo Reader';
+
+  async transmit(data: Buffer): Promise<Buffer> {
+    return Buffer.concat([data.subarray(0, 1), Buffer.from([0x90, 0x00])]);
+  }
+
+  async escape(data: Buffer): Promise<Buffer> {
+    return Buffer.concat([Buffer.from([0xD5, data[1] + 1]), Buffer.from([0x90, 0x00])]);
+  }
+}
+
+let dir: string;
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'desfire-trace-'));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('replay of a recorded session', () => {
+  test('serves the recorded responses in order', async () => {
+    const reader = ReplayTransport.fromFile(SESSION);
+    expect(reader.name).toBe(READER);
+
+    const result = await runSession(new DESFireCard(reader));
+    expect(result.uid.subarray(0, 7).toString('hex')).toBe(UID);
+    expect(result.apps).toEqual([APP]);
+    expect(result.files).toEqual([0]);
+    expect(result.value).toBe(150);
+    expect(reader.remaining).toBe(0);
+  });
+
+  test('a command that differs from the recording fails with its position', async () => {
+    const card = new DESFireCard(ReplayTransport.fromFile(SESSION));
+    await card.getVersion();
+    await card.selectApplication(0);
+    await expect(card.getFileIDs()).rejects.toThrow(/exchange 5 \(trace seq 10\) expected GET_APPLICATION_IDS .*got GET_FILE_IDS/);
+  });
+
+  test('the reader manager connects each reader with its recorded card', async () => {
+    const manager = new ReplayReaderManager(SESSION);
+    const detected = new Promise<CardEvent>((resolve) => manager.once('card-detected', resolve));
+    const connected = new Promise<Transport>((resolve) => manager.once('reader-connected', resolve));
+
+    expect((await connected).name).toBe(READER);
+    const { reader, card } = await detected;
+    expect(card?.uid).toBe(UID);
+    expect(manager.getReader(READER)).toBe(reader);
+
+    const result = await runSession(new DESFireCard(reader));
+    expect(result.value).toBe(150);
+    manager.close();
+  });
+});
+
+describe('RecordingTransport', () => {
+  test('records transmit and escape exchanges, and they replay on their own path', async () => {
+    const file = path.join(dir, 'trace.jsonl');
+    const transport = new RecordingTransport(new EchoTransport(), new ApduRecorder(file));
+    expect(transport.name).toBe('Echo Reader');
+    expect(transport.activate).toBeUndefined();
+
+    expect(await transport.transmit(Buffer.from('90600000', 'hex'), 256)).toEqual(Buffer.from('909000', 'hex'));
+    expect(await transport.escape!(Buffer.from('d44a0100', 'hex'))).toEqual(Buffer.from('d54b9000', 'hex'));
+
+    const records = readApduTrace(file);
+    expect(records.map((record: ApduTraceRecord) => ('direction' in record ? [record.direction, record.via] : []))).toEqual([
+      ['command', undefined],
+      ['response', undefined],
+      ['command', 'escape'],
+      ['response', 'escape']
+    ]);
+
+    const replay = new ReplayTransport(records);
+    await replay.transmit(Buffer.from('90600000', 'hex'), 256);
+    await expect(replay.transmit(Buffer.from('d44a0100', 'hex'), 256)).rejects.toThrow(/via escape, got ISO_D44A/);
+    expect(await replay.escape!(Buffer.from('d44a0100', 'hex'))).toEqual(Buffer.from('d54b9000', 'hex'));
+    expect(replay.remaining).toBe(0);
+  });
+});
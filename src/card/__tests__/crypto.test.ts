@@ -0,0 +1,87 @@
+/**
+ * Published test vectors for the primitives of the client (crypto.ts) and of
+ * the card simulator (simulatorCrypto.ts), which are implemented separately
+ */
+
+import * as CryptoUtils from '../crypto';
+import * as Spec from '../simulatorCrypto';
+
+interface Primitives {
+  cmac(key: Buffer, data: Buffer): Buffer;
+  crc32(data: Buffer): Buffer;
+  crcA(data: Buffer): Buffer;
+  desEncrypt(key: Buffer, data: Buffer): Buffer;
+  macT(mac: Buffer): Buffer;
+}
+
+const implementations: [string, Primitives][] = [
+  [
+    'crypto.ts',
+    {
+      cmac: (key, data) => CryptoUtils.aesCMAC(key, data),
+      crc32: CryptoUtils.crc32Buffer,
+      crcA: CryptoUtils.crc16Buffer,
+      desEncrypt: (key, data) => CryptoUtils.desEncrypt(key, data),
+      macT: CryptoUtils.truncateMAC
+    }
+  ],
+  [
+    'simulatorCrypto.ts',
+    {
+      cmac: (key, data) => Spec.cmac(key, data),
+      crc32: Spec.crc32,
+      crcA: Spec.crcA,
+      desEncrypt: (key, data) => Spec.tdesCbcEncrypt(key, data),
+      macT: Spec.macT
+    }
+  ]
+];
+
+const hex = (value: string) => Buffer.from(value.replace(/\s+/g, ''), 'hex');
+
+// RFC 4493 section 4
+const CMAC_KEY = hex('2b7e1516 28aed2a6 abf71588 09cf4f3c');
+const CMAC_MESSAGE = hex(
+  '6bc1bee2 2e409f96 e93d7e11 7393172a ae2d8a57 1e03ac9c 9eb76fac 45af8e51' +
+    '30c81c46 a35ce411 e5fbc119 1a0a52ef f69f2445 df4f9b17 ad2b417b e66c3710'
+);
+const CMAC_VECTORS: [number, string][] = [
+  [0, 'bb1d6929 e9593728 7fa37d12 9b756746'],
+  [16, '070a16b4 6b4d4144 f79bdd9d d04a287c'],
+  [40, 'dfa66747 de9ae630 30ca3261 1497c827'],
+  [64, '51f0bebf 7e3b9d92 fc497417 79363cfe']
+];
+
+describe.each(implementations)('%s', (_name, primitives) => {
+  test.each(CMAC_VECTORS)('AES-CMAC of %i bytes (RFC 4493)', (length, mac) => {
+    expect(primitives.cmac(CMAC_KEY, CMAC_MESSAGE.subarray(0, length))).toEqual(hex(mac));
+  });
+
+  test('CRC32 is the IEEE 802.3 CRC without the final complement, LSB first', () => {
+    // Check value of CRC-32 over "123456789" is 0xCBF43926; uncomplemented 0x340BC6D9
+    expect(primitives.crc32(Buffer.from('123456789'))).toEqual(hex('d9c60b34'));
+  });
+
+  test('CRC-A (ISO/IEC 14443-3 annex B), LSB first', () => {
+    expect(primitives.crcA(hex('0000'))).toEqual(hex('a01e'));
+    expect(primitives.crcA(hex('1234'))).toEqual(hex('26cf'));
+    expect(primitives.crcA(Buffer.from('123456789'))).toEqual(hex('05bf'));
+  });
+
+  test('single DES as K1 == K2', () => {
+    expect(primitives.desEncrypt(hex('133457799bbcdff1'), hex('0123456789abcdef'))).toEqual(hex('85e813540f0ab405'));
+  });
+
+  test('EV2 MACt keeps S14, S12, ..., S0', () => {
+    expect(primitives.macT(hex('000102030405060708090a0b0c0d0e0f'))).toEqual(hex('01030507090b0d0f'));
+  });
+});
+
+describe('simulator padding', () => {
+  test('ISO/IEC 9797-1 method 2 always adds a pad', () => {
+    expect(Spec.isoPad(hex('01'), 16)).toEqual(hex('0180000000000000 0000000000000000'));
+    expect(Spec.isoPad(Buffer.alloc(16, 0x11), 16).subarray(16)).toEqual(hex('8000000000000000 0000000000000000'));
+    expect(Spec.isoUnpad(hex('01800000'))).toEqual(hex('01'));
+    expect(Spec.isoUnpad(hex('01000000'))).toBeNull();
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * AN10922 key diversification against the examples of the application note,
+ * and through KeyManager for diversified key sets
+ */
+
+import {
+  diversificationInput,
+  diversify2K3DES,
+  diversify3K3DES,
+  diversifyAES128,
+  diversifyKey
+} from '../diversification';
+import KeyManager from '../keyManager';
+
+const hex = (value: string) => Buffer.from(value.replace(/\s+/g, ''), 'hex');
+
+// AN10922 examples: UID 04782E21801D80, AID 3042F5 (as sent), system identifier "NXP Abu"
+const UID = hex('04782E21801D80');
+const AID = 0xF54230;
+const SYSTEM_IDENTIFIER = Buffer.from('NXP Abu');
+const MASTER_16 = hex('00112233445566778899AABBCCDDEEFF');
+const MASTER_24 = hex('00112233445566778899AABBCCDDEEFF0102030405060708');
+
+describe('AN10922 examples', () => {
+  test('AES-128', () => {
+    const m = hex('04782E21801D80 3042F5 4E585020416275');
+    expect(diversifyAES128(MASTER_16, m)).toEqual(hex('A8DD63A3B89D54B37CA802473FDA9175'));
+  });
+
+  test('2K3DES', () => {
+    const m = hex('04782E21801D80 3042F5 4E58502041');
+    expect(diversify2K3DES(MASTER_16, m)).toEqual(hex('16F9587D9E8910C96B9648D006107DD7'));
+  });
+
+  test('3K3DES', () => {
+    const m = hex('04782E21801D80 3042F5 4E5850');
+    expect(diversify3K3DES(MASTER_24, m)).toEqual(hex('2E0DD03774D3FA9B5705AB0BDA91CA0B55B8E07FCDBF10EC'));
+  });
+
+  test('the input is UID || AID (LSB first) || system identifier', () => {
+    expect(diversificationInput(UID, AID, SYSTEM_IDENTIFIER)).toEqual(hex('04782E21801D80 3042F5 4E585020416275'));
+    expect(diversificationInput(UID, AID)).toEqual(hex('04782E21801D80 3042F5'));
+  });
+});
+
+describe('DES key versions', () => {
+  test('a diversified DES key carries the key version of the master key', () => {
+    const m = hex('04782E21801D80 3042F5');
+    const master = Buffer.from(MASTER_16);
+    for (let i = 0; i < 8; i++) master[i] &= 0xFE; // version 0
+    const key = diversify2K3DES(master, m);
+
+    expect(Array.from(key.subarray(0, 8), (b) => b & 0x01)).toEqual([0, 0, 0, 0, 0, 0, 0, 0]);
+    // Parity bits do not take part in DES: the rest of the key is unchanged
+    const versioned = diversify2K3DES(MASTER_16, m);
+    expect(Array.from(key, (b) => b & 0xFE)).toEqual(Array.from(versioned, (b) => b & 0xFE));
+    expect(key.subarray(8)).toEqual(versioned.subarray(8));
+  });
+});
+
+describe('input checks', () => {
+  test('master key lengths', () => {
+    const m = hex('01');
+    expect(() => diversifyAES128(MASTER_24, m)).toThrow('AES master key must be 16 bytes');
+    expect(() => diversify2K3DES(MASTER_24, m)).toThrow('2K3DES master key must be 16 bytes');
+    expect(() => diversify3K3DES(MASTER_16, m)).toThrow('3K3DES master key must be 24 bytes');
+  });
+
+  test('diversification input lengths', () => {
+    expect(() => diversifyAES128(MASTER_16, Buffer.alloc(0))).toThrow('must be 1-31 bytes, got 0');
+    expect(() => diversifyAES128(MASTER_16, Buffer.alloc(32))).toThrow('must be 1-31 bytes, got 32');
+    expect(() => diversify2K3DES(MASTER_16, Buffer.alloc(16))).toThrow('must be 1-15 bytes, got 16');
+    expect(() => diversify3K3DES(MASTER_24, Buffer.alloc(16))).toThrow('must be 1-15 bytes, got 16');
+  });
+});
+
+describe('KeyManager with a diversified key set', () => {
+  let keyManager: KeyManager;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    keyManager = new KeyManager();
+    keyManager.setKey(AID, 0, MASTER_16, 0, 'AES');
+    keyManager.setDiversification(AID, SYSTEM_IDENTIFIER);
+  });
+
+  test('getKey derives the card key from the UID', () => {
+    expect(keyManager.getKey(AID, 0, UID)).toEqual(hex('A8DD63A3B89D54B37CA802473FDA9175'));
+    expect(keyManager.getKey(AID, 0, hex('04000000000000'))).toEqual(
+      diversifyKey(MASTER_16, 'AES', diversificationInput(hex('04000000000000'), AID, SYSTEM_IDENTIFIER))
+    );
+  });
+
+  test('getKey without a UID fails', () => {
+    expect(() => keyManager.getKey(AID, 0)).toThrow('is diversified; card UID required');
+  });
+
+  test('clearing the diversification returns the stored key', () => {
+    keyManager.setDiversification(AID, null);
+    expect(keyManager.getKey(AID, 0, UID)).toEqual(MASTER_16);
+  });
+});
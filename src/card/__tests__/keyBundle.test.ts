@@ -0,0 +1,222 @@
+/**
+ * Key bundles: sealing and opening with both transports, tamper detection,
+ * and key set export and import through KeyManager
+ */
+
+import crypto from 'crypto';
+import {
+  KEY_BUNDLE_FORMAT,
+  KEY_BUNDLE_VERSION,
+  KeyBundle,
+  KeyBundleEntry,
+  keyFingerprint,
+  openKeyBundle,
+  parseKeyBundle,
+  sealKeyBundle,
+  transportKeyId
+} from '../keyBundle';
+import KeyManager from '../keyManager';
+
+const APP = 0x0000B2;
+const TRANSPORT_KEY = Buffer.alloc(32, 0x5A);
+const ENTRIES: KeyBundleEntry[] = [
+  { appId: '0x0000b2', keyType: 'AES', diversified: false, keys: [{ keyNo: 0, version: 1, kcv: 'ABCDEF' }] }
+];
+const PAYLOAD = { keySets: [{ appId: APP, keys: ['00112233445566778899aabbccddeeff'] }] };
+
+const signing = crypto.generateKeyPairSync('ed25519');
+const recipient = crypto.generateKeyPairSync('x25519');
+
+/** Canonical JSON as signed by sealKeyBundle (object keys sorted) */
+function canonicalJSON(value: any): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJSON).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map((k) => `${JSON.stringify(k)}:${canonicalJSON(value[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/** Sign a bundle again after changing it, as a compromised but trusted signer would */
+function resign(bundle: Omit<KeyBundle, 'signature'>, key = signing.privateKey): string {
+  const { signature: _signature, ...unsigned } = bundle as KeyBundle;
+  const signature = crypto.sign(null, Buffer.from(canonicalJSON(unsigned)), key).toString('base64');
+  return JSON.stringify({ ...unsigned, signature });
+}
+
+function sealed(): string {
+  return sealKeyBundle(ENTRIES, PAYLOAD, { scheme: 'aes-kw', transportKey: TRANSPORT_KEY }, signing.privateKey);
+}
+
+const openOptions = { trustedSigners: [signing.publicKey], transportKey: TRANSPORT_KEY };
+
+describe('seal and open', () => {
+  test('a bundle under a shared transport key', () => {
+    const text = sealed();
+    const { header, payload } = openKeyBundle(text, openOptions);
+    expect(payload).toEqual(PAYLOAD);
+    expect(header.keySets).toEqual(ENTRIES);
+    expect(header.signer).toBe(keyFingerprint(signing.publicKey));
+    expect(header.transport).toEqual({ scheme: 'aes-kw', keyId: transportKeyId(TRANSPORT_KEY) });
+  });
+
+  test('the metadata is readable without the transport key, the keys are not', () => {
+    const text = sealed();
+    const bundle = parseKeyBundle(text);
+    expect(bundle.keySets).toEqual(ENTRIES);
+    expect(text).not.toContain('00112233445566778899aabbccddeeff');
+  });
+
+  test('a bundle for an X25519 recipient', () => {
+    const text = sealKeyBundle(ENTRIES, PAYLOAD, { scheme: 'x25519', recipientPublicKey: recipient.publicKey }, signing.privateKey);
+    const { header, payload } = openKeyBundle(text, { trustedSigners: [signing.publicKey], recipientPrivateKey: recipient.privateKey });
+    expect(payload).toEqual(PAYLOAD);
+    expect(header.transport).toMatchObject({ scheme: 'x25519', recipient: keyFingerprint(recipient.publicKey) });
+
+    const other = crypto.generateKeyPairSync('x25519');
+    expect(() => openKeyBundle(text, { trustedSigners: [signing.publicKey], recipientPrivateKey: other.privateKey })).toThrow(
+      `Key bundle is addressed to recipient key ${keyFingerprint(recipient.publicKey)}`
+    );
+  });
+
+  test('a bundle wrapped by another implementation opens (RFC 3394 4.6 key wrap vector)', () => {
+    const kek = Buffer.from('000102030405060708090A0B0C0D0E0F101112131415161718191A1B1C1D1E1F', 'hex');
+    const contentKey = Buffer.from('00112233445566778899AABBCCDDEEFF000102030405060708090A0B0C0D0E0F', 'hex');
+    const wrappedKey = '28c9f404c4b810f4cbccb35cfb87f8263f5786e2d80ed326cbc7f0e71a99f43bfb988b9b7a02dd21';
+    const header = {
+      format: KEY_BUNDLE_FORMAT,
+      version: KEY_BUNDLE_VERSION,
+      createdAt: '2024-01-01T00:00:00.000Z',
+      signer: keyFingerprint(signing.publicKey),
+      transport: { scheme: 'aes-kw' as const, keyId: transportKeyId(kek) },
+      keySets: ENTRIES
+    };
+    const iv = Buffer.alloc(12, 0x01);
+    const cipher = crypto.createCipheriv('aes-256-gcm', contentKey, iv);
+    cipher.setAAD(Buffer.from(canonicalJSON(header)));
+    const ciphertext = Buffer.concat([cipher.update(JSON.stringify(PAYLOAD)), cipher.final()]);
+    const text = resign({
+      ...header,
+      wrappedKey,
+      iv: iv.toString('hex'),
+      authTag: cipher.getAuthTag().toString('hex'),
+      ciphertext: ciphertext.toString('base64')
+    });
+
+    expect(openKeyBundle(text, { trustedSigners: [signing.publicKey], transportKey: kek }).payload).toEqual(PAYLOAD);
+  });
+
+  test('sealing needs an Ed25519 private key and a 32-byte transport key', () => {
+    expect(() => sealKeyBundle(ENTRIES, PAYLOAD, { scheme: 'aes-kw', transportKey: TRANSPORT_KEY }, signing.publicKey)).toThrow(
+      'Key bundles are signed with an Ed25519 private key'
+    );
+    expect(() => sealKeyBundle(ENTRIES, PAYLOAD, { scheme: 'aes-kw', transportKey: Buffer.alloc(16) }, signing.privateKey)).toThrow(
+      'Transport key must be 32 bytes'
+    );
+  });
+});
+
+describe('tamper detection', () => {
+  test('changed metadata breaks the signature', () => {
+    const bundle = JSON.parse(sealed());
+    bundle.keySets[0].keys[0].kcv = '123456';
+    expect(() => openKeyBundle(JSON.stringify(bundle), openOptions)).toThrow('Key bundle signature is invalid');
+  });
+
+  test('a changed ciphertext breaks the signature', () => {
+    const bundle = JSON.parse(sealed());
+    const ciphertext = Buffer.from(bundle.ciphertext, 'base64');
+    ciphertext[0] ^= 0x01;
+    bundle.ciphertext = ciphertext.toString('base64');
+    expect(() => openKeyBundle(JSON.stringify(bundle), openOptions)).toThrow('Key bundle signature is invalid');
+  });
+
+  test('re-signed changes still fail decryption: the metadata is authenticated with the payload', () => {
+    const metadata = JSON.parse(sealed());
+    metadata.keySets[0].keys[0].version = 2;
+    expect(() => openKeyBundle(resign(metadata), openOptions)).toThrow('Cannot decrypt key bundle');
+
+    const payload = JSON.parse(sealed());
+    const ciphertext = Buffer.from(payload.ciphertext, 'base64');
+    ciphertext[0] ^= 0x01;
+    payload.ciphertext = ciphertext.toString('base64');
+    expect(() => openKeyBundle(resign(payload), openOptions)).toThrow('Cannot decrypt key bundle');
+  });
+
+  test('a bundle from an untrusted signer is refused', () => {
+    const other = crypto.generateKeyPairSync('ed25519');
+    const bundle = JSON.parse(sealed());
+    bundle.signer = keyFingerprint(other.publicKey);
+    const text = resign(bundle, other.privateKey);
+    expect(() => openKeyBundle(text, openOptions)).toThrow(`Key bundle signed by untrusted key ${keyFingerprint(other.publicKey)}`);
+    // The signer is part of the authenticated metadata as well
+    expect(() => openKeyBundle(text, { ...openOptions, trustedSigners: [other.publicKey] })).toThrow('Cannot decrypt key bundle');
+  });
+
+  test('a missing or different transport key is refused', () => {
+    const text = sealed();
+    expect(() => openKeyBundle(text, { trustedSigners: [signing.publicKey] })).toThrow(
+      'Key bundle is wrapped under a transport key; none given'
+    );
+    expect(() => openKeyBundle(text, { ...openOptions, transportKey: Buffer.alloc(32, 0xA5) })).toThrow(
+      `Key bundle is wrapped under transport key ${transportKeyId(TRANSPORT_KEY)}, not the one given`
+    );
+  });
+
+  test('other formats and versions are refused', () => {
+    expect(() => parseKeyBundle('{')).toThrow('Not a key bundle (invalid JSON)');
+    expect(() => parseKeyBundle(JSON.stringify({ format: 'other' }))).toThrow('Not a key bundle');
+    expect(() => parseKeyBundle(JSON.stringify({ ...JSON.parse(sealed()), version: 2 }))).toThrow(
+      'Unsupported key bundle version 2'
+    );
+  });
+});
+
+describe('KeyManager export and import', () => {
+  let source: KeyManager;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    source = new KeyManager();
+    source.generateKeySet(APP, 3, 'AES');
+    source.setKey(APP, 1, Buffer.alloc(16, 0x11), 4);
+  });
+
+  test('imported key sets have the keys, versions and KCVs of the exported ones', () => {
+    const text = source.exportKeySet(APP, { scheme: 'aes-kw', transportKey: TRANSPORT_KEY }, signing.privateKey);
+    const target = new KeyManager();
+    expect(target.importKeySet(text, openOptions)).toEqual([APP]);
+    for (const keyNo of [0, 1, 2]) {
+      expect(target.getKey(APP, keyNo)).toEqual(source.getKey(APP, keyNo));
+      expect(target.getKeyCheckValue(APP, keyNo)).toBe(source.getKeyCheckValue(APP, keyNo));
+    }
+    expect(target.getKeySet(APP)!.keyVersions.get(1)).toBe(4);
+  });
+
+  test('a bundle from an untrusted signer imports nothing', () => {
+    const text = source.exportKeySet(APP, { scheme: 'aes-kw', transportKey: TRANSPORT_KEY }, signing.privateKey);
+    const target = new KeyManager();
+    expect(() => target.importKeySet(text, { trustedSigners: [] })).toThrow('untrusted key');
+    expect(target.listKeySets()).toEqual([]);
+  });
+
+  test('a bundle sealed with KCVs that do not match its keys is refused', () => {
+    const text = source.exportKeySet(APP, { scheme: 'aes-kw', transportKey: TRANSPORT_KEY }, signing.privateKey);
+    const { header, payload } = openKeyBundle(text, openOptions);
+    const entries = JSON.parse(JSON.stringify(header.keySets));
+    entries[0].keys[1].kcv = '000000';
+    const forged = sealKeyBundle(entries, payload, { scheme: 'aes-kw', transportKey: TRANSPORT_KEY }, signing.privateKey);
+
+    const target = new KeyManager();
+    expect(() => target.importKeySet(forged, openOptions)).toThrow(
+      'Key check values of key set 0x0000b2 do not match the bundle metadata'
+    );
+    expect(target.listKeySets()).toEqual([]);
+  });
+});
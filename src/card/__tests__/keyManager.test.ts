@@ -0,0 +1,123 @@
+/**
+ * KeyManager: entering keys by hand, and master key rotation including the
+ * rollback of a rotation that fails half-way
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import KeyManager from '../keyManager';
+import { FileKeyStore } from '../keyStore';
+
+const APP = 0x0000B1;
+const RECORD = 'app_0000b1';
+const OLD_MASTER = Buffer.alloc(32, 0x11);
+const NEW_MASTER = Buffer.alloc(32, 0x22);
+const hex = (value: string) => Buffer.from(value, 'hex');
+
+/** File store whose next write of one record fails */
+class FailingKeyStore extends FileKeyStore {
+  failNext: string | null = null;
+
+  write(name: string, data: string): void {
+    if (name === this.failNext) {
+      this.failNext = null;
+      throw new Error('No space left on device');
+    }
+    super.write(name, data);
+  }
+}
+
+let dir: string;
+let keyManager: KeyManager;
+
+/** A store under OLD_MASTER with one saved key set */
+function savedStore(): { store: FailingKeyStore; manager: KeyManager; keys: Buffer[] } {
+  const store = new FailingKeyStore(dir);
+  const manager = new KeyManager(store);
+  manager.setMasterKey(OLD_MASTER);
+  const keySet = manager.generateKeySet(APP, 3, 'AES');
+  manager.saveKeySet(APP);
+  return { store, manager, keys: [0, 1, 2].map((keyNo) => keySet.keys.get(keyNo)!) };
+}
+
+/** Key set of the store as a fresh process opening it with masterKey sees it */
+function reopen(masterKey: Buffer): Buffer[] {
+  const manager = new KeyManager(new FileKeyStore(dir));
+  manager.setMasterKey(masterKey);
+  const keySet = manager.loadKeySet(APP);
+  return [0, 1, 2].map((keyNo) => keySet.keys.get(keyNo)!);
+}
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'desfire-keys-'));
+  keyManager = new KeyManager(new FileKeyStore(dir));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('setKey', () => {
+  test('a single DES key is stored as K1 || K1', () => {
+    // DES(0123456789abcdef, 00..00) = d5d44ff720683d0d
+    keyManager.setKey(APP, 1, hex('0123456789abcdef'), 0, 'DES', 'D5D44F');
+    expect(keyManager.getKey(APP, 1)).toEqual(hex('0123456789abcdef0123456789abcdef'));
+    expect(keyManager.getKeyCheckValue(APP, 1)).toBe('D5D44F');
+  });
+
+  test('key lengths are checked for the key type', () => {
+    expect(() => keyManager.setKey(APP, 1, Buffer.alloc(12), 0, 'DES')).toThrow('DES key must be 8 or 16 bytes');
+    expect(() => keyManager.setKey(APP, 1, Buffer.alloc(8), 0, 'AES')).toThrow('AES key must be exactly 16 bytes');
+    expect(() => keyManager.setKey(APP, 1, Buffer.alloc(16), 0, '3DES')).toThrow('3DES key must be exactly 24 bytes');
+  });
+
+  test('a key check value that does not match is refused', () => {
+    expect(() => keyManager.setKey(APP, 1, hex('0123456789abcdef'), 0, 'DES', '000000')).toThrow(/Key check value mismatch/);
+  });
+});
+
+describe('rotateMasterKey', () => {
+  test('re-encrypts the records and leaves no backup behind', () => {
+    const { store, manager, keys } = savedStore();
+
+    expect(manager.rotateMasterKey(NEW_MASTER).records).toEqual([RECORD]);
+    expect(reopen(NEW_MASTER)).toEqual(keys);
+    expect(() => reopen(OLD_MASTER)).toThrow(/Wrong keystore master key/);
+    expect(store.list()).toEqual(['app_0000b1', 'keystore']);
+  });
+
+  test('a failure while staging changes nothing', () => {
+    const { store, manager, keys } = savedStore();
+    store.failNext = `staged-${RECORD}`;
+
+    expect(() => manager.rotateMasterKey(NEW_MASTER)).toThrow(/aborted, nothing changed: No space left/);
+    expect(reopen(OLD_MASTER)).toEqual(keys);
+    expect(store.list()).toEqual(['app_0000b1', 'keystore']);
+  });
+
+  test('a failure while swapping restores the backup', () => {
+    const { store, manager, keys } = savedStore();
+    // The new header is already written when the record write fails
+    store.failNext = RECORD;
+
+    expect(() => manager.rotateMasterKey(NEW_MASTER)).toThrow(/rolled back \(backup backup-\w+-\*\): No space left/);
+    expect(reopen(OLD_MASTER)).toEqual(keys);
+    expect(() => reopen(NEW_MASTER)).toThrow(/Wrong keystore master key/);
+    expect(store.list().filter((name) => name.startsWith('staged-'))).toEqual([]);
+    expect(store.list().filter((name) => name.startsWith('backup-'))).toHaveLength(2);
+
+    // The manager still works with the old key
+    expect(manager.hasMasterKey()).toBe(true);
+    manager.saveKeySet(APP);
+    expect(reopen(OLD_MASTER)).toEqual(keys);
+  });
+});
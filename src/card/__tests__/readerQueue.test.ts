@@ -0,0 +1,196 @@
+/**
+ * Reader command queue: exclusive operations, nesting, timeouts and
+ * cancellation when the card is removed
+ */
+
+import { ReaderQueue, readerQueue, throwIfAborted } from '../readerQueue';
+
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** A promise settled from outside */
+function gate(): { promise: Promise<void>; open: () => void } {
+  let open!: () => void;
+  const promise = new Promise<void>((resolve) => (open = resolve));
+  return { promise, open };
+}
+
+describe('exclusive operations', () => {
+  test('operations on one reader run one after the other', async () => {
+    const queue = new ReaderQueue('Reader', 0);
+    const events: string[] = [];
+    const step = (label: string) => async () => {
+      events.push(`${label} start`);
+      await sleep(5);
+      events.push(`${label} end`);
+      return label;
+    };
+
+    expect(await Promise.all([queue.run('a', step('a')), queue.run('b', step('b')), queue.run('c', step('c'))])).toEqual(['a', 'b', 'c']);
+    expect(events).toEqual(['a start', 'a end', 'b start', 'b end', 'c start', 'c end']);
+    await tick();
+    expect(queue.size).toBe(0);
+  });
+
+  test('a failed operation hands the reader on', async () => {
+    const queue = new ReaderQueue('Reader', 0);
+    const failed = queue.run('a', async () => {
+      throw new Error('card error');
+    });
+    const next = queue.run('b', async () => 'b');
+    await expect(failed).rejects.toThrow('card error');
+    await expect(next).resolves.toBe('b');
+  });
+
+  test('operations started inside an operation run as part of it, one at a time', async () => {
+    const queue = new ReaderQueue('Reader', 0);
+    const events: string[] = [];
+    const started = gate();
+
+    const outer = queue.run('request', async () => {
+      started.open();
+      await tick();
+      await Promise.all(
+        ['select', 'debit'].map((label) =>
+          queue.run(label, async () => {
+            events.push(`${label} start`);
+            await sleep(5);
+            events.push(`${label} end`);
+          })
+        )
+      );
+      events.push('request end');
+    });
+
+    // An operation of another flow waits for the whole request
+    await started.promise;
+    const detection = queue.run('detection', async () => {
+      events.push('detection');
+    });
+    await Promise.all([outer, detection]);
+    expect(events).toEqual(['select start', 'select end', 'debit start', 'debit end', 'request end', 'detection']);
+  });
+
+  test('readers have a queue each, named after the reader', () => {
+    const reader = { reader: { name: 'ACS ACR122U 00 00' } };
+    expect(readerQueue(reader)).toBe(readerQueue(reader));
+    expect(readerQueue(reader).name).toBe('ACS ACR122U 00 00');
+    expect(readerQueue({ name: 'Simulated Reader' }).name).toBe('Simulated Reader');
+    expect(readerQueue({ reader })).not.toBe(readerQueue(reader));
+  });
+});
+
+describe('timeouts', () => {
+  test('an operation running past its time limit fails, the next one waits until it has stopped', async () => {
+    const queue = new ReaderQueue('Reader', 20);
+    const slow = gate();
+    const events: string[] = [];
+
+    const running = queue.run('debit', async () => {
+      await slow.promise;
+      events.push('debit stopped');
+    });
+    const next = queue.run('status', async () => {
+      events.push('status');
+    }, { timeoutMs: 0 });
+
+    await expect(running).rejects.toThrow('Reader: debit timed out after 20 ms');
+    await tick();
+    expect(events).toEqual([]);
+    slow.open();
+    await next;
+    expect(events).toEqual(['debit stopped', 'status']);
+  });
+
+  test('the time limit includes the wait for the reader', async () => {
+    const queue = new ReaderQueue('Reader', 0);
+    const busy = gate();
+    const ran = jest.fn();
+
+    const holder = queue.run('format', () => busy.promise);
+    const waiting = queue.run('debit', async () => ran(), { timeoutMs: 20 });
+
+    await expect(waiting).rejects.toThrow('Reader: debit timed out after 20 ms');
+    busy.open();
+    await holder;
+    await tick();
+    expect(ran).not.toHaveBeenCalled();
+    expect(queue.size).toBe(0);
+  });
+
+  test('a timed out operation stops at its next command', async () => {
+    const queue = new ReaderQueue('Reader', 20);
+    const commands: number[] = [];
+
+    const operation = queue.run('read records', async () => {
+      for (let i = 0; i < 10; i++) {
+        throwIfAborted(); // before each APDU
+        commands.push(i);
+        await sleep(8);
+      }
+    });
+
+    await expect(operation).rejects.toThrow('timed out after 20 ms');
+    await sleep(30);
+    expect(commands.length).toBeGreaterThan(0);
+    expect(commands.length).toBeLessThan(10);
+    expect(queue.size).toBe(0);
+  });
+});
+
+describe('cancel', () => {
+  test('rejects the running and waiting operations, not later ones', async () => {
+    const queue = new ReaderQueue('Reader', 0);
+    const running = gate();
+    const started = gate();
+    const ran = jest.fn();
+
+    const first = queue.run('debit', async () => {
+      started.open();
+      await running.promise;
+    });
+    const second = queue.run('history', async () => ran());
+    await started.promise;
+
+    expect(queue.cancel('card removed')).toBe(2);
+    await expect(first).rejects.toThrow('Reader: debit cancelled: card removed');
+    await expect(second).rejects.toThrow('Reader: history cancelled: card removed');
+
+    // The cancelled debit keeps the reader until its function has settled;
+    // the cancelled history leaves the queue when its turn comes
+    const later = queue.run('status', async () => 'ok');
+    await tick();
+    expect(queue.size).toBe(3);
+    running.open();
+    await expect(later).resolves.toBe('ok');
+    expect(ran).not.toHaveBeenCalled();
+    await tick();
+    expect(queue.size).toBe(0);
+  });
+
+  test('operations nested in a cancelled one are refused', async () => {
+    const queue = new ReaderQueue('Reader', 0);
+    const started = gate();
+    const resume = gate();
+    let nested: Promise<string> | null = null;
+
+    const outer = queue.run('request', async () => {
+      started.open();
+      await resume.promise;
+      nested = queue.run('debit', async () => 'debited');
+      return nested;
+    });
+    await started.promise;
+    queue.cancel('card removed');
+    resume.open();
+
+    await expect(outer).rejects.toThrow('request cancelled: card removed');
+    await tick();
+    await expect(nested!).rejects.toThrow('request cancelled: card removed');
+  });
+
+  test('a queue without operations has nothing to cancel', () => {
+    expect(new ReaderQueue('Reader', 0).cancel('card removed')).toBe(0);
+    expect(() => throwIfAborted()).not.toThrow();
+  });
+});
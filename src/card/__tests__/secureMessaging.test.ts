@@ -0,0 +1,379 @@
+/**
+ * Secure messaging on the wire
+ * DESFireCard talks to the simulator through a tap; every exchange is
+ * compared byte for byte with the one built here from the DESFire formulas
+ * (session keys from the randoms of the recorded authentication, CMAC/MACt,
+ * CRCs, IVs and padding). The primitives come from simulatorCrypto.ts, which
+ * crypto.test.ts checks against published vectors.
+ */
+
+import DESFireCard, { CommMode, DesfireCommand } from '../desfire';
+import { encodeAccessRights } from '../fileSettings';
+import { SimulatedCard } from '../simulator';
+import * as Spec from '../simulatorCrypto';
+import { Transport } from '../transport';
+
+type Scheme = 'DES' | 'AES' | 'EV2';
+
+interface Exchange {
+  command: Buffer;
+  response: Buffer;
+}
+
+const EMPTY = Buffer.alloc(0);
+const OK = Buffer.from([0x91, 0x00]);
+const AID = 0x0000A1;
+const VALUE_FILE = 1;
+const RECORD_FILE = 2;
+
+class WireTap implements Transport {
+  readonly reader = { name: 'Wire Tap' };
+  private exchanges: Exchange[] = [];
+
+  constructor(private card: SimulatedCard) {}
+
+  async transmit(data: Buffer, _responseLength: number): Promise<Buffer> {
+    const response = this.card.transmit(data);
+    this.exchanges.push({ command: Buffer.from(data), response: Buffer.from(response) });
+    return response;
+  }
+
+  /** Exchanges since the last call */
+  take(): Exchange[] {
+    const taken = this.exchanges;
+    this.exchanges = [];
+    return taken;
+  }
+}
+
+/**
+ * INS and data field of a native command APDU (90 INS 00 00 [Lc data] [Le])
+ */
+function nativeCommand(apdu: Buffer): { ins: number; data: Buffer } {
+  expect(apdu[0]).toBe(0x90);
+  return { ins: apdu[1], data: apdu.length > 5 ? apdu.subarray(5, 5 + apdu[4]) : EMPTY };
+}
+
+function responseData(response: Buffer): Buffer {
+  return response.subarray(0, response.length - 2);
+}
+
+function le32(value: number): Buffer {
+  const out = Buffer.alloc(4);
+  out.writeInt32LE(value, 0);
+  return out;
+}
+
+function counter(ctr: number): Buffer {
+  const out = Buffer.alloc(2);
+  out.writeUInt16LE(ctr, 0);
+  return out;
+}
+
+/**
+ * Expected wire format of a session, from the DESFire documentation
+ */
+class SpecSession {
+  private iv: Buffer = Buffer.alloc(16, 0x00);
+  private ctr = 0;
+
+  constructor(
+    readonly scheme: Scheme,
+    private keyEnc: Buffer,
+    private keyMac: Buffer,
+    private ti: Buffer = EMPTY
+  ) {}
+
+  /**
+   * Session of an authentication, checked step by step
+   *   legacy  E(K, RndB); PCD: D(K, RndA) || D(K, RndB' XOR D(K, RndA)); E(K, RndA')
+   *   EV1     E(K, RndB); E(K, RndA || RndB') with IV E(K, RndB); E(K, RndA') with
+   *           IV the last block of the PCD cryptogram
+   *   EV2     as EV1 with zero IVs; the card answers E(K, TI || RndA' || caps)
+   */
+  static fromAuthentication(scheme: Scheme, key: Buffer, [first, second]: Exchange[]): SpecSession {
+    const encRndB = responseData(first.response);
+    const pcd = nativeCommand(second.command).data;
+    const picc = responseData(second.response);
+
+    if (scheme === 'DES') {
+      const rndB = Spec.tdesCbcDecrypt(key, encRndB);
+      const rndA = Spec.tdesCbcEncrypt(key, pcd.subarray(0, 8));
+      expect(Spec.xor(Spec.tdesCbcEncrypt(key, pcd.subarray(8, 16)), pcd.subarray(0, 8))).toEqual(Spec.rotl(rndB));
+      expect(Spec.tdesCbcDecrypt(key, picc)).toEqual(Spec.rotl(rndA));
+      const half = Buffer.concat([rndA.subarray(0, 4), rndB.subarray(0, 4)]);
+      const singleDes = key.subarray(0, 8).equals(key.subarray(8, 16));
+      const sessionKey = Buffer.concat([half, singleDes ? half : Buffer.concat([rndA.subarray(4, 8), rndB.subarray(4, 8)])]);
+      return new SpecSession(scheme, sessionKey, sessionKey);
+    }
+
+    const ev1 = scheme === 'AES';
+    const rndB = Spec.aesCbcDecrypt(key, encRndB);
+    const challenge = Spec.aesCbcDecrypt(key, pcd, ev1 ? encRndB : undefined);
+    const rndA = challenge.subarray(0, 16);
+    expect(challenge.subarray(16)).toEqual(Spec.rotl(rndB));
+    const answer = Spec.aesCbcDecrypt(key, picc, ev1 ? pcd.subarray(16) : undefined);
+
+    if (ev1) {
+      expect(answer).toEqual(Spec.rotl(rndA));
+      const sessionKey = Buffer.concat([rndA.subarray(0, 4), rndB.subarray(0, 4), rndA.subarray(12, 16), rndB.subarray(12, 16)]);
+      return new SpecSession(scheme, sessionKey, sessionKey);
+    }
+
+    expect(nativeCommand(first.command).data.subarray(1)).toEqual(Buffer.from([0x00]));
+    expect(answer.subarray(4, 20)).toEqual(Spec.rotl(rndA));
+    const context = Buffer.concat([
+      Buffer.from([0x00, 0x01, 0x00, 0x80]),
+      rndA.subarray(0, 2),
+      Spec.xor(rndA.subarray(2, 8), rndB.subarray(0, 6)),
+      rndB.subarray(6, 16),
+      rndA.subarray(8, 16)
+    ]);
+    const enc = Spec.cmac(key, Buffer.concat([Buffer.from([0xA5, 0x5A]), context]));
+    const mac = Spec.cmac(key, Buffer.concat([Buffer.from([0x5A, 0xA5]), context]));
+    return new SpecSession(scheme, enc, mac, answer.subarray(0, 4));
+  }
+
+  /**
+   * Data field of a command
+   */
+  command(cmd: number, header: Buffer, body: Buffer, mode: CommMode): Buffer {
+    if (this.scheme === 'EV2') {
+      if (mode === CommMode.PLAIN) return Buffer.concat([header, body]);
+      const data = mode === CommMode.FULL && body.length ? this.ev2Encrypt([0xA5, 0x5A], body) : body;
+      return Buffer.concat([header, data, this.ev2Mac([cmd], header, data)]);
+    }
+
+    if (this.scheme === 'AES') {
+      const input = Buffer.concat([Buffer.from([cmd]), header, body]);
+      if (mode === CommMode.FULL && body.length) {
+        return Buffer.concat([header, this.ev1Encrypt(Buffer.concat([body, Spec.crc32(input)]))]);
+      }
+      // The CMAC is always computed: it is the next IV
+      this.iv = Spec.cmac(this.keyEnc, input, this.iv);
+      return Buffer.concat([header, body, mode === CommMode.MAC && body.length ? this.iv.subarray(0, 8) : EMPTY]);
+    }
+
+    if (mode === CommMode.PLAIN || !body.length) return Buffer.concat([header, body]);
+    if (mode === CommMode.MAC) return Buffer.concat([header, body, this.legacyMac(body)]);
+    return Buffer.concat([header, this.legacySend(Buffer.concat([body, Spec.crcA(body)]))]);
+  }
+
+  /**
+   * Data of a response, without SW1 SW2
+   */
+  response(body: Buffer, mode: CommMode): Buffer {
+    const status = Buffer.from([0x00]);
+
+    if (this.scheme === 'EV2') {
+      this.ctr++;
+      if (mode === CommMode.PLAIN) return body;
+      const data = mode === CommMode.FULL && body.length ? this.ev2Encrypt([0x5A, 0xA5], body) : body;
+      return Buffer.concat([data, this.ev2Mac(status, EMPTY, data)]);
+    }
+
+    if (this.scheme === 'AES') {
+      if (mode === CommMode.FULL && body.length) {
+        return this.ev1Encrypt(Buffer.concat([body, Spec.crc32(Buffer.concat([body, status]))]));
+      }
+      this.iv = Spec.cmac(this.keyEnc, Buffer.concat([body, status]), this.iv);
+      return Buffer.concat([body, this.iv.subarray(0, 8)]);
+    }
+
+    if (mode === CommMode.PLAIN || !body.length) return body;
+    if (mode === CommMode.MAC) return Buffer.concat([body, this.legacyMac(body)]);
+    return Spec.tdesCbcEncrypt(this.keyEnc, Spec.zeroPad(Buffer.concat([body, Spec.crcA(body)]), 8));
+  }
+
+  /**
+   * Data field of ChangeKey: new key (XOR the old one for another key),
+   * key version (AES, EV2), CRC of Cmd || header || key data (EV1; legacy: of
+   * the key data) and for another key the CRC of the new key
+   */
+  changeKey(header: Buffer, newKey: Buffer, oldKey: Buffer | null, version: number): Buffer {
+    const cmd = DesfireCommand.CHANGE_KEY;
+    const keyData = Buffer.concat([
+      oldKey ? Spec.xor(newKey, oldKey) : newKey,
+      this.scheme === 'DES' ? EMPTY : Buffer.from([version])
+    ]);
+
+    if (this.scheme === 'EV2') {
+      return this.command(cmd, header, Buffer.concat([keyData, oldKey ? Spec.crc32(newKey) : EMPTY]), CommMode.FULL);
+    }
+    if (this.scheme === 'AES') {
+      const crc = Spec.crc32(Buffer.concat([Buffer.from([cmd]), header, keyData]));
+      return Buffer.concat([header, this.ev1Encrypt(Buffer.concat([keyData, crc, oldKey ? Spec.crc32(newKey) : EMPTY]))]);
+    }
+    return Buffer.concat([header, this.legacySend(Buffer.concat([keyData, Spec.crcA(keyData), oldKey ? Spec.crcA(newKey) : EMPTY]))]);
+  }
+
+  /** EV2: E(SesAuthENC, IV, data || 80 00..) with IV = E(SesAuthENC, label || TI || CmdCtr || 0^8) */
+  private ev2Encrypt(label: number[], data: Buffer): Buffer {
+    const iv = Spec.aesCbcEncrypt(this.keyEnc, Buffer.concat([Buffer.from(label), this.ti, counter(this.ctr), Buffer.alloc(8)]));
+    return Spec.aesCbcEncrypt(this.keyEnc, Spec.isoPad(data, 16), iv);
+  }
+
+  /** EV2: MACt(SesAuthMAC, Cmd or RC || CmdCtr || TI || header || data) */
+  private ev2Mac(code: number[] | Buffer, header: Buffer, data: Buffer): Buffer {
+    const input = Buffer.concat([Buffer.from(code), counter(this.ctr), this.ti, header, data]);
+    return Spec.macT(Spec.cmac(this.keyMac, input));
+  }
+
+  /** EV1: zero-padded, CBC from the running IV; the last block is the next IV */
+  private ev1Encrypt(plain: Buffer): Buffer {
+    const encrypted = Spec.aesCbcEncrypt(this.keyEnc, Spec.zeroPad(plain, 16), this.iv);
+    this.iv = encrypted.subarray(encrypted.length - 16);
+    return encrypted;
+  }
+
+  /** Legacy MAC: first 4 bytes of the last block of E(K, data || 00..) in CBC */
+  private legacyMac(data: Buffer): Buffer {
+    const encrypted = Spec.tdesCbcEncrypt(this.keyEnc, Spec.zeroPad(data, 8));
+    return encrypted.subarray(encrypted.length - 8, encrypted.length - 4);
+  }
+
+  /** Legacy send mode: C(i) = D(K, P(i) XOR C(i-1)) over the zero-padded data */
+  private legacySend(plain: Buffer): Buffer {
+    const padded = Spec.zeroPad(plain, 8);
+    const blocks: Buffer[] = [];
+    let previous: Buffer = Buffer.alloc(8, 0x00);
+    for (let i = 0; i < padded.length; i += 8) {
+      previous = Spec.tdesCbcDecrypt(this.keyEnc, Spec.xor(padded.subarray(i, i + 8), previous));
+      blocks.push(previous);
+    }
+    return Buffer.concat(blocks);
+  }
+}
+
+async function authenticate(card: DESFireCard, scheme: Scheme, keyNo: number, key: Buffer): Promise<void> {
+  if (scheme === 'DES') await card.authenticateDES(keyNo, key);
+  else if (scheme === 'AES') await card.authenticateAES(keyNo, key);
+  else await card.authenticateEV2First(keyNo, key);
+}
+
+/**
+ * A card with a value file (K0 credits and debits, K1 reads) and a session
+ * with K0, checked from its authentication
+ */
+async function setup(scheme: Scheme, mode: CommMode): Promise<{ card: DESFireCard; tap: WireTap; session: SpecSession }> {
+  const tap = new WireTap(new SimulatedCard({ model: scheme === 'EV2' ? 'EV2' : 'EV1' }));
+  const card = new DESFireCard(tap);
+  const key = Buffer.alloc(16, 0x00);
+
+  await card.selectApplication(0);
+  await card.authenticateDES(0, key);
+  await card.createApplication(AID, 0x0F, 2, scheme === 'DES' ? 0x00 : 0x80);
+  await card.selectApplication(AID);
+  await authenticate(card, scheme, 0, key);
+  const rights = encodeAccessRights({ read: 1, write: 0, readWrite: 0, change: 0 });
+  await card.createValueFile(VALUE_FILE, mode, rights, 0, 1000, 0, 0);
+
+  await authenticate(card, scheme, 0, key);
+  const exchanges = tap.take();
+  return { card, tap, session: SpecSession.fromAuthentication(scheme, key, exchanges.slice(-2)) };
+}
+
+function expectExchange(
+  tap: WireTap,
+  session: SpecSession,
+  cmd: number,
+  command: { header?: Buffer; body?: Buffer; data?: Buffer },
+  mode: CommMode,
+  responseBody: Buffer = EMPTY
+): void {
+  const exchanges = tap.take();
+  expect(exchanges).toHaveLength(1);
+  const { ins, data } = nativeCommand(exchanges[0].command);
+  expect(ins).toBe(cmd);
+  expect(data).toEqual(command.data ?? session.command(cmd, command.header ?? EMPTY, command.body ?? EMPTY, mode));
+  expect(exchanges[0].response).toEqual(Buffer.concat([session.response(responseBody, mode), OK]));
+}
+
+const MODES: [string, CommMode][] = [
+  ['PLAIN', CommMode.PLAIN],
+  ['MAC', CommMode.MAC],
+  ['FULL', CommMode.FULL]
+];
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+describe.each<Scheme>(['DES', 'AES', 'EV2'])('%s secure messaging', (scheme) => {
+  // EV2 sends CommitTransaction and ClearRecordFile MACed; EV1 and legacy sessions send them plain
+  const commitMode = scheme === 'EV2' ? CommMode.MAC : CommMode.PLAIN;
+  const file = Buffer.from([VALUE_FILE]);
+
+  test.each(MODES)('credit, debit and getValue of a %s value file', async (_name, mode) => {
+    const { card, tap, session } = await setup(scheme, mode);
+
+    await card.credit(VALUE_FILE, 100, mode);
+    expectExchange(tap, session, DesfireCommand.CREDIT, { header: file, body: le32(100) }, mode);
+    await card.commitTransaction();
+    expectExchange(tap, session, DesfireCommand.COMMIT_TRANSACTION, {}, commitMode);
+
+    expect(await card.getValue(VALUE_FILE, mode)).toBe(100);
+    expectExchange(tap, session, DesfireCommand.GET_VALUE, { header: file }, mode, le32(100));
+
+    await card.debit(VALUE_FILE, 30, mode);
+    expectExchange(tap, session, DesfireCommand.DEBIT, { header: file, body: le32(30) }, mode);
+    await card.commitTransaction();
+    expectExchange(tap, session, DesfireCommand.COMMIT_TRANSACTION, {}, commitMode);
+
+    expect(await card.getValue(VALUE_FILE, mode)).toBe(70);
+    expectExchange(tap, session, DesfireCommand.GET_VALUE, { header: file }, mode, le32(70));
+  });
+
+  test('ClearRecordFile is sent in the session default mode', async () => {
+    const { card, tap } = await setup(scheme, CommMode.PLAIN);
+    const rights = encodeAccessRights({ read: 1, write: 0, readWrite: 0, change: 0 });
+    await card.createLinearRecordFile(RECORD_FILE, CommMode.FULL, rights, 16, 4);
+    tap.take();
+
+    await authenticate(card, scheme, 0, Buffer.alloc(16, 0x00));
+    const session = SpecSession.fromAuthentication(scheme, Buffer.alloc(16, 0x00), tap.take());
+    await card.clearRecordFile(RECORD_FILE);
+    expectExchange(tap, session, DesfireCommand.CLEAR_RECORD_FILE, { header: Buffer.from([RECORD_FILE]) }, commitMode);
+    await card.commitTransaction();
+    expectExchange(tap, session, DesfireCommand.COMMIT_TRANSACTION, {}, commitMode);
+  });
+
+  test('ChangeKey of another key, then a session with the new key', async () => {
+    const { card, tap, session } = await setup(scheme, CommMode.FULL);
+    // DES keys carry the key version in the parity bits; these have version 0
+    const newKey = scheme === 'DES' ? Buffer.from('42424242424242422424242424242424', 'hex') : Buffer.from('00112233445566778899aabbccddeeff', 'hex');
+    const version = scheme === 'DES' ? 0 : 7;
+
+    await card.changeKey(1, newKey, Buffer.alloc(16, 0x00), version, scheme === 'DES' ? 'DES' : 'AES');
+    const changeKey = session.changeKey(Buffer.from([0x01]), newKey, Buffer.alloc(16, 0x00), version);
+    // The response has no data: MACed in EV2, CMAC in EV1, nothing in legacy sessions
+    expectExchange(tap, session, DesfireCommand.CHANGE_KEY, { data: changeKey }, scheme === 'EV2' ? CommMode.MAC : CommMode.PLAIN);
+
+    expect(await card.getKeyVersion(1)).toBe(version);
+    tap.take();
+
+    await authenticate(card, scheme, 1, newKey);
+    const next = SpecSession.fromAuthentication(scheme, newKey, tap.take());
+    expect(await card.getValue(VALUE_FILE, CommMode.FULL)).toBe(0);
+    expectExchange(tap, next, DesfireCommand.GET_VALUE, { header: file }, CommMode.FULL, le32(0));
+  });
+
+  test('ChangeKey of the authenticated key ends the session', async () => {
+    const { card, tap, session } = await setup(scheme, CommMode.PLAIN);
+    const newKey = Buffer.from('0246802468024680fdb97531fdb97530', 'hex');
+
+    await card.changeKey(0, newKey, undefined, 0, scheme === 'DES' ? 'DES' : 'AES');
+    const exchanges = tap.take();
+    expect(exchanges).toHaveLength(1);
+    expect(nativeCommand(exchanges[0].command).data).toEqual(session.changeKey(Buffer.from([0x00]), newKey, null, 0));
+    expect(exchanges[0].response).toEqual(OK);
+    expect(card.isAuthenticated()).toBe(false);
+
+    await authenticate(card, scheme, 0, newKey);
+    expect(card.isAuthenticated()).toBe(true);
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Shamir secret sharing of the keystore master key: split and combine,
+ * the share text format and the custodian share collector
+ */
+
+import crypto from 'crypto';
+import { combineShares, decodeShare, encodeShare, Share, ShareCollector, splitSecret } from '../shamir';
+
+const SET_ID = '0a1b2c3d';
+const SECRET = Buffer.from('000102030405060708090a0b0c0d0e0f101112131415161718191a1b1c1d1e1f', 'hex');
+
+const share = (index: number, data: string, threshold = 2): Share => ({
+  setId: SET_ID,
+  threshold,
+  index,
+  data: Buffer.from(data, 'hex')
+});
+
+/** Every k-element subset of items */
+function subsets<T>(items: T[], k: number): T[][] {
+  if (k === 0) return [[]];
+  if (items.length < k) return [];
+  const [first, ...rest] = items;
+  return [...subsets(rest, k - 1).map((s) => [first, ...s]), ...subsets(rest, k)];
+}
+
+describe('combineShares over GF(256)', () => {
+  test('hand-computed shares of f(x) = 53 + CA x', () => {
+    // f(1) = 53 ^ CA = 99, f(2) = 53 ^ (CA * 02) = 53 ^ 8F = DC
+    expect(combineShares([share(1, '99'), share(2, 'dc')])).toEqual(Buffer.from('53', 'hex'));
+    expect(combineShares([share(2, 'dc'), share(1, '99')])).toEqual(Buffer.from('53', 'hex'));
+  });
+
+  test('shares at x = 0x83 use the FIPS-197 product 57 * 83 = C1', () => {
+    // f(x) = 00 + 57 x: f(1) = 57, f(0x83) = C1
+    expect(combineShares([share(1, '57'), share(0x83, 'c1')])).toEqual(Buffer.from('00', 'hex'));
+  });
+});
+
+describe('splitSecret and combineShares', () => {
+  test('any 3 of 5 shares reconstruct the secret', () => {
+    const shares = splitSecret(SECRET, 3, 5, SET_ID);
+    expect(shares.map((s) => s.index)).toEqual([1, 2, 3, 4, 5]);
+    for (const subset of subsets(shares, 3)) {
+      expect(combineShares(subset)).toEqual(SECRET);
+    }
+    expect(combineShares(shares)).toEqual(SECRET);
+  });
+
+  test('every split uses new random coefficients', () => {
+    const first = splitSecret(SECRET, 2, 2, SET_ID);
+    const second = splitSecret(SECRET, 2, 2, SET_ID);
+    expect(first[0].data.equals(second[0].data)).toBe(false);
+    expect(combineShares([first[0], first[1]])).toEqual(combineShares([second[1], second[0]]));
+  });
+
+  test('fewer shares than the threshold are refused', () => {
+    const shares = splitSecret(SECRET, 3, 5, SET_ID);
+    expect(() => combineShares(shares.slice(0, 2))).toThrow('3 shares are required, got 2');
+    expect(() => combineShares([])).toThrow('No shares given');
+  });
+
+  test('duplicate and foreign shares are refused', () => {
+    const shares = splitSecret(SECRET, 2, 3, SET_ID);
+    expect(() => combineShares([shares[0], shares[0]])).toThrow('Duplicate share index');
+    const other = splitSecret(SECRET, 2, 3, 'ffffffff');
+    expect(() => combineShares([shares[0], other[1]])).toThrow('Shares belong to different key ceremonies');
+  });
+
+  test('split parameters are checked', () => {
+    expect(() => splitSecret(SECRET, 1, 3, SET_ID)).toThrow('2 <= threshold <= shares <= 255');
+    expect(() => splitSecret(SECRET, 4, 3, SET_ID)).toThrow('2 <= threshold <= shares <= 255');
+    expect(() => splitSecret(SECRET, 2, 256, SET_ID)).toThrow('2 <= threshold <= shares <= 255');
+    expect(() => splitSecret(SECRET, 2, 3, '0A1B2C3D')).toThrow('Share set id must be 8 lowercase hex characters');
+  });
+});
+
+describe('share text format', () => {
+  test('encodes and decodes a share', () => {
+    const [first] = splitSecret(SECRET, 2, 3, SET_ID);
+    const text = encodeShare(first);
+    expect(text).toMatch(/^DFS1-0a1b2c3d-2-1-[0-9a-f]{64}-[0-9a-f]{4}$/);
+    expect(decodeShare(text)).toEqual(first);
+  });
+
+  test('whitespace entered with a share is ignored', () => {
+    const [first] = splitSecret(SECRET, 2, 3, SET_ID);
+    const text = encodeShare(first);
+    const spaced = text.replace(/(.{8})/g, '$1 ') + '\n';
+    expect(decodeShare(spaced)).toEqual(first);
+  });
+
+  test('a typing error fails the check', () => {
+    const text = encodeShare(share(1, '99'));
+    const typo = text.replace('-99-', '-98-');
+    expect(() => decodeShare(typo)).toThrow('Key share checksum mismatch');
+  });
+
+  test('malformed shares are refused', () => {
+    expect(() => decodeShare('DFS1-0a1b2c3d-2-1-99')).toThrow('Not a key share');
+    const body = 'DFS1-0a1b2c3d-2-0-99';
+    const check = crypto.createHash('sha256').update(body).digest('hex').slice(0, 4);
+    expect(() => decodeShare(`${body}-${check}`)).toThrow('Malformed key share');
+  });
+});
+
+describe('ShareCollector', () => {
+  test('reconstructs the secret once the quorum is entered and wipes the shares', () => {
+    const shares = splitSecret(SECRET, 3, 5, SET_ID);
+    const collector = new ShareCollector(SET_ID);
+    expect(collector.add(encodeShare(shares[4]))).toBe(false);
+    expect(collector.add(shares[0])).toBe(false);
+    expect(collector.status()).toEqual({ setId: SET_ID, threshold: 3, received: [5, 1] });
+    expect(collector.add(encodeShare(shares[2]))).toBe(true);
+
+    expect(collector.combine()).toEqual(SECRET);
+    expect(shares[0].data.equals(Buffer.alloc(SECRET.length))).toBe(true);
+    expect(collector.status()).toEqual({ setId: SET_ID, threshold: null, received: [] });
+  });
+
+  test('refuses shares of another ceremony, repeated shares and other thresholds', () => {
+    const collector = new ShareCollector(SET_ID);
+    expect(() => collector.add(splitSecret(SECRET, 2, 2, 'ffffffff')[0])).toThrow(
+      'Share belongs to key ceremony ffffffff, expected 0a1b2c3d'
+    );
+
+    const shares = splitSecret(SECRET, 2, 3, SET_ID);
+    collector.add(shares[0]);
+    expect(() => collector.add(shares[0])).toThrow('Share 1 was already entered');
+    expect(() => collector.add(splitSecret(SECRET, 3, 3, SET_ID)[1])).toThrow('Share threshold does not match');
+    expect(collector.isComplete()).toBe(false);
+  });
+
+  test('without an expected set the first share decides the ceremony', () => {
+    const collector = new ShareCollector();
+    collector.add(splitSecret(SECRET, 2, 2, 'ffffffff')[0]);
+    expect(() => collector.add(splitSecret(SECRET, 2, 2, SET_ID)[1])).toThrow('expected ffffffff');
+  });
+});
@@ -101,22 +101,28 @@ export class APDU {
         return 'NO_CHANGES';
 
       // DESFire specific error codes
-      case 0x919C:
-        return 'OUT_OF_MEMORY';
-      case 0x919E:
-        return 'ILLEGAL_COMMAND';
-      case 0x919D:
+      case 0x910C:
+        return 'NO_CHANGES';
+      case 0x910E:
+        return 'OUT_OF_EEPROM_ERROR';
+      case 0x911C:
+        return 'ILLEGAL_COMMAND_CODE';
+      case 0x911E:
         return 'INTEGRITY_ERROR';
-      case 0x91A0:
+      case 0x9140:
         return 'NO_SUCH_KEY';
-      case 0x91A1:
-        return 'LENGTH_ERROR';
       case 0x917E:
         return 'LENGTH_ERROR';
+      case 0x919D:
+        return 'PERMISSION_DENIED';
+      case 0x919E:
+        return 'PARAMETER_ERROR';
+      case 0x91A0:
+        return 'APPLICATION_NOT_FOUND';
+      case 0x91A1:
+        return 'APPLICATION_INTEGRITY_ERROR';
       case 0x91AE:
         return 'AUTHENTICATION_ERROR';
-      case 0x91AF:
-        return 'ADDITIONAL_FRAME';
       case 0x91BE:
         return 'BOUNDARY_ERROR';
       case 0x91C1:
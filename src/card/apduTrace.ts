@@ -0,0 +1,390 @@
+/**
+ * APDU traces
+ * Recording of the card conversation of a reader to a JSONL file (one record
+ * per command, response and card event), and a transport that plays a
+ * recorded conversation back, so field issues can be reproduced offline and
+ * tests can run against real card exchanges.
+ *
+ * Traces contain card data and the UIDs of the cards; keep them like logs.
+ */
+
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import path from 'path';
+import { APDU } from './apdu';
+import { DesfireCommand } from './desfire';
+import { CardEvent, ReaderErrorEvent, ReaderManager, Transport } from './transport';
+
+interface TraceRecordBase {
+  seq: number;
+  time: string;
+  reader: string;
+}
+
+export interface ApduCommandRecord extends TraceRecordBase {
+  direction: 'command';
+  /** Command APDU (hex) */
+  apdu: string;
+  /** DESFire command name, e.g. READ_DATA */
+  command: string;
+  /** Sent through the reader's escape path instead of transmit() */
+  via?: 'escape';
+}
+
+export interface ApduResponseRecord extends TraceRecordBase {
+  direction: 'response';
+  /** Response APDU with SW1 SW2 (hex); absent if the transport failed */
+  apdu?: string;
+  command: string;
+  via?: 'escape';
+  sw?: string;
+  /** Status name, e.g. SUCCESS, AUTHENTICATION_ERROR */
+  status?: string;
+  /** Transport error instead of a response */
+  error?: string;
+  elapsedMs: number;
+}
+
+export interface CardEventRecord extends TraceRecordBase {
+  event: 'card' | 'card-removed';
+  uid?: string;
+  atr?: string;
+}
+
+export type ApduTraceRecord = ApduCommandRecord | ApduResponseRecord | CardEventRecord;
+
+type TraceRecordInput =
+  | Omit<ApduCommandRecord, 'seq' | 'time'>
+  | Omit<ApduResponseRecord, 'seq' | 'time'>
+  | Omit<CardEventRecord, 'seq' | 'time'>;
+
+/**
+ * Name of the command in a command APDU: the DESFire command of a wrapped
+ * native command (CLA 90), else ISO_<CLA><INS>
+ */
+export function apduCommandName(apdu: Buffer): string {
+  if (apdu.length < 2) return `RAW_${apdu.toString('hex').toUpperCase()}`;
+  const [cla, ins] = apdu;
+  if (cla === 0x90 && DesfireCommand[ins]) return DesfireCommand[ins];
+  return `ISO_${apdu.slice(0, 2).toString('hex').toUpperCase()}`;
+}
+
+function readerName(transport: Transport): string {
+  return transport.reader?.name || transport.name || 'reader';
+}
+
+/**
+ * Appends trace records to a JSONL file
+ * Write errors are reported once and do not affect the card operations.
+ */
+export class ApduRecorder {
+  private seq = 0;
+  private failed = false;
+
+  constructor(public readonly file: string) {
+    fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+  }
+
+  write(record: TraceRecordInput): void {
+    const line = JSON.stringify({ seq: ++this.seq, time: new Date().toISOString(), ...record });
+    try {
+      fs.appendFileSync(this.file, line + '\n', { mode: 0o600 });
+    } catch (error: any) {
+      if (!this.failed) console.error(`APDU trace: cannot write ${this.file}: ${error?.message || error}`);
+      this.failed = true;
+    }
+  }
+}
+
+/**
+ * Transport that records the exchanges of another one
+ * activate() and escape() are passed on when the inner transport has them,
+ * so DESFireCard keeps the reader's capabilities (ACR122U escape path);
+ * escape exchanges are recorded with via: 'escape'.
+ */
+export class RecordingTransport implements Transport {
+  readonly activate?: () => Promise<void>;
+  readonly escape?: (data: Buffer) => Promise<Buffer>;
+
+  constructor(
+    readonly inner: Transport,
+    private readonly recorder: ApduRecorder
+  ) {
+    const { activate, escape } = inner;
+    if (activate) this.activate = () => activate.call(inner);
+    if (escape) this.escape = (data) => this.record(data, 'escape', () => escape.call(inner, data));
+  }
+
+  get name(): string {
+    return readerName(this.inner);
+  }
+
+  get reader(): { name: string } {
+    return this.inner.reader || { name: this.name };
+  }
+
+  transmit(data: Buffer, responseLength: number): Promise<Buffer> {
+    return this.record(data, undefined, () => this.inner.transmit(data, responseLength));
+  }
+
+  private async record(data: Buffer, via: 'escape' | undefined, send: () => Promise<Buffer>): Promise<Buffer> {
+    const reader = this.name;
+    const command = apduCommandName(data);
+    this.recorder.write({ reader, direction: 'command', apdu: data.toString('hex'), command, via });
+    const started = Date.now();
+    try {
+      const response = await send();
+      const sw = response.length >= 2 ? response.slice(-2) : null;
+      this.recorder.write({
+        reader,
+        direction: 'response',
+        apdu: response.toString('hex'),
+        command,
+        via,
+        sw: sw ? sw.toString('hex') : undefined,
+        status: sw ? APDU.getStatusMessage(sw[0], sw[1]) : undefined,
+        elapsedMs: Date.now() - started
+      });
+      return response;
+    } catch (error: any) {
+      const message = String(error?.message || error);
+      this.recorder.write({ reader, direction: 'response', command, via, error: message, elapsedMs: Date.now() - started });
+      throw error;
+    }
+  }
+}
+
+/**
+ * Reader manager that records the exchanges of every reader of another
+ * manager, and its card events
+ * It raises the events of the inner manager with each reader wrapped in a
+ * RecordingTransport (the same wrapper every time, so reader queues and card
+ * sessions keep working); subscribe to it instead of the inner manager.
+ */
+export class RecordingReaderManager extends EventEmitter implements ReaderManager {
+  private transports = new WeakMap<Transport, RecordingTransport>();
+
+  constructor(
+    private readonly inner: ReaderManager,
+    private readonly recorder: ApduRecorder
+  ) {
+    super();
+    inner.on('reader-connected', (reader: Transport) => this.emit('reader-connected', this.wrap(reader)));
+    inner.on('reader-disconnected', (reader: Transport) => this.emit('reader-disconnected', this.wrap(reader)));
+    inner.on('reader-error', ({ reader, error }: ReaderErrorEvent) => {
+      this.emit('reader-error', { reader: this.wrap(reader), error });
+    });
+    inner.on('card-detected', ({ reader, card }: CardEvent) => {
+      this.recorder.write({
+        reader: readerName(reader),
+        event: 'card',
+        uid: card?.uid ? String(card.uid) : undefined,
+        atr: Buffer.isBuffer(card?.atr) ? card.atr.toString('hex') : undefined
+      });
+      this.emit('card-detected', { reader: this.wrap(reader), card });
+    });
+    inner.on('card-removed', ({ reader, card }: CardEvent) => {
+      this.recorder.write({ reader: readerName(reader), event: 'card-removed', uid: card?.uid ? String(card.uid) : undefined });
+      this.emit('card-removed', { reader: this.wrap(reader), card });
+    });
+  }
+
+  getReaders(): RecordingTransport[] {
+    return this.inner.getReaders().map((reader) => this.wrap(reader));
+  }
+
+  getReader(name: string): RecordingTransport | undefined {
+    const reader = this.inner.getReader(name);
+    return reader ? this.wrap(reader) : undefined;
+  }
+
+  close(): void {
+    this.inner.close();
+    this.removeAllListeners();
+  }
+
+  private wrap(reader: Transport): RecordingTransport {
+    let transport = this.transports.get(reader);
+    if (!transport) {
+      transport = new RecordingTransport(reader, this.recorder);
+      this.transports.set(reader, transport);
+    }
+    return transport;
+  }
+}
+
+/**
+ * Read a JSONL trace file
+ */
+export function readApduTrace(file: string): ApduTraceRecord[] {
+  const records: ApduTraceRecord[] = [];
+  fs.readFileSync(file, 'utf8')
+    .split('\n')
+    .forEach((line, index) => {
+      if (!line.trim()) return;
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        throw new Error(`Invalid APDU trace line ${index + 1} in ${file}`);
+      }
+    });
+  return records;
+}
+
+/**
+ * Reader names of a trace, in order of appearance
+ */
+export function traceReaders(records: ApduTraceRecord[]): string[] {
+  return Array.from(new Set(records.map((record) => record.reader)));
+}
+
+/**
+ * How a replayed command is matched against the trace
+ *   exact    the whole APDU must be the recorded one
+ *   command  only the command code must match (conversations with fresh host
+ *            randoms, e.g. authentication, then fail at the cryptographic checks)
+ */
+export type ReplayMatch = 'exact' | 'command';
+
+export interface ReplayOptions {
+  /** Reader whose exchanges are served (default: the first reader of the trace) */
+  reader?: string;
+  match?: ReplayMatch;
+}
+
+interface ReplayExchange {
+  command: ApduCommandRecord;
+  response: ApduResponseRecord;
+}
+
+/**
+ * Serves the recorded responses of one reader, in order
+ * Each command must be the next recorded one; a different command, or one
+ * past the end of the trace, fails with the position in the trace.
+ */
+export class ReplayTransport implements Transport {
+  readonly reader: { name: string };
+  /** Present when the trace has escape exchanges */
+  readonly escape?: (data: Buffer) => Promise<Buffer>;
+  private exchanges: ReplayExchange[] = [];
+  private position = 0;
+  private match: ReplayMatch;
+
+  constructor(records: ApduTraceRecord[], options: ReplayOptions = {}) {
+    const name = options.reader || traceReaders(records)[0] || 'Replay Reader';
+    this.reader = { name };
+    this.match = options.match || 'exact';
+
+    let pending: ApduCommandRecord | null = null;
+    for (const record of records) {
+      if (record.reader !== name || !('direction' in record)) continue;
+      if (record.direction === 'command') {
+        pending = record;
+      } else if (pending) {
+        this.exchanges.push({ command: pending, response: record });
+        pending = null;
+      }
+    }
+    if (this.exchanges.some((exchange) => exchange.command.via === 'escape')) {
+      this.escape = async (data) => this.serve(data, 'escape');
+    }
+  }
+
+  static fromFile(file: string, options: ReplayOptions = {}): ReplayTransport {
+    return new ReplayTransport(readApduTrace(file), options);
+  }
+
+  get name(): string {
+    return this.reader.name;
+  }
+
+  /** Recorded exchanges not served yet */
+  get remaining(): number {
+    return this.exchanges.length - this.position;
+  }
+
+  /** Start over from the first exchange */
+  rewind(): void {
+    this.position = 0;
+  }
+
+  async transmit(data: Buffer, _responseLength: number): Promise<Buffer> {
+    return this.serve(data, undefined);
+  }
+
+  private serve(data: Buffer, via: 'escape' | undefined): Buffer {
+    const exchange = this.exchanges[this.position];
+    if (!exchange) {
+      throw new Error(`Replay of ${this.name}: no recorded exchange left for ${apduCommandName(data)} ${data.toString('hex')}`);
+    }
+
+    const expected = Buffer.from(exchange.command.apdu, 'hex');
+    const matches =
+      exchange.command.via === via &&
+      (this.match === 'exact' ? expected.equals(data) : apduCommandName(expected) === apduCommandName(data));
+    if (!matches) {
+      const path = (record: { via?: string }) => (record.via ? ` via ${record.via}` : '');
+      throw new Error(
+        `Replay of ${this.name}: exchange ${this.position + 1} (trace seq ${exchange.command.seq}) ` +
+          `expected ${exchange.command.command} ${exchange.command.apdu}${path(exchange.command)}, ` +
+          `got ${apduCommandName(data)} ${data.toString('hex')}${path({ via })}`
+      );
+    }
+
+    this.position++;
+    if (exchange.response.error !== undefined) throw new Error(exchange.response.error);
+    return Buffer.from(exchange.response.apdu || '', 'hex');
+  }
+}
+
+export interface ReplayReaderManagerOptions {
+  match?: ReplayMatch;
+}
+
+/**
+ * Readers replaying a trace file: one reader per reader of the trace, with
+ * the first card recorded on it in the field
+ */
+export class ReplayReaderManager extends EventEmitter implements ReaderManager {
+  private readers: Map<string, ReplayTransport> = new Map();
+
+  constructor(file: string, options: ReplayReaderManagerOptions = {}) {
+    super();
+    const records = readApduTrace(file);
+
+    // Events are raised once the caller had a chance to subscribe, like nfc-pcsc
+    setImmediate(() => {
+      for (const name of traceReaders(records)) {
+        const reader = new ReplayTransport(records, { reader: name, match: options.match });
+        this.readers.set(name, reader);
+        console.log(`Reader detected: ${name} (replay of ${file})`);
+        this.emit('reader-connected', reader);
+
+        const card = records.find(
+          (record): record is CardEventRecord => record.reader === name && 'event' in record && record.event === 'card'
+        );
+        if (card) {
+          console.log(`Card detected on ${name}`);
+          console.log(`UID: ${card.uid}`);
+          this.emit('card-detected', {
+            reader,
+            card: { uid: card.uid, atr: card.atr ? Buffer.from(card.atr, 'hex') : undefined, type: 'TAG_ISO_14443_4' }
+          });
+        }
+      }
+    });
+  }
+
+  getReaders(): ReplayTransport[] {
+    return Array.from(this.readers.values());
+  }
+
+  getReader(name: string): ReplayTransport | undefined {
+    return this.readers.get(name);
+  }
+
+  close(): void {
+    this.readers.clear();
+    this.removeAllListeners();
+  }
+}
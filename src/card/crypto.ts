@@ -52,8 +52,9 @@ function generateCMACSubkeys(key: Buffer): { k1: Buffer; k2: Buffer } {
 /**
  * Calculate AES-CMAC (Cipher-based Message Authentication Code)
  * Used for DESFire authentication and secure messaging
+ * @param iv Chaining value to start from (EV1 secure messaging keeps a running IV)
  */
-export function aesCMAC(key: Buffer, data: Buffer, length?: number): Buffer {
+export function aesCMAC(key: Buffer, data: Buffer, length?: number, iv?: Buffer): Buffer {
   if (key.length !== 16) {
     throw new Error('Key must be 16 bytes for AES-128');
   }
@@ -66,7 +67,7 @@ export function aesCMAC(key: Buffer, data: Buffer, length?: number): Buffer {
   // Pad data if necessary
   let paddedData: Buffer;
   const blockSize = 16;
-  const numBlocks = Math.ceil(data.length / blockSize);
+  const numBlocks = Math.max(1, Math.ceil(data.length / blockSize));
 
   if (data.length === 0 || data.length % blockSize !== 0) {
     // Incomplete block - use padding
@@ -92,7 +93,7 @@ export function aesCMAC(key: Buffer, data: Buffer, length?: number): Buffer {
   const cipher = crypto.createCipheriv('aes-128-ecb', key, Buffer.alloc(0));
   cipher.setAutoPadding(false);
 
-  let mac = Buffer.alloc(16, 0x00);
+  let mac = iv ? Buffer.from(iv) : Buffer.alloc(16, 0x00);
 
   for (let i = 0; i < paddedData.length; i += 16) {
     const block = paddedData.slice(i, i + 16);
@@ -111,35 +112,72 @@ export function aesCMAC(key: Buffer, data: Buffer, length?: number): Buffer {
 }
 
 /**
- * Derive session encryption key for DESFire EV2
+ * Build the EV2 session vector (SV1/SV2) from the authentication randoms
+ * SV = Label(2) || 0x00 0x01 0x00 0x80 || RndA[15..14] || (RndA[13..8] XOR RndB[15..10]) || RndB[9..0] || RndA[7..0]
  */
-export function deriveSessionKeyEV2Enc(key: Buffer, rndA: Buffer, rndB: Buffer): Buffer {
-  // SV1 = 0xA5 || 0x5A || 0x00 || 0x01 || 0x00 || 0x80 || RndA[0..1] || RndB[0..1] || RndA[13..15] || RndB[13..15]
-  const sv1 = Buffer.concat([
-    Buffer.from([0xA5, 0x5A, 0x00, 0x01, 0x00, 0x80]),
+function sessionVectorEV2(label: Buffer, rndA: Buffer, rndB: Buffer): Buffer {
+  return Buffer.concat([
+    label,
+    Buffer.from([0x00, 0x01, 0x00, 0x80]),
     rndA.slice(0, 2),
-    rndB.slice(0, 2),
-    rndA.slice(13, 16),
-    rndB.slice(13, 16)
+    xorBuffers(rndA.slice(2, 8), rndB.slice(0, 6)),
+    rndB.slice(6, 16),
+    rndA.slice(8, 16)
   ]);
+}
 
-  return aesCMAC(key, sv1, 16);
+/**
+ * Derive session encryption key for DESFire EV2
+ */
+export function deriveSessionKeyEV2Enc(key: Buffer, rndA: Buffer, rndB: Buffer): Buffer {
+  // KSesAuthENC = CMAC(Kx, SV1), SV1 label = 0xA5 0x5A
+  return aesCMAC(key, sessionVectorEV2(Buffer.from([0xA5, 0x5A]), rndA, rndB), 16);
 }
 
 /**
  * Derive session MAC key for DESFire EV2
  */
 export function deriveSessionKeyEV2Mac(key: Buffer, rndA: Buffer, rndB: Buffer): Buffer {
-  // SV2 = 0x5A || 0xA5 || 0x00 || 0x01 || 0x00 || 0x80 || RndA[0..1] || RndB[0..1] || RndA[13..15] || RndB[13..15]
-  const sv2 = Buffer.concat([
-    Buffer.from([0x5A, 0xA5, 0x00, 0x01, 0x00, 0x80]),
-    rndA.slice(0, 2),
-    rndB.slice(0, 2),
-    rndA.slice(13, 16),
-    rndB.slice(13, 16)
-  ]);
+  // KSesAuthMAC = CMAC(Kx, SV2), SV2 label = 0x5A 0xA5
+  return aesCMAC(key, sessionVectorEV2(Buffer.from([0x5A, 0xA5]), rndA, rndB), 16);
+}
 
-  return aesCMAC(key, sv2, 16);
+/**
+ * Calculate the IV for EV2 secure messaging
+ * IV = E(KSesAuthENC, Label || TI || CmdCtr || 0x00 * 8)
+ * Label is 0xA5 0x5A for commands and 0x5A 0xA5 for responses
+ */
+function ivEV2(label: Buffer, sessionKeyEnc: Buffer, ti: Buffer, cmdCtr: number): Buffer {
+  const ctr = Buffer.alloc(2);
+  ctr.writeUInt16LE(cmdCtr & 0xFFFF, 0);
+  const input = Buffer.concat([label, ti, ctr, Buffer.alloc(8, 0x00)]);
+  return aesEncrypt(sessionKeyEnc, input);
+}
+
+/**
+ * IV used to encrypt command data in EV2 full (encrypted) mode
+ */
+export function commandIVEV2(sessionKeyEnc: Buffer, ti: Buffer, cmdCtr: number): Buffer {
+  return ivEV2(Buffer.from([0xA5, 0x5A]), sessionKeyEnc, ti, cmdCtr);
+}
+
+/**
+ * IV used to decrypt response data in EV2 full (encrypted) mode
+ */
+export function responseIVEV2(sessionKeyEnc: Buffer, ti: Buffer, cmdCtr: number): Buffer {
+  return ivEV2(Buffer.from([0x5A, 0xA5]), sessionKeyEnc, ti, cmdCtr);
+}
+
+/**
+ * Truncate a 16-byte CMAC to the 8-byte MACt used by EV2 secure messaging
+ * (the odd-indexed bytes S14, S12, ..., S0)
+ */
+export function truncateMAC(mac: Buffer): Buffer {
+  const out = Buffer.alloc(8);
+  for (let i = 0; i < 8; i++) {
+    out[i] = mac[2 * i + 1];
+  }
+  return out;
 }
 
 /**
@@ -157,15 +195,24 @@ export function deriveSessionKeyAESEnc(key: Buffer, rndA: Buffer, rndB: Buffer):
 
 /**
  * Derive session MAC key for legacy AES authentication
+ * EV1 uses a single session key for both encryption and CMAC
  */
 export function deriveSessionKeyAESMac(key: Buffer, rndA: Buffer, rndB: Buffer): Buffer {
-  // KSesAuthMAC = RndA[4..7] || RndB[4..7] || RndA[8..11] || RndB[8..11]
-  return Buffer.concat([
-    rndA.slice(4, 8),
-    rndB.slice(4, 8),
-    rndA.slice(8, 12),
-    rndB.slice(8, 12)
-  ]);
+  return deriveSessionKeyAESEnc(key, rndA, rndB);
+}
+
+/**
+ * Derive session key for legacy DES/2K3DES authentication
+ * DES (K1 == K2): RndA[0..3] || RndB[0..3], used as K || K
+ * 2K3DES:         RndA[0..3] || RndB[0..3] || RndA[4..7] || RndB[4..7]
+ */
+export function deriveSessionKeyDES(key: Buffer, rndA: Buffer, rndB: Buffer): Buffer {
+  const k1 = Buffer.concat([rndA.slice(0, 4), rndB.slice(0, 4)]);
+  const singleDES = key.length === 8 || key.slice(0, 8).equals(key.slice(8, 16));
+  if (singleDES) {
+    return Buffer.concat([k1, k1]);
+  }
+  return Buffer.concat([k1, rndA.slice(4, 8), rndB.slice(4, 8)]);
 }
 
 /**
@@ -188,6 +235,7 @@ export function aesDecrypt(key: Buffer, data: Buffer, iv: Buffer = Buffer.alloc(
 
 /**
  * Calculate CRC32 for DESFire
+ * IEEE 802.3 polynomial, preset 0xFFFFFFFF, no final complement
  */
 export function crc32(data: Buffer): number {
   const polynomial = 0xEDB88320;
@@ -200,7 +248,7 @@ export function crc32(data: Buffer): number {
     }
   }
 
-  return (~crc) >>> 0;
+  return crc >>> 0;
 }
 
 /**
@@ -240,6 +288,68 @@ export function crc16Buffer(data: Buffer): Buffer {
   return buffer;
 }
 
+/**
+ * Expand a DES key to the 16/24 byte form expected by the des-ede ciphers
+ */
+function tripleDESKey(key: Buffer): Buffer {
+  return key.length === 8 ? Buffer.concat([key, key]) : key;
+}
+
+function desAlgorithm(key: Buffer, mode: 'cbc' | 'ecb'): string {
+  return key.length === 24 ? `des-ede3-${mode}` : `des-ede-${mode}`;
+}
+
+/**
+ * Encrypt data with DES/2K3DES/3K3DES in CBC mode (8, 16 or 24 byte key)
+ */
+export function desEncrypt(key: Buffer, data: Buffer, iv: Buffer = Buffer.alloc(8, 0x00)): Buffer {
+  const k = tripleDESKey(key);
+  const cipher = crypto.createCipheriv(desAlgorithm(k, 'cbc'), k, iv);
+  cipher.setAutoPadding(false);
+  return Buffer.concat([cipher.update(data), cipher.final()]);
+}
+
+/**
+ * Decrypt data with DES/2K3DES/3K3DES in CBC mode (8, 16 or 24 byte key)
+ */
+export function desDecrypt(key: Buffer, data: Buffer, iv: Buffer = Buffer.alloc(8, 0x00)): Buffer {
+  const k = tripleDESKey(key);
+  const decipher = crypto.createDecipheriv(desAlgorithm(k, 'cbc'), k, iv);
+  decipher.setAutoPadding(false);
+  return Buffer.concat([decipher.update(data), decipher.final()]);
+}
+
+/**
+ * Legacy DESFire "send mode": each block is XORed with the previous
+ * output and then deciphered (IV = 0). Used by native Authenticate (0x0A)
+ * and legacy enciphered communication.
+ */
+export function desSendMode(key: Buffer, data: Buffer): Buffer {
+  const k = tripleDESKey(key);
+  const decipher = crypto.createDecipheriv(desAlgorithm(k, 'ecb'), k, null);
+  decipher.setAutoPadding(false);
+
+  const out = Buffer.alloc(data.length);
+  let prev: Buffer = Buffer.alloc(8, 0x00);
+  for (let i = 0; i < data.length; i += 8) {
+    const block = xorBuffers(data.slice(i, i + 8), prev);
+    prev = decipher.update(block);
+    prev.copy(out, i);
+  }
+  return out;
+}
+
+/**
+ * Legacy DESFire MAC: first 4 bytes of the last DES-CBC block
+ * over the zero-padded data (IV = 0)
+ */
+export function desMAC(key: Buffer, data: Buffer): Buffer {
+  const padded = Buffer.alloc(Math.max(8, Math.ceil(data.length / 8) * 8), 0x00);
+  data.copy(padded);
+  const enc = desEncrypt(key, padded);
+  return enc.slice(enc.length - 8, enc.length - 4);
+}
+
 /**
  * XOR two buffers of equal length
  */
@@ -304,10 +414,18 @@ export default {
   aesCMAC,
   deriveSessionKeyEV2Enc,
   deriveSessionKeyEV2Mac,
+  commandIVEV2,
+  responseIVEV2,
+  truncateMAC,
   deriveSessionKeyAESEnc,
   deriveSessionKeyAESMac,
+  deriveSessionKeyDES,
   aesEncrypt,
   aesDecrypt,
+  desEncrypt,
+  desDecrypt,
+  desSendMode,
+  desMAC,
   crc32,
   crc32Buffer,
   crc16,
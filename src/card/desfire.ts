@@ -6,8 +6,11 @@
 import { APDU } from './apdu';
 import crypto from 'crypto';
 import * as CryptoUtils from './crypto';
-import { KeyManager } from './keyManager';
-import { isACR122U, transmitViaAcr122U, ensureIsoDep } from './acr122u';
+import { KeyManager, KeyType } from './keyManager';
+import { AccessRights, FileSettings, encodeAccessRights, parseFileSettings } from './fileSettings';
+import { AuditEvent, audit, auditAppId } from '../audit/auditLog';
+import { readerQueue, throwIfAborted } from './readerQueue';
+import { Transport } from './transport';
 
 // DESFire Command Codes
 export enum DesfireCommand {
@@ -25,6 +28,7 @@ export enum DesfireCommand {
   // File Management Commands
   GET_FILE_IDS = 0x6F,
   GET_FILE_SETTINGS = 0xF5,
+  CHANGE_FILE_SETTINGS = 0x5F,
   CREATE_STD_DATA_FILE = 0xCD,
   CREATE_BACKUP_DATA_FILE = 0xCB,
   CREATE_VALUE_FILE = 0xCC,
@@ -67,21 +71,124 @@ export enum DesfireCommand {
   GET_DF_NAMES = 0x6D,
 }
 
+/**
+ * Communication modes (DESFire CommMode / file communication settings)
+ */
+export enum CommMode {
+  PLAIN = 0x00,
+  MAC = 0x01,
+  FULL = 0x03,
+}
+
+/**
+ * Fixed-size record layout of a linear or cyclic record file
+ */
+export interface RecordCodec<T> {
+  recordSize: number;
+  encode(record: T): Buffer;
+  decode(data: Buffer): T;
+}
+
+type AuthMode = 'EV2' | 'AES' | 'DES';
+
+interface CommandOptions {
+  commMode?: CommMode;   // Protection applied while a secure session is active
+  headerLength?: number; // Leading bytes of data sent unencrypted (CmdHeader)
+  responseLength?: number; // Expected response data length, when known (locates the CRC)
+}
+
+type ParsedResponse = { sw1: number; sw2: number; data: Buffer; status: string };
+
+/**
+ * Pad with 0x00 up to a multiple of the block size (no padding if aligned)
+ */
+function zeroPad(data: Buffer, blockSize: number): Buffer {
+  const padded = Buffer.alloc(Math.ceil(data.length / blockSize) * blockSize, 0x00);
+  data.copy(padded);
+  return padded;
+}
+
+/**
+ * Validate a key for its type and expand single DES keys to 16 bytes
+ */
+function normalizeKey(key: Buffer, type: KeyType): Buffer {
+  if (type === 'AES') {
+    if (key.length !== 16) throw new Error('AES keys must be 16 bytes');
+    return Buffer.from(key);
+  }
+  if (type === '3DES') {
+    if (key.length !== 24) throw new Error('3K3DES keys must be 24 bytes');
+    return Buffer.from(key);
+  }
+  if (key.length === 8) return Buffer.concat([key, key]);
+  if (key.length !== 16) throw new Error('DES/2K3DES keys must be 8 or 16 bytes');
+  return Buffer.from(key);
+}
+
+/**
+ * Store a key version in the parity bits (LSB) of the first 8 key bytes.
+ * Single DES keys (K1 == K2) keep both halves identical.
+ */
+function setDESKeyVersion(key: Buffer, version: number): void {
+  const singleDES = key.length === 16 && key.slice(0, 8).equals(key.slice(8, 16));
+  for (let i = 0; i < 8; i++) {
+    key[i] = (key[i] & 0xFE) | ((version >> (7 - i)) & 0x01);
+    if (singleDES) key[i + 8] = key[i];
+  }
+}
+
+/**
+ * Find the data length in a deciphered `data || CRC || 0x00 padding` block
+ * and return the data, or null if no position yields a matching CRC.
+ * The DESFire CRCs have no final XOR, so `data || CRC || 0x00 0x00` checks
+ * out as well; without a known length the shortest match is taken.
+ */
+function stripCrc(
+  plain: Buffer,
+  crcLength: number,
+  crcOf: (data: Buffer) => Buffer,
+  length?: number
+): Buffer | null {
+  if (length !== undefined) {
+    const crcEnd = length + crcLength;
+    if (crcEnd > plain.length || plain.slice(crcEnd).some((b) => b !== 0x00)) return null;
+    const data = plain.slice(0, length);
+    return crcOf(data).equals(plain.slice(length, crcEnd)) ? data : null;
+  }
+
+  let found: Buffer | null = null;
+  for (let end = plain.length - crcLength; end >= 0; end--) {
+    const crcEnd = end + crcLength;
+    if (crcEnd < plain.length && plain[crcEnd] !== 0x00) {
+      // Everything after the CRC must be padding
+      break;
+    }
+    const data = plain.slice(0, end);
+    if (crcOf(data).equals(plain.slice(end, crcEnd))) {
+      found = data;
+    }
+  }
+  return found;
+}
+
 export class DESFireCard {
-  private reader: any;
+  private reader: Transport;
   private currentApp: number | null = null;
   private keyManager: KeyManager | null = null;
+  private cardUid: Buffer | null = null; // For diversified KeyManager keys
   private preferNoLe: boolean = true; // default preference favors no-Le for ACR122U
 
   // Authentication state
   private authenticated: boolean = false;
   private authenticatedKeyNo: number | null = null;
+  private authMode: AuthMode | null = null;
   private sessionKeyEnc: Buffer | null = null;
   private sessionKeyMac: Buffer | null = null;
   private transactionId: Buffer | null = null;
   private commandCounter: number = 0;
+  private sessionIV: Buffer | null = null; // Running IV for EV1 (AES) secure messaging
   
-  constructor(reader: any, keyManager?: KeyManager) {
+  constructor(reader: Transport, keyManager?: KeyManager) {
     this.reader = reader;
     this.keyManager = keyManager || null;
   }
@@ -93,6 +200,60 @@ export class DESFireCard {
     this.keyManager = keyManager;
   }
 
+  /**
+   * Set the card UID used to diversify KeyManager keys
+   * getVersion() records it automatically; set it explicitly for cards
+   * with random UID (read via GetCardUID after authentication).
+   */
+  setCardUid(uid: Buffer): void {
+    this.cardUid = Buffer.from(uid);
+  }
+
+  /**
+   * Card UID used for key diversification, if known
+   */
+  getCardUid(): Buffer | null {
+    return this.cardUid;
+  }
+
+  /**
+   * Application selected with selectApplication(), or null before the first selection
+   */
+  getSelectedApplication(): number | null {
+    return this.currentApp;
+  }
+
+  /**
+   * Run exchanges with exclusive use of the reader (see readerQueue.ts)
+   */
+  private exclusive<T>(label: string, operation: () => Promise<T>): Promise<T> {
+    return readerQueue(this.reader).run(label, operation);
+  }
+
+  /**
+   * Run a card operation atomically on the reader and record it in the audit
+   * log with the card UID, the selected application and the outcome
+   * The record is queued: a failure to write it raises the audit failure alarm
+   * (onAuditFailure) and never turns a completed operation into an error.
+   */
+  private async audited<T>(event: AuditEvent, operation: () => Promise<T>): Promise<T> {
+    const context: AuditEvent = {
+      ...event,
+      uid: this.cardUid?.toString('hex').toUpperCase(),
+      appId: this.currentApp !== null ? auditAppId(this.currentApp) : undefined
+    };
+    let result: T;
+    try {
+      result = await this.exclusive(event.action, operation);
+    } catch (error: any) {
+      audit({ ...context, outcome: 'failed', error: error?.message || String(error) });
+      throw error;
+    }
+    // Outside the try: a completed operation is never recorded as failed
+    audit(context);
+    return result;
+  }
+
   /**
    * Check if authenticated
    */
@@ -113,37 +274,119 @@ export class DESFireCard {
   resetAuth(): void {
     this.authenticated = false;
     this.authenticatedKeyNo = null;
+    this.authMode = null;
     if (this.sessionKeyEnc) this.sessionKeyEnc.fill(0);
     if (this.sessionKeyMac) this.sessionKeyMac.fill(0);
     this.sessionKeyEnc = null;
     this.sessionKeyMac = null;
     this.transactionId = null;
     this.commandCounter = 0;
+    this.sessionIV = null;
   }
 
   /**
    * Send a DESFire command and receive response
+   * While a secure session is active the command is protected according to
+   * options.commMode and the response is verified/deciphered. EV2 sessions
+   * default to MAC mode, EV1 and legacy sessions to plain.
+   */
+  private async sendCommand(
+    cmd: DesfireCommand,
+    data?: Buffer,
+    expectResponse: boolean = true,
+    options: CommandOptions = {}
+  ): Promise<Buffer> {
+    if (!this.hasSecureSession()) {
+      const { data: response } = await this.transceive(cmd, data);
+      return response;
+    }
+
+    const payload = data || Buffer.alloc(0);
+    const headerLength = options.headerLength || 0;
+
+    if (this.authMode === 'EV2') {
+      const commMode = options.commMode ?? CommMode.MAC;
+      const wrapped = this.wrapCommandEV2(cmd, payload, commMode, headerLength);
+      const { data: response, sw2 } = await this.transceive(cmd, wrapped);
+      return this.unwrapResponseEV2(response, sw2, commMode);
+    }
+
+    const commMode = options.commMode ?? CommMode.PLAIN;
+    if (this.authMode === 'AES') {
+      const wrapped = this.wrapCommandEV1(cmd, payload, commMode, headerLength);
+      const { data: response, sw2 } = await this.transceive(cmd, wrapped);
+      // Without response data the card only returns the CMAC
+      const responseMode = expectResponse ? commMode : CommMode.MAC;
+      return this.unwrapResponseEV1(response, sw2, responseMode, options.responseLength);
+    }
+
+    const wrapped = this.wrapCommandLegacy(payload, commMode, headerLength);
+    const { data: response } = await this.transceive(cmd, wrapped);
+    return this.unwrapResponseLegacy(response, commMode, options.responseLength);
+  }
+
+  /**
+   * Exchange a complete command with the card: split outgoing data over
+   * additional frames and collect chained response frames.
    */
-  private async sendCommand(cmd: DesfireCommand, data?: Buffer, expectResponse: boolean = true): Promise<Buffer> {
-    let parsed: { sw1: number; sw2: number; data: Buffer; status: string };
+  private async transceive(cmd: number, data?: Buffer): Promise<{ data: Buffer; sw2: number }> {
+    return this.exclusive(`command 0x${cmd.toString(16)}`, async () => {
+      // Conservative frame sizes for ACR122U + DESFire (payload only)
+      const FIRST_FRAME_MAX = 47;
+      const NEXT_FRAME_MAX = 40;
+
+      const payload = data || Buffer.alloc(0);
+      let sent = Math.min(payload.length, FIRST_FRAME_MAX);
+      let parsed = await this.sendFrame(cmd, payload.slice(0, sent));
+      this.checkResponse(parsed);
+
+      // Remaining command data goes out in additional frames
+      while (sent < payload.length) {
+        if (!APDU.isAdditionalFrame(parsed.sw1, parsed.sw2)) {
+          throw new Error(`DESFire command ended early at ${sent}/${payload.length} bytes (SW: ${parsed.sw1.toString(16)}${parsed.sw2.toString(16)})`);
+        }
+        const chunk = payload.slice(sent, sent + NEXT_FRAME_MAX);
+        parsed = await this.sendFrame(DesfireCommand.ADDITIONAL_FRAME, chunk);
+        this.checkResponse(parsed);
+        sent += chunk.length;
+      }
+
+      // Handle additional response frames
+      const frames: Buffer[] = [parsed.data];
+      while (APDU.isAdditionalFrame(parsed.sw1, parsed.sw2)) {
+        parsed = await this.sendFrame(DesfireCommand.ADDITIONAL_FRAME);
+        this.checkResponse(parsed);
+        frames.push(parsed.data);
+      }
 
+      return { data: Buffer.concat(frames), sw2: parsed.sw2 };
+    });
+  }
+
+  /**
+   * Send a single native frame without following additional frames.
+   * Used directly by the authentication handshakes.
+   */
+  private async sendFrame(cmd: number, data?: Buffer): Promise<ParsedResponse> {
     if (data && data.length) {
       // With data: try in preferred order
-      const attempts = this.preferNoLe
-        ? [
-            { apdu: APDU.build(0x90, cmd, 0x00, 0x00, data), usesLe: false },
-            { apdu: APDU.build(0x90, cmd, 0x00, 0x00, data, 0), usesLe: true },
-          ]
-        : [
-            { apdu: APDU.build(0x90, cmd, 0x00, 0x00, data, 0), usesLe: true },
-            { apdu: APDU.build(0x90, cmd, 0x00, 0x00, data), usesLe: false },
-          ];
+      return this.tryTransmitAttempts(
+        this.preferNoLe
+          ? [
+              { apdu: APDU.build(0x90, cmd, 0x00, 0x00, data), usesLe: false },
+              { apdu: APDU.build(0x90, cmd, 0x00, 0x00, data, 0), usesLe: true },
+            ]
+          : [
+              { apdu: APDU.build(0x90, cmd, 0x00, 0x00, data, 0), usesLe: true },
+              { apdu: APDU.build(0x90, cmd, 0x00, 0x00, data), usesLe: false },
+            ]
+      );
+    }
 
-      parsed = await this.tryTransmitAttempts(attempts);
-    } else {
-      // No data: some readers/cards prefer Le present (0x00), others prefer no Le.
-      // Try with Le first, then without Le if we get a LENGTH_ERROR.
-      const attempts = this.preferNoLe
+    // No data: some readers/cards prefer Le present (0x00), others prefer no Le.
+    // Try the preferred style first, then the other one if we get a LENGTH_ERROR.
+    return this.tryTransmitAttempts(
+      this.preferNoLe
         ? [
             { apdu: Buffer.from([0x90, cmd, 0x00, 0x00]), usesLe: false },
             { apdu: Buffer.from([0x90, cmd, 0x00, 0x00, 0x00]), usesLe: true },
@@ -151,73 +394,54 @@ export class DESFireCard {
         : [
             { apdu: Buffer.from([0x90, cmd, 0x00, 0x00, 0x00]), usesLe: true },
             { apdu: Buffer.from([0x90, cmd, 0x00, 0x00]), usesLe: false },
-          ];
-      parsed = await this.tryTransmitAttempts(attempts);
-    }
-
-    if (!APDU.isSuccess(parsed.sw1, parsed.sw2) && !APDU.isAdditionalFrame(parsed.sw1, parsed.sw2)) {
-      throw new Error(`DESFire command failed: ${parsed.status} (SW: ${parsed.sw1.toString(16)}${parsed.sw2.toString(16)})`);
-    }
-
-    // Handle additional frames
-    if (APDU.isAdditionalFrame(parsed.sw1, parsed.sw2)) {
-      const additionalData = await this.getAdditionalFrame();
-      return Buffer.concat([parsed.data, additionalData]);
-    }
-
-    return parsed.data;
+          ]
+    );
   }
 
   /**
-   * Get additional frame when response is split
+   * Throw on error status. The card drops its authentication state on
+   * errors, so the local session is discarded as well.
    */
-  private async getAdditionalFrame(): Promise<Buffer> {
-    // No-data command; use preferred style
-    const attempts = this.preferNoLe
-      ? [
-          { apdu: Buffer.from([0x90, DesfireCommand.ADDITIONAL_FRAME, 0x00, 0x00]), usesLe: false },
-          { apdu: Buffer.from([0x90, DesfireCommand.ADDITIONAL_FRAME, 0x00, 0x00, 0x00]), usesLe: true },
-        ]
-      : [
-          { apdu: Buffer.from([0x90, DesfireCommand.ADDITIONAL_FRAME, 0x00, 0x00, 0x00]), usesLe: true },
-          { apdu: Buffer.from([0x90, DesfireCommand.ADDITIONAL_FRAME, 0x00, 0x00]), usesLe: false },
-        ];
-    const parsed = await this.tryTransmitAttempts(attempts);
-
-    if (APDU.isAdditionalFrame(parsed.sw1, parsed.sw2)) {
-      const additionalData = await this.getAdditionalFrame();
-      return Buffer.concat([parsed.data, additionalData]);
+  private checkResponse(parsed: ParsedResponse): void {
+    if (APDU.isSuccess(parsed.sw1, parsed.sw2) || APDU.isAdditionalFrame(parsed.sw1, parsed.sw2)) {
+      return;
     }
-
-    return parsed.data;
+    if (this.authenticated) {
+      this.resetAuth();
+    }
+    throw new Error(`DESFire command failed: ${parsed.status} (SW: ${parsed.sw1.toString(16)}${parsed.sw2.toString(16)})`);
   }
 
   /**
    * Low-level transmit helper that returns parsed status without auto fetching.
    */
-  private async transmitParsed(apdu: Buffer): Promise<{ sw1: number; sw2: number; data: Buffer; status: string }> {
+  private async transmitParsed(apdu: Buffer): Promise<ParsedResponse> {
+    return this.exclusive('transmit', () => this.transmitParsedLocked(apdu));
+  }
+
+  private async transmitParsedLocked(apdu: Buffer): Promise<ParsedResponse> {
+    throwIfAborted();
     if (process.env.DESFIRE_DEBUG) {
       console.log(`>> ${apdu.toString('hex')}`);
     }
     let response: Buffer | null = null;
+    let transmitError: unknown = null;
     // 1) Standard PC/SC transmit with one retry
     try {
       response = await this.reader.transmit(apdu, 256);
     } catch (err) {
       await new Promise((r) => setTimeout(r, 80));
-      try { response = await this.reader.transmit(apdu, 256); } catch {}
+      try { response = await this.reader.transmit(apdu, 256); } catch (retryErr) { transmitError = retryErr; }
     }
     if (response && response.length >= 2) {
       if (process.env.DESFIRE_DEBUG) console.log(`<< ${response.toString('hex')}`);
       return APDU.parse(response);
     }
 
-    // 2) Try ACR122U escape pass-through as fallback
-    if (isACR122U(this.reader)) {
+    // 2) Try the reader's escape path as fallback (ACR122U pass-through)
+    if (this.reader.escape) {
       try {
-        // Attempt ISO-DEP activation first (best-effort)
-        try { await ensureIsoDep(this.reader); } catch {}
-        const escResp = await transmitViaAcr122U(this.reader, apdu, 512);
+        const escResp = await this.reader.escape(apdu);
         if (escResp && escResp.length >= 2) {
           if (process.env.DESFIRE_DEBUG) console.log(`<<(esc) ${escResp.toString('hex')}`);
           return APDU.parse(escResp);
@@ -242,13 +466,15 @@ export class DESFireCard {
       } catch {}
     }
 
+    // Report why the reader failed rather than an empty response
+    if (!response && transmitError) throw transmitError;
     return APDU.parse(response || Buffer.alloc(0));
   }
 
   private async tryTransmitAttempts(
     attempts: Array<{ apdu: Buffer; usesLe: boolean }>
-  ): Promise<{ sw1: number; sw2: number; data: Buffer; status: string }> {
-    let last: { sw1: number; sw2: number; data: Buffer; status: string } | null = null;
+  ): Promise<ParsedResponse> {
+    let last: ParsedResponse | null = null;
     for (const { apdu, usesLe } of attempts) {
       const parsed = await this.transmitParsed(apdu);
       // If success or additional frame, update preference to the style just used
@@ -265,18 +491,227 @@ export class DESFireCard {
     return last!;
   }
 
+  // ============================================================================
+  // SECURE MESSAGING
+  // ============================================================================
+
+  /**
+   * True when session keys are established (and, for EV2, the TI)
+   */
+  private hasSecureSession(): boolean {
+    if (!this.authenticated || this.sessionKeyEnc === null || this.sessionKeyMac === null) {
+      return false;
+    }
+    return this.authMode !== 'EV2' || this.transactionId !== null;
+  }
+
+  /**
+   * Protect command data for EV2 secure messaging
+   * MAC:  CmdHeader || CmdData || MACt
+   * FULL: CmdHeader || E(KSesAuthENC, CmdData || padding) || MACt
+   * MACt = CMAC(KSesAuthMAC, Cmd || CmdCtr || TI || CmdHeader || CmdData) truncated to 8 bytes
+   */
+  private wrapCommandEV2(cmd: number, data: Buffer, commMode: CommMode, headerLength: number): Buffer {
+    if (commMode === CommMode.PLAIN) {
+      return data;
+    }
+
+    const sessionKeyEnc = this.sessionKeyEnc!;
+    const ti = this.transactionId!;
+    const header = data.slice(0, headerLength);
+    let body: Buffer = data.slice(headerLength);
+
+    if (commMode === CommMode.FULL && body.length > 0) {
+      const iv = CryptoUtils.commandIVEV2(sessionKeyEnc, ti, this.commandCounter);
+      body = CryptoUtils.aesEncrypt(sessionKeyEnc, CryptoUtils.padData(body), iv);
+    }
+
+    const ctr = Buffer.alloc(2);
+    ctr.writeUInt16LE(this.commandCounter, 0);
+    const macInput = Buffer.concat([Buffer.from([cmd]), ctr, ti, header, body]);
+    const mac = CryptoUtils.truncateMAC(CryptoUtils.aesCMAC(this.sessionKeyMac!, macInput));
+
+    return Buffer.concat([header, body, mac]);
+  }
+
+  /**
+   * Verify and unprotect an EV2 response. CmdCtr is incremented for every
+   * command/response pair of the session, including plain ones.
+   */
+  private unwrapResponseEV2(response: Buffer, sw2: number, commMode: CommMode): Buffer {
+    this.commandCounter = (this.commandCounter + 1) & 0xFFFF;
+
+    if (commMode === CommMode.PLAIN) {
+      return response;
+    }
+
+    if (response.length < 8) {
+      this.resetAuth();
+      throw new Error('EV2 secure messaging: response MAC missing');
+    }
+
+    const body = response.slice(0, response.length - 8);
+    const mac = response.slice(response.length - 8);
+
+    const ctr = Buffer.alloc(2);
+    ctr.writeUInt16LE(this.commandCounter, 0);
+    const macInput = Buffer.concat([Buffer.from([sw2]), ctr, this.transactionId!, body]);
+    const expected = CryptoUtils.truncateMAC(CryptoUtils.aesCMAC(this.sessionKeyMac!, macInput));
+
+    if (!crypto.timingSafeEqual(mac, expected)) {
+      this.resetAuth();
+      throw new Error('EV2 secure messaging: response MAC verification failed');
+    }
+
+    if (commMode === CommMode.FULL && body.length > 0) {
+      if (body.length % 16 !== 0) {
+        this.resetAuth();
+        throw new Error('EV2 secure messaging: invalid encrypted response length');
+      }
+      const iv = CryptoUtils.responseIVEV2(this.sessionKeyEnc!, this.transactionId!, this.commandCounter);
+      return CryptoUtils.unpadData(CryptoUtils.aesDecrypt(this.sessionKeyEnc!, body, iv));
+    }
+
+    return body;
+  }
+
+  /**
+   * Protect command data for EV1 (AES) secure messaging
+   * Every command updates the running IV with CMAC(Cmd || Data), even in plain mode.
+   * MAC:  CmdHeader || CmdData || CMAC[0..7]
+   * FULL: CmdHeader || E(KSes, IV, CmdData || CRC32(Cmd || CmdHeader || CmdData) || 0x00 padding)
+   */
+  private wrapCommandEV1(cmd: number, data: Buffer, commMode: CommMode, headerLength: number): Buffer {
+    const key = this.sessionKeyEnc!;
+    const header = data.slice(0, headerLength);
+    const body = data.slice(headerLength);
+
+    if (commMode === CommMode.FULL && body.length > 0) {
+      const crc = CryptoUtils.crc32Buffer(Buffer.concat([Buffer.from([cmd]), data]));
+      const encrypted = CryptoUtils.aesEncrypt(key, zeroPad(Buffer.concat([body, crc]), 16), this.sessionIV!);
+      this.sessionIV = encrypted.slice(encrypted.length - 16);
+      return Buffer.concat([header, encrypted]);
+    }
+
+    const cmac = CryptoUtils.aesCMAC(key, Buffer.concat([Buffer.from([cmd]), data]), 16, this.sessionIV!);
+    this.sessionIV = cmac;
+    if (commMode === CommMode.MAC && body.length > 0) {
+      return Buffer.concat([data, cmac.slice(0, 8)]);
+    }
+    return data;
+  }
+
+  /**
+   * Verify and unprotect an EV1 (AES) response
+   * Plain/MAC: RespData || CMAC(RespData || Status)[0..7]
+   * FULL:      E(KSes, IV, RespData || CRC32(RespData || Status) || 0x00 padding)
+   */
+  private unwrapResponseEV1(response: Buffer, sw2: number, commMode: CommMode, responseLength?: number): Buffer {
+    const key = this.sessionKeyEnc!;
+    const status = Buffer.from([sw2]);
+
+    if (commMode === CommMode.FULL && response.length > 0) {
+      if (response.length % 16 !== 0) {
+        this.resetAuth();
+        throw new Error('EV1 secure messaging: invalid encrypted response length');
+      }
+      const plain = CryptoUtils.aesDecrypt(key, response, this.sessionIV!);
+      this.sessionIV = response.slice(response.length - 16);
+      const data = stripCrc(plain, 4, (d) => CryptoUtils.crc32Buffer(Buffer.concat([d, status])), responseLength);
+      if (!data) {
+        this.resetAuth();
+        throw new Error('EV1 secure messaging: response CRC verification failed');
+      }
+      return data;
+    }
+
+    if (response.length < 8) {
+      this.resetAuth();
+      throw new Error('EV1 secure messaging: response CMAC missing');
+    }
+
+    const body = response.slice(0, response.length - 8);
+    const cmac = CryptoUtils.aesCMAC(key, Buffer.concat([body, status]), 16, this.sessionIV!);
+    if (!crypto.timingSafeEqual(cmac.slice(0, 8), response.slice(response.length - 8))) {
+      this.resetAuth();
+      throw new Error('EV1 secure messaging: response CMAC verification failed');
+    }
+    this.sessionIV = cmac;
+    return body;
+  }
+
+  /**
+   * Protect command data for legacy (native DES/2K3DES) secure messaging
+   * MAC:  CmdHeader || CmdData || MAC(CmdData)[0..3]
+   * FULL: CmdHeader || SendMode(KSes, CmdData || CRC16(CmdData) || 0x00 padding)
+   */
+  private wrapCommandLegacy(data: Buffer, commMode: CommMode, headerLength: number): Buffer {
+    const key = this.sessionKeyEnc!;
+    const header = data.slice(0, headerLength);
+    const body = data.slice(headerLength);
+
+    if (body.length === 0 || commMode === CommMode.PLAIN) {
+      return data;
+    }
+
+    if (commMode === CommMode.MAC) {
+      return Buffer.concat([data, CryptoUtils.desMAC(key, body)]);
+    }
+
+    const plain = zeroPad(Buffer.concat([body, CryptoUtils.crc16Buffer(body)]), 8);
+    return Buffer.concat([header, CryptoUtils.desSendMode(key, plain)]);
+  }
+
+  /**
+   * Verify and unprotect a legacy (native DES/2K3DES) response
+   */
+  private unwrapResponseLegacy(response: Buffer, commMode: CommMode, responseLength?: number): Buffer {
+    const key = this.sessionKeyEnc!;
+
+    if (commMode === CommMode.PLAIN || response.length === 0) {
+      return response;
+    }
+
+    if (commMode === CommMode.MAC) {
+      if (response.length < 4) {
+        this.resetAuth();
+        throw new Error('Legacy secure messaging: response MAC missing');
+      }
+      const body = response.slice(0, response.length - 4);
+      if (!crypto.timingSafeEqual(CryptoUtils.desMAC(key, body), response.slice(response.length - 4))) {
+        this.resetAuth();
+        throw new Error('Legacy secure messaging: response MAC verification failed');
+      }
+      return body;
+    }
+
+    if (response.length % 8 !== 0) {
+      this.resetAuth();
+      throw new Error('Legacy secure messaging: invalid encrypted response length');
+    }
+    const plain = CryptoUtils.desDecrypt(key, response);
+    const data = stripCrc(plain, 2, (d) => CryptoUtils.crc16Buffer(d), responseLength);
+    if (!data) {
+      this.resetAuth();
+      throw new Error('Legacy secure messaging: response CRC verification failed');
+    }
+    return data;
+  }
+
   /**
    * Get card version information
    */
   async getVersion(): Promise<{ hardware: Buffer; software: Buffer; uid: Buffer }> {
-    // For ACR122U, try to ensure ISO-DEP once per presence
+    // Inside a secure session the exchange must go through secure messaging
+    if (this.hasSecureSession()) {
+      const all = await this.sendCommand(DesfireCommand.GET_VERSION);
+      this.rememberUid(all.slice(14, 21));
+      return { hardware: all.slice(0, 7), software: all.slice(7, 14), uid: all.slice(14) };
+    }
+
+    // Reader-specific preparation, e.g. ACR122U ISO-DEP activation (best-effort)
     try {
-      const now = Date.now();
-      if (isACR122U(this.reader) && !this.reader.__acrIsoDepInitTs) {
-        await ensureIsoDep(this.reader);
-        this.reader.__acrIsoDepInitTs = now;
-        await new Promise((r) => setTimeout(r, 120));
-      }
+      await this.reader.activate?.();
     } catch {}
     const trySequence = async (style: 'noLe' | 'withLe'): Promise<Buffer> => {
       const sendNoData = async (ins: number) => {
@@ -313,7 +748,7 @@ export class DESFireCard {
     // Prefer no-Le style first for ACR122U, then with-Le if needed
     for (const style of ['noLe', 'withLe'] as const) {
       try {
-        all = await trySequence(style);
+        all = await this.exclusive('GetVersion', () => trySequence(style));
         this.preferNoLe = style === 'noLe';
         break;
       } catch (e: any) {
@@ -336,10 +771,20 @@ export class DESFireCard {
     const hardware = all.slice(0, Math.min(block, all.length));
     const software = all.slice(block, Math.min(block * 2, all.length));
     const uid = all.slice(block * 2);
+    this.rememberUid(uid.slice(0, 7));
 
     return { hardware, software, uid };
   }
 
+  /**
+   * Record the UID from GetVersion (all zeros when random UID is enabled)
+   */
+  private rememberUid(uid: Buffer): void {
+    if (uid.length === 7 && uid.some((b) => b !== 0)) {
+      this.cardUid = Buffer.from(uid);
+    }
+  }
+
   /**
    * Get list of application IDs on the card
    */
@@ -362,17 +807,33 @@ export class DESFireCard {
    * @param keySetting Key settings byte
    * @param numKeys Number of keys (1-14)
    * @param keyType Key type (0x80 for AES)
+   * @param iso Optional ISO 7816-4 file ID (2 bytes) and DF name (1-16 bytes)
    */
-  async createApplication(aid: number, keySetting: number, numKeys: number, keyType: number = 0x80): Promise<void> {
+  async createApplication(
+    aid: number,
+    keySetting: number,
+    numKeys: number,
+    keyType: number = 0x80,
+    iso?: { fileId: number; dfName?: Buffer }
+  ): Promise<void> {
     const aidBuffer = Buffer.allocUnsafe(3);
     aidBuffer.writeUIntLE(aid, 0, 3);
 
-    const data = Buffer.concat([
+    const parts: Buffer[] = [
       aidBuffer,
-      Buffer.from([keySetting, numKeys | keyType])
-    ]);
+      Buffer.from([keySetting, numKeys | keyType | (iso ? 0x20 : 0x00)])
+    ];
+    if (iso) {
+      if (iso.dfName && (iso.dfName.length < 1 || iso.dfName.length > 16)) {
+        throw new Error('ISO DF name must be 1-16 bytes');
+      }
+      const fileId = Buffer.allocUnsafe(2);
+      fileId.writeUInt16LE(iso.fileId, 0);
+      parts.push(fileId);
+      if (iso.dfName) parts.push(iso.dfName);
+    }
 
-    await this.sendCommand(DesfireCommand.CREATE_APPLICATION, data, false);
+    await this.sendCommand(DesfireCommand.CREATE_APPLICATION, Buffer.concat(parts), false);
     console.log(`Application 0x${aid.toString(16).padStart(6, '0')} created successfully`);
   }
 
@@ -383,6 +844,8 @@ export class DESFireCard {
     const aidBuffer = Buffer.allocUnsafe(3);
     aidBuffer.writeUIntLE(aid, 0, 3);
 
+    // Selecting an application always ends the current authentication
+    this.resetAuth();
     await this.sendCommand(DesfireCommand.SELECT_APPLICATION, aidBuffer, false);
     this.currentApp = aid;
     console.log(`Application 0x${aid.toString(16).padStart(6, '0')} selected`);
@@ -392,11 +855,13 @@ export class DESFireCard {
    * Delete an application
    */
   async deleteApplication(aid: number): Promise<void> {
-    const aidBuffer = Buffer.allocUnsafe(3);
-    aidBuffer.writeUIntLE(aid, 0, 3);
+    return this.audited({ action: 'card.delete-application', details: { aid: auditAppId(aid) } }, async () => {
+      const aidBuffer = Buffer.allocUnsafe(3);
+      aidBuffer.writeUIntLE(aid, 0, 3);
 
-    await this.sendCommand(DesfireCommand.DELETE_APPLICATION, aidBuffer, false);
-    console.log(`Application 0x${aid.toString(16).padStart(6, '0')} deleted`);
+      await this.sendCommand(DesfireCommand.DELETE_APPLICATION, aidBuffer, false);
+      console.log(`Application 0x${aid.toString(16).padStart(6, '0')} deleted`);
+    });
   }
 
   /**
@@ -407,6 +872,42 @@ export class DESFireCard {
     return Array.from(response);
   }
 
+  /**
+   * Get settings of a file in the current application
+   * @returns Typed settings (std/backup/value/linear/cyclic) with decoded access rights
+   */
+  async getFileSettings(fileNo: number): Promise<FileSettings> {
+    const response = await this.sendCommand(DesfireCommand.GET_FILE_SETTINGS, Buffer.from([fileNo]), true, {
+      headerLength: 1
+    });
+    return parseFileSettings(fileNo, response);
+  }
+
+  /**
+   * Change communication mode and access rights of a file
+   * The command is enciphered with the session keys unless the file's current
+   * Change access right is free, in which case pass CommMode.PLAIN as sendMode.
+   * @param fileNo File number
+   * @param commMode New communication mode of the file
+   * @param accessRights New access rights (decoded or 2-byte wire format)
+   * @param sendMode Protection of the command itself (default: FULL within a secure session)
+   */
+  async changeFileSettings(
+    fileNo: number,
+    commMode: CommMode,
+    accessRights: AccessRights | Buffer,
+    sendMode?: CommMode
+  ): Promise<void> {
+    const rights = Buffer.isBuffer(accessRights) ? accessRights : encodeAccessRights(accessRights);
+    const data = Buffer.concat([Buffer.from([fileNo, commMode]), rights]);
+
+    await this.sendCommand(DesfireCommand.CHANGE_FILE_SETTINGS, data, false, {
+      commMode: sendMode ?? (this.hasSecureSession() ? CommMode.FULL : CommMode.PLAIN),
+      headerLength: 1
+    });
+    console.log(`File ${fileNo} settings changed`);
+  }
+
   /**
    * Create a standard data file
    * @param fileNo File number (0-31)
@@ -463,7 +964,7 @@ export class DESFireCard {
    * @param lowerLimit Minimum value
    * @param upperLimit Maximum value
    * @param value Initial value
-   * @param limitedCreditEnabled Enable limited credit
+   * @param limitedCreditEnabled Value options: VALUE_LIMITED_CREDIT | VALUE_FREE_GET_VALUE
    */
   async createValueFile(
     fileNo: number,
@@ -495,10 +996,81 @@ export class DESFireCard {
     console.log(`Value file ${fileNo} created (initial value: ${value})`);
   }
 
+  /**
+   * Create a linear record file (writes fail once maxRecords is reached)
+   * @param fileNo File number (0-31)
+   * @param commSettings Communication settings
+   * @param accessRights Access rights (2 bytes)
+   * @param recordSize Size of one record in bytes
+   * @param maxRecords Maximum number of records
+   */
+  async createLinearRecordFile(
+    fileNo: number,
+    commSettings: number,
+    accessRights: Buffer,
+    recordSize: number,
+    maxRecords: number
+  ): Promise<void> {
+    await this.createRecordFile(
+      DesfireCommand.CREATE_LINEAR_RECORD_FILE, fileNo, commSettings, accessRights, recordSize, maxRecords
+    );
+    console.log(`Linear record file ${fileNo} created (${maxRecords} x ${recordSize} bytes)`);
+  }
+
+  /**
+   * Create a cyclic record file (the oldest record is overwritten when full)
+   * One record is reserved by the card, so maxRecords - 1 records are usable.
+   * @param fileNo File number (0-31)
+   * @param commSettings Communication settings
+   * @param accessRights Access rights (2 bytes)
+   * @param recordSize Size of one record in bytes
+   * @param maxRecords Maximum number of records (at least 2)
+   */
+  async createCyclicRecordFile(
+    fileNo: number,
+    commSettings: number,
+    accessRights: Buffer,
+    recordSize: number,
+    maxRecords: number
+  ): Promise<void> {
+    if (maxRecords < 2) {
+      throw new Error('Cyclic record files need at least 2 records');
+    }
+    await this.createRecordFile(
+      DesfireCommand.CREATE_CYCLIC_RECORD_FILE, fileNo, commSettings, accessRights, recordSize, maxRecords
+    );
+    console.log(`Cyclic record file ${fileNo} created (${maxRecords} x ${recordSize} bytes)`);
+  }
+
+  private async createRecordFile(
+    cmd: DesfireCommand,
+    fileNo: number,
+    commSettings: number,
+    accessRights: Buffer,
+    recordSize: number,
+    maxRecords: number
+  ): Promise<void> {
+    const recordSizeBuffer = Buffer.allocUnsafe(3);
+    const maxRecordsBuffer = Buffer.allocUnsafe(3);
+
+    recordSizeBuffer.writeUIntLE(recordSize, 0, 3);
+    maxRecordsBuffer.writeUIntLE(maxRecords, 0, 3);
+
+    const data = Buffer.concat([
+      Buffer.from([fileNo, commSettings]),
+      accessRights,
+      recordSizeBuffer,
+      maxRecordsBuffer
+    ]);
+
+    await this.sendCommand(cmd, data, false);
+  }
+
   /**
    * Read data from a standard or backup data file
+   * @param commMode Communication mode of the file (MAC/FULL require authentication)
    */
-  async readData(fileNo: number, offset: number, length: number): Promise<Buffer> {
+  async readData(fileNo: number, offset: number, length: number, commMode: CommMode = CommMode.PLAIN): Promise<Buffer> {
     const offsetBuffer = Buffer.allocUnsafe(3);
     const lengthBuffer = Buffer.allocUnsafe(3);
 
@@ -511,58 +1083,35 @@ export class DESFireCard {
       lengthBuffer
     ]);
 
-    return await this.sendCommand(DesfireCommand.READ_DATA, data);
+    return await this.sendCommand(DesfireCommand.READ_DATA, data, true, {
+      commMode,
+      headerLength: data.length,
+      responseLength: length || undefined
+    });
   }
 
   /**
    * Write data to a standard or backup data file
+   * Data longer than one frame is sent using additional frames.
+   * @param commMode Communication mode of the file (MAC/FULL require authentication)
    */
-  async writeData(fileNo: number, offset: number, data: Buffer): Promise<void> {
+  async writeData(fileNo: number, offset: number, data: Buffer, commMode: CommMode = CommMode.PLAIN): Promise<void> {
     const offsetBuffer = Buffer.allocUnsafe(3);
     const lengthBuffer = Buffer.allocUnsafe(3);
 
     offsetBuffer.writeUIntLE(offset, 0, 3);
     lengthBuffer.writeUIntLE(data.length, 0, 3);
 
-    // Conservative max chunk size for ACR122U + DESFire in plain mode.
-    // This is the payload portion only (excluding fileNo/offset/length).
-    const MAX_CHUNK = 40;
-
-    let sent = 0;
-
-    // First frame must carry the header + first data chunk
-    const firstChunk = data.slice(0, Math.min(data.length, MAX_CHUNK));
-    const firstPayload = Buffer.concat([
+    const header = Buffer.concat([
       Buffer.from([fileNo]),
       offsetBuffer,
-      lengthBuffer,
-      firstChunk
+      lengthBuffer
     ]);
 
-    let parsed = await this.transmitParsed(APDU.buildDESFire(DesfireCommand.WRITE_DATA, firstPayload, 0));
-
-    if (!(APDU.isSuccess(parsed.sw1, parsed.sw2) || APDU.isAdditionalFrame(parsed.sw1, parsed.sw2))) {
-      throw new Error(`DESFire WriteData failed: ${parsed.status} (SW: ${parsed.sw1.toString(16)}${parsed.sw2.toString(16)})`);
-    }
-
-    sent += firstChunk.length;
-
-    // If more data remains, continue with Additional Frame(s)
-    while (sent < data.length) {
-      const remaining = data.length - sent;
-      const chunk = data.slice(sent, sent + Math.min(remaining, MAX_CHUNK));
-      // Additional frame with data: try Le=0x00 first, then no-Le
-      parsed = await this.transmitParsed(APDU.build(0x90, DesfireCommand.ADDITIONAL_FRAME, 0x00, 0x00, chunk, 0));
-      if (parsed.sw1 === 0x91 && (parsed.sw2 === 0x7E || parsed.sw2 === 0xA1)) {
-        parsed = await this.transmitParsed(APDU.build(0x90, DesfireCommand.ADDITIONAL_FRAME, 0x00, 0x00, chunk));
-      }
-
-      if (!(APDU.isSuccess(parsed.sw1, parsed.sw2) || APDU.isAdditionalFrame(parsed.sw1, parsed.sw2))) {
-        throw new Error(`DESFire WriteData (AF) failed at ${sent}: ${parsed.status} (SW: ${parsed.sw1.toString(16)}${parsed.sw2.toString(16)})`);
-      }
-
-      sent += chunk.length;
-    }
+    await this.sendCommand(DesfireCommand.WRITE_DATA, Buffer.concat([header, data]), false, {
+      commMode,
+      headerLength: header.length
+    });
 
     console.log(`Wrote ${data.length} bytes to file ${fileNo} at offset ${offset}`);
   }
@@ -570,66 +1119,230 @@ export class DESFireCard {
   /**
    * Get value from a value file
    */
-  async getValue(fileNo: number): Promise<number> {
+  async getValue(fileNo: number, commMode: CommMode = CommMode.PLAIN): Promise<number> {
     const data = Buffer.from([fileNo]);
-    const response = await this.sendCommand(DesfireCommand.GET_VALUE, data);
+    const response = await this.sendCommand(DesfireCommand.GET_VALUE, data, true, {
+      commMode,
+      headerLength: 1,
+      responseLength: 4
+    });
     return response.readInt32LE(0);
   }
 
   /**
    * Credit (add) value to a value file
    */
-  async credit(fileNo: number, amount: number): Promise<void> {
-    const amountBuffer = Buffer.allocUnsafe(4);
-    amountBuffer.writeInt32LE(amount, 0);
+  async credit(fileNo: number, amount: number, commMode: CommMode = CommMode.PLAIN): Promise<void> {
+    return this.audited({ action: 'card.credit', details: { fileNo, amount } }, async () => {
+      const amountBuffer = Buffer.allocUnsafe(4);
+      amountBuffer.writeInt32LE(amount, 0);
+
+      const data = Buffer.concat([
+        Buffer.from([fileNo]),
+        amountBuffer
+      ]);
+
+      await this.sendCommand(DesfireCommand.CREDIT, data, false, { commMode, headerLength: 1 });
+      console.log(`Credited ${amount} to value file ${fileNo}`);
+    });
+  }
 
-    const data = Buffer.concat([
+  /**
+   * Debit (subtract) value from a value file
+   */
+  async debit(fileNo: number, amount: number, commMode: CommMode = CommMode.PLAIN): Promise<void> {
+    return this.audited({ action: 'card.debit', details: { fileNo, amount } }, async () => {
+      const amountBuffer = Buffer.allocUnsafe(4);
+      amountBuffer.writeInt32LE(amount, 0);
+
+      const data = Buffer.concat([
+        Buffer.from([fileNo]),
+        amountBuffer
+      ]);
+
+      await this.sendCommand(DesfireCommand.DEBIT, data, false, { commMode, headerLength: 1 });
+      console.log(`Debited ${amount} from value file ${fileNo}`);
+    });
+  }
+
+  /**
+   * Limited credit: add value to a value file with the Write access key
+   * The amount may not exceed the sum of debits committed since the last
+   * credit (limitedCreditValue). Requires limited credit to be enabled.
+   */
+  async limitedCredit(fileNo: number, amount: number, commMode: CommMode = CommMode.PLAIN): Promise<void> {
+    return this.audited({ action: 'card.limited-credit', details: { fileNo, amount } }, async () => {
+      const amountBuffer = Buffer.allocUnsafe(4);
+      amountBuffer.writeInt32LE(amount, 0);
+
+      const data = Buffer.concat([
+        Buffer.from([fileNo]),
+        amountBuffer
+      ]);
+
+      await this.sendCommand(DesfireCommand.LIMITED_CREDIT, data, false, { commMode, headerLength: 1 });
+      console.log(`Limited credit ${amount} to value file ${fileNo}`);
+    });
+  }
+
+  /**
+   * Get the value of a value file together with its limits
+   * The communication mode of the file is taken from its settings.
+   */
+  async getValueWithLimits(fileNo: number): Promise<{
+    value: number;
+    lowerLimit: number;
+    upperLimit: number;
+    limitedCreditValue: number;
+    limitedCreditEnabled: boolean;
+    freeGetValue: boolean;
+  }> {
+    const settings = await this.getFileSettings(fileNo);
+    if (settings.type !== 'value') {
+      throw new Error(`File ${fileNo} is not a value file (${settings.type})`);
+    }
+
+    const value = await this.getValue(fileNo, settings.commMode);
+    return {
+      value,
+      lowerLimit: settings.lowerLimit,
+      upperLimit: settings.upperLimit,
+      limitedCreditValue: settings.limitedCreditValue,
+      limitedCreditEnabled: settings.limitedCreditEnabled,
+      freeGetValue: settings.freeGetValue
+    };
+  }
+
+  /**
+   * Write (part of) a record to a linear or cyclic record file
+   * The record becomes visible only after commitTransaction().
+   * @param offset Offset within the record
+   * @param commMode Communication mode of the file (MAC/FULL require authentication)
+   */
+  async writeRecord(fileNo: number, offset: number, data: Buffer, commMode: CommMode = CommMode.PLAIN): Promise<void> {
+    const offsetBuffer = Buffer.allocUnsafe(3);
+    const lengthBuffer = Buffer.allocUnsafe(3);
+
+    offsetBuffer.writeUIntLE(offset, 0, 3);
+    lengthBuffer.writeUIntLE(data.length, 0, 3);
+
+    const header = Buffer.concat([
       Buffer.from([fileNo]),
-      amountBuffer
+      offsetBuffer,
+      lengthBuffer
     ]);
 
-    await this.sendCommand(DesfireCommand.CREDIT, data, false);
-    console.log(`Credited ${amount} to value file ${fileNo}`);
+    await this.sendCommand(DesfireCommand.WRITE_RECORD, Buffer.concat([header, data]), false, {
+      commMode,
+      headerLength: header.length
+    });
+
+    console.log(`Wrote record (${data.length} bytes) to file ${fileNo}`);
   }
 
   /**
-   * Debit (subtract) value from a value file
+   * Read records from a linear or cyclic record file
+   * Records are returned oldest first; large reads span additional frames.
+   * @param offset Number of records to skip, counted back from the newest record
+   * @param count Number of records to read (0 = all records from offset)
+   * @param commMode Communication mode of the file (MAC/FULL require authentication)
    */
-  async debit(fileNo: number, amount: number): Promise<void> {
-    const amountBuffer = Buffer.allocUnsafe(4);
-    amountBuffer.writeInt32LE(amount, 0);
+  async readRecords(
+    fileNo: number,
+    offset: number = 0,
+    count: number = 0,
+    commMode: CommMode = CommMode.PLAIN
+  ): Promise<Buffer> {
+    const offsetBuffer = Buffer.allocUnsafe(3);
+    const countBuffer = Buffer.allocUnsafe(3);
+
+    offsetBuffer.writeUIntLE(offset, 0, 3);
+    countBuffer.writeUIntLE(count, 0, 3);
 
     const data = Buffer.concat([
       Buffer.from([fileNo]),
-      amountBuffer
+      offsetBuffer,
+      countBuffer
     ]);
 
-    await this.sendCommand(DesfireCommand.DEBIT, data, false);
-    console.log(`Debited ${amount} from value file ${fileNo}`);
+    return await this.sendCommand(DesfireCommand.READ_RECORDS, data, true, { commMode, headerLength: data.length });
   }
 
   /**
-   * Commit transaction (finalize backup/value file operations)
+   * Read records and decode them with a record codec
+   */
+  async readRecordsAs<T>(
+    fileNo: number,
+    codec: RecordCodec<T>,
+    offset: number = 0,
+    count: number = 0,
+    commMode: CommMode = CommMode.PLAIN
+  ): Promise<T[]> {
+    const raw = await this.readRecords(fileNo, offset, count, commMode);
+    if (raw.length % codec.recordSize !== 0) {
+      throw new Error(`Record data length ${raw.length} is not a multiple of record size ${codec.recordSize}`);
+    }
+
+    const records: T[] = [];
+    for (let i = 0; i < raw.length; i += codec.recordSize) {
+      records.push(codec.decode(raw.slice(i, i + codec.recordSize)));
+    }
+    return records;
+  }
+
+  /**
+   * Write a record encoded with a record codec
+   */
+  async writeRecordAs<T>(
+    fileNo: number,
+    codec: RecordCodec<T>,
+    record: T,
+    commMode: CommMode = CommMode.PLAIN
+  ): Promise<void> {
+    const data = codec.encode(record);
+    if (data.length !== codec.recordSize) {
+      throw new Error(`Encoded record is ${data.length} bytes, expected ${codec.recordSize}`);
+    }
+    await this.writeRecord(fileNo, 0, data, commMode);
+  }
+
+  /**
+   * Clear all records of a record file (takes effect after commitTransaction())
+   * Sent in the session default mode, like CommitTransaction.
+   */
+  async clearRecordFile(fileNo: number): Promise<void> {
+    await this.sendCommand(DesfireCommand.CLEAR_RECORD_FILE, Buffer.from([fileNo]), false, { headerLength: 1 });
+    console.log(`Record file ${fileNo} cleared`);
+  }
+
+  /**
+   * Commit transaction (finalize backup/value/record file operations)
    */
   async commitTransaction(): Promise<void> {
-    await this.sendCommand(DesfireCommand.COMMIT_TRANSACTION, undefined, false);
-    console.log('Transaction committed');
+    return this.audited({ action: 'card.commit-transaction' }, async () => {
+      await this.sendCommand(DesfireCommand.COMMIT_TRANSACTION, undefined, false);
+      console.log('Transaction committed');
+    });
   }
 
   /**
-   * Abort transaction (rollback backup/value file operations)
+   * Abort transaction (rollback backup/value/record file operations)
    */
   async abortTransaction(): Promise<void> {
-    await this.sendCommand(DesfireCommand.ABORT_TRANSACTION, undefined, false);
-    console.log('Transaction aborted');
+    return this.audited({ action: 'card.abort-transaction' }, async () => {
+      await this.sendCommand(DesfireCommand.ABORT_TRANSACTION, undefined, false);
+      console.log('Transaction aborted');
+    });
   }
 
   /**
    * Format PICC (WARNING: Erases all applications and data)
    */
   async formatPICC(): Promise<void> {
-    await this.sendCommand(DesfireCommand.FORMAT_PICC, undefined, false);
-    console.log('PICC formatted');
+    return this.audited({ action: 'card.format' }, async () => {
+      await this.sendCommand(DesfireCommand.FORMAT_PICC, undefined, false);
+      console.log('PICC formatted');
+    });
   }
 
   /**
@@ -650,78 +1363,82 @@ export class DESFireCard {
    * @param key AES-128 key (16 bytes), or null to use key from KeyManager
    */
   async authenticateAES(keyNo: number, key?: Buffer): Promise<void> {
-    // Get key from manager if not provided
-    let authKey: Buffer;
-    if (key) {
-      authKey = key;
-    } else if (this.keyManager && this.currentApp !== null) {
-      authKey = this.keyManager.getKey(this.currentApp, keyNo);
-    } else {
-      throw new Error('No key provided and no KeyManager set');
-    }
+    return this.audited({ action: 'card.authenticate', keyNo, details: { method: 'AES' } }, async () => {
+      // Get key from manager if not provided
+      let authKey: Buffer;
+      if (key) {
+        authKey = key;
+      } else if (this.keyManager && this.currentApp !== null) {
+        authKey = this.keyManager.getKey(this.currentApp, keyNo, this.cardUid ?? undefined);
+      } else {
+        throw new Error('No key provided and no KeyManager set');
+      }
 
-    if (authKey.length !== 16) {
-      throw new Error('AES key must be 16 bytes');
-    }
+      if (authKey.length !== 16) {
+        throw new Error('AES key must be 16 bytes');
+      }
 
-    console.log(`Authenticating with key ${keyNo} using AuthenticateAES...`);
+      console.log(`Authenticating with key ${keyNo} using AuthenticateAES...`);
 
-    // Reset authentication state
-    this.resetAuth();
+      // Reset authentication state
+      this.resetAuth();
 
-    // Step 1: Send Authenticate command with key number
-    const authCmd = Buffer.from([keyNo]);
-    const response1 = await this.sendCommand(DesfireCommand.AUTHENTICATE_AES, authCmd);
+      // Step 1: Send Authenticate command with key number
+      const authCmd = Buffer.from([keyNo]);
+      const frame1 = await this.sendFrame(DesfireCommand.AUTHENTICATE_AES, authCmd);
+      this.checkResponse(frame1);
+      const response1 = frame1.data;
 
-    // Response is encrypted RndB (16 bytes)
-    if (response1.length !== 16) {
-      throw new Error(`Expected 16 bytes RndB, got ${response1.length}`);
-    }
+      // Response is encrypted RndB (16 bytes)
+      if (response1.length !== 16) {
+        throw new Error(`Expected 16 bytes RndB, got ${response1.length}`);
+      }
 
-    const encRndB = response1;
+      const encRndB = response1;
 
-    // Step 2: Decrypt RndB
-    const rndB = CryptoUtils.aesDecrypt(authKey, encRndB, Buffer.alloc(16, 0x00));
-    console.log(`Decrypted RndB: ${rndB.toString('hex')}`);
+      // Step 2: Decrypt RndB
+      const rndB = CryptoUtils.aesDecrypt(authKey, encRndB, Buffer.alloc(16, 0x00));
 
-    // Step 3: Generate RndA
-    const rndA = CryptoUtils.generateRandom(16);
-    console.log(`Generated RndA: ${rndA.toString('hex')}`);
+      // Step 3: Generate RndA
+      const rndA = CryptoUtils.generateRandom(16);
 
-    // Step 4: Create RndA + RndB' (rotated left by 1 byte)
-    const rndBPrime = CryptoUtils.rotateLeft(rndB, 1);
-    const challenge = Buffer.concat([rndA, rndBPrime]);
+      // Step 4: Create RndA + RndB' (rotated left by 1 byte)
+      const rndBPrime = CryptoUtils.rotateLeft(rndB, 1);
+      const challenge = Buffer.concat([rndA, rndBPrime]);
 
-    // Step 5: Encrypt challenge and send
-    const encChallenge = CryptoUtils.aesEncrypt(authKey, challenge, Buffer.alloc(16, 0x00));
-    const response2 = await this.sendCommand(DesfireCommand.ADDITIONAL_FRAME, encChallenge);
+      // Step 5: Encrypt challenge and send (the IV chains: it is the encrypted RndB)
+      const encChallenge = CryptoUtils.aesEncrypt(authKey, challenge, encRndB);
+      const frame2 = await this.sendFrame(DesfireCommand.ADDITIONAL_FRAME, encChallenge);
+      this.checkResponse(frame2);
+      const response2 = frame2.data;
 
-    // Response is encrypted RndA' (16 bytes)
-    if (response2.length !== 16) {
-      throw new Error(`Expected 16 bytes encrypted RndA', got ${response2.length}`);
-    }
+      // Response is encrypted RndA' (16 bytes)
+      if (response2.length !== 16) {
+        throw new Error(`Expected 16 bytes encrypted RndA', got ${response2.length}`);
+      }
 
-    // Step 6: Decrypt and verify RndA'
-    const decryptedRndAPrime = CryptoUtils.aesDecrypt(authKey, response2, Buffer.alloc(16, 0x00));
-    const expectedRndAPrime = CryptoUtils.rotateLeft(rndA, 1);
+      // Step 6: Decrypt and verify RndA' (IV: last block of the challenge)
+      const decryptedRndAPrime = CryptoUtils.aesDecrypt(authKey, response2, encChallenge.slice(16));
+      const expectedRndAPrime = CryptoUtils.rotateLeft(rndA, 1);
 
-    if (!decryptedRndAPrime.equals(expectedRndAPrime)) {
-      throw new Error('Authentication failed: RndA verification failed');
-    }
+      if (!decryptedRndAPrime.equals(expectedRndAPrime)) {
+        throw new Error('Authentication failed: RndA verification failed');
+      }
 
-    console.log('RndA verified successfully');
+      console.log('RndA verified successfully');
 
-    // Step 7: Derive session keys
-    this.sessionKeyEnc = CryptoUtils.deriveSessionKeyAESEnc(authKey, rndA, rndB);
-    this.sessionKeyMac = CryptoUtils.deriveSessionKeyAESMac(authKey, rndA, rndB);
+      // Step 7: Derive session keys
+      this.sessionKeyEnc = CryptoUtils.deriveSessionKeyAESEnc(authKey, rndA, rndB);
+      this.sessionKeyMac = CryptoUtils.deriveSessionKeyAESMac(authKey, rndA, rndB);
 
-    this.authenticated = true;
-    this.authenticatedKeyNo = keyNo;
-    this.commandCounter = 0;
+      this.authenticated = true;
+      this.authenticatedKeyNo = keyNo;
+      this.authMode = 'AES';
+      this.commandCounter = 0;
+      this.sessionIV = Buffer.alloc(16, 0x00);
 
-    console.log(`✓ Authenticated with key ${keyNo}`);
-    console.log(`  Session Enc Key: ${this.sessionKeyEnc.toString('hex')}`);
-    console.log(`  Session MAC Key: ${this.sessionKeyMac.toString('hex')}`);
+      console.log(`✓ Authenticated with key ${keyNo}`);
+    });
   }
 
   /**
@@ -731,84 +1448,84 @@ export class DESFireCard {
    * @param key AES-128 key (16 bytes), or null to use key from KeyManager
    */
   async authenticateEV2First(keyNo: number, key?: Buffer): Promise<void> {
-    // Get key from manager if not provided
-    let authKey: Buffer;
-    if (key) {
-      authKey = key;
-    } else if (this.keyManager && this.currentApp !== null) {
-      authKey = this.keyManager.getKey(this.currentApp, keyNo);
-    } else {
-      throw new Error('No key provided and no KeyManager set');
-    }
+    return this.audited({ action: 'card.authenticate', keyNo, details: { method: 'EV2First' } }, async () => {
+      // Get key from manager if not provided
+      let authKey: Buffer;
+      if (key) {
+        authKey = key;
+      } else if (this.keyManager && this.currentApp !== null) {
+        authKey = this.keyManager.getKey(this.currentApp, keyNo, this.cardUid ?? undefined);
+      } else {
+        throw new Error('No key provided and no KeyManager set');
+      }
 
-    if (authKey.length !== 16) {
-      throw new Error('AES key must be 16 bytes');
-    }
+      if (authKey.length !== 16) {
+        throw new Error('AES key must be 16 bytes');
+      }
 
-    console.log(`Authenticating with key ${keyNo} using AuthenticateEV2First...`);
+      console.log(`Authenticating with key ${keyNo} using AuthenticateEV2First...`);
 
-    // Reset authentication state
-    this.resetAuth();
+      // Reset authentication state
+      this.resetAuth();
 
-    // Step 1: Send AuthenticateEV2First command with key number and PCDcap2
-    // PCDcap2 = 0x0000 (no extended capabilities)
-    const authCmd = Buffer.from([keyNo, 0x00, 0x00]);
-    const response1 = await this.sendCommand(DesfireCommand.AUTHENTICATE_EV2_FIRST, authCmd);
+      // Step 1: Send AuthenticateEV2First command with key number and PCDcap2
+      // PCDcap2 = 0x0000 (no extended capabilities)
+      const authCmd = Buffer.from([keyNo, 0x00]);
+      const frame1 = await this.sendFrame(DesfireCommand.AUTHENTICATE_EV2_FIRST, authCmd);
+      this.checkResponse(frame1);
+      const response1 = frame1.data;
 
-    // Response is encrypted RndB + PDcap2 (16 + 6 = 22 bytes encrypted = 32 bytes)
-    if (response1.length < 16) {
-      throw new Error(`Expected at least 16 bytes, got ${response1.length}`);
-    }
+      // Response is encrypted RndB (16 bytes)
+      if (response1.length < 16) {
+        throw new Error(`Expected at least 16 bytes, got ${response1.length}`);
+      }
 
-    // Decrypt response (should be RndB)
-    const encRndB = response1.slice(0, 16);
-    const rndB = CryptoUtils.aesDecrypt(authKey, encRndB, Buffer.alloc(16, 0x00));
-    console.log(`Decrypted RndB: ${rndB.toString('hex')}`);
+      // Decrypt response (should be RndB)
+      const encRndB = response1.slice(0, 16);
+      const rndB = CryptoUtils.aesDecrypt(authKey, encRndB, Buffer.alloc(16, 0x00));
 
-    // Step 2: Generate RndA
-    const rndA = CryptoUtils.generateRandom(16);
-    console.log(`Generated RndA: ${rndA.toString('hex')}`);
+      // Step 2: Generate RndA
+      const rndA = CryptoUtils.generateRandom(16);
 
-    // Step 3: Create RndA + RndB' (rotated left by 1 byte)
-    const rndBPrime = CryptoUtils.rotateLeft(rndB, 1);
-    const challenge = Buffer.concat([rndA, rndBPrime]);
+      // Step 3: Create RndA + RndB' (rotated left by 1 byte)
+      const rndBPrime = CryptoUtils.rotateLeft(rndB, 1);
+      const challenge = Buffer.concat([rndA, rndBPrime]);
 
-    // Step 4: Encrypt challenge and send
-    const encChallenge = CryptoUtils.aesEncrypt(authKey, challenge, Buffer.alloc(16, 0x00));
-    const response2 = await this.sendCommand(DesfireCommand.ADDITIONAL_FRAME, encChallenge);
+      // Step 4: Encrypt challenge and send
+      const encChallenge = CryptoUtils.aesEncrypt(authKey, challenge, Buffer.alloc(16, 0x00));
+      const frame2 = await this.sendFrame(DesfireCommand.ADDITIONAL_FRAME, encChallenge);
+      this.checkResponse(frame2);
+      const response2 = frame2.data;
 
-    // Response is TI (4 bytes) + encrypted RndA' (16 bytes) + PDcap2 (6 bytes) - but might be just TI + RndA'
-    if (response2.length < 4) {
-      throw new Error(`Expected at least 4 bytes TI + encrypted data, got ${response2.length}`);
-    }
+      // Response is E(Kx, TI (4) || RndA' (16) || PDcap2 (6) || PCDcap2 (6)) = 32 bytes
+      if (response2.length !== 32) {
+        throw new Error(`Expected 32 bytes encrypted TI || RndA' || caps, got ${response2.length}`);
+      }
 
-    // Extract Transaction Identifier (TI)
-    this.transactionId = response2.slice(0, 4);
-    console.log(`Transaction ID: ${this.transactionId.toString('hex')}`);
+      const decrypted = CryptoUtils.aesDecrypt(authKey, response2, Buffer.alloc(16, 0x00));
+      const decryptedRndAPrime = decrypted.slice(4, 20);
+      const expectedRndAPrime = CryptoUtils.rotateLeft(rndA, 1);
 
-    // Extract encrypted RndA'
-    const encRndAPrime = response2.slice(4, 20);
-    const decryptedRndAPrime = CryptoUtils.aesDecrypt(authKey, encRndAPrime, Buffer.alloc(16, 0x00));
-    const expectedRndAPrime = CryptoUtils.rotateLeft(rndA, 1);
+      if (!decryptedRndAPrime.equals(expectedRndAPrime)) {
+        throw new Error('Authentication failed: RndA verification failed');
+      }
 
-    if (!decryptedRndAPrime.equals(expectedRndAPrime)) {
-      throw new Error('Authentication failed: RndA verification failed');
-    }
+      console.log('RndA verified successfully');
 
-    console.log('RndA verified successfully');
+      // Extract Transaction Identifier (TI)
+      this.transactionId = decrypted.slice(0, 4);
 
-    // Step 5: Derive EV2 session keys using CMAC
-    this.sessionKeyEnc = CryptoUtils.deriveSessionKeyEV2Enc(authKey, rndA, rndB);
-    this.sessionKeyMac = CryptoUtils.deriveSessionKeyEV2Mac(authKey, rndA, rndB);
+      // Step 5: Derive EV2 session keys using CMAC
+      this.sessionKeyEnc = CryptoUtils.deriveSessionKeyEV2Enc(authKey, rndA, rndB);
+      this.sessionKeyMac = CryptoUtils.deriveSessionKeyEV2Mac(authKey, rndA, rndB);
 
-    this.authenticated = true;
-    this.authenticatedKeyNo = keyNo;
-    this.commandCounter = 0;
+      this.authenticated = true;
+      this.authenticatedKeyNo = keyNo;
+      this.authMode = 'EV2';
+      this.commandCounter = 0;
 
-    console.log(`✓ Authenticated with key ${keyNo} (EV2 First)`);
-    console.log(`  Session Enc Key: ${this.sessionKeyEnc.toString('hex')}`);
-    console.log(`  Session MAC Key: ${this.sessionKeyMac.toString('hex')}`);
-    console.log(`  Transaction ID: ${this.transactionId?.toString('hex')}`);
+      console.log(`✓ Authenticated with key ${keyNo} (EV2 First)`);
+    });
   }
 
   /**
@@ -818,57 +1535,64 @@ export class DESFireCard {
    * @param key AES-128 key (16 bytes), or null to use key from KeyManager
    */
   async authenticateEV2NonFirst(keyNo: number, key?: Buffer): Promise<void> {
-    if (!this.transactionId) {
-      throw new Error('EV2 Non-First requires a previous EV2 First authentication');
-    }
+    return this.audited({ action: 'card.authenticate', keyNo, details: { method: 'EV2NonFirst' } }, async () => {
+      if (!this.transactionId) {
+        throw new Error('EV2 Non-First requires a previous EV2 First authentication');
+      }
 
-    // Get key from manager if not provided
-    let authKey: Buffer;
-    if (key) {
-      authKey = key;
-    } else if (this.keyManager && this.currentApp !== null) {
-      authKey = this.keyManager.getKey(this.currentApp, keyNo);
-    } else {
-      throw new Error('No key provided and no KeyManager set');
-    }
+      // Get key from manager if not provided
+      let authKey: Buffer;
+      if (key) {
+        authKey = key;
+      } else if (this.keyManager && this.currentApp !== null) {
+        authKey = this.keyManager.getKey(this.currentApp, keyNo, this.cardUid ?? undefined);
+      } else {
+        throw new Error('No key provided and no KeyManager set');
+      }
 
-    if (authKey.length !== 16) {
-      throw new Error('AES key must be 16 bytes');
-    }
+      if (authKey.length !== 16) {
+        throw new Error('AES key must be 16 bytes');
+      }
 
-    console.log(`Authenticating with key ${keyNo} using AuthenticateEV2NonFirst...`);
+      console.log(`Authenticating with key ${keyNo} using AuthenticateEV2NonFirst...`);
 
-    // Similar to EV2First but uses existing transaction ID
-    const authCmd = Buffer.from([keyNo, 0x00, 0x00]);
-    const response1 = await this.sendCommand(DesfireCommand.AUTHENTICATE_EV2_NON_FIRST, authCmd);
+      // Similar to EV2First but keeps the existing transaction ID and command counter
+      const authCmd = Buffer.from([keyNo]);
+      const frame1 = await this.sendFrame(DesfireCommand.AUTHENTICATE_EV2_NON_FIRST, authCmd);
+      this.checkResponse(frame1);
+      const response1 = frame1.data;
 
-    // Rest of the protocol is similar to EV2First
-    const encRndB = response1.slice(0, 16);
-    const rndB = CryptoUtils.aesDecrypt(authKey, encRndB, Buffer.alloc(16, 0x00));
+      // Rest of the protocol is similar to EV2First
+      const encRndB = response1.slice(0, 16);
+      const rndB = CryptoUtils.aesDecrypt(authKey, encRndB, Buffer.alloc(16, 0x00));
 
-    const rndA = CryptoUtils.generateRandom(16);
-    const rndBPrime = CryptoUtils.rotateLeft(rndB, 1);
-    const challenge = Buffer.concat([rndA, rndBPrime]);
+      const rndA = CryptoUtils.generateRandom(16);
+      const rndBPrime = CryptoUtils.rotateLeft(rndB, 1);
+      const challenge = Buffer.concat([rndA, rndBPrime]);
 
-    const encChallenge = CryptoUtils.aesEncrypt(authKey, challenge, Buffer.alloc(16, 0x00));
-    const response2 = await this.sendCommand(DesfireCommand.ADDITIONAL_FRAME, encChallenge);
+      const encChallenge = CryptoUtils.aesEncrypt(authKey, challenge, Buffer.alloc(16, 0x00));
+      const frame2 = await this.sendFrame(DesfireCommand.ADDITIONAL_FRAME, encChallenge);
+      this.checkResponse(frame2);
+      const response2 = frame2.data;
 
-    const encRndAPrime = response2.slice(0, 16);
-    const decryptedRndAPrime = CryptoUtils.aesDecrypt(authKey, encRndAPrime, Buffer.alloc(16, 0x00));
-    const expectedRndAPrime = CryptoUtils.rotateLeft(rndA, 1);
+      const encRndAPrime = response2.slice(0, 16);
+      const decryptedRndAPrime = CryptoUtils.aesDecrypt(authKey, encRndAPrime, Buffer.alloc(16, 0x00));
+      const expectedRndAPrime = CryptoUtils.rotateLeft(rndA, 1);
 
-    if (!decryptedRndAPrime.equals(expectedRndAPrime)) {
-      throw new Error('Authentication failed: RndA verification failed');
-    }
+      if (!decryptedRndAPrime.equals(expectedRndAPrime)) {
+        throw new Error('Authentication failed: RndA verification failed');
+      }
 
-    // Derive new session keys
-    this.sessionKeyEnc = CryptoUtils.deriveSessionKeyEV2Enc(authKey, rndA, rndB);
-    this.sessionKeyMac = CryptoUtils.deriveSessionKeyEV2Mac(authKey, rndA, rndB);
+      // Derive new session keys
+      this.sessionKeyEnc = CryptoUtils.deriveSessionKeyEV2Enc(authKey, rndA, rndB);
+      this.sessionKeyMac = CryptoUtils.deriveSessionKeyEV2Mac(authKey, rndA, rndB);
 
-    this.authenticated = true;
-    this.authenticatedKeyNo = keyNo;
+      this.authenticated = true;
+      this.authenticatedKeyNo = keyNo;
+      this.authMode = 'EV2';
 
-    console.log(`✓ Authenticated with key ${keyNo} (EV2 Non-First)`);
+      console.log(`✓ Authenticated with key ${keyNo} (EV2 Non-First)`);
+    });
   }
 
   // ============================================================================
@@ -876,94 +1600,72 @@ export class DESFireCard {
   // ============================================================================
 
   /**
-   * Authenticate using legacy DES/3DES (EV1) with key Kx.
-   * Supports 16-byte (2-key 3DES) and 24-byte (3-key 3DES) keys.
+   * Authenticate using legacy DES/3DES (native Authenticate 0x0A) with key Kx.
+   * Supports 8-byte (DES), 16-byte (2-key 3DES) and 24-byte (3-key 3DES) keys.
    * If no key provided, uses 16 bytes of 0x00 (factory default).
+   * DES/2K3DES sessions use legacy secure messaging (4-byte MAC, CRC16).
    */
   async authenticateDES(keyNo: number, key?: Buffer): Promise<void> {
-    const authKey = key && (key.length === 16 || key.length === 24) ? key : Buffer.alloc(16, 0x00);
+    return this.audited({ action: 'card.authenticate', keyNo, details: { method: 'DES' } }, async () => {
+      const authKey = key && (key.length === 8 || key.length === 16 || key.length === 24) ? key : Buffer.alloc(16, 0x00);
 
-    const cmd1 = Buffer.from([keyNo]);
-    // Step 1: Send AUTHENTICATE (0x0A) with key number; expect enc(RndB)
-    const resp1 = await this.tryTransmitAttempts(
-      this.preferNoLe
-        ? [
-            { apdu: APDU.build(0x90, DesfireCommand.AUTHENTICATE, 0x00, 0x00, cmd1), usesLe: false },
-            { apdu: APDU.build(0x90, DesfireCommand.AUTHENTICATE, 0x00, 0x00, cmd1, 0), usesLe: true },
-          ]
-        : [
-            { apdu: APDU.build(0x90, DesfireCommand.AUTHENTICATE, 0x00, 0x00, cmd1, 0), usesLe: true },
-            { apdu: APDU.build(0x90, DesfireCommand.AUTHENTICATE, 0x00, 0x00, cmd1), usesLe: false },
-          ]
-    );
+      // Reset authentication state
+      this.resetAuth();
 
-    if (!APDU.isAdditionalFrame(resp1.sw1, resp1.sw2) && !APDU.isSuccess(resp1.sw1, resp1.sw2)) {
-      throw new Error(`DESFire Authenticate (DES) failed: ${resp1.status} (SW: ${resp1.sw1.toString(16)}${resp1.sw2.toString(16)})`);
-    }
+      const cmd1 = Buffer.from([keyNo]);
+      // Step 1: Send AUTHENTICATE (0x0A) with key number; expect enc(RndB)
+      const resp1 = await this.sendFrame(DesfireCommand.AUTHENTICATE, cmd1);
 
-    const encRndB = resp1.data;
-    if (encRndB.length < 8) {
-      throw new Error('Invalid Authenticate response: encRndB too short');
-    }
+      if (!APDU.isAdditionalFrame(resp1.sw1, resp1.sw2) && !APDU.isSuccess(resp1.sw1, resp1.sw2)) {
+        throw new Error(`DESFire Authenticate (DES) failed: ${resp1.status} (SW: ${resp1.sw1.toString(16)}${resp1.sw2.toString(16)})`);
+      }
 
-    // Decrypt RndB with 3DES-CBC, IV=0
-    const rndB = this.des3Decrypt(encRndB.slice(0, 8), authKey, Buffer.alloc(8, 0x00));
+      const encRndB = resp1.data;
+      if (encRndB.length < 8) {
+        throw new Error('Invalid Authenticate response: encRndB too short');
+      }
 
-    // Prepare challenge: RndA || RndB'
-    const rndA = CryptoUtils.generateRandom(8);
-    const rndBPrime = CryptoUtils.rotateLeft(rndB, 1);
-    const challenge = Buffer.concat([rndA, rndBPrime]);
+      // Decrypt RndB (receive mode, IV=0)
+      const rndB = CryptoUtils.desDecrypt(authKey, encRndB.slice(0, 8));
 
-    // Encrypt challenge with 3DES-CBC, IV = last ciphertext block from previous step (encRndB)
-    const encChallenge = this.des3Encrypt(challenge, authKey, encRndB.slice(-8));
+      // Prepare challenge: RndA || RndB'
+      const rndA = CryptoUtils.generateRandom(8);
+      const rndBPrime = CryptoUtils.rotateLeft(rndB, 1);
+      const challenge = Buffer.concat([rndA, rndBPrime]);
 
-    // Step 2: Send ADDITIONAL_FRAME with encrypted challenge; expect enc(RndA')
-    const resp2 = await this.tryTransmitAttempts(
-      this.preferNoLe
-        ? [
-            { apdu: APDU.build(0x90, DesfireCommand.ADDITIONAL_FRAME, 0x00, 0x00, encChallenge), usesLe: false },
-            { apdu: APDU.build(0x90, DesfireCommand.ADDITIONAL_FRAME, 0x00, 0x00, encChallenge, 0), usesLe: true },
-          ]
-        : [
-            { apdu: APDU.build(0x90, DesfireCommand.ADDITIONAL_FRAME, 0x00, 0x00, encChallenge, 0), usesLe: true },
-            { apdu: APDU.build(0x90, DesfireCommand.ADDITIONAL_FRAME, 0x00, 0x00, encChallenge), usesLe: false },
-          ]
-    );
+      // Native authentication uses send mode: D(K, RndA) || D(K, RndB' XOR D(K, RndA))
+      const encChallenge = CryptoUtils.desSendMode(authKey, challenge);
 
-    if (!APDU.isSuccess(resp2.sw1, resp2.sw2) && !APDU.isAdditionalFrame(resp2.sw1, resp2.sw2)) {
-      throw new Error(`DESFire Authenticate (DES) step 2 failed: ${resp2.status} (SW: ${resp2.sw1.toString(16)}${resp2.sw2.toString(16)})`);
-    }
+      // Step 2: Send ADDITIONAL_FRAME with encrypted challenge; expect enc(RndA')
+      const resp2 = await this.sendFrame(DesfireCommand.ADDITIONAL_FRAME, encChallenge);
 
-    const encRndAPrime = resp2.data;
-    if (encRndAPrime.length < 8) {
-      throw new Error('Invalid Authenticate response: encRndA\' too short');
-    }
+      if (!APDU.isSuccess(resp2.sw1, resp2.sw2) && !APDU.isAdditionalFrame(resp2.sw1, resp2.sw2)) {
+        throw new Error(`DESFire Authenticate (DES) step 2 failed: ${resp2.status} (SW: ${resp2.sw1.toString(16)}${resp2.sw2.toString(16)})`);
+      }
 
-    // Decrypt RndA' with IV = last block of our encChallenge
-    const rndAPrime = this.des3Decrypt(encRndAPrime.slice(0, 8), authKey, encChallenge.slice(-8));
-    const expectedRndAPrime = CryptoUtils.rotateLeft(rndA, 1);
-    if (!rndAPrime.equals(expectedRndAPrime)) {
-      throw new Error('Authentication (DES) failed: RndA verification failed');
-    }
+      const encRndAPrime = resp2.data;
+      if (encRndAPrime.length < 8) {
+        throw new Error('Invalid Authenticate response: encRndA\' too short');
+      }
 
-    this.authenticated = true;
-    this.authenticatedKeyNo = keyNo;
-    // Legacy auth without SM keys
-    console.log(`✓ Authenticated (DES/3DES) with key ${keyNo}`);
-  }
+      // Decrypt RndA' (receive mode, IV=0)
+      const rndAPrime = CryptoUtils.desDecrypt(authKey, encRndAPrime.slice(0, 8));
+      const expectedRndAPrime = CryptoUtils.rotateLeft(rndA, 1);
+      if (!rndAPrime.equals(expectedRndAPrime)) {
+        throw new Error('Authentication (DES) failed: RndA verification failed');
+      }
 
-  private des3Encrypt(data: Buffer, key: Buffer, iv: Buffer): Buffer {
-    const algo = key.length === 24 ? 'des-ede3-cbc' : 'des-ede-cbc';
-    const cipher = crypto.createCipheriv(algo as any, key, iv);
-    cipher.setAutoPadding(false);
-    return Buffer.concat([cipher.update(data), cipher.final()]);
-  }
+      // Legacy secure messaging is defined for DES/2K3DES keys only
+      if (authKey.length !== 24) {
+        this.sessionKeyEnc = CryptoUtils.deriveSessionKeyDES(authKey, rndA, rndB);
+        this.sessionKeyMac = Buffer.from(this.sessionKeyEnc);
+      }
 
-  private des3Decrypt(data: Buffer, key: Buffer, iv: Buffer): Buffer {
-    const algo = key.length === 24 ? 'des-ede3-cbc' : 'des-ede-cbc';
-    const decipher = crypto.createDecipheriv(algo as any, key, iv);
-    decipher.setAutoPadding(false);
-    return Buffer.concat([decipher.update(data), decipher.final()]);
+      this.authenticated = true;
+      this.authenticatedKeyNo = keyNo;
+      this.authMode = 'DES';
+      console.log(`✓ Authenticated (DES/3DES) with key ${keyNo}`);
+    });
   }
 
   /**
@@ -994,7 +1696,7 @@ export class DESFireCard {
     }
 
     const data = Buffer.from([newSettings]);
-    await this.sendCommand(DesfireCommand.CHANGE_KEY_SETTINGS, data, false);
+    await this.sendCommand(DesfireCommand.CHANGE_KEY_SETTINGS, data, false, { commMode: CommMode.FULL });
     console.log(`Key settings changed to: 0x${newSettings.toString(16)}`);
   }
 
@@ -1008,82 +1710,170 @@ export class DESFireCard {
   }
 
   /**
-   * Change a key (legacy method - no encryption)
-   * WARNING: This sends the key in plaintext! Only use with default keys or for testing.
+   * Change a key of the selected application, or the PICC master key when
+   * the PICC (0x000000) is selected.
+   *
+   * Changing the key used for authentication sends NewKey; changing any other
+   * key sends (NewKey XOR OldKey) plus a CRC of NewKey. The cryptogram is
+   * protected with the scheme of the current session (EV2, EV1 AES or legacy).
+   * Changing the authenticated key ends the session.
+   *
    * @param keyNo Key number to change
-   * @param newKey New AES-128 key (16 bytes)
-   * @param oldKey Old AES-128 key (16 bytes) - optional
+   * @param newKey New key: DES 8/16 bytes, 3DES (3K3DES) 24 bytes, AES 16 bytes
+   * @param oldKey Current value of the key (required when changing another key; defaults to all zeros)
+   * @param newKeyVersion Version of the new key (0-255)
+   * @param keyType Type of the new key; PICC master key type switches are derived from it
    */
-  async changeKey(keyNo: number, newKey: Buffer, oldKey?: Buffer): Promise<void> {
-    if (!this.authenticated) {
-      throw new Error('Authentication required for ChangeKey');
-    }
-
-    if (newKey.length !== 16) {
-      throw new Error('AES-128 keys must be 16 bytes');
-    }
+  async changeKey(
+    keyNo: number,
+    newKey: Buffer,
+    oldKey?: Buffer,
+    newKeyVersion: number = 0,
+    keyType?: KeyType
+  ): Promise<void> {
+    return this.audited({ action: 'card.change-key', keyNo, details: { version: newKeyVersion } }, async () => {
+      if (!this.authenticated || !this.hasSecureSession()) {
+        throw new Error('Authentication with session keys required for ChangeKey');
+      }
 
-    console.log(`Changing key ${keyNo}...`);
+      const type = keyType || this.inferKeyType(newKey);
+      let keyNoByte = keyNo & 0x0F;
+      if (this.currentApp === 0x000000) {
+        // PICC master key: key type is encoded in the key number
+        keyNoByte |= type === 'AES' ? 0x80 : type === '3DES' ? 0x40 : 0x00;
+      }
 
-    // For now, simplified version without encryption (only works with default keys)
-    // In production, this should XOR with session key
-    const keyVersion = 0x00; // New key version
+      console.log(`Changing key ${keyNo} (${type}, version ${newKeyVersion})...`);
 
-    const data = Buffer.concat([
-      Buffer.from([keyNo]),
-      newKey,
-      Buffer.from([keyVersion])
-    ]);
+      await this.sendChangeKey(
+        DesfireCommand.CHANGE_KEY,
+        Buffer.from([keyNoByte]),
+        (keyNo & 0x0F) === this.authenticatedKeyNo,
+        newKey,
+        oldKey,
+        newKeyVersion,
+        type
+      );
 
-    await this.sendCommand(DesfireCommand.CHANGE_KEY, data, false);
-    console.log(`Key ${keyNo} changed successfully`);
+      console.log(`✓ Key ${keyNo} changed successfully (version ${newKeyVersion})`);
+    });
   }
 
   /**
-   * Change a key using EV2 method with proper encryption
-   * This is the secure method for changing keys on EV2/EV3 cards
+   * Change a key within a specific key set (ChangeKeyEV2, EV2 sessions only)
+   * Used to prepare keys of a non-active key set before rolling to it.
+   * @param keySetNo Key set number (0 = active key set)
    * @param keyNo Key number to change
-   * @param newKey New AES-128 key (16 bytes)
+   * @param newKey New key
+   * @param oldKey Current value of the key (defaults to all zeros)
    * @param newKeyVersion Version number for new key (0-255)
    */
-  async changeKeyEV2(keyNo: number, newKey: Buffer, newKeyVersion: number = 0): Promise<void> {
-    if (!this.authenticated || !this.sessionKeyEnc) {
-      throw new Error('EV2 authentication required for ChangeKeyEV2');
-    }
+  async changeKeyEV2(
+    keySetNo: number,
+    keyNo: number,
+    newKey: Buffer,
+    oldKey?: Buffer,
+    newKeyVersion: number = 0,
+    keyType?: KeyType
+  ): Promise<void> {
+    return this.audited({ action: 'card.change-key', keyNo, details: { keySetNo, version: newKeyVersion } }, async () => {
+      if (!this.hasSecureSession() || this.authMode !== 'EV2') {
+        throw new Error('EV2 authentication required for ChangeKeyEV2');
+      }
 
-    if (newKey.length !== 16) {
-      throw new Error('AES-128 keys must be 16 bytes');
-    }
+      const type = keyType || this.inferKeyType(newKey);
 
-    console.log(`Changing key ${keyNo} using EV2 method...`);
+      console.log(`Changing key ${keyNo} of key set ${keySetNo} using EV2 method...`);
 
-    // Build change key data
-    // Format: KeyNo || CryptoData
-    // CryptoData = E(KSesAuthENC, NewKey || NewKeyVersion || CRC32)
+      await this.sendChangeKey(
+        DesfireCommand.CHANGE_KEY_EV2,
+        Buffer.from([keySetNo, keyNo & 0x0F]),
+        keySetNo === 0 && (keyNo & 0x0F) === this.authenticatedKeyNo,
+        newKey,
+        oldKey,
+        newKeyVersion,
+        type
+      );
 
-    const keyData = Buffer.concat([
-      newKey,
-      Buffer.from([newKeyVersion])
-    ]);
+      console.log(`✓ Key ${keyNo} of key set ${keySetNo} changed successfully (version ${newKeyVersion})`);
+    });
+  }
 
-    // Calculate CRC32 over the command data
-    const crcData = Buffer.concat([
-      Buffer.from([DesfireCommand.CHANGE_KEY_EV2, keyNo]),
-      keyData
-    ]);
-    const crc = CryptoUtils.crc32Buffer(crcData);
+  /**
+   * Key type of a new key when not given explicitly
+   */
+  private inferKeyType(key: Buffer): KeyType {
+    if (key.length === 24) return '3DES';
+    if (key.length === 8) return 'DES';
+    return this.authMode === 'DES' ? 'DES' : 'AES';
+  }
 
-    // Encrypt: NewKey || NewKeyVersion || CRC32
-    const plainData = Buffer.concat([keyData, crc]);
-    const encryptedData = CryptoUtils.aesEncrypt(this.sessionKeyEnc, plainData);
+  /**
+   * Build, protect and send a ChangeKey/ChangeKeyEV2 cryptogram
+   *
+   * KeyData = NewKey [|| KeyVer]                              (same key)
+   * KeyData = (NewKey XOR OldKey) [|| KeyVer]                 (other key)
+   * EV2:    E(KSesAuthENC, KeyData [|| CRC32(NewKey)])         + MACt
+   * EV1:    E(KSes, IV, KeyData || CRC32(Cmd || Hdr || KeyData) [|| CRC32(NewKey)])
+   * Legacy: SendMode(KSes, KeyData || CRC16(KeyData) [|| CRC16(NewKey)])
+   * KeyVer is sent for AES keys (always under EV2); DES keys carry the
+   * version in their parity bits.
+   */
+  private async sendChangeKey(
+    cmd: DesfireCommand,
+    header: Buffer,
+    sameKey: boolean,
+    newKey: Buffer,
+    oldKey: Buffer | undefined,
+    newKeyVersion: number,
+    type: KeyType
+  ): Promise<void> {
+    const key = normalizeKey(newKey, type);
+    if (type !== 'AES') {
+      setDESKeyVersion(key, newKeyVersion);
+    }
 
-    const commandData = Buffer.concat([
-      Buffer.from([keyNo]),
-      encryptedData
-    ]);
+    let keyData = key;
+    if (!sameKey) {
+      const old = oldKey ? normalizeKey(oldKey, type) : Buffer.alloc(key.length, 0x00);
+      keyData = CryptoUtils.xorBuffers(key, old);
+    }
+    if (type === 'AES' || this.authMode === 'EV2') {
+      keyData = Buffer.concat([keyData, Buffer.from([newKeyVersion & 0xFF])]);
+    }
 
-    await this.sendCommand(DesfireCommand.CHANGE_KEY_EV2, commandData, false);
-    console.log(`✓ Key ${keyNo} changed successfully (version ${newKeyVersion})`);
+    let payload: Buffer;
+    if (this.authMode === 'EV2') {
+      const body = sameKey ? keyData : Buffer.concat([keyData, CryptoUtils.crc32Buffer(key)]);
+      payload = this.wrapCommandEV2(cmd, Buffer.concat([header, body]), CommMode.FULL, header.length);
+    } else if (this.authMode === 'AES') {
+      const crc = CryptoUtils.crc32Buffer(Buffer.concat([Buffer.from([cmd]), header, keyData]));
+      const plain = Buffer.concat([keyData, crc, sameKey ? Buffer.alloc(0) : CryptoUtils.crc32Buffer(key)]);
+      const encrypted = CryptoUtils.aesEncrypt(this.sessionKeyEnc!, zeroPad(plain, 16), this.sessionIV!);
+      this.sessionIV = encrypted.slice(encrypted.length - 16);
+      payload = Buffer.concat([header, encrypted]);
+    } else {
+      const plain = Buffer.concat([
+        keyData,
+        CryptoUtils.crc16Buffer(keyData),
+        sameKey ? Buffer.alloc(0) : CryptoUtils.crc16Buffer(key)
+      ]);
+      payload = Buffer.concat([header, CryptoUtils.desSendMode(this.sessionKeyEnc!, zeroPad(plain, 8))]);
+    }
+
+    const { data: response, sw2 } = await this.transceive(cmd, payload);
+
+    if (sameKey) {
+      // The card ends the session after changing the authenticated key
+      this.resetAuth();
+      return;
+    }
+
+    if (this.authMode === 'EV2') {
+      this.unwrapResponseEV2(response, sw2, CommMode.MAC);
+    } else if (this.authMode === 'AES') {
+      this.unwrapResponseEV1(response, sw2, CommMode.PLAIN);
+    }
   }
 
   // ============================================================================
@@ -1105,30 +1895,34 @@ export class DESFireCard {
   }
 
   /**
-   * Roll key set (switch to new key set)
-   * Activates the prepared key set
+   * Finalize a prepared key set
+   * Freezes the keys written with ChangeKeyEV2 and assigns the key set
+   * version; only a finalized key set can be rolled to.
    */
-  async rollKeySet(keySetNo: number): Promise<void> {
+  async finalizeKeySet(keySetNo: number, keySetVersion: number): Promise<void> {
     if (!this.authenticated) {
-      throw new Error('Authentication required for RollKeySet');
+      throw new Error('Authentication required for FinalizeKeySet');
     }
 
-    const data = Buffer.from([keySetNo]);
-    await this.sendCommand(DesfireCommand.ROLL_KEY_SET, data, false);
-    console.log(`Rolled to key set ${keySetNo}`);
+    const data = Buffer.from([keySetNo, keySetVersion & 0xFF]);
+    await this.sendCommand(DesfireCommand.FINALIZE_KEY_SET, data, false);
+    console.log(`Key set ${keySetNo} finalized (version ${keySetVersion})`);
   }
 
   /**
-   * Finalize key set rollover
-   * Completes the key set change and removes old keys
+   * Roll key set (switch to a finalized key set)
+   * Activates the prepared keys atomically; the session ends, so
+   * authenticate again with the new keys.
    */
-  async finalizeKeySet(): Promise<void> {
+  async rollKeySet(keySetNo: number): Promise<void> {
     if (!this.authenticated) {
-      throw new Error('Authentication required for FinalizeKeySet');
+      throw new Error('Authentication required for RollKeySet');
     }
 
-    await this.sendCommand(DesfireCommand.FINALIZE_KEY_SET, undefined, false);
-    console.log('Key set finalized');
+    const data = Buffer.from([keySetNo]);
+    await this.sendCommand(DesfireCommand.ROLL_KEY_SET, data, false);
+    this.resetAuth();
+    console.log(`Rolled to key set ${keySetNo}`);
   }
 }
 
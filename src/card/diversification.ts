@@ -0,0 +1,134 @@
+/**
+ * Key Diversification (NXP AN10922)
+ * Derives card-unique keys from a master key and diversification input
+ * (typically UID || AID || system identifier), so a single master key
+ * never has to be stored on or personalized into every card.
+ */
+
+import { aesEncrypt, desEncrypt } from './crypto';
+import type { KeyType } from './keyManager';
+
+/**
+ * Shift a block left by one bit, XORing in Rb when the MSB falls out
+ */
+function shiftSubkey(block: Buffer, rb: number): Buffer {
+  const out = Buffer.alloc(block.length);
+  let carry = 0;
+  for (let i = block.length - 1; i >= 0; i--) {
+    out[i] = ((block[i] << 1) | carry) & 0xFF;
+    carry = (block[i] & 0x80) ? 1 : 0;
+  }
+  if (block[0] & 0x80) {
+    out[out.length - 1] ^= rb;
+  }
+  return out;
+}
+
+/**
+ * CMAC as used by AN10922: the input is padded (0x80 00..) to at least two
+ * cipher blocks, so even short inputs run through two block encryptions
+ * @param encrypt CBC encryption with IV 0 for the master key
+ * @param blockSize 16 (AES) or 8 (DES/3DES)
+ */
+function an10922CMAC(encrypt: (data: Buffer) => Buffer, blockSize: number, data: Buffer): Buffer {
+  const rb = blockSize === 16 ? 0x87 : 0x1B;
+  const k1 = shiftSubkey(encrypt(Buffer.alloc(blockSize, 0x00)), rb);
+  const k2 = shiftSubkey(k1, rb);
+
+  const length = Math.max(blockSize * 2, Math.ceil(data.length / blockSize) * blockSize);
+  const padded = Buffer.alloc(length, 0x00);
+  data.copy(padded);
+
+  let subkey = k1;
+  if (data.length < length) {
+    padded[data.length] = 0x80;
+    subkey = k2;
+  }
+  for (let i = 0; i < blockSize; i++) {
+    padded[length - blockSize + i] ^= subkey[i];
+  }
+
+  const enc = encrypt(padded);
+  return enc.slice(enc.length - blockSize);
+}
+
+/**
+ * Copy the key version of the master key (parity bits of the first 8 bytes)
+ * into a diversified DES key, as in the AN10922 examples
+ */
+function keepKeyVersion(masterKey: Buffer, key: Buffer): Buffer {
+  for (let i = 0; i < 8; i++) {
+    key[i] = (key[i] & 0xFE) | (masterKey[i] & 0x01);
+  }
+  return key;
+}
+
+function checkInput(m: Buffer, max: number): void {
+  if (m.length < 1 || m.length > max) {
+    throw new Error(`Diversification input must be 1-${max} bytes, got ${m.length}`);
+  }
+}
+
+/**
+ * AES-128 diversification: CMAC(K, 0x01 || M)
+ * @param m Diversification input (1-31 bytes)
+ */
+export function diversifyAES128(masterKey: Buffer, m: Buffer): Buffer {
+  if (masterKey.length !== 16) {
+    throw new Error('AES master key must be 16 bytes');
+  }
+  checkInput(m, 31);
+  return an10922CMAC((data) => aesEncrypt(masterKey, data), 16, Buffer.concat([Buffer.from([0x01]), m]));
+}
+
+/**
+ * 2K3DES diversification: CMAC(K, 0x21 || M) || CMAC(K, 0x22 || M)
+ * with the key version of K
+ * @param m Diversification input (1-15 bytes)
+ */
+export function diversify2K3DES(masterKey: Buffer, m: Buffer): Buffer {
+  if (masterKey.length !== 16) {
+    throw new Error('2K3DES master key must be 16 bytes');
+  }
+  checkInput(m, 15);
+  const encrypt = (data: Buffer) => desEncrypt(masterKey, data);
+  const key = Buffer.concat([0x21, 0x22].map((c) => an10922CMAC(encrypt, 8, Buffer.concat([Buffer.from([c]), m]))));
+  return keepKeyVersion(masterKey, key);
+}
+
+/**
+ * 3K3DES diversification: CMAC(K, 0x31 || M) || CMAC(K, 0x32 || M) || CMAC(K, 0x33 || M)
+ * with the key version of K
+ * @param m Diversification input (1-15 bytes)
+ */
+export function diversify3K3DES(masterKey: Buffer, m: Buffer): Buffer {
+  if (masterKey.length !== 24) {
+    throw new Error('3K3DES master key must be 24 bytes');
+  }
+  checkInput(m, 15);
+  const encrypt = (data: Buffer) => desEncrypt(masterKey, data);
+  const key = Buffer.concat([0x31, 0x32, 0x33].map((c) => an10922CMAC(encrypt, 8, Buffer.concat([Buffer.from([c]), m]))));
+  return keepKeyVersion(masterKey, key);
+}
+
+/**
+ * Diversify a master key of the given key type
+ * DES keys carry the key version of the master key; ChangeKey replaces it
+ * with the version the key is written with.
+ */
+export function diversifyKey(masterKey: Buffer, keyType: KeyType, m: Buffer): Buffer {
+  switch (keyType) {
+    case 'AES': return diversifyAES128(masterKey, m);
+    case 'DES': return diversify2K3DES(masterKey, m);
+    case '3DES': return diversify3K3DES(masterKey, m);
+  }
+}
+
+/**
+ * Build the diversification input M = UID || AID || system identifier
+ * The AID is taken LSB first, as it is sent in SelectApplication.
+ */
+export function diversificationInput(uid: Buffer, aid: number, systemIdentifier: Buffer = Buffer.alloc(0)): Buffer {
+  const aidBytes = Buffer.from([aid & 0xFF, (aid >> 8) & 0xFF, (aid >> 16) & 0xFF]);
+  return Buffer.concat([uid, aidBytes, systemIdentifier]);
+}
@@ -0,0 +1,192 @@
+/**
+ * DESFire file settings model
+ * Decoding of GetFileSettings responses and access rights encoding
+ */
+
+import type { CommMode } from './desfire';
+
+/**
+ * File types as reported by GetFileSettings
+ */
+export enum FileType {
+  STANDARD = 0x00,
+  BACKUP = 0x01,
+  VALUE = 0x02,
+  LINEAR_RECORD = 0x03,
+  CYCLIC_RECORD = 0x04,
+}
+
+/** Access condition: granted without authentication */
+export const ACCESS_FREE = 0x0E;
+/** Access condition: never granted */
+export const ACCESS_NEVER = 0x0F;
+
+/** Value file option: LimitedCredit enabled */
+export const VALUE_LIMITED_CREDIT = 0x01;
+/** Value file option: GetValue allowed without authentication (EV1+) */
+export const VALUE_FREE_GET_VALUE = 0x02;
+
+/**
+ * Access rights of a file. Each entry is a key number (0-13),
+ * ACCESS_FREE or ACCESS_NEVER.
+ */
+export interface AccessRights {
+  read: number;
+  write: number;
+  readWrite: number;
+  change: number;
+}
+
+interface FileSettingsBase {
+  fileNo: number;
+  commMode: CommMode;
+  accessRights: AccessRights;
+  /** EV2 additional access rights (file option bit 7) */
+  additionalAccessRights?: AccessRights[];
+}
+
+export interface DataFileSettings extends FileSettingsBase {
+  type: 'std' | 'backup';
+  fileSize: number;
+}
+
+export interface ValueFileSettings extends FileSettingsBase {
+  type: 'value';
+  lowerLimit: number;
+  upperLimit: number;
+  limitedCreditValue: number;
+  limitedCreditEnabled: boolean;
+  freeGetValue: boolean;
+}
+
+export interface RecordFileSettings extends FileSettingsBase {
+  type: 'linear' | 'cyclic';
+  recordSize: number;
+  maxRecords: number;
+  currentRecords: number;
+}
+
+export type FileSettings = DataFileSettings | ValueFileSettings | RecordFileSettings;
+
+function checkAccessNibble(value: number, name: string): void {
+  if (!Number.isInteger(value) || value < 0 || value > 0x0F) {
+    throw new Error(`Invalid ${name} access right: ${value}`);
+  }
+}
+
+/**
+ * Encode access rights to the 2-byte wire format
+ * 16-bit LE value: Read (15..12) | Write (11..8) | ReadWrite (7..4) | Change (3..0)
+ */
+export function encodeAccessRights(rights: AccessRights): Buffer {
+  checkAccessNibble(rights.read, 'read');
+  checkAccessNibble(rights.write, 'write');
+  checkAccessNibble(rights.readWrite, 'read&write');
+  checkAccessNibble(rights.change, 'change');
+  return Buffer.from([
+    (rights.readWrite << 4) | rights.change,
+    (rights.read << 4) | rights.write
+  ]);
+}
+
+/**
+ * Decode the 2-byte wire format of access rights
+ */
+export function decodeAccessRights(data: Buffer, offset: number = 0): AccessRights {
+  return {
+    read: data[offset + 1] >> 4,
+    write: data[offset + 1] & 0x0F,
+    readWrite: data[offset] >> 4,
+    change: data[offset] & 0x0F
+  };
+}
+
+/**
+ * Human-readable form of a single access condition
+ */
+export function describeAccess(value: number): string {
+  if (value === ACCESS_FREE) return 'free';
+  if (value === ACCESS_NEVER) return 'never';
+  return `key ${value}`;
+}
+
+/**
+ * Parse a GetFileSettings response
+ */
+export function parseFileSettings(fileNo: number, data: Buffer): FileSettings {
+  if (data.length < 4) {
+    throw new Error(`File settings response too short (${data.length} bytes)`);
+  }
+
+  const fileType = data[0];
+  const fileOption = data[1];
+  const mode = fileOption & 0x03;
+  const base: FileSettingsBase = {
+    fileNo,
+    // 0b10 is reserved and treated as plain by the card
+    commMode: (mode === 0x02 ? 0x00 : mode) as CommMode,
+    accessRights: decodeAccessRights(data, 2)
+  };
+
+  let offset = 4;
+  const need = (length: number) => {
+    if (data.length < offset + length) {
+      throw new Error(`File settings response too short for file type 0x${fileType.toString(16)}`);
+    }
+  };
+
+  let settings: FileSettings;
+  switch (fileType) {
+    case FileType.STANDARD:
+    case FileType.BACKUP:
+      need(3);
+      settings = {
+        ...base,
+        type: fileType === FileType.STANDARD ? 'std' : 'backup',
+        fileSize: data.readUIntLE(offset, 3)
+      };
+      offset += 3;
+      break;
+
+    case FileType.VALUE:
+      need(13);
+      settings = {
+        ...base,
+        type: 'value',
+        lowerLimit: data.readInt32LE(offset),
+        upperLimit: data.readInt32LE(offset + 4),
+        limitedCreditValue: data.readInt32LE(offset + 8),
+        limitedCreditEnabled: (data[offset + 12] & VALUE_LIMITED_CREDIT) !== 0,
+        freeGetValue: (data[offset + 12] & VALUE_FREE_GET_VALUE) !== 0
+      };
+      offset += 13;
+      break;
+
+    case FileType.LINEAR_RECORD:
+    case FileType.CYCLIC_RECORD:
+      need(9);
+      settings = {
+        ...base,
+        type: fileType === FileType.LINEAR_RECORD ? 'linear' : 'cyclic',
+        recordSize: data.readUIntLE(offset, 3),
+        maxRecords: data.readUIntLE(offset + 3, 3),
+        currentRecords: data.readUIntLE(offset + 6, 3)
+      };
+      offset += 9;
+      break;
+
+    default:
+      throw new Error(`Unknown file type 0x${fileType.toString(16)}`);
+  }
+
+  if ((fileOption & 0x80) && data.length > offset) {
+    const count = data[offset++];
+    need(count * 2);
+    settings.additionalAccessRights = [];
+    for (let i = 0; i < count; i++) {
+      settings.additionalAccessRights.push(decodeAccessRights(data, offset + i * 2));
+    }
+  }
+
+  return settings;
+}
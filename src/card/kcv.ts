@@ -0,0 +1,31 @@
+/**
+ * Key Check Values
+ * Short fingerprints that identify a key without revealing it:
+ *   AES:      AES-CMAC(key, 16 x 0x00), leftmost 3 bytes
+ *   DES/3DES: 3DES-ECB(key, 8 x 0x00), leftmost 3 bytes
+ * DES parity bits (where DESFire keeps the key version) do not affect the
+ * DES result, so a key has the same KCV whatever version it was written with.
+ */
+
+import { aesCMAC, desEncrypt } from './crypto';
+import type { KeyType } from './keyManager';
+
+/** Length of a key check value in bytes (6 hex characters) */
+export const KCV_LENGTH = 3;
+
+/**
+ * Key check value of a key (hex, upper case)
+ */
+export function keyCheckValue(key: Buffer, keyType: KeyType): string {
+  const block = keyType === 'AES'
+    ? aesCMAC(key, Buffer.alloc(16, 0x00))
+    : desEncrypt(key, Buffer.alloc(8, 0x00));
+  return block.subarray(0, KCV_LENGTH).toString('hex').toUpperCase();
+}
+
+/**
+ * Compare a key with a supplied KCV (hex, case and whitespace insensitive)
+ */
+export function matchesKeyCheckValue(key: Buffer, keyType: KeyType, kcv: string): boolean {
+  return keyCheckValue(key, keyType) === kcv.replace(/\s+/g, '').toUpperCase();
+}
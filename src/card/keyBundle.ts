@@ -0,0 +1,288 @@
+/**
+ * Key Bundles
+ * Signed, encrypted containers for moving key sets between sites without
+ * handling plaintext keys.
+ *
+ *   payload   AES-256-GCM under a random content key; the metadata is the AAD
+ *   content   key wrapped (AES-256 key wrap, RFC 3394) under either
+ *             - a shared 32-byte transport key        (scheme "aes-kw"), or
+ *             - a key derived with X25519 + HKDF-SHA256 from an ephemeral key
+ *               and the recipient's public key         (scheme "x25519")
+ *   signature Ed25519 over the canonical JSON of everything else
+ *
+ * The metadata (applications, key types, key versions and KCVs) is readable
+ * without the transport key, so a bundle can be inspected before import.
+ */
+
+import crypto from 'crypto';
+
+export const KEY_BUNDLE_FORMAT = 'desfire-key-bundle';
+export const KEY_BUNDLE_VERSION = 1;
+
+const KEY_WRAP_IV = Buffer.from('A6A6A6A6A6A6A6A6', 'hex');
+const HKDF_INFO = 'desfire-key-bundle x25519';
+
+export interface KeyBundleKeyInfo {
+  keyNo: number;
+  version: number;
+  kcv: string;
+}
+
+export interface KeyBundleEntry {
+  appId: string;
+  keyType: string;
+  diversified: boolean;
+  keys: KeyBundleKeyInfo[];
+}
+
+export type KeyBundleTransport =
+  | { scheme: 'aes-kw'; transportKey: Buffer }
+  | { scheme: 'x25519'; recipientPublicKey: crypto.KeyObject };
+
+/**
+ * Public part of a bundle: who signed it, how the content key is wrapped and what it contains
+ */
+export interface KeyBundleHeader {
+  format: string;
+  version: number;
+  createdAt: string;
+  /** Fingerprint of the Ed25519 signing key */
+  signer: string;
+  transport:
+    | { scheme: 'aes-kw'; keyId: string }
+    | { scheme: 'x25519'; recipient: string; ephemeralPublicKey: string };
+  keySets: KeyBundleEntry[];
+}
+
+export interface KeyBundle extends KeyBundleHeader {
+  wrappedKey: string;
+  iv: string;
+  authTag: string;
+  ciphertext: string;
+  signature: string;
+}
+
+export interface KeyBundleOpenOptions {
+  /** Ed25519 public keys of the sites bundles are accepted from */
+  trustedSigners: crypto.KeyObject[];
+  /** Shared transport key (scheme "aes-kw") */
+  transportKey?: Buffer;
+  /** X25519 private key of this site (scheme "x25519") */
+  recipientPrivateKey?: crypto.KeyObject;
+}
+
+/**
+ * Short identifier of a public key: SHA-256 of its SPKI encoding, first 8 bytes
+ */
+export function keyFingerprint(key: crypto.KeyObject): string {
+  const publicKey = key.type === 'private' ? crypto.createPublicKey(key) : key;
+  const der = publicKey.export({ type: 'spki', format: 'der' });
+  return crypto.createHash('sha256').update(der).digest().subarray(0, 8).toString('hex');
+}
+
+/**
+ * Identifier of a shared transport key (does not reveal the key)
+ */
+export function transportKeyId(transportKey: Buffer): string {
+  return crypto.createHmac('sha256', transportKey).update('desfire-transport-key').digest().subarray(0, 8).toString('hex');
+}
+
+/**
+ * JSON with object keys sorted, so the signed bytes do not depend on key order
+ */
+function canonicalJSON(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJSON).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map((k) => `${JSON.stringify(k)}:${canonicalJSON(value[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function wrapKey(kek: Buffer, key: Buffer): Buffer {
+  const cipher = crypto.createCipheriv('id-aes256-wrap', kek, KEY_WRAP_IV);
+  return Buffer.concat([cipher.update(key), cipher.final()]);
+}
+
+function unwrapKey(kek: Buffer, wrapped: Buffer): Buffer {
+  const decipher = crypto.createDecipheriv('id-aes256-wrap', kek, KEY_WRAP_IV);
+  return Buffer.concat([decipher.update(wrapped), decipher.final()]);
+}
+
+/**
+ * Key-encryption key shared by sender and recipient through X25519
+ */
+function x25519Kek(privateKey: crypto.KeyObject, publicKey: crypto.KeyObject, ephemeral: Buffer, recipient: string): Buffer {
+  const shared = crypto.diffieHellman({ privateKey, publicKey });
+  const salt = Buffer.concat([ephemeral, Buffer.from(recipient, 'hex')]);
+  const kek = Buffer.from(crypto.hkdfSync('sha256', shared, salt, HKDF_INFO, 32));
+  shared.fill(0);
+  return kek;
+}
+
+function checkTransportKey(transportKey: Buffer): void {
+  if (transportKey.length !== 32) {
+    throw new Error('Transport key must be 32 bytes');
+  }
+}
+
+/**
+ * Encrypt, wrap and sign key set data
+ * @param entries Public metadata of the key sets in the payload
+ * @param payload Key set data to protect (serialized key sets)
+ * @param signingKey Ed25519 private key of this site
+ */
+export function sealKeyBundle(
+  entries: KeyBundleEntry[],
+  payload: any,
+  transport: KeyBundleTransport,
+  signingKey: crypto.KeyObject
+): string {
+  if (signingKey.asymmetricKeyType !== 'ed25519' || signingKey.type !== 'private') {
+    throw new Error('Key bundles are signed with an Ed25519 private key');
+  }
+
+  const contentKey = crypto.randomBytes(32);
+  let kek: Buffer;
+  let transportHeader: KeyBundleHeader['transport'];
+  if (transport.scheme === 'aes-kw') {
+    checkTransportKey(transport.transportKey);
+    kek = Buffer.from(transport.transportKey);
+    transportHeader = { scheme: 'aes-kw', keyId: transportKeyId(transport.transportKey) };
+  } else {
+    if (transport.recipientPublicKey.asymmetricKeyType !== 'x25519') {
+      throw new Error('Recipient key must be an X25519 public key');
+    }
+    const ephemeral = crypto.generateKeyPairSync('x25519');
+    const ephemeralRaw = ephemeral.publicKey.export({ type: 'spki', format: 'der' });
+    const recipient = keyFingerprint(transport.recipientPublicKey);
+    kek = x25519Kek(ephemeral.privateKey, transport.recipientPublicKey, ephemeralRaw, recipient);
+    transportHeader = { scheme: 'x25519', recipient, ephemeralPublicKey: ephemeralRaw.toString('base64') };
+  }
+
+  const header: KeyBundleHeader = {
+    format: KEY_BUNDLE_FORMAT,
+    version: KEY_BUNDLE_VERSION,
+    createdAt: new Date().toISOString(),
+    signer: keyFingerprint(signingKey),
+    transport: transportHeader,
+    keySets: entries
+  };
+
+  try {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', contentKey, iv);
+    cipher.setAAD(Buffer.from(canonicalJSON(header)));
+    const plaintext = Buffer.from(JSON.stringify(payload));
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    plaintext.fill(0);
+
+    const unsigned = {
+      ...header,
+      wrappedKey: wrapKey(kek, contentKey).toString('hex'),
+      iv: iv.toString('hex'),
+      authTag: cipher.getAuthTag().toString('hex'),
+      ciphertext: ciphertext.toString('base64')
+    };
+    const signature = crypto.sign(null, Buffer.from(canonicalJSON(unsigned)), signingKey);
+    const bundle: KeyBundle = { ...unsigned, signature: signature.toString('base64') };
+    return JSON.stringify(bundle, null, 2);
+  } finally {
+    contentKey.fill(0);
+    kek.fill(0);
+  }
+}
+
+/**
+ * Parse a bundle and check its format (no signature check, no decryption)
+ */
+export function parseKeyBundle(text: string): KeyBundle {
+  let bundle: KeyBundle;
+  try {
+    bundle = JSON.parse(text);
+  } catch {
+    throw new Error('Not a key bundle (invalid JSON)');
+  }
+  if (bundle.format !== KEY_BUNDLE_FORMAT) {
+    throw new Error('Not a key bundle');
+  }
+  if (bundle.version !== KEY_BUNDLE_VERSION) {
+    throw new Error(`Unsupported key bundle version ${bundle.version}`);
+  }
+  return bundle;
+}
+
+/**
+ * Verify the signature of a bundle, unwrap the content key and decrypt the payload
+ */
+export function openKeyBundle(text: string, options: KeyBundleOpenOptions): { header: KeyBundleHeader; payload: any } {
+  const bundle = parseKeyBundle(text);
+  const { signature, wrappedKey, iv, authTag, ciphertext, ...header } = bundle;
+
+  const signer = options.trustedSigners.find((key) => keyFingerprint(key) === bundle.signer);
+  if (!signer) {
+    throw new Error(`Key bundle signed by untrusted key ${bundle.signer}`);
+  }
+  const unsigned = { ...header, wrappedKey, iv, authTag, ciphertext };
+  if (!crypto.verify(null, Buffer.from(canonicalJSON(unsigned)), signer, Buffer.from(signature || '', 'base64'))) {
+    throw new Error('Key bundle signature is invalid');
+  }
+
+  let kek: Buffer;
+  const transport = bundle.transport;
+  if (transport.scheme === 'aes-kw') {
+    if (!options.transportKey) {
+      throw new Error('Key bundle is wrapped under a transport key; none given');
+    }
+    checkTransportKey(options.transportKey);
+    if (transportKeyId(options.transportKey) !== transport.keyId) {
+      throw new Error(`Key bundle is wrapped under transport key ${transport.keyId}, not the one given`);
+    }
+    kek = Buffer.from(options.transportKey);
+  } else if (transport.scheme === 'x25519') {
+    const privateKey = options.recipientPrivateKey;
+    if (!privateKey || keyFingerprint(privateKey) !== transport.recipient) {
+      throw new Error(`Key bundle is addressed to recipient key ${transport.recipient}`);
+    }
+    const ephemeralRaw = Buffer.from(transport.ephemeralPublicKey, 'base64');
+    const ephemeral = crypto.createPublicKey({ key: ephemeralRaw, format: 'der', type: 'spki' });
+    kek = x25519Kek(privateKey, ephemeral, ephemeralRaw, transport.recipient);
+  } else {
+    throw new Error(`Unsupported key bundle transport ${(transport as any).scheme}`);
+  }
+
+  let contentKey: Buffer | null = null;
+  try {
+    contentKey = unwrapKey(kek, Buffer.from(wrappedKey, 'hex'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', contentKey, Buffer.from(iv, 'hex'));
+    decipher.setAAD(Buffer.from(canonicalJSON(header)));
+    decipher.setAuthTag(Buffer.from(authTag, 'hex'));
+    const plaintext = Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]);
+    const payload = JSON.parse(plaintext.toString());
+    plaintext.fill(0);
+    return { header, payload };
+  } catch {
+    throw new Error('Cannot decrypt key bundle (wrong transport key or corrupted bundle)');
+  } finally {
+    contentKey?.fill(0);
+    kek.fill(0);
+  }
+}
+
+/**
+ * Generate the key pairs of a site: Ed25519 for signing, X25519 for receiving bundles (PEM)
+ */
+export function generateBundleKeyPairs(): {
+  signing: { privateKey: string; publicKey: string };
+  encryption: { privateKey: string; publicKey: string };
+} {
+  const pem = (pair: crypto.KeyPairKeyObjectResult) => ({
+    privateKey: pair.privateKey.export({ type: 'pkcs8', format: 'pem' }) as string,
+    publicKey: pair.publicKey.export({ type: 'spki', format: 'pem' }) as string
+  });
+  return {
+    signing: pem(crypto.generateKeyPairSync('ed25519')),
+    encryption: pem(crypto.generateKeyPairSync('x25519'))
+  };
+}
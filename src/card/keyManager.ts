@@ -6,6 +6,11 @@
 import crypto from 'crypto';
 import fs from 'fs';
 import path from 'path';
+import { diversificationInput, diversifyKey } from './diversification';
+import { KeyBundleEntry, KeyBundleOpenOptions, KeyBundleTransport, openKeyBundle, sealKeyBundle } from './keyBundle';
+import { keyCheckValue as cardKeyCheckValue, matchesKeyCheckValue } from './kcv';
+import { audit, auditAppId } from '../audit/auditLog';
+import { FileKeyStore, KeyStore } from './keyStore';
 
 export type KeyType = 'AES' | 'DES' | '3DES';
 
@@ -14,26 +19,156 @@ export interface KeySet {
   keyType: KeyType;
   keys: Map<number, Buffer>; // Key number -> Key data (16 bytes for AES-128)
   keyVersions: Map<number, number>; // Key number -> Version
+  keyCheckValues?: Map<number, string>; // Key number -> KCV (hex)
+  /** When set, keys are AN10922 master keys and card keys are derived per UID */
+  diversification?: KeyDiversification;
+  /** Earlier generations of each key, oldest first (cards that missed a rotation) */
+  history?: Map<number, KeyGeneration[]>;
+  /** Next key set, prepared for a rotation campaign but not yet current */
+  staged?: StagedKeySet;
+}
+
+/**
+ * Keys written to a non-active card key set (InitializeKeySet/ChangeKeyEV2)
+ * before the card rolls to it; all keys share one version
+ */
+export interface StagedKeySet {
+  /** Card key set number the keys are written to (1-15) */
+  keySetNo: number;
+  version: number;
+  keys: Map<number, Buffer>;
+  /** When the key set was staged (ISO 8601) */
+  stagedAt: string;
+}
+
+/**
+ * A replaced key, kept so cards still carrying it can authenticate and be upgraded
+ */
+export interface KeyGeneration {
+  version: number;
+  key: Buffer;
+  /** When the generation was replaced (ISO 8601) */
+  retiredAt: string;
+}
+
+export interface KeyGenerationInfo {
+  version: number;
+  current: boolean;
+  kcv: string;
+  retiredAt?: string;
+}
+
+export interface KeyDiversification {
+  /** System identifier appended to UID || AID (may be empty) */
+  systemIdentifier: Buffer;
+}
+
+export type KdfAlgorithm = 'pbkdf2' | 'scrypt';
+
+/**
+ * How the keystore master key is derived from the master password
+ * ('none' when a raw 32-byte key is supplied)
+ */
+export type KdfParams =
+  | { algorithm: 'pbkdf2'; salt: string; iterations: number; digest: 'sha256' }
+  | { algorithm: 'scrypt'; salt: string; cost: number; blockSize: number; parallelization: number }
+  | { algorithm: 'none' };
+
+/**
+ * Per-store header, kept in the 'keystore' record and copied into every key record
+ */
+export interface KeyStoreHeader {
+  version: number;
+  kdf: KdfParams;
+  /** Key check value of the master key (hex) */
+  kcv: string;
+}
+
+export const KEYSTORE_FORMAT_VERSION = 2;
+const HEADER_RECORD = 'keystore';
+const BACKUP_PREFIX = 'backup-';
+const STAGED_PREFIX = 'staged-';
+const CAMPAIGN_PREFIX = 'campaign_';
+
+// Format v1: no header, PBKDF2 with a fixed salt
+const LEGACY_SALT = 'desfire-salt';
+const LEGACY_ITERATIONS = 100000;
+
+const PBKDF2_ITERATIONS = 600000;
+const SCRYPT_COST = 32768;
+const SCRYPT_BLOCK_SIZE = 8;
+const SCRYPT_PARALLELIZATION = 1;
+
+/**
+ * Fresh KDF parameters with a random per-store salt
+ */
+function newKdfParams(algorithm: KdfAlgorithm): KdfParams {
+  const salt = crypto.randomBytes(16).toString('hex');
+  if (algorithm === 'scrypt') {
+    return { algorithm, salt, cost: SCRYPT_COST, blockSize: SCRYPT_BLOCK_SIZE, parallelization: SCRYPT_PARALLELIZATION };
+  }
+  return { algorithm, salt, iterations: PBKDF2_ITERATIONS, digest: 'sha256' };
+}
+
+function deriveMasterKey(password: string, kdf: KdfParams): Buffer {
+  switch (kdf.algorithm) {
+    case 'pbkdf2':
+      return crypto.pbkdf2Sync(password, Buffer.from(kdf.salt, 'hex'), kdf.iterations, 32, kdf.digest);
+    case 'scrypt':
+      return crypto.scryptSync(password, Buffer.from(kdf.salt, 'hex'), 32, {
+        N: kdf.cost,
+        r: kdf.blockSize,
+        p: kdf.parallelization,
+        maxmem: 256 * kdf.cost * kdf.blockSize
+      });
+    case 'none':
+      throw new Error('Keystore uses a raw master key; a password cannot be used');
+  }
+}
+
+/**
+ * Key check value: first 8 bytes of HMAC-SHA256(masterKey, label)
+ */
+function keyCheckValue(masterKey: Buffer): string {
+  return crypto.createHmac('sha256', masterKey).update('desfire-keystore-kcv').digest().subarray(0, 8).toString('hex');
+}
+
+export interface RotationOptions {
+  /** KDF for the new password (defaults to the current one, scrypt after a raw key) */
+  kdf?: KdfAlgorithm;
+  /**
+   * Keep a copy of the old records (still encrypted under the old key) in this
+   * directory, which must be outside the live store; by default no copy is kept
+   */
+  backupDir?: string;
+}
+
+export interface RotationResult {
+  /** Re-encrypted key records */
+  records: string[];
+  /** Directory with the copy of the old records, or null */
+  backup: string | null;
+  kdf: KdfParams['algorithm'];
 }
 
 export class KeyManager {
   private keySets: Map<number, KeySet> = new Map(); // AppId -> KeySet
   private masterKey: Buffer | null = null;
-  private keyStorePath: string;
+  private header: KeyStoreHeader | null = null;
+  private store: KeyStore;
 
-  constructor(keyStorePath: string = './keys') {
-    this.keyStorePath = keyStorePath;
-    this.ensureKeyDirectory();
+  /**
+   * @param keyStore Key store backend, or a directory for the file store
+   */
+  constructor(keyStore: KeyStore | string = './keys') {
+    this.store = typeof keyStore === 'string' ? new FileKeyStore(keyStore) : keyStore;
   }
 
   /**
-   * Ensure key storage directory exists
+   * Key store backend holding the encrypted key records
    */
-  private ensureKeyDirectory(): void {
-    if (!fs.existsSync(this.keyStorePath)) {
-      fs.mkdirSync(this.keyStorePath, { recursive: true });
-      console.log(`Created key storage directory: ${this.keyStorePath}`);
-    }
+  getKeyStore(): KeyStore {
+    return this.store;
   }
 
   /**
@@ -53,16 +188,20 @@ export class KeyManager {
       appId,
       keyType,
       keys: new Map(),
-      keyVersions: new Map()
+      keyVersions: new Map(),
+      keyCheckValues: new Map()
     };
 
     for (let i = 0; i < numKeys; i++) {
-      keySet.keys.set(i, this.generateKey(keyType));
+      const key = this.generateKey(keyType);
+      keySet.keys.set(i, key);
       keySet.keyVersions.set(i, 0); // Initial version is 0
+      keySet.keyCheckValues!.set(i, cardKeyCheckValue(key, keyType));
     }
 
     this.keySets.set(appId, keySet);
     console.log(`Generated ${numKeys} keys for application 0x${appId.toString(16).padStart(6, '0')}`);
+    audit({ action: 'key.generate', appId: auditAppId(appId), details: { keys: numKeys, keyType } });
 
     return keySet;
   }
@@ -77,8 +216,10 @@ export class KeyManager {
 
   /**
    * Get a specific key from a key set
+   * For a diversified key set the stored key is the master key and the
+   * card key is derived from it: pass the card UID to get the card key.
    */
-  getKey(appId: number, keyNo: number): Buffer {
+  getKey(appId: number, keyNo: number, uid?: Buffer): Buffer {
     const keySet = this.keySets.get(appId);
     if (!keySet) {
       throw new Error(`Key set not found for application 0x${appId.toString(16).padStart(6, '0')}`);
@@ -89,33 +230,307 @@ export class KeyManager {
       throw new Error(`Key ${keyNo} not found in application 0x${appId.toString(16).padStart(6, '0')}`);
     }
 
+    return this.cardKey(keySet, key, uid);
+  }
+
+  /**
+   * Get the key of a specific generation (current or retired), or null if
+   * the version is unknown. Diversified key sets need the card UID.
+   */
+  getKeyForVersion(appId: number, keyNo: number, version: number, uid?: Buffer): Buffer | null {
+    const keySet = this.keySets.get(appId);
+    if (!keySet) {
+      throw new Error(`Key set not found for application 0x${appId.toString(16).padStart(6, '0')}`);
+    }
+
+    const current = keySet.keys.get(keyNo);
+    if (current && (keySet.keyVersions.get(keyNo) || 0) === version) {
+      return this.cardKey(keySet, current, uid);
+    }
+    const staged = keySet.staged?.version === version ? keySet.staged.keys.get(keyNo) : undefined;
+    if (staged) {
+      return this.cardKey(keySet, staged, uid);
+    }
+    const generation = keySet.history?.get(keyNo)?.find((g) => g.version === version);
+    return generation ? this.cardKey(keySet, generation.key, uid) : null;
+  }
+
+  /**
+   * Card key for a stored key (derived per UID for diversified key sets)
+   */
+  private cardKey(keySet: KeySet, key: Buffer, uid?: Buffer): Buffer {
+    if (keySet.diversification) {
+      if (!uid || uid.length === 0) {
+        throw new Error(`Key set for application 0x${keySet.appId.toString(16).padStart(6, '0')} is diversified; card UID required`);
+      }
+      const m = diversificationInput(uid, keySet.appId, keySet.diversification.systemIdentifier);
+      return diversifyKey(key, keySet.keyType, m);
+    }
+
     return key;
   }
 
+  /**
+   * Mark a key set as holding AN10922 master keys (or clear it with null)
+   * @param systemIdentifier Diversification system identifier, e.g. an ASCII system name
+   */
+  setDiversification(appId: number, systemIdentifier: Buffer | null): void {
+    const keySet = this.keySets.get(appId);
+    if (!keySet) {
+      throw new Error(`Key set not found for application 0x${appId.toString(16).padStart(6, '0')}`);
+    }
+
+    if (systemIdentifier === null) {
+      delete keySet.diversification;
+      return;
+    }
+
+    // UID (7) + AID (3) + system identifier must fit the AN10922 input
+    const maxSysId = (keySet.keyType === 'AES' ? 31 : 15) - 10;
+    if (systemIdentifier.length > maxSysId) {
+      throw new Error(`System identifier must be at most ${maxSysId} bytes for ${keySet.keyType} keys`);
+    }
+    keySet.diversification = { systemIdentifier: Buffer.from(systemIdentifier) };
+  }
+
+  /**
+   * Check whether a key set holds diversification master keys
+   */
+  isDiversified(appId: number): boolean {
+    return !!this.keySets.get(appId)?.diversification;
+  }
+
   /**
    * Set a specific key in a key set
+   * A key replaced under a different version is kept in the key history.
+   * Single DES keys (8 bytes) are stored in their 16-byte form K1 || K1.
+   * @param kcv Key check value supplied with the key; the key is rejected if it does not match
    */
-  setKey(appId: number, keyNo: number, key: Buffer, version: number = 0, keyType?: KeyType): void {
+  setKey(appId: number, keyNo: number, key: Buffer, version: number = 0, keyType?: KeyType, kcv?: string): void {
+    const type = keyType || this.keySets.get(appId)?.keyType || 'AES';
+    if (type === 'DES' && key.length === 8) key = Buffer.concat([key, key]);
+    const expectedLen = type === '3DES' ? 24 : 16;
+    if (key.length !== expectedLen) {
+      throw new Error(type === 'DES' ? 'DES key must be 8 or 16 bytes' : `${type} key must be exactly ${expectedLen} bytes`);
+    }
+    if (kcv !== undefined && !matchesKeyCheckValue(key, type, kcv)) {
+      const error = `Key check value mismatch for K${keyNo}: expected ${kcv.toUpperCase()}, key has ${cardKeyCheckValue(key, type)}`;
+      audit({ action: 'key.set', appId: auditAppId(appId), keyNo, outcome: 'failed', error });
+      throw new Error(error);
+    }
+
+    this.putKey(appId, keyNo, key, version, type);
+    audit({ action: 'key.set', appId: auditAppId(appId), keyNo, details: { version, kcv: cardKeyCheckValue(key, type) } });
+  }
+
+  /**
+   * Store a key as the current generation (the replaced one goes to the history)
+   */
+  private putKey(appId: number, keyNo: number, key: Buffer, version: number, type: KeyType): void {
+
     let keySet = this.keySets.get(appId);
     if (!keySet) {
       keySet = {
         appId,
-        keyType: keyType || 'AES',
+        keyType: type,
         keys: new Map(),
-        keyVersions: new Map()
+        keyVersions: new Map(),
+        keyCheckValues: new Map()
       };
       this.keySets.set(appId, keySet);
     }
 
-    const type = keyType || keySet.keyType || 'AES';
-    const expectedLen = type === '3DES' ? 24 : 16;
-    if (key.length !== expectedLen) {
-      throw new Error(`${type} key must be exactly ${expectedLen} bytes`);
+    if (keySet.keys.has(keyNo) && (keySet.keyVersions.get(keyNo) || 0) !== version) {
+      this.retireKey(keySet, keyNo);
+    }
+    // A version is either current or retired, never both
+    const retired = keySet.history?.get(keyNo);
+    if (retired) {
+      keySet.history!.set(keyNo, retired.filter((g) => g.version !== version));
     }
-
     keySet.keys.set(keyNo, key);
     keySet.keyVersions.set(keyNo, version);
     keySet.keyType = type;
+    if (!keySet.keyCheckValues) {
+      keySet.keyCheckValues = new Map();
+    }
+    keySet.keyCheckValues.set(keyNo, cardKeyCheckValue(key, type));
+  }
+
+  /**
+   * Key check value of a key (AES: CMAC-based, DES/3DES: ECB-based; 6 hex digits)
+   * For a diversified key set pass the card UID to get the KCV of the card
+   * key; without it the KCV is that of the stored master key.
+   */
+  getKeyCheckValue(appId: number, keyNo: number, uid?: Buffer): string {
+    const keySet = this.keySets.get(appId);
+    if (!keySet) {
+      throw new Error(`Key set not found for application 0x${appId.toString(16).padStart(6, '0')}`);
+    }
+    const key = keySet.keys.get(keyNo);
+    if (!key) {
+      throw new Error(`Key ${keyNo} not found in application 0x${appId.toString(16).padStart(6, '0')}`);
+    }
+
+    if (uid && keySet.diversification) {
+      return cardKeyCheckValue(this.cardKey(keySet, key, uid), keySet.keyType);
+    }
+    return keySet.keyCheckValues?.get(keyNo) ?? cardKeyCheckValue(key, keySet.keyType);
+  }
+
+  /**
+   * Check a supplied KCV against a stored key (card key when uid is given)
+   */
+  verifyKeyCheckValue(appId: number, keyNo: number, kcv: string, uid?: Buffer): boolean {
+    return this.getKeyCheckValue(appId, keyNo, uid) === kcv.replace(/\s+/g, '').toUpperCase();
+  }
+
+  /**
+   * Replace a key with a new generation; the old one stays in the key history
+   * Versions count 1-255 and wrap to 1 (0 is the factory default key).
+   * @param newKey New key (random when omitted)
+   * @returns Version of the new key
+   */
+  rotateKey(appId: number, keyNo: number, newKey?: Buffer): number {
+    const keySet = this.keySets.get(appId);
+    if (!keySet) {
+      throw new Error(`Key set not found for application 0x${appId.toString(16).padStart(6, '0')}`);
+    }
+    if (!keySet.keys.has(keyNo)) {
+      throw new Error(`Key ${keyNo} not found in application 0x${appId.toString(16).padStart(6, '0')}`);
+    }
+    if (keySet.staged) {
+      throw new Error(`Application 0x${appId.toString(16).padStart(6, '0')} has a key set rotation in progress`);
+    }
+
+    const version = ((keySet.keyVersions.get(keyNo) || 0) % 255) + 1;
+    this.putKey(appId, keyNo, newKey || this.generateKey(keySet.keyType), version, keySet.keyType);
+    audit({ action: 'key.rotate', appId: auditAppId(appId), keyNo, details: { version, kcv: this.getKeyCheckValue(appId, keyNo) } });
+    return version;
+  }
+
+  /**
+   * Key generations of a key, newest first (no key material)
+   */
+  getKeyGenerations(appId: number, keyNo: number): KeyGenerationInfo[] {
+    const keySet = this.keySets.get(appId);
+    if (!keySet) {
+      throw new Error(`Key set not found for application 0x${appId.toString(16).padStart(6, '0')}`);
+    }
+
+    const generations: KeyGenerationInfo[] = (keySet.history?.get(keyNo) || [])
+      .map((g) => ({ version: g.version, current: false, kcv: cardKeyCheckValue(g.key, keySet.keyType), retiredAt: g.retiredAt }))
+      .reverse();
+    if (keySet.keys.has(keyNo)) {
+      generations.unshift({ version: keySet.keyVersions.get(keyNo) || 0, current: true, kcv: this.getKeyCheckValue(appId, keyNo) });
+    }
+    return generations;
+  }
+
+  /**
+   * Drop a retired key generation once no card carries it any more
+   * @returns true if the generation was in the history
+   */
+  forgetKeyGeneration(appId: number, keyNo: number, version: number): boolean {
+    const generations = this.keySets.get(appId)?.history?.get(keyNo);
+    const index = generations ? generations.findIndex((g) => g.version === version) : -1;
+    if (index < 0) {
+      return false;
+    }
+    generations![index].key.fill(0);
+    generations!.splice(index, 1);
+    audit({ action: 'key.forget', appId: auditAppId(appId), keyNo, details: { version } });
+    return true;
+  }
+
+  /**
+   * Stage a new key set for a rotation campaign
+   * Every key of the key set gets a new random key under one new version;
+   * the current keys stay current until promoteStagedKeySet().
+   * @param keySetNo Card key set number to write the new keys to (1-15)
+   */
+  stageKeySet(appId: number, keySetNo: number = 1): StagedKeySet {
+    const keySet = this.keySets.get(appId);
+    if (!keySet) {
+      throw new Error(`Key set not found for application 0x${appId.toString(16).padStart(6, '0')}`);
+    }
+    if (keySet.staged) {
+      throw new Error(`Application 0x${appId.toString(16).padStart(6, '0')} already has a staged key set (version ${keySet.staged.version})`);
+    }
+    if (!Number.isInteger(keySetNo) || keySetNo < 1 || keySetNo > 15) {
+      throw new Error('Key set number must be 1-15');
+    }
+
+    const versions = [...keySet.keyVersions.values(), ...[...(keySet.history?.values() || [])].flat().map((g) => g.version)];
+    const version = (Math.max(0, ...versions) % 255) + 1;
+    const keys = new Map<number, Buffer>();
+    keySet.keys.forEach((_key, keyNo) => keys.set(keyNo, this.generateKey(keySet.keyType)));
+
+    keySet.staged = { keySetNo, version, keys, stagedAt: new Date().toISOString() };
+    audit({ action: 'key.stage', appId: auditAppId(appId), details: { keySetNo, version } });
+    return keySet.staged;
+  }
+
+  /**
+   * Staged key set of an application, if a rotation is in progress
+   */
+  getStagedKeySet(appId: number): StagedKeySet | undefined {
+    return this.keySets.get(appId)?.staged;
+  }
+
+  /**
+   * Get a key of the staged key set (diversified for uid if needed)
+   */
+  getStagedKey(appId: number, keyNo: number, uid?: Buffer): Buffer {
+    const keySet = this.keySets.get(appId);
+    const key = keySet?.staged?.keys.get(keyNo);
+    if (!keySet || !key) {
+      throw new Error(`No staged key ${keyNo} for application 0x${appId.toString(16).padStart(6, '0')}`);
+    }
+    return this.cardKey(keySet, key, uid);
+  }
+
+  /**
+   * Make the staged keys current; the replaced keys move to the key history
+   * so cards that were not rolled still authenticate
+   */
+  promoteStagedKeySet(appId: number): void {
+    const keySet = this.keySets.get(appId);
+    const staged = keySet?.staged;
+    if (!keySet || !staged) {
+      throw new Error(`No staged key set for application 0x${appId.toString(16).padStart(6, '0')}`);
+    }
+
+    delete keySet.staged;
+    staged.keys.forEach((key, keyNo) => this.putKey(appId, keyNo, key, staged.version, keySet.keyType));
+    audit({ action: 'key.promote', appId: auditAppId(appId), details: { version: staged.version } });
+  }
+
+  /**
+   * Drop the staged key set (cancelled rotation)
+   */
+  discardStagedKeySet(appId: number): void {
+    const keySet = this.keySets.get(appId);
+    if (keySet?.staged) {
+      audit({ action: 'key.discard', appId: auditAppId(appId), details: { version: keySet.staged.version } });
+      keySet.staged.keys.forEach((key) => key.fill(0));
+      delete keySet.staged;
+    }
+  }
+
+  /**
+   * Move the current generation of a key into the history
+   * (replacing an older generation with the same version after a wrap)
+   */
+  private retireKey(keySet: KeySet, keyNo: number): void {
+    const key = keySet.keys.get(keyNo)!;
+    const version = keySet.keyVersions.get(keyNo) || 0;
+    if (!keySet.history) {
+      keySet.history = new Map();
+    }
+    const generations = (keySet.history.get(keyNo) || []).filter((g) => g.version !== version);
+    generations.push({ version, key, retiredAt: new Date().toISOString() });
+    keySet.history.set(keyNo, generations);
   }
 
   /**
@@ -132,26 +547,346 @@ export class KeyManager {
 
   /**
    * Set master encryption key for key storage encryption
+   * A password is run through the KDF recorded in the store header (a new
+   * store gets a random salt and the given KDF). The key is checked against
+   * the header's key check value, so a wrong password fails here instead of
+   * on the first record. Records in the old unversioned format are
+   * re-encrypted in the current format.
+   * @param kdf KDF for a new store (existing stores keep theirs)
+   */
+  setMasterKey(masterKey: Buffer | string, kdf: KdfAlgorithm = 'scrypt'): void {
+    if (kdf !== 'pbkdf2' && kdf !== 'scrypt') {
+      throw new Error(`Unsupported KDF: ${kdf} (expected pbkdf2 or scrypt)`);
+    }
+    if (typeof masterKey !== 'string' && masterKey.length !== 32) {
+      throw new Error('Master key must be 32 bytes');
+    }
+
+    const stored = this.readHeader();
+    if (stored) {
+      const key = typeof masterKey === 'string' ? deriveMasterKey(masterKey, stored.kdf) : Buffer.from(masterKey);
+      if (keyCheckValue(key) !== stored.kcv) {
+        key.fill(0);
+        audit({ action: 'keystore.unlock', outcome: 'failed', error: 'wrong master key' });
+        throw new Error('Wrong keystore master key (key check value mismatch)');
+      }
+      this.useMasterKey(key, stored);
+      this.migrateLegacyRecords(masterKey);
+      audit({ action: 'keystore.unlock' });
+      return;
+    }
+
+    const params: KdfParams = typeof masterKey === 'string' ? newKdfParams(kdf) : { algorithm: 'none' };
+    const key = typeof masterKey === 'string' ? deriveMasterKey(masterKey, params) : Buffer.from(masterKey);
+    const header: KeyStoreHeader = { version: KEYSTORE_FORMAT_VERSION, kdf: params, kcv: keyCheckValue(key) };
+
+    // Verify the password against existing v1 records before adopting it
+    const legacy = this.legacyRecords();
+    if (legacy.length) {
+      const legacyKey = this.legacyMasterKey(masterKey);
+      try {
+        this.decryptRecord(legacy[0].name, legacy[0].fileData, legacyKey);
+      } catch (error) {
+        key.fill(0);
+        throw new Error('Wrong keystore master key (cannot decrypt existing key records)');
+      } finally {
+        legacyKey.fill(0);
+      }
+    }
+
+    this.store.write(HEADER_RECORD, JSON.stringify(header, null, 2));
+    this.useMasterKey(key, header);
+    this.migrateLegacyRecords(masterKey);
+    audit({ action: 'keystore.initialize', details: { kdf: params.algorithm } });
+  }
+
+  /**
+   * Store header (KDF parameters and key check value), or null for a new store
+   */
+  getKeyStoreHeader(): KeyStoreHeader | null {
+    return this.readHeader();
+  }
+
+  /**
+   * Check whether the master key is set (the keystore is unlocked)
+   */
+  hasMasterKey(): boolean {
+    return this.masterKey !== null;
+  }
+
+  /**
+   * Id of the key ceremony whose shares unlock this store (KCV prefix), or null for a new store
+   */
+  getShareSetId(): string | null {
+    return this.readHeader()?.kcv.slice(0, 8) ?? null;
+  }
+
+  private readHeader(): KeyStoreHeader | null {
+    const data = this.store.read(HEADER_RECORD);
+    if (data === null) {
+      return null;
+    }
+    const header = JSON.parse(data) as KeyStoreHeader;
+    if (header.version !== KEYSTORE_FORMAT_VERSION) {
+      throw new Error(`Unsupported keystore format version ${header.version}`);
+    }
+    return header;
+  }
+
+  private useMasterKey(key: Buffer, header: KeyStoreHeader): void {
+    if (this.masterKey) {
+      this.masterKey.fill(0);
+    }
+    this.masterKey = key;
+    this.header = header;
+  }
+
+  /**
+   * Master key of the v1 format (PBKDF2 with the fixed salt)
+   */
+  private legacyMasterKey(masterKey: Buffer | string): Buffer {
+    if (typeof masterKey !== 'string') {
+      return Buffer.from(masterKey);
+    }
+    return crypto.pbkdf2Sync(masterKey, LEGACY_SALT, LEGACY_ITERATIONS, 32, 'sha256');
+  }
+
+  /**
+   * Names of the key set records (without header, backups and staged copies)
+   */
+  private keyRecordNames(): string[] {
+    return this.store.list().filter((name) =>
+      name !== HEADER_RECORD && !name.startsWith(BACKUP_PREFIX) && !name.startsWith(STAGED_PREFIX)
+    );
+  }
+
+  /**
+   * Key records without a format version
+   */
+  private legacyRecords(): { name: string; fileData: any }[] {
+    const records: { name: string; fileData: any }[] = [];
+    for (const name of this.keyRecordNames()) {
+      const data = this.store.read(name);
+      if (data === null) continue;
+      const fileData = JSON.parse(data);
+      if (fileData.version === undefined) {
+        records.push({ name, fileData });
+      }
+    }
+    return records;
+  }
+
+  /**
+   * Re-encrypt v1 records with the current master key and header
+   */
+  private migrateLegacyRecords(masterKey: Buffer | string): void {
+    const legacy = this.legacyRecords();
+    if (!legacy.length) {
+      return;
+    }
+
+    const legacyKey = this.legacyMasterKey(masterKey);
+    try {
+      for (const { name, fileData } of legacy) {
+        const value = this.decryptRecord(name, fileData, legacyKey);
+        this.writeEncryptedRecord(name, value);
+        console.log(`Migrated key record ${this.store.describe(name)} to format v${KEYSTORE_FORMAT_VERSION}`);
+      }
+    } finally {
+      legacyKey.fill(0);
+    }
+  }
+
+  /**
+   * Check a master key or password against the store's key check value
+   */
+  verifyMasterKey(masterKey: Buffer | string): boolean {
+    const header = this.readHeader();
+    if (!header) {
+      return false;
+    }
+
+    let key: Buffer;
+    try {
+      key = typeof masterKey === 'string' ? deriveMasterKey(masterKey, header.kdf) : Buffer.from(masterKey);
+    } catch {
+      return false;
+    }
+    const ok = keyCheckValue(key) === header.kcv;
+    key.fill(0);
+    return ok;
+  }
+
+  /**
+   * Re-encrypt every key record under a new master key
+   * 1. Decrypt all records with the current key (abort if any fails)
+   * 2. Back up the current header and records as backup-<timestamp>-<name>
+   * 3. Write the re-encrypted records as staged-<name> and verify them
+   * 4. Swap header and records (in one transaction if the store supports it),
+   *    verify the live records and restore the backup on any failure
+   * 5. Remove the staged copies and the backup; the old records stay
+   *    decryptable with the old key only in options.backupDir, if given
+   */
+  rotateMasterKey(newMasterKey: Buffer | string, options: RotationOptions = {}): RotationResult {
+    const currentHeader = this.header;
+    if (!this.masterKey || !currentHeader) {
+      throw new Error('Master key not set. Call setMasterKey() first.');
+    }
+    if (typeof newMasterKey !== 'string' && newMasterKey.length !== 32) {
+      throw new Error('Master key must be 32 bytes');
+    }
+    const kdf = options.kdf || (currentHeader.kdf.algorithm === 'none' ? 'scrypt' : currentHeader.kdf.algorithm);
+    if (kdf !== 'pbkdf2' && kdf !== 'scrypt') {
+      throw new Error(`Unsupported KDF: ${kdf} (expected pbkdf2 or scrypt)`);
+    }
+
+    const values = new Map<string, any>();
+    for (const name of this.keyRecordNames()) {
+      const value = this.readEncryptedRecord(name);
+      if (value !== null) values.set(name, value);
+    }
+
+    const params: KdfParams = typeof newMasterKey === 'string' ? newKdfParams(kdf) : { algorithm: 'none' };
+    const newKey = typeof newMasterKey === 'string' ? deriveMasterKey(newMasterKey, params) : Buffer.from(newMasterKey);
+    const newHeader: KeyStoreHeader = { version: KEYSTORE_FORMAT_VERSION, kdf: params, kcv: keyCheckValue(newKey) };
+    if (newHeader.kcv === currentHeader.kcv) {
+      newKey.fill(0);
+      throw new Error('New master key is the same as the current one');
+    }
+
+    const names = Array.from(values.keys());
+    const backup = `${BACKUP_PREFIX}${new Date().toISOString().replace(/[-:.]/g, '')}-`;
+    const removeStaged = () => names.forEach((name) => this.store.remove(STAGED_PREFIX + name));
+    const removeBackup = () => [HEADER_RECORD, ...names].forEach((name) => this.store.remove(backup + name));
+
+    let backupDir: string | null = null;
+    if (options.backupDir) {
+      try {
+        backupDir = this.exportRecords(options.backupDir, backup.slice(0, -1), [HEADER_RECORD, ...names]);
+      } catch (error: any) {
+        newKey.fill(0);
+        throw new Error(`Master key rotation aborted, nothing changed: ${error?.message || error}`);
+      }
+    }
+    const removeBackupDir = () => backupDir && fs.rmSync(backupDir, { recursive: true, force: true });
+
+    for (const name of [HEADER_RECORD, ...names]) {
+      const raw = this.store.read(name);
+      if (raw !== null) this.store.write(backup + name, raw);
+    }
+
+    const staged = new Map<string, string>();
+    try {
+      for (const [name, value] of values) {
+        const data = this.encryptRecord(value, newKey, newHeader);
+        this.store.write(STAGED_PREFIX + name, data);
+        staged.set(name, data);
+      }
+      for (const [name, value] of values) {
+        this.verifyRecord(STAGED_PREFIX + name, value, newKey, newHeader);
+      }
+    } catch (error: any) {
+      removeStaged();
+      removeBackup();
+      removeBackupDir();
+      newKey.fill(0);
+      throw new Error(`Master key rotation aborted, nothing changed: ${error?.message || error}`);
+    }
+
+    const swap = () => {
+      this.store.write(HEADER_RECORD, JSON.stringify(newHeader, null, 2));
+      staged.forEach((data, name) => this.store.write(name, data));
+    };
+    try {
+      if (this.store.transaction) {
+        this.store.transaction(swap);
+      } else {
+        swap();
+      }
+      for (const [name, value] of values) {
+        this.verifyRecord(name, value, newKey, newHeader);
+      }
+    } catch (error: any) {
+      for (const name of [HEADER_RECORD, ...names]) {
+        const raw = this.store.read(backup + name);
+        if (raw !== null) this.store.write(name, raw);
+      }
+      removeStaged();
+      newKey.fill(0);
+      throw new Error(`Master key rotation failed and was rolled back (backup ${backup}*): ${error?.message || error}`);
+    }
+
+    removeStaged();
+    removeBackup();
+
+    this.useMasterKey(newKey, newHeader);
+    console.log(`Re-encrypted ${names.length} key record(s) under the new master key`);
+    audit({ action: 'keystore.rotate-master', details: { records: names.length, kdf: params.algorithm } });
+    return { records: names, backup: backupDir, kdf: params.algorithm };
+  }
+
+  /**
+   * Copy raw records into <dir>/<label>/<name>.key, refusing a directory
+   * inside the live file store
+   * @returns The directory the records were written to
    */
-  setMasterKey(masterKey: Buffer | string): void {
-    if (typeof masterKey === 'string') {
-      // Derive key from password
-      this.masterKey = crypto.pbkdf2Sync(masterKey, 'desfire-salt', 100000, 32, 'sha256');
-    } else {
-      this.masterKey = masterKey;
+  private exportRecords(dir: string, label: string, names: string[]): string {
+    const target = path.resolve(dir, label);
+    if (this.store.backend === 'file') {
+      const storeDir = path.dirname(path.resolve(this.store.describe(HEADER_RECORD)));
+      if (target === storeDir || target.startsWith(storeDir + path.sep)) {
+        throw new Error(`Backup directory ${dir} is inside the key store (${storeDir})`);
+      }
+    }
+    fs.mkdirSync(target, { recursive: true, mode: 0o700 });
+    for (const name of names) {
+      const raw = this.store.read(name);
+      if (raw !== null) fs.writeFileSync(path.join(target, `${name}.key`), raw, { mode: 0o600 });
+    }
+    return target;
+  }
+
+  /**
+   * Try to decrypt every key record with the current master key
+   */
+  verifyKeyRecords(): { name: string; ok: boolean; error?: string }[] {
+    return this.keyRecordNames().map((name) => {
+      try {
+        this.readEncryptedRecord(name);
+        return { name, ok: true };
+      } catch (error: any) {
+        return { name, ok: false, error: error?.message || String(error) };
+      }
+    });
+  }
+
+  /**
+   * Check that a stored record decrypts with the given key to the expected value
+   */
+  private verifyRecord(name: string, expected: any, key: Buffer, header: KeyStoreHeader): void {
+    const data = this.store.read(name);
+    if (data === null) {
+      throw new Error(`Key record ${this.store.describe(name)} is missing`);
+    }
+    const fileData = JSON.parse(data);
+    if (fileData.kcv !== header.kcv) {
+      throw new Error(`Key record ${this.store.describe(name)} has the wrong key check value`);
+    }
+    if (JSON.stringify(this.decryptRecord(name, fileData, key)) !== JSON.stringify(expected)) {
+      throw new Error(`Key record ${this.store.describe(name)} does not match after re-encryption`);
     }
   }
 
   /**
    * Encrypt key data for storage
    */
-  private encryptKeyData(data: Buffer): { encrypted: Buffer; iv: Buffer; authTag: Buffer } {
-    if (!this.masterKey) {
+  private encryptKeyData(data: Buffer, key: Buffer | null = this.masterKey): { encrypted: Buffer; iv: Buffer; authTag: Buffer } {
+    if (!key) {
       throw new Error('Master key not set. Call setMasterKey() first.');
     }
 
     const iv = crypto.randomBytes(12); // 12 bytes for GCM
-    const cipher = crypto.createCipheriv('aes-256-gcm', this.masterKey, iv);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
 
     const encrypted = Buffer.concat([cipher.update(data), cipher.final()]);
     const authTag = cipher.getAuthTag();
@@ -162,29 +897,23 @@ export class KeyManager {
   /**
    * Decrypt key data from storage
    */
-  private decryptKeyData(encrypted: Buffer, iv: Buffer, authTag: Buffer): Buffer {
-    if (!this.masterKey) {
+  private decryptKeyData(encrypted: Buffer, iv: Buffer, authTag: Buffer, key: Buffer | null = this.masterKey): Buffer {
+    if (!key) {
       throw new Error('Master key not set. Call setMasterKey() first.');
     }
 
-    const decipher = crypto.createDecipheriv('aes-256-gcm', this.masterKey, iv);
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
     decipher.setAuthTag(authTag);
 
     return Buffer.concat([decipher.update(encrypted), decipher.final()]);
   }
 
   /**
-   * Save key set to encrypted file
+   * Serialize a key set to a plain object
    */
-  saveKeySet(appId: number): void {
-    const keySet = this.keySets.get(appId);
-    if (!keySet) {
-      throw new Error(`Key set not found for application 0x${appId.toString(16).padStart(6, '0')}`);
-    }
-
-    // Serialize key set
+  private serializeKeySet(keySet: KeySet): any {
     const keyData: any = {
-      appId,
+      appId: keySet.appId,
       keyType: keySet.keyType,
       keys: {},
       keyVersions: {}
@@ -198,67 +927,266 @@ export class KeyManager {
       keyData.keyVersions[keyNo] = version;
     });
 
-    const serialized = Buffer.from(JSON.stringify(keyData, null, 2));
+    keyData.keyCheckValues = {};
+    keySet.keys.forEach((key, keyNo) => {
+      keyData.keyCheckValues[keyNo] = keySet.keyCheckValues?.get(keyNo) ?? cardKeyCheckValue(key, keySet.keyType);
+    });
 
-    // Encrypt
-    const { encrypted, iv, authTag } = this.encryptKeyData(serialized);
+    if (keySet.diversification) {
+      keyData.diversification = {
+        systemIdentifier: keySet.diversification.systemIdentifier.toString('hex')
+      };
+    }
+
+    if (keySet.staged) {
+      keyData.staged = {
+        keySetNo: keySet.staged.keySetNo,
+        version: keySet.staged.version,
+        stagedAt: keySet.staged.stagedAt,
+        keys: {}
+      };
+      keySet.staged.keys.forEach((key, keyNo) => {
+        keyData.staged.keys[keyNo] = key.toString('hex');
+      });
+    }
+
+    if (keySet.history && keySet.history.size) {
+      keyData.history = {};
+      keySet.history.forEach((generations, keyNo) => {
+        keyData.history[keyNo] = generations.map((g) => ({
+          version: g.version,
+          key: g.key.toString('hex'),
+          retiredAt: g.retiredAt
+        }));
+      });
+    }
+
+    return keyData;
+  }
+
+  /**
+   * Reconstruct a key set from its serialized form
+   */
+  private deserializeKeySet(keyData: any): KeySet {
+    const keySet: KeySet = {
+      appId: keyData.appId,
+      keyType: (keyData.keyType as KeyType) || 'AES',
+      keys: new Map(),
+      keyVersions: new Map(),
+      keyCheckValues: new Map()
+    };
+
+    Object.entries(keyData.keys).forEach(([keyNo, hexKey]) => {
+      keySet.keys.set(parseInt(keyNo), Buffer.from(hexKey as string, 'hex'));
+    });
+
+    Object.entries(keyData.keyVersions).forEach(([keyNo, version]) => {
+      keySet.keyVersions.set(parseInt(keyNo), version as number);
+    });
+
+    // Records written before KCVs were stored have none; otherwise they must match
+    keySet.keys.forEach((key, keyNo) => {
+      const kcv = cardKeyCheckValue(key, keySet.keyType);
+      const stored = keyData.keyCheckValues?.[keyNo];
+      if (stored !== undefined && stored !== kcv) {
+        throw new Error(`Key ${keyNo} of application 0x${keySet.appId.toString(16).padStart(6, '0')} does not match its stored key check value`);
+      }
+      keySet.keyCheckValues!.set(keyNo, kcv);
+    });
+
+    if (keyData.diversification) {
+      keySet.diversification = {
+        systemIdentifier: Buffer.from(keyData.diversification.systemIdentifier || '', 'hex')
+      };
+    }
+
+    if (keyData.staged) {
+      keySet.staged = {
+        keySetNo: keyData.staged.keySetNo,
+        version: keyData.staged.version,
+        stagedAt: keyData.staged.stagedAt,
+        keys: new Map()
+      };
+      Object.entries(keyData.staged.keys).forEach(([keyNo, hexKey]) => {
+        keySet.staged!.keys.set(parseInt(keyNo), Buffer.from(hexKey as string, 'hex'));
+      });
+    }
+
+    if (keyData.history) {
+      keySet.history = new Map();
+      Object.entries(keyData.history).forEach(([keyNo, generations]) => {
+        keySet.history!.set(parseInt(keyNo), (generations as any[]).map((g) => ({
+          version: g.version,
+          key: Buffer.from(g.key, 'hex'),
+          retiredAt: g.retiredAt
+        })));
+      });
+    }
+
+    return keySet;
+  }
+
+  /**
+   * Encrypt a JSON value and write it to the key store
+   */
+  private writeEncryptedRecord(name: string, value: any): void {
+    this.store.write(name, this.encryptRecord(value));
+  }
+
+  /**
+   * Serialize and encrypt a JSON value into a record in the current format
+   */
+  private encryptRecord(value: any, key: Buffer | null = this.masterKey, header: KeyStoreHeader | null = this.header): string {
+    const serialized = Buffer.from(JSON.stringify(value, null, 2));
+    const { encrypted, iv, authTag } = this.encryptKeyData(serialized, key);
 
-    // Save to file
-    const filename = path.join(this.keyStorePath, `app_${appId.toString(16).padStart(6, '0')}.key`);
     const fileData = {
+      version: KEYSTORE_FORMAT_VERSION,
+      kdf: header!.kdf,
+      kcv: header!.kcv,
       iv: iv.toString('hex'),
       authTag: authTag.toString('hex'),
       encrypted: encrypted.toString('hex')
     };
 
-    fs.writeFileSync(filename, JSON.stringify(fileData, null, 2));
-    console.log(`Key set saved to ${filename}`);
+    return JSON.stringify(fileData, null, 2);
   }
 
   /**
-   * Load key set from encrypted file
+   * Read and decrypt a key record, or null if it does not exist
    */
-  loadKeySet(appId: number): KeySet {
-    const filename = path.join(this.keyStorePath, `app_${appId.toString(16).padStart(6, '0')}.key`);
+  private readEncryptedRecord(name: string): any | null {
+    const data = this.store.read(name);
+    if (data === null) {
+      return null;
+    }
 
-    if (!fs.existsSync(filename)) {
-      throw new Error(`Key file not found: ${filename}`);
+    const fileData = JSON.parse(data);
+    if (fileData.version === undefined) {
+      throw new Error(`Key record ${this.store.describe(name)} is in the v1 format; set the master key to migrate it`);
+    }
+    if (fileData.version !== KEYSTORE_FORMAT_VERSION) {
+      throw new Error(`Key record ${this.store.describe(name)} has unsupported format version ${fileData.version}`);
+    }
+    if (this.header && fileData.kcv !== this.header.kcv) {
+      throw new Error(`Key record ${this.store.describe(name)} was encrypted with a different master key`);
     }
 
-    // Read encrypted file
-    const fileData = JSON.parse(fs.readFileSync(filename, 'utf8'));
+    return this.decryptRecord(name, fileData);
+  }
+
+  private decryptRecord(name: string, fileData: any, key: Buffer | null = this.masterKey): any {
     const iv = Buffer.from(fileData.iv, 'hex');
     const authTag = Buffer.from(fileData.authTag, 'hex');
     const encrypted = Buffer.from(fileData.encrypted, 'hex');
 
-    // Decrypt
-    const decrypted = this.decryptKeyData(encrypted, iv, authTag);
-    const keyData = JSON.parse(decrypted.toString());
+    let decrypted: Buffer;
+    try {
+      decrypted = this.decryptKeyData(encrypted, iv, authTag, key);
+    } catch (error: any) {
+      if (!key) throw error;
+      throw new Error(`Cannot decrypt key record ${this.store.describe(name)}: wrong master key or corrupted data`);
+    }
+    return JSON.parse(decrypted.toString());
+  }
 
-    // Reconstruct key set
-    const keySet: KeySet = {
-      appId: keyData.appId,
-      keyType: (keyData.keyType as KeyType) || 'AES',
-      keys: new Map(),
-      keyVersions: new Map()
-    };
+  /**
+   * Save key set to encrypted file
+   */
+  saveKeySet(appId: number): void {
+    const keySet = this.keySets.get(appId);
+    if (!keySet) {
+      throw new Error(`Key set not found for application 0x${appId.toString(16).padStart(6, '0')}`);
+    }
 
-    Object.entries(keyData.keys).forEach(([keyNo, hexKey]) => {
-      keySet.keys.set(parseInt(keyNo), Buffer.from(hexKey as string, 'hex'));
-    });
+    const name = `app_${appId.toString(16).padStart(6, '0')}`;
+    this.writeEncryptedRecord(name, this.serializeKeySet(keySet));
+    console.log(`Key set saved to ${this.store.describe(name)}`);
+    audit({ action: 'key.save', appId: auditAppId(appId) });
+  }
 
-    Object.entries(keyData.keyVersions).forEach(([keyNo, version]) => {
-      keySet.keyVersions.set(parseInt(keyNo), version as number);
-    });
+  /**
+   * Load key set from encrypted file
+   */
+  loadKeySet(appId: number): KeySet {
+    const name = `app_${appId.toString(16).padStart(6, '0')}`;
+    const keyData = this.readEncryptedRecord(name);
+    if (keyData === null) {
+      throw new Error(`Key record not found: ${this.store.describe(name)}`);
+    }
+    const keySet = this.deserializeKeySet(keyData);
 
     this.keySets.set(appId, keySet);
-    console.log(`Key set loaded from ${filename}`);
+    console.log(`Key set loaded from ${this.store.describe(name)}`);
+    audit({ action: 'key.load', appId: auditAppId(appId) });
 
     return keySet;
   }
 
+  /**
+   * Save the key sets personalized onto a single card (card_<UID>.key)
+   * Card key sets are kept separate from the shared application key sets.
+   */
+  saveCardKeySets(uid: string, keySets: KeySet[]): void {
+    const name = this.cardRecordName(uid);
+    this.writeEncryptedRecord(name, {
+      uid: uid.toUpperCase(),
+      keySets: keySets.map((keySet) => this.serializeKeySet(keySet))
+    });
+    console.log(`Card key sets saved to ${this.store.describe(name)}`);
+    audit({ action: 'key.save-card', uid: uid.toUpperCase(), details: { keySets: keySets.map((keySet) => auditAppId(keySet.appId)) } });
+  }
+
+  /**
+   * Load the key sets of a single card, or null if none are stored
+   */
+  loadCardKeySets(uid: string): KeySet[] | null {
+    const data = this.readEncryptedRecord(this.cardRecordName(uid));
+    if (data === null) {
+      return null;
+    }
+
+    audit({ action: 'key.load-card', uid: uid.toUpperCase() });
+    return (data.keySets as any[]).map((keyData) => this.deserializeKeySet(keyData));
+  }
+
+  /**
+   * Save the state of a key rotation campaign (campaign_XXXXXX), encrypted like key sets
+   */
+  saveCampaign(appId: number, state: any): void {
+    this.writeEncryptedRecord(this.campaignRecordName(appId), state);
+  }
+
+  /**
+   * Load the state of a key rotation campaign, or null if there is none
+   */
+  loadCampaign(appId: number): any | null {
+    return this.readEncryptedRecord(this.campaignRecordName(appId));
+  }
+
+  /**
+   * Applications with a stored rotation campaign
+   */
+  listCampaigns(): number[] {
+    return this.store.list()
+      .filter((name) => name.startsWith(CAMPAIGN_PREFIX))
+      .map((name) => parseInt(name.slice(CAMPAIGN_PREFIX.length), 16));
+  }
+
+  private campaignRecordName(appId: number): string {
+    return `${CAMPAIGN_PREFIX}${appId.toString(16).padStart(6, '0')}`;
+  }
+
+  private cardRecordName(uid: string): string {
+    if (!/^[0-9a-fA-F]+$/.test(uid)) {
+      throw new Error(`Invalid card UID: ${uid}`);
+    }
+    return `card_${uid.toUpperCase()}`;
+  }
+
   /**
    * Export key set as plain JSON (for backup - KEEP SECURE!)
+   * Prefer exportKeySet() to move keys between sites.
    */
   exportKeySetPlain(appId: number): string {
     const keySet = this.keySets.get(appId);
@@ -272,16 +1200,134 @@ export class KeyManager {
       keys: {}
     };
 
+    if (keySet.diversification) {
+      exportData.diversification = {
+        scheme: 'AN10922',
+        systemIdentifier: keySet.diversification.systemIdentifier.toString('hex')
+      };
+    }
+
     keySet.keys.forEach((key, keyNo) => {
       exportData.keys[`K${keyNo}`] = {
         hex: key.toString('hex'),
-        version: keySet.keyVersions.get(keyNo) || 0
+        version: keySet.keyVersions.get(keyNo) || 0,
+        kcv: this.getKeyCheckValue(appId, keyNo)
       };
+      const generations = keySet.history?.get(keyNo);
+      if (generations && generations.length) {
+        exportData.keys[`K${keyNo}`].previous = generations.map((g) => ({
+          hex: g.key.toString('hex'),
+          version: g.version,
+          retiredAt: g.retiredAt
+        }));
+      }
     });
 
+    if (keySet.staged) {
+      exportData.staged = {
+        keySetNo: keySet.staged.keySetNo,
+        version: keySet.staged.version,
+        keys: {}
+      };
+      keySet.staged.keys.forEach((key, keyNo) => {
+        exportData.staged.keys[`K${keyNo}`] = key.toString('hex');
+      });
+    }
+
+    audit({ action: 'key.reveal', appId: auditAppId(appId), details: { format: 'plain' } });
     return JSON.stringify(exportData, null, 2);
   }
 
+  /**
+   * Get a loaded key set
+   */
+  getKeySet(appId: number): KeySet | undefined {
+    return this.keySets.get(appId);
+  }
+
+  /**
+   * Export key sets as a signed, encrypted key bundle
+   * Keys (including history and staged keys) are only in the encrypted
+   * payload; the bundle metadata lists applications, versions and KCVs.
+   * @param signingKey Ed25519 private key of this site
+   */
+  exportKeySet(appIds: number | number[], transport: KeyBundleTransport, signingKey: crypto.KeyObject): string {
+    const keySets = (Array.isArray(appIds) ? appIds : [appIds]).map((appId) => {
+      const keySet = this.keySets.get(appId);
+      if (!keySet) {
+        throw new Error(`Key set not found for application 0x${appId.toString(16).padStart(6, '0')}`);
+      }
+      return keySet;
+    });
+
+    const bundle = sealKeyBundle(
+      keySets.map((keySet) => this.bundleEntry(keySet)),
+      { keySets: keySets.map((keySet) => this.serializeKeySet(keySet)) },
+      transport,
+      signingKey
+    );
+    console.log(`Exported ${keySets.length} key set(s) as a key bundle`);
+    audit({
+      action: 'key.export',
+      details: { keySets: keySets.map((keySet) => auditAppId(keySet.appId)), transport: transport.scheme }
+    });
+    return bundle;
+  }
+
+  /**
+   * Import the key sets of a key bundle (verified, decrypted and checked against its KCVs)
+   * Imported key sets replace loaded ones in memory; call saveKeySet() to store them.
+   * @returns Application ids of the imported key sets
+   */
+  importKeySet(bundle: string, options: KeyBundleOpenOptions): number[] {
+    let opened: ReturnType<typeof openKeyBundle>;
+    try {
+      opened = openKeyBundle(bundle, options);
+    } catch (error: any) {
+      audit({ action: 'key.import', outcome: 'failed', error: error?.message || String(error) });
+      throw error;
+    }
+    const { header, payload } = opened;
+    const keySets: KeySet[] = (payload.keySets as any[]).map((keyData) => this.deserializeKeySet(keyData));
+
+    if (keySets.length !== header.keySets.length) {
+      throw new Error('Key bundle metadata does not match its content');
+    }
+    keySets.forEach((keySet, i) => {
+      const expected = header.keySets[i];
+      const actual = this.bundleEntry(keySet);
+      if (actual.appId !== expected.appId || actual.keyType !== expected.keyType || actual.diversified !== expected.diversified) {
+        throw new Error(`Key bundle metadata does not match key set ${actual.appId}`);
+      }
+      if (JSON.stringify(actual.keys) !== JSON.stringify(expected.keys)) {
+        throw new Error(`Key check values of key set ${actual.appId} do not match the bundle metadata`);
+      }
+    });
+
+    keySets.forEach((keySet) => this.keySets.set(keySet.appId, keySet));
+    console.log(`Imported ${keySets.length} key set(s) from a bundle signed by ${header.signer}`);
+    audit({
+      action: 'key.import',
+      details: { keySets: keySets.map((keySet) => auditAppId(keySet.appId)), signer: header.signer }
+    });
+    return keySets.map((keySet) => keySet.appId);
+  }
+
+  private bundleEntry(keySet: KeySet): KeyBundleEntry {
+    return {
+      appId: `0x${keySet.appId.toString(16).padStart(6, '0')}`,
+      keyType: keySet.keyType,
+      diversified: !!keySet.diversification,
+      keys: Array.from(keySet.keys.entries())
+        .sort(([a], [b]) => a - b)
+        .map(([keyNo, key]) => ({
+          keyNo,
+          version: keySet.keyVersions.get(keyNo) || 0,
+          kcv: keySet.keyCheckValues?.get(keyNo) ?? cardKeyCheckValue(key, keySet.keyType)
+        }))
+    };
+  }
+
   /**
    * List all loaded key sets
    */
@@ -297,6 +1343,11 @@ export class KeyManager {
       keySet.keys.forEach(key => key.fill(0)); // Zero out key data
       keySet.keys.clear();
       keySet.keyVersions.clear();
+      keySet.keyCheckValues?.clear();
+      keySet.history?.forEach(generations => generations.forEach(g => g.key.fill(0)));
+      keySet.history?.clear();
+      keySet.staged?.keys.forEach(key => key.fill(0));
+      delete keySet.staged;
     });
     this.keySets.clear();
 
@@ -304,8 +1355,10 @@ export class KeyManager {
       this.masterKey.fill(0);
       this.masterKey = null;
     }
+    this.header = null;
 
     console.log('All keys cleared from memory');
+    audit({ action: 'keystore.lock' });
   }
 }
 
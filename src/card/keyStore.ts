@@ -0,0 +1,373 @@
+/**
+ * Key Store Backends
+ * Persistence for the encrypted key records written by KeyManager.
+ * Records are opaque strings (already encrypted with the keystore master key);
+ * a backend only decides where they live:
+ * - FileKeyStore:   one <name>.key file per record (default, ./keys)
+ * - SqliteKeyStore: a single SQLite database (better-sqlite3)
+ * - Pkcs11KeyStore: private data objects on a PKCS#11 token, e.g. an HSM or SoftHSM (pkcs11js)
+ *
+ * The SQLite and PKCS#11 drivers are optional dependencies and are only
+ * loaded when their backend is selected.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+export interface KeyStore {
+  /** Backend name (file, sqlite, pkcs11) */
+  readonly backend: string;
+  /** Read a record, or null if it does not exist */
+  read(name: string): string | null;
+  /** Create or replace a record */
+  write(name: string, data: string): void;
+  /** Delete a record; returns false if it did not exist */
+  remove(name: string): boolean;
+  /** Names of all stored records */
+  list(): string[];
+  /** Human-readable location of a record, for logs and errors */
+  describe(name: string): string;
+  /** Release database handles / token sessions */
+  close(): void;
+  /** Run several writes atomically (stores without transactions omit this) */
+  transaction?<T>(fn: () => T): T;
+}
+
+export type KeyStoreBackend = 'file' | 'sqlite' | 'pkcs11';
+
+/**
+ * Record names end up in file names and token labels
+ */
+function checkRecordName(name: string): void {
+  if (!/^[A-Za-z0-9_.-]+$/.test(name) || name.startsWith('.')) {
+    throw new Error(`Invalid key record name: ${name}`);
+  }
+}
+
+/**
+ * Load an optional native dependency with an actionable error
+ */
+function requireOptional(moduleName: string, backend: string): any {
+  try {
+    return require(moduleName);
+  } catch (error: any) {
+    throw new Error(
+      `Key store backend "${backend}" requires the optional dependency ${moduleName} ` +
+      `(npm install ${moduleName}): ${error?.message || error}`
+    );
+  }
+}
+
+// ============================================================================
+// FILE
+// ============================================================================
+
+export class FileKeyStore implements KeyStore {
+  readonly backend = 'file';
+  private dir: string;
+
+  constructor(dir: string = './keys') {
+    this.dir = dir;
+    if (!fs.existsSync(this.dir)) {
+      fs.mkdirSync(this.dir, { recursive: true });
+      console.log(`Created key storage directory: ${this.dir}`);
+    }
+  }
+
+  private filename(name: string): string {
+    checkRecordName(name);
+    return path.join(this.dir, `${name}.key`);
+  }
+
+  read(name: string): string | null {
+    const filename = this.filename(name);
+    if (!fs.existsSync(filename)) {
+      return null;
+    }
+    return fs.readFileSync(filename, 'utf8');
+  }
+
+  write(name: string, data: string): void {
+    const filename = this.filename(name);
+    const tmp = `${filename}.tmp`;
+    fs.writeFileSync(tmp, data, { mode: 0o600 });
+    fs.renameSync(tmp, filename);
+  }
+
+  remove(name: string): boolean {
+    const filename = this.filename(name);
+    if (!fs.existsSync(filename)) {
+      return false;
+    }
+    fs.unlinkSync(filename);
+    return true;
+  }
+
+  list(): string[] {
+    return fs.readdirSync(this.dir)
+      .filter((f) => f.endsWith('.key'))
+      .map((f) => f.slice(0, -'.key'.length))
+      .sort();
+  }
+
+  describe(name: string): string {
+    return this.filename(name);
+  }
+
+  close(): void {}
+}
+
+// ============================================================================
+// SQLITE
+// ============================================================================
+
+export class SqliteKeyStore implements KeyStore {
+  readonly backend = 'sqlite';
+  private dbPath: string;
+  private db: any;
+
+  constructor(dbPath: string = './keys/keystore.db') {
+    const Database = requireOptional('better-sqlite3', this.backend);
+    this.dbPath = dbPath;
+    if (dbPath !== ':memory:') {
+      fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    }
+
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS key_records (
+        name TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+  }
+
+  read(name: string): string | null {
+    checkRecordName(name);
+    const row = this.db.prepare('SELECT data FROM key_records WHERE name = ?').get(name);
+    return row ? row.data : null;
+  }
+
+  write(name: string, data: string): void {
+    checkRecordName(name);
+    this.db.prepare(`
+      INSERT INTO key_records (name, data, updated_at) VALUES (?, ?, ?)
+      ON CONFLICT(name) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at
+    `).run(name, data, new Date().toISOString());
+  }
+
+  remove(name: string): boolean {
+    checkRecordName(name);
+    return this.db.prepare('DELETE FROM key_records WHERE name = ?').run(name).changes > 0;
+  }
+
+  list(): string[] {
+    return this.db.prepare('SELECT name FROM key_records ORDER BY name').all().map((row: any) => row.name);
+  }
+
+  describe(name: string): string {
+    return `${this.dbPath}#${name}`;
+  }
+
+  transaction<T>(fn: () => T): T {
+    return this.db.transaction(fn)();
+  }
+
+  close(): void {
+    if (this.db.open) this.db.close();
+  }
+}
+
+// ============================================================================
+// PKCS#11
+// ============================================================================
+
+export interface Pkcs11KeyStoreOptions {
+  /** Path of the PKCS#11 module, e.g. /usr/lib/softhsm/libsofthsm2.so */
+  modulePath: string;
+  /** User PIN of the token */
+  pin: string;
+  /** Token label to use (takes precedence over slotIndex) */
+  tokenLabel?: string;
+  /** Index into the list of slots with a token present (default 0) */
+  slotIndex?: number;
+}
+
+/** CKA_APPLICATION value marking the data objects that belong to this store */
+const PKCS11_APPLICATION = 'desfire-keystore';
+
+export class Pkcs11KeyStore implements KeyStore {
+  readonly backend = 'pkcs11';
+  private pkcs11js: any;
+  private pkcs11: any;
+  private session: any;
+  private tokenLabel: string;
+
+  constructor(options: Pkcs11KeyStoreOptions) {
+    this.pkcs11js = requireOptional('pkcs11js', this.backend);
+    this.pkcs11 = new this.pkcs11js.PKCS11();
+    this.pkcs11.load(options.modulePath);
+    this.pkcs11.C_Initialize();
+
+    try {
+      const slots: any[] = this.pkcs11.C_GetSlotList(true);
+      const tokens = slots.map((slot) => ({ slot, label: String(this.pkcs11.C_GetTokenInfo(slot).label).trim() }));
+
+      const token = options.tokenLabel !== undefined
+        ? tokens.find((t) => t.label === options.tokenLabel)
+        : tokens[options.slotIndex ?? 0];
+      if (!token) {
+        throw new Error(options.tokenLabel !== undefined
+          ? `PKCS#11 token "${options.tokenLabel}" not found`
+          : `PKCS#11 slot ${options.slotIndex ?? 0} has no token`);
+      }
+
+      this.tokenLabel = token.label;
+      this.session = this.pkcs11.C_OpenSession(
+        token.slot,
+        this.pkcs11js.CKF_SERIAL_SESSION | this.pkcs11js.CKF_RW_SESSION
+      );
+      this.pkcs11.C_Login(this.session, this.pkcs11js.CKU_USER, options.pin);
+    } catch (error) {
+      this.pkcs11.C_Finalize();
+      throw error;
+    }
+  }
+
+  private findObjects(name?: string): any[] {
+    const { CKA_CLASS, CKO_DATA, CKA_APPLICATION, CKA_LABEL } = this.pkcs11js;
+    const template: any[] = [
+      { type: CKA_CLASS, value: CKO_DATA },
+      { type: CKA_APPLICATION, value: PKCS11_APPLICATION }
+    ];
+    if (name !== undefined) {
+      template.push({ type: CKA_LABEL, value: name });
+    }
+
+    this.pkcs11.C_FindObjectsInit(this.session, template);
+    try {
+      const handles: any[] = [];
+      let batch: any[];
+      do {
+        batch = this.pkcs11.C_FindObjects(this.session, 32);
+        handles.push(...batch);
+      } while (batch.length > 0);
+      return handles;
+    } finally {
+      this.pkcs11.C_FindObjectsFinal(this.session);
+    }
+  }
+
+  read(name: string): string | null {
+    checkRecordName(name);
+    const [handle] = this.findObjects(name);
+    if (!handle) {
+      return null;
+    }
+    const [attr] = this.pkcs11.C_GetAttributeValue(this.session, handle, [{ type: this.pkcs11js.CKA_VALUE }]);
+    return Buffer.from(attr.value).toString('utf8');
+  }
+
+  /**
+   * Create the new object before destroying the old one, so a failure
+   * never leaves the record missing
+   */
+  write(name: string, data: string): void {
+    checkRecordName(name);
+    const { CKA_CLASS, CKO_DATA, CKA_TOKEN, CKA_PRIVATE, CKA_MODIFIABLE, CKA_APPLICATION, CKA_LABEL, CKA_VALUE } = this.pkcs11js;
+    const previous = this.findObjects(name);
+
+    this.pkcs11.C_CreateObject(this.session, [
+      { type: CKA_CLASS, value: CKO_DATA },
+      { type: CKA_TOKEN, value: true },
+      { type: CKA_PRIVATE, value: true },
+      { type: CKA_MODIFIABLE, value: true },
+      { type: CKA_APPLICATION, value: PKCS11_APPLICATION },
+      { type: CKA_LABEL, value: name },
+      { type: CKA_VALUE, value: Buffer.from(data, 'utf8') }
+    ]);
+
+    for (const handle of previous) {
+      this.pkcs11.C_DestroyObject(this.session, handle);
+    }
+  }
+
+  remove(name: string): boolean {
+    checkRecordName(name);
+    const handles = this.findObjects(name);
+    for (const handle of handles) {
+      this.pkcs11.C_DestroyObject(this.session, handle);
+    }
+    return handles.length > 0;
+  }
+
+  list(): string[] {
+    const names = this.findObjects().map((handle) => {
+      const [attr] = this.pkcs11.C_GetAttributeValue(this.session, handle, [{ type: this.pkcs11js.CKA_LABEL }]);
+      return Buffer.from(attr.value).toString('utf8');
+    });
+    return Array.from(new Set(names)).sort();
+  }
+
+  describe(name: string): string {
+    return `pkcs11:${this.tokenLabel}/${name}`;
+  }
+
+  close(): void {
+    if (!this.session) return;
+    try {
+      this.pkcs11.C_Logout(this.session);
+      this.pkcs11.C_CloseSession(this.session);
+    } finally {
+      this.session = null;
+      this.pkcs11.C_Finalize();
+    }
+  }
+}
+
+// ============================================================================
+// SELECTION
+// ============================================================================
+
+export interface KeyStoreOptions {
+  backend?: KeyStoreBackend;
+  /** Directory of the file store, and of the default SQLite database */
+  dir?: string;
+  sqlitePath?: string;
+  pkcs11?: Pkcs11KeyStoreOptions;
+}
+
+/**
+ * Create the key store selected by options or the environment:
+ *   KEYSTORE_BACKEND      file (default) | sqlite | pkcs11
+ *   KEYSTORE_DIR          file store directory (default ./keys)
+ *   KEYSTORE_SQLITE_PATH  database file (default <dir>/keystore.db)
+ *   KEYSTORE_PKCS11_MODULE, KEYSTORE_PKCS11_PIN,
+ *   KEYSTORE_PKCS11_TOKEN (label) or KEYSTORE_PKCS11_SLOT (index)
+ */
+export function createKeyStore(options: KeyStoreOptions = {}): KeyStore {
+  const backend = options.backend || (process.env.KEYSTORE_BACKEND || 'file').toLowerCase();
+  const dir = options.dir || process.env.KEYSTORE_DIR || './keys';
+
+  switch (backend) {
+    case 'file':
+      return new FileKeyStore(dir);
+    case 'sqlite':
+      return new SqliteKeyStore(options.sqlitePath || process.env.KEYSTORE_SQLITE_PATH || path.join(dir, 'keystore.db'));
+    case 'pkcs11': {
+      const pkcs11 = options.pkcs11 || {
+        modulePath: process.env.KEYSTORE_PKCS11_MODULE || '',
+        pin: process.env.KEYSTORE_PKCS11_PIN || '',
+        tokenLabel: process.env.KEYSTORE_PKCS11_TOKEN,
+        slotIndex: process.env.KEYSTORE_PKCS11_SLOT ? parseInt(process.env.KEYSTORE_PKCS11_SLOT, 10) : undefined
+      };
+      if (!pkcs11.modulePath || !pkcs11.pin) {
+        throw new Error('KEYSTORE_PKCS11_MODULE and KEYSTORE_PKCS11_PIN are required for the pkcs11 key store');
+      }
+      return new Pkcs11KeyStore(pkcs11);
+    }
+  }
+  throw new Error(`Unknown key store backend: ${backend} (expected file, sqlite or pkcs11)`);
+}
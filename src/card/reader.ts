@@ -4,17 +4,60 @@
  * Handles communication with NFC readers using PC/SC protocol
  */
 
-import { NFC } from 'nfc-pcsc';
+import { NFC, Reader } from 'nfc-pcsc';
 import { EventEmitter } from 'events';
+import { ensureIsoDep, isACR122U, transmitViaAcr122U } from './acr122u';
+import type { ReaderManager, Transport } from './transport';
 
 export interface CardReader extends EventEmitter {
   name: string;
   transmit(data: Buffer, responseLength: number): Promise<Buffer>;
 }
 
-export class NFCReaderManager extends EventEmitter {
+/**
+ * Transport of an nfc-pcsc reader, with the ACR122U workarounds
+ */
+export class PcscReader implements Transport {
+  private activated = false;
+
+  constructor(readonly device: Reader) {}
+
+  get reader(): { name: string } {
+    return this.device.reader;
+  }
+
+  get name(): string {
+    return this.device.reader.name;
+  }
+
+  transmit(data: Buffer, responseLength: number): Promise<Buffer> {
+    return this.device.transmit(data, responseLength);
+  }
+
+  /**
+   * ACR122U: activate ISO-DEP once per reader
+   */
+  async activate(): Promise<void> {
+    if (this.activated || !isACR122U(this.device)) return;
+    this.activated = true;
+    await ensureIsoDep(this.device);
+    await new Promise((r) => setTimeout(r, 120));
+  }
+
+  /**
+   * ACR122U: send the APDU through the PN532 escape command
+   */
+  async escape(data: Buffer): Promise<Buffer> {
+    if (!isACR122U(this.device)) return Buffer.alloc(0);
+    // Attempt ISO-DEP activation first (best-effort)
+    try { await ensureIsoDep(this.device); } catch {}
+    return transmitViaAcr122U(this.device, data, 512);
+  }
+}
+
+export class NFCReaderManager extends EventEmitter implements ReaderManager {
   private nfc: any;
-  private readers: Map<string, any> = new Map();
+  private readers: Map<string, PcscReader> = new Map();
 
   constructor() {
     super();
@@ -25,8 +68,10 @@ export class NFCReaderManager extends EventEmitter {
   private initialize(): void {
     this.nfc.on('reader', (reader: any) => {
       console.log(`Reader detected: ${reader.reader.name}`);
-      this.readers.set(reader.reader.name, reader);
-      this.emit('reader-connected', reader);
+      // Listeners get the Transport; the nfc-pcsc reader stays in here
+      const transport = new PcscReader(reader);
+      this.readers.set(reader.reader.name, transport);
+      this.emit('reader-connected', transport);
 
       // Default: DISABLE autoProcessing to avoid nfc-pcsc ISO-DEP AID errors
       // Enable via READER_AUTOPROCESS=on when you want ISO-DEP AID selection
@@ -97,23 +142,23 @@ export class NFCReaderManager extends EventEmitter {
           console.log('ATR: (unavailable)');
         }
         console.log(`Type: ${card.type}`);
-        this.emit('card-detected', { reader, card });
+        this.emit('card-detected', { reader: transport, card });
       });
 
       reader.on('card.off', (card: any) => {
         console.log(`Card removed from ${reader.reader.name}`);
-        this.emit('card-removed', { reader, card });
+        this.emit('card-removed', { reader: transport, card });
       });
 
       reader.on('error', (err: Error) => {
         console.error(`Reader error on ${reader.reader.name}:`, err);
-        this.emit('reader-error', { reader, error: err });
+        this.emit('reader-error', { reader: transport, error: err });
       });
 
       reader.on('end', () => {
         console.log(`Reader ${reader.reader.name} disconnected`);
         this.readers.delete(reader.reader.name);
-        this.emit('reader-disconnected', reader);
+        this.emit('reader-disconnected', transport);
       });
     });
 
@@ -138,14 +183,14 @@ export class NFCReaderManager extends EventEmitter {
   /**
    * Get all connected readers
    */
-  getReaders(): any[] {
+  getReaders(): PcscReader[] {
     return Array.from(this.readers.values());
   }
 
   /**
    * Get reader by name
    */
-  getReader(name: string): any {
+  getReader(name: string): PcscReader | undefined {
     return this.readers.get(name);
   }
 
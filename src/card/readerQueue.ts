@@ -0,0 +1,172 @@
+/**
+ * Reader command queue
+ * Serializes the logical operations on one reader so their APDUs never
+ * interleave: a DESFire additional-frame exchange or authentication handshake
+ * breaks if another flow sends a command in between.
+ *
+ * Operations are reentrant: an operation started inside another one on the
+ * same reader runs as part of it, so a web request can hold the reader for
+ * select + authenticate + debit while each DESFireCard call locks as well.
+ * Operations nested in the same one still run one after the other, so
+ * parallel calls (Promise.all) inside an operation do not interleave either.
+ * An operation that times out or is cancelled (card removed) is rejected
+ * right away and fails at its next APDU, but keeps the reader until its
+ * function has settled, so the next operation never runs alongside it.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+export interface ReaderOperationOptions {
+  /** Time to wait for the reader and run, in ms (0: no limit) */
+  timeoutMs?: number;
+}
+
+/** Default operation timeout (READER_OPERATION_TIMEOUT_MS) */
+const DEFAULT_TIMEOUT_MS = 15000;
+
+class ReaderOperation {
+  error: Error | null = null;
+  private finished = false;
+  private releaseTurn!: () => void;
+  private rejectCaller: (error: Error) => void = () => {};
+  /** Resolves when the reader is free for the next operation */
+  readonly done = new Promise<void>((resolve) => (this.releaseTurn = resolve));
+  /** Turn of the operations nested in this one */
+  nestedTail: Promise<void> = Promise.resolve();
+
+  constructor(readonly label: string, readonly parent: ReaderOperation | null = null) {}
+
+  /** Error of this operation or of one it is nested in */
+  get abortError(): Error | null {
+    return this.error || this.parent?.abortError || null;
+  }
+
+  attach(reject: (error: Error) => void): void {
+    this.rejectCaller = reject;
+  }
+
+  /**
+   * Reject the caller; the reader stays taken until finish()
+   */
+  abort(error: Error): void {
+    if (this.finished || this.error) return;
+    this.error = error;
+    this.rejectCaller(error);
+  }
+
+  /**
+   * Give up the reader (the function has settled, or never started)
+   */
+  finish(): void {
+    this.finished = true;
+    this.releaseTurn();
+  }
+}
+
+const operationContext = new AsyncLocalStorage<{ queue: ReaderQueue; operation: ReaderOperation }>();
+
+export class ReaderQueue {
+  private tail: Promise<void> = Promise.resolve();
+  private operations = new Set<ReaderOperation>();
+
+  constructor(readonly name: string, private timeoutMs: number = DEFAULT_TIMEOUT_MS) {}
+
+  /**
+   * Run an operation with exclusive use of the reader
+   * @param label Shown in timeout and cancellation errors
+   */
+  run<T>(label: string, fn: () => Promise<T>, options: ReaderOperationOptions = {}): Promise<T> {
+    const context = operationContext.getStore();
+    // Already holding the reader: part of the outer operation, after its other nested ones
+    const parent = context && context.queue === this ? context.operation : null;
+    if (parent?.abortError) return Promise.reject(parent.abortError);
+
+    const operation = new ReaderOperation(label, parent);
+    let previous: Promise<void>;
+    if (parent) {
+      previous = parent.nestedTail;
+      parent.nestedTail = previous.then(() => operation.done);
+    } else {
+      previous = this.tail;
+      this.tail = previous.then(() => operation.done);
+      this.operations.add(operation);
+    }
+
+    // Nested operations are bounded by the timeout of the outer one
+    const timeoutMs = parent ? 0 : options.timeoutMs ?? this.timeoutMs;
+    const timer =
+      timeoutMs > 0
+        ? setTimeout(
+            () => operation.abort(new Error(`${this.name}: ${label} timed out after ${timeoutMs} ms`)),
+            timeoutMs
+          )
+        : null;
+
+    const finish = () => {
+      if (timer) clearTimeout(timer);
+      this.operations.delete(operation);
+      operation.finish();
+    };
+
+    return new Promise<T>((resolve, reject) => {
+      operation.attach(reject);
+      previous.then(() => {
+        // Timed out or cancelled while waiting
+        const error = operation.abortError;
+        if (error) {
+          reject(error);
+          finish();
+          return;
+        }
+        operationContext
+          .run({ queue: this, operation }, async () => fn())
+          .then(resolve, reject)
+          // Nested operations left running keep the reader as well
+          .finally(() => operation.nestedTail.then(finish));
+      });
+    });
+  }
+
+  /**
+   * Reject the running and waiting operations (card removed, reader gone)
+   * Operations started afterwards are not affected.
+   */
+  cancel(reason: string): number {
+    const operations = Array.from(this.operations);
+    operations.forEach((operation) => operation.abort(new Error(`${this.name}: ${operation.label} cancelled: ${reason}`)));
+    return operations.length;
+  }
+
+  /**
+   * Operations running or waiting for the reader (including cancelled ones
+   * whose function is still running)
+   */
+  get size(): number {
+    return this.operations.size;
+  }
+}
+
+/**
+ * Throw if the current operation timed out or was cancelled
+ * Called before each APDU so an abandoned operation stops talking to the card.
+ */
+export function throwIfAborted(): void {
+  const error = operationContext.getStore()?.operation.abortError;
+  if (error) throw error;
+}
+
+const queues = new WeakMap<object, ReaderQueue>();
+
+/**
+ * Queue of a reader (nfc-pcsc reader or any transmit-capable object)
+ */
+export function readerQueue(reader: any): ReaderQueue {
+  let queue = queues.get(reader);
+  if (!queue) {
+    const name = String(reader?.reader?.name || reader?.name || 'reader');
+    const timeoutMs = Number(process.env.READER_OPERATION_TIMEOUT_MS || DEFAULT_TIMEOUT_MS);
+    queue = new ReaderQueue(name, timeoutMs);
+    queues.set(reader, queue);
+  }
+  return queue;
+}
@@ -0,0 +1,221 @@
+/**
+ * Shamir Secret Sharing over GF(256)
+ * Splits the keystore master key into N shares of which any M reconstruct
+ * it, so no single custodian holds the key that unlocks all card keys.
+ *
+ * Share text format (one line per custodian):
+ *   DFS1-<set id>-<threshold>-<index>-<share hex>-<check>
+ * The set id ties shares to one ceremony (the keystore key check value
+ * prefix); the check is a SHA-256 prefix that catches typing errors.
+ */
+
+import crypto from 'crypto';
+
+// GF(256) with the AES polynomial x^8 + x^4 + x^3 + x + 1, generator 3
+const EXP = new Uint8Array(512);
+const LOG = new Uint8Array(256);
+(() => {
+  let x = 1;
+  for (let i = 0; i < 255; i++) {
+    EXP[i] = x;
+    LOG[x] = i;
+    x ^= (x << 1) ^ ((x & 0x80) ? 0x11B : 0); // x * 3
+    x &= 0xFF;
+  }
+  for (let i = 255; i < 512; i++) {
+    EXP[i] = EXP[i - 255];
+  }
+})();
+
+function gfMul(a: number, b: number): number {
+  if (a === 0 || b === 0) return 0;
+  return EXP[LOG[a] + LOG[b]];
+}
+
+function gfDiv(a: number, b: number): number {
+  if (b === 0) throw new Error('Division by zero in GF(256)');
+  if (a === 0) return 0;
+  return EXP[LOG[a] + 255 - LOG[b]];
+}
+
+export interface Share {
+  /** Ceremony identifier (8 hex chars) */
+  setId: string;
+  /** Number of shares needed to reconstruct */
+  threshold: number;
+  /** x coordinate (1-255) */
+  index: number;
+  /** y values, one byte per secret byte */
+  data: Buffer;
+}
+
+/**
+ * Split a secret into `count` shares, any `threshold` of which reconstruct it
+ */
+export function splitSecret(secret: Buffer, threshold: number, count: number, setId: string): Share[] {
+  if (!Number.isInteger(threshold) || !Number.isInteger(count) || threshold < 2 || threshold > count || count > 255) {
+    throw new Error('Shamir split requires 2 <= threshold <= shares <= 255');
+  }
+  if (!/^[0-9a-f]{8}$/.test(setId)) {
+    throw new Error('Share set id must be 8 lowercase hex characters');
+  }
+
+  const shares: Share[] = [];
+  for (let index = 1; index <= count; index++) {
+    shares.push({ setId, threshold, index, data: Buffer.alloc(secret.length) });
+  }
+
+  for (let i = 0; i < secret.length; i++) {
+    // f(x) = secret[i] + a1 x + ... + a(t-1) x^(t-1)
+    const coefficients = Buffer.concat([Buffer.from([secret[i]]), crypto.randomBytes(threshold - 1)]);
+    for (const share of shares) {
+      let y = 0;
+      for (let c = coefficients.length - 1; c >= 0; c--) {
+        y = gfMul(y, share.index) ^ coefficients[c];
+      }
+      share.data[i] = y;
+    }
+    coefficients.fill(0);
+  }
+
+  return shares;
+}
+
+/**
+ * Reconstruct the secret from at least `threshold` shares of one set
+ * (Lagrange interpolation at x = 0)
+ */
+export function combineShares(shares: Share[]): Buffer {
+  if (shares.length === 0) {
+    throw new Error('No shares given');
+  }
+  const { setId, threshold } = shares[0];
+  const length = shares[0].data.length;
+  for (const share of shares) {
+    if (share.setId !== setId || share.threshold !== threshold || share.data.length !== length) {
+      throw new Error('Shares belong to different key ceremonies');
+    }
+  }
+  const indices = new Set(shares.map((s) => s.index));
+  if (indices.size !== shares.length) {
+    throw new Error('Duplicate share index');
+  }
+  if (shares.length < threshold) {
+    throw new Error(`${threshold} shares are required, got ${shares.length}`);
+  }
+
+  const used = shares.slice(0, threshold);
+  const secret = Buffer.alloc(length);
+  for (const share of used) {
+    // Lagrange basis at 0: prod x_j / (x_j - x_i); subtraction is XOR in GF(256)
+    let basis = 1;
+    for (const other of used) {
+      if (other.index === share.index) continue;
+      basis = gfMul(basis, gfDiv(other.index, other.index ^ share.index));
+    }
+    for (let i = 0; i < length; i++) {
+      secret[i] ^= gfMul(share.data[i], basis);
+    }
+  }
+  return secret;
+}
+
+function shareCheck(body: string): string {
+  return crypto.createHash('sha256').update(body).digest('hex').slice(0, 4);
+}
+
+/**
+ * Text form of a share for printing or exporting to a custodian
+ */
+export function encodeShare(share: Share): string {
+  const body = `DFS1-${share.setId}-${share.threshold}-${share.index}-${share.data.toString('hex')}`;
+  return `${body}-${shareCheck(body)}`;
+}
+
+/**
+ * Parse a share entered by a custodian (whitespace is ignored)
+ */
+export function decodeShare(text: string): Share {
+  const compact = text.replace(/\s+/g, '');
+  const match = /^DFS1-([0-9a-f]{8})-(\d+)-(\d+)-([0-9a-f]+)-([0-9a-f]{4})$/i.exec(compact);
+  if (!match) {
+    throw new Error('Not a key share (expected DFS1-<set>-<threshold>-<index>-<data>-<check>)');
+  }
+  const body = compact.slice(0, compact.length - 5);
+  if (shareCheck(body) !== match[5].toLowerCase()) {
+    throw new Error('Key share checksum mismatch (typing error?)');
+  }
+
+  const share: Share = {
+    setId: match[1].toLowerCase(),
+    threshold: parseInt(match[2], 10),
+    index: parseInt(match[3], 10),
+    data: Buffer.from(match[4], 'hex')
+  };
+  if (share.index < 1 || share.index > 255 || share.threshold < 2 || share.data.length === 0 || match[4].length % 2) {
+    throw new Error('Malformed key share');
+  }
+  return share;
+}
+
+/**
+ * Collects shares from custodians one at a time until a quorum is reached
+ */
+export class ShareCollector {
+  private shares: Share[] = [];
+  private expectedSetId: string | null;
+
+  /**
+   * @param expectedSetId Reject shares of other ceremonies up front (optional)
+   */
+  constructor(expectedSetId: string | null = null) {
+    this.expectedSetId = expectedSetId;
+  }
+
+  /**
+   * Add a share; returns true once enough shares are collected
+   */
+  add(share: Share | string): boolean {
+    const s = typeof share === 'string' ? decodeShare(share) : share;
+    const setId = this.shares[0]?.setId ?? this.expectedSetId;
+    if (setId && s.setId !== setId) {
+      throw new Error(`Share belongs to key ceremony ${s.setId}, expected ${setId}`);
+    }
+    if (this.shares.length && s.threshold !== this.shares[0].threshold) {
+      throw new Error('Share threshold does not match the shares already entered');
+    }
+    if (this.shares.some((existing) => existing.index === s.index)) {
+      throw new Error(`Share ${s.index} was already entered`);
+    }
+    this.shares.push(s);
+    return this.isComplete();
+  }
+
+  isComplete(): boolean {
+    return this.shares.length > 0 && this.shares.length >= this.shares[0].threshold;
+  }
+
+  status(): { setId: string | null; threshold: number | null; received: number[] } {
+    return {
+      setId: this.shares[0]?.setId ?? this.expectedSetId,
+      threshold: this.shares[0]?.threshold ?? null,
+      received: this.shares.map((s) => s.index)
+    };
+  }
+
+  /**
+   * Reconstruct the secret; the collected shares are wiped afterwards
+   */
+  combine(): Buffer {
+    try {
+      return combineShares(this.shares);
+    } finally {
+      this.reset();
+    }
+  }
+
+  reset(): void {
+    this.shares.forEach((s) => s.data.fill(0));
+    this.shares = [];
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * Simulated readers
+ * Readers backed by SimulatedCard that raise the same events as
+ * NFCReaderManager, for running the tools and the web server without PC/SC.
+ * Each reader starts with a blank card in its field; present() and remove()
+ * simulate taps.
+ */
+
+import { EventEmitter } from 'events';
+import { SimulatedCard, SimulatedCardModel } from './simulator';
+import { ReaderManager, Transport } from './transport';
+
+/** ATR of a DESFire card on a contactless PC/SC reader */
+const DESFIRE_ATR = Buffer.from('3b8180018080', 'hex');
+
+export class SimulatedReader extends EventEmitter implements Transport {
+  readonly reader: { name: string };
+  private card: SimulatedCard | null = null;
+
+  constructor(name: string) {
+    super();
+    this.reader = { name };
+  }
+
+  get name(): string {
+    return this.reader.name;
+  }
+
+  /**
+   * Card in the field, or null
+   */
+  getCard(): SimulatedCard | null {
+    return this.card;
+  }
+
+  /**
+   * Place a card in the field (replaces the current one)
+   */
+  present(card: SimulatedCard): void {
+    if (this.card) this.remove();
+    card.reset();
+    this.card = card;
+    this.emit('card', { uid: card.uid.toString('hex'), atr: DESFIRE_ATR, type: 'TAG_ISO_14443_4', standard: 'TAG_ISO_14443_4' });
+  }
+
+  /**
+   * Take the card out of the field; it keeps its contents
+   */
+  remove(): SimulatedCard | null {
+    const card = this.card;
+    if (!card) return null;
+    this.card = null;
+    this.emit('card.off', { uid: card.uid.toString('hex') });
+    return card;
+  }
+
+  async transmit(data: Buffer, _responseLength: number): Promise<Buffer> {
+    if (!this.card) {
+      throw new Error(`No card on ${this.name}`);
+    }
+    return this.card.transmit(data);
+  }
+}
+
+export interface SimulatedReaderManagerOptions {
+  model?: SimulatedCardModel;
+  /** Number of readers (default 1) */
+  readers?: number;
+}
+
+export class SimulatedReaderManager extends EventEmitter implements ReaderManager {
+  private readers: Map<string, SimulatedReader> = new Map();
+
+  constructor(options: SimulatedReaderManagerOptions = {}) {
+    super();
+    const count = Math.max(1, options.readers ?? 1);
+    const model = options.model || 'EV2';
+
+    // Events are raised once the caller had a chance to subscribe, like nfc-pcsc
+    setImmediate(() => {
+      for (let i = 0; i < count; i++) {
+        this.connect(new SimulatedReader(`Simulated DESFire ${model} Reader ${i}`));
+      }
+      setTimeout(() => {
+        this.readers.forEach((reader) => reader.present(new SimulatedCard({ model })));
+      }, 50);
+    });
+  }
+
+  /**
+   * Add a reader and forward its card events
+   */
+  connect(reader: SimulatedReader): void {
+    console.log(`Reader detected: ${reader.name}`);
+    this.readers.set(reader.name, reader);
+    this.emit('reader-connected', reader);
+
+    reader.on('card', (card: any) => {
+      console.log(`Card detected on ${reader.name}`);
+      console.log(`UID: ${card.uid}`);
+      this.emit('card-detected', { reader, card });
+    });
+
+    reader.on('card.off', (card: any) => {
+      console.log(`Card removed from ${reader.name}`);
+      this.emit('card-removed', { reader, card });
+    });
+  }
+
+  /**
+   * Remove a reader (with its card)
+   */
+  disconnect(name: string): void {
+    const reader = this.readers.get(name);
+    if (!reader) return;
+    reader.remove();
+    reader.removeAllListeners();
+    this.readers.delete(name);
+    console.log(`Reader ${name} disconnected`);
+    this.emit('reader-disconnected', reader);
+  }
+
+  getReaders(): SimulatedReader[] {
+    return Array.from(this.readers.values());
+  }
+
+  getReader(name: string): SimulatedReader | undefined {
+    return this.readers.get(name);
+  }
+
+  close(): void {
+    this.readers.clear();
+    this.removeAllListeners();
+  }
+}
@@ -0,0 +1,1303 @@
+/**
+ * DESFire card simulator
+ * In-process model of a MIFARE DESFire EV1/EV2 card behind the native
+ * command set (ISO 7816-4 wrapped, CLA 0x90): applications, standard, backup,
+ * value and record files with transactions, key settings and keys (DES,
+ * 2K3DES, 3K3DES, AES), EV2 key sets, Authenticate / AuthenticateAES /
+ * AuthenticateEV2First / AuthenticateEV2NonFirst with legacy, EV1 and EV2
+ * secure messaging, and the DESFire status codes.
+ *
+ * The protocol and its cryptography are implemented from the DESFire
+ * documentation (see simulatorCrypto.ts), independently of DESFireCard, so
+ * the library, the provisioner and the web server run end to end without a
+ * reader and the tests catch a client that strays from the card. Not modelled: ISO 7816-4 commands, ISO authentication (0x1A),
+ * random UID, SetConfiguration, transaction MAC and additional access rights.
+ */
+
+import crypto from 'crypto';
+import { CommMode, DesfireCommand } from './desfire';
+import { KeyType } from './keyManager';
+import { AccessRights, ACCESS_FREE, ACCESS_NEVER, FileType, VALUE_FREE_GET_VALUE, VALUE_LIMITED_CREDIT, decodeAccessRights, encodeAccessRights } from './fileSettings';
+import * as Spec from './simulatorCrypto';
+
+export type SimulatedCardModel = 'EV1' | 'EV2';
+
+/**
+ * DESFire status codes (SW2 after SW1 = 0x91)
+ */
+export enum DesfireStatus {
+  OPERATION_OK = 0x00,
+  NO_CHANGES = 0x0C,
+  OUT_OF_EEPROM_ERROR = 0x0E,
+  ILLEGAL_COMMAND_CODE = 0x1C,
+  INTEGRITY_ERROR = 0x1E,
+  NO_SUCH_KEY = 0x40,
+  LENGTH_ERROR = 0x7E,
+  PERMISSION_DENIED = 0x9D,
+  PARAMETER_ERROR = 0x9E,
+  APPLICATION_NOT_FOUND = 0xA0,
+  AUTHENTICATION_ERROR = 0xAE,
+  ADDITIONAL_FRAME = 0xAF,
+  BOUNDARY_ERROR = 0xBE,
+  COMMAND_ABORTED = 0xCA,
+  COUNT_ERROR = 0xCE,
+  DUPLICATE_ERROR = 0xDE,
+  FILE_NOT_FOUND = 0xF0,
+}
+
+export interface SimulatedCardOptions {
+  model?: SimulatedCardModel;
+  /** 7-byte UID (default: random, NXP manufacturer byte 0x04) */
+  uid?: Buffer;
+  /** User memory in bytes (default 7936, an 8K card) */
+  memory?: number;
+}
+
+interface KeySlot {
+  key: Buffer;
+  version: number;
+}
+
+interface KeySet {
+  keyType: KeyType;
+  keys: KeySlot[];
+  version: number;
+  finalized: boolean;
+}
+
+interface FileBase {
+  fileNo: number;
+  commMode: CommMode;
+  access: AccessRights;
+}
+
+interface DataFile extends FileBase {
+  type: 'std' | 'backup';
+  data: Buffer;
+  /** Backup files: image written in the current transaction */
+  pending: Buffer | null;
+}
+
+interface ValueFile extends FileBase {
+  type: 'value';
+  lowerLimit: number;
+  upperLimit: number;
+  value: number;
+  limitedCreditValue: number;
+  options: number;
+  pending: { value: number; debited: number; credited: boolean } | null;
+}
+
+interface RecordFile extends FileBase {
+  type: 'linear' | 'cyclic';
+  recordSize: number;
+  maxRecords: number;
+  /** Committed records, oldest first */
+  records: Buffer[];
+  pending: { cleared: boolean; record: Buffer | null } | null;
+}
+
+type SimFile = DataFile | ValueFile | RecordFile;
+
+interface Application {
+  aid: number;
+  keySettings: number;
+  /** Key set 0 is the active key set; others are prepared for RollKeySet (EV2) */
+  keySets: KeySet[];
+  files: Map<number, SimFile>;
+}
+
+interface Session {
+  mode: 'DES' | 'AES' | 'EV2';
+  keyNo: number;
+  /** Session keys; null after Authenticate with a 3K3DES key (no secure messaging) */
+  keyEnc: Buffer | null;
+  keyMac: Buffer | null;
+  /** EV1 running IV */
+  iv: Buffer;
+  /** EV2 transaction identifier and command counter */
+  ti: Buffer;
+  ctr: number;
+}
+
+type SecureSession = Session & { keyEnc: Buffer; keyMac: Buffer };
+
+interface PendingAuth {
+  cmd: number;
+  keyNo: number;
+  key: Buffer;
+  rndB: Buffer;
+}
+
+interface Frame {
+  status: number;
+  data: Buffer;
+}
+
+class StatusError extends Error {
+  constructor(readonly status: DesfireStatus) {
+    super(DesfireStatus[status]);
+  }
+}
+
+function fail(status: DesfireStatus): never {
+  throw new StatusError(status);
+}
+
+const EMPTY = Buffer.alloc(0);
+/** Response data per frame */
+const MAX_FRAME = 59;
+const MAX_APPLICATIONS = 28;
+const MAX_FILES = 32;
+/** EEPROM is allocated in 32-byte blocks */
+const BLOCK = 32;
+
+const EV2_ONLY = new Set<number>([
+  DesfireCommand.AUTHENTICATE_EV2_FIRST,
+  DesfireCommand.AUTHENTICATE_EV2_NON_FIRST,
+  DesfireCommand.CHANGE_KEY_EV2,
+  DesfireCommand.INITIALIZE_KEY_SET,
+  DesfireCommand.FINALIZE_KEY_SET,
+  DesfireCommand.ROLL_KEY_SET
+]);
+
+const AUTH_COMMANDS = new Set<number>([
+  DesfireCommand.AUTHENTICATE,
+  DesfireCommand.AUTHENTICATE_AES,
+  DesfireCommand.AUTHENTICATE_EV2_FIRST,
+  DesfireCommand.AUTHENTICATE_EV2_NON_FIRST
+]);
+
+function keyLength(type: KeyType): number {
+  return type === '3DES' ? 24 : 16;
+}
+
+function keyTypeBits(type: KeyType): number {
+  return type === 'AES' ? 0x80 : type === '3DES' ? 0x40 : 0x00;
+}
+
+function keyTypeOf(bits: number): KeyType {
+  if ((bits & 0xC0) === 0x80) return 'AES';
+  if ((bits & 0xC0) === 0x40) return '3DES';
+  return 'DES';
+}
+
+function newKeySet(keyType: KeyType, numKeys: number): KeySet {
+  const keys = Array.from({ length: numKeys }, () => ({ key: Buffer.alloc(keyLength(keyType), 0x00), version: 0 }));
+  return { keyType, keys, version: 0, finalized: true };
+}
+
+/**
+ * Key version carried in the parity bits of a DES/3DES key
+ */
+function desKeyVersion(key: Buffer): number {
+  let version = 0;
+  for (let i = 0; i < 8; i++) {
+    version |= (key[i] & 0x01) << (7 - i);
+  }
+  return version;
+}
+
+/**
+ * Data of a deciphered `data || CRC || 0x00 padding` block, or null if no CRC
+ * matches (shortest match: the CRC of data || CRC is zero)
+ */
+function withoutCrc(plain: Buffer, crcLength: number, crcOf: (data: Buffer) => Buffer, length?: number): Buffer | null {
+  if (length !== undefined) {
+    const crcEnd = length + crcLength;
+    if (crcEnd > plain.length || plain.slice(crcEnd).some((b) => b !== 0x00)) return null;
+    return crcOf(plain.slice(0, length)).equals(plain.slice(length, crcEnd)) ? plain.slice(0, length) : null;
+  }
+  let found: Buffer | null = null;
+  for (let end = plain.length - crcLength; end >= 0; end--) {
+    const crcEnd = end + crcLength;
+    if (crcEnd < plain.length && plain[crcEnd] !== 0x00) break;
+    const data = plain.slice(0, end);
+    if (crcOf(data).equals(plain.slice(end, crcEnd))) found = data;
+  }
+  return found;
+}
+
+function allocation(file: SimFile): number {
+  const blocks = (bytes: number) => Math.ceil(bytes / BLOCK) * BLOCK;
+  switch (file.type) {
+    case 'std':
+      return blocks(file.data.length);
+    case 'backup':
+      return 2 * blocks(file.data.length);
+    case 'value':
+      return BLOCK;
+    default:
+      return blocks(file.recordSize * file.maxRecords);
+  }
+}
+
+export class SimulatedCard {
+  readonly model: SimulatedCardModel;
+  readonly uid: Buffer;
+  private readonly memory: number;
+  private readonly batch = crypto.randomBytes(5);
+
+  private apps = new Map<number, Application>();
+  private selected = 0;
+  private session: Session | null = null;
+  private pendingAuth: PendingAuth | null = null;
+  private incoming: { cmd: number; data: Buffer; expected: number } | null = null;
+  private outgoing: Buffer[] = [];
+  private endSession = false;
+
+  constructor(options: SimulatedCardOptions = {}) {
+    this.model = options.model || 'EV2';
+    this.uid = options.uid ? Buffer.from(options.uid) : Buffer.concat([Buffer.from([0x04]), crypto.randomBytes(6)]);
+    if (this.uid.length !== 7) throw new Error('Simulated card UID must be 7 bytes');
+    this.memory = options.memory ?? 7936;
+    // Factory state: PICC master key 2K3DES all zeros, version 0, settings 0x0F
+    this.apps.set(0, { aid: 0, keySettings: 0x0F, keySets: [newKeySet('DES', 1)], files: new Map() });
+  }
+
+  /**
+   * Card entering the field: PICC level selected, no authentication,
+   * uncommitted changes discarded
+   */
+  reset(): void {
+    this.abortTransaction();
+    this.selected = 0;
+    this.session = null;
+    this.pendingAuth = null;
+    this.incoming = null;
+    this.outgoing = [];
+  }
+
+  /**
+   * Process one APDU (90 INS 00 00 [Lc data] [Le]) and return data || 91 status
+   */
+  transmit(apdu: Buffer): Buffer {
+    if (apdu.length < 4) return Buffer.from([0x67, 0x00]);
+    if (apdu[0] !== 0x90) return Buffer.from([0x6E, 0x00]);
+    if (apdu[2] !== 0x00 || apdu[3] !== 0x00) return Buffer.from([0x6A, 0x86]);
+
+    let data = EMPTY;
+    if (apdu.length > 5) {
+      const lc = apdu[4];
+      if (apdu.length !== 5 + lc && apdu.length !== 6 + lc) return Buffer.from([0x67, 0x00]);
+      data = apdu.slice(5, 5 + lc);
+    }
+
+    const frame = this.frame(apdu[1], data);
+    return Buffer.concat([frame.data, Buffer.from([0x91, frame.status])]);
+  }
+
+  private frame(cmd: number, data: Buffer): Frame {
+    if (cmd === DesfireCommand.ADDITIONAL_FRAME) {
+      if (this.outgoing.length) {
+        const next = this.outgoing.shift()!;
+        return { status: this.outgoing.length ? DesfireStatus.ADDITIONAL_FRAME : DesfireStatus.OPERATION_OK, data: next };
+      }
+      if (this.pendingAuth) {
+        const pending = this.pendingAuth;
+        this.pendingAuth = null;
+        return this.guard(() => this.authenticateStep2(pending, data));
+      }
+      if (this.incoming) {
+        const incoming = this.incoming;
+        incoming.data = Buffer.concat([incoming.data, data]);
+        if (incoming.data.length < incoming.expected) {
+          return { status: DesfireStatus.ADDITIONAL_FRAME, data: EMPTY };
+        }
+        this.incoming = null;
+        return this.guard(() => this.execute(incoming.cmd, incoming.data));
+      }
+      return this.guard(() => fail(DesfireStatus.ILLEGAL_COMMAND_CODE));
+    }
+
+    // A new command abandons unfinished exchanges
+    this.outgoing = [];
+    this.pendingAuth = null;
+    this.incoming = null;
+
+    return this.guard(() => {
+      if (this.model === 'EV1' && EV2_ONLY.has(cmd)) fail(DesfireStatus.ILLEGAL_COMMAND_CODE);
+      if (AUTH_COMMANDS.has(cmd)) return this.authenticateStep1(cmd, data);
+
+      const expected = this.expectedLength(cmd, data);
+      if (expected > data.length) {
+        this.incoming = { cmd, data, expected };
+        return { status: DesfireStatus.ADDITIONAL_FRAME, data: EMPTY };
+      }
+      return this.execute(cmd, data);
+    });
+  }
+
+  /**
+   * Run a command step; errors end the authentication like on a real card
+   */
+  private guard(step: () => Frame): Frame {
+    try {
+      return step();
+    } catch (error) {
+      if (!(error instanceof StatusError)) throw error;
+      this.session = null;
+      this.endSession = false;
+      this.outgoing = [];
+      return { status: error.status, data: EMPTY };
+    }
+  }
+
+  /**
+   * Split a response over frames; the first frames may have fixed sizes (GetVersion)
+   */
+  private reply(data: Buffer, frameSizes: number[] = []): Frame {
+    const frames: Buffer[] = [];
+    let offset = 0;
+    for (const size of frameSizes) {
+      if (offset >= data.length) break;
+      frames.push(data.slice(offset, offset + size));
+      offset += size;
+    }
+    while (offset < data.length) {
+      frames.push(data.slice(offset, offset + MAX_FRAME));
+      offset += MAX_FRAME;
+    }
+    const first = frames.shift() || EMPTY;
+    this.outgoing = frames;
+    return { status: frames.length ? DesfireStatus.ADDITIONAL_FRAME : DesfireStatus.OPERATION_OK, data: first };
+  }
+
+  // ============================================================================
+  // SECURE MESSAGING
+  // ============================================================================
+
+  private secureSession(): SecureSession | null {
+    const session = this.session;
+    return session && session.keyEnc && session.keyMac ? (session as SecureSession) : null;
+  }
+
+  private execute(cmd: number, data: Buffer): Frame {
+    if (cmd === DesfireCommand.SELECT_APPLICATION) {
+      this.selectApplication(data);
+      return this.reply(EMPTY);
+    }
+    if (cmd === DesfireCommand.CHANGE_KEY || cmd === DesfireCommand.CHANGE_KEY_EV2) {
+      return this.reply(this.changeKey(cmd, data));
+    }
+
+    const { commMode, headerLength, bodyLength } = this.protection(cmd, data);
+    const plain = this.unwrapCommand(cmd, data, commMode, headerLength, bodyLength);
+    const response = this.wrapResponse(this.run(cmd, plain), commMode);
+    if (this.endSession) {
+      this.session = null;
+      this.endSession = false;
+    }
+    return this.reply(response, cmd === DesfireCommand.GET_VERSION ? [7, 7] : []);
+  }
+
+  /**
+   * Communication mode the card expects for a command in the current session,
+   * and the length of the command data after the header when it is fixed
+   */
+  private protection(cmd: number, data: Buffer): { commMode: CommMode; headerLength: number; bodyLength?: number } {
+    const session = this.secureSession();
+    if (!session) return { commMode: CommMode.PLAIN, headerLength: 0 };
+    const defaultMode = session.mode === 'EV2' ? CommMode.MAC : CommMode.PLAIN;
+
+    switch (cmd) {
+      case DesfireCommand.READ_DATA:
+      case DesfireCommand.READ_RECORDS:
+        return { commMode: this.fileAccess(this.file(data[0]), cmd), headerLength: 7 };
+      case DesfireCommand.WRITE_DATA:
+      case DesfireCommand.WRITE_RECORD: {
+        const bodyLength = data.length >= 7 ? data.readUIntLE(4, 3) : undefined;
+        return { commMode: this.fileAccess(this.file(data[0]), cmd), headerLength: 7, bodyLength };
+      }
+      case DesfireCommand.GET_VALUE:
+      case DesfireCommand.CREDIT:
+      case DesfireCommand.DEBIT:
+      case DesfireCommand.LIMITED_CREDIT:
+        return { commMode: this.fileAccess(this.file(data[0]), cmd), headerLength: 1 };
+      case DesfireCommand.CLEAR_RECORD_FILE:
+      case DesfireCommand.GET_FILE_SETTINGS:
+        return { commMode: defaultMode, headerLength: 1 };
+      case DesfireCommand.CHANGE_FILE_SETTINGS: {
+        const free = this.file(data[0]).access.change === ACCESS_FREE;
+        return { commMode: free ? CommMode.PLAIN : CommMode.FULL, headerLength: 1, bodyLength: 3 };
+      }
+      case DesfireCommand.CHANGE_KEY_SETTINGS:
+        return { commMode: CommMode.FULL, headerLength: 0, bodyLength: 1 };
+      default:
+        return { commMode: defaultMode, headerLength: 0 };
+    }
+  }
+
+  /**
+   * Total command length of a command sent over additional frames
+   */
+  private expectedLength(cmd: number, data: Buffer): number {
+    const session = this.secureSession();
+    try {
+      if ((cmd === DesfireCommand.WRITE_DATA || cmd === DesfireCommand.WRITE_RECORD) && data.length >= 7) {
+        const length = data.readUIntLE(4, 3);
+        const commMode = session ? this.fileAccess(this.file(data[0]), cmd) : CommMode.PLAIN;
+        return 7 + this.protectedLength(length, commMode);
+      }
+      if (cmd === DesfireCommand.CHANGE_KEY && session && session.mode !== 'EV2' && data.length >= 1) {
+        const { keyDataLength, sameKey } = this.changeKeyTarget(cmd, data, session);
+        const crcLength = session.mode === 'AES' ? 4 : 2;
+        const blockSize = session.mode === 'AES' ? 16 : 8;
+        const plainLength = keyDataLength + crcLength + (sameKey ? 0 : crcLength);
+        return 1 + Math.ceil(plainLength / blockSize) * blockSize;
+      }
+    } catch {
+      // Reported when the command is executed
+    }
+    return data.length;
+  }
+
+  /**
+   * Length of n data bytes after protection in the current session
+   */
+  private protectedLength(n: number, commMode: CommMode): number {
+    const session = this.secureSession();
+    if (!session || commMode === CommMode.PLAIN) return n;
+    if (session.mode === 'EV2') {
+      return (commMode === CommMode.FULL ? (n > 0 ? (Math.floor(n / 16) + 1) * 16 : 0) : n) + 8;
+    }
+    if (session.mode === 'AES') {
+      if (commMode === CommMode.MAC) return n + (n > 0 ? 8 : 0);
+      return n > 0 ? Math.ceil((n + 4) / 16) * 16 : 0;
+    }
+    if (commMode === CommMode.MAC) return n + (n > 0 ? 4 : 0);
+    return n > 0 ? Math.ceil((n + 2) / 8) * 8 : 0;
+  }
+
+  /**
+   * Verify and unprotect command data
+   *   EV2     MACt over Cmd || CmdCtr || TI || header || data; FULL data is
+   *           padded (method 2) and encrypted with the command IV
+   *   EV1     CMAC over Cmd || header || data from the running IV (also in
+   *           PLAIN); FULL: E(data || CRC32(Cmd || header || data) || 0..)
+   *   legacy  MAC over data; FULL: send mode over data || CRC-A(data) || 0..
+   */
+  private unwrapCommand(cmd: number, data: Buffer, commMode: CommMode, headerLength: number, bodyLength?: number): Buffer {
+    const session = this.secureSession();
+    if (!session) return data;
+    const header = data.slice(0, headerLength);
+
+    if (session.mode === 'EV2') {
+      if (commMode === CommMode.PLAIN) return data;
+      if (data.length < headerLength + 8) fail(DesfireStatus.LENGTH_ERROR);
+      let body: Buffer = data.slice(headerLength, data.length - 8);
+      const ctr = Buffer.alloc(2);
+      ctr.writeUInt16LE(session.ctr, 0);
+      const macInput = Buffer.concat([Buffer.from([cmd]), ctr, session.ti, header, body]);
+      const mac = Spec.macT(Spec.cmac(session.keyMac, macInput));
+      if (!mac.equals(data.slice(data.length - 8))) fail(DesfireStatus.INTEGRITY_ERROR);
+      if (commMode === CommMode.FULL && body.length > 0) {
+        if (body.length % 16 !== 0) fail(DesfireStatus.LENGTH_ERROR);
+        const iv = Spec.ev2Iv(session.keyEnc, 'command', session.ti, session.ctr);
+        const plain = Spec.isoUnpad(Spec.aesCbcDecrypt(session.keyEnc, body, iv));
+        if (!plain) fail(DesfireStatus.INTEGRITY_ERROR);
+        body = plain;
+      }
+      return Buffer.concat([header, body]);
+    }
+
+    if (session.mode === 'AES') {
+      if (commMode === CommMode.FULL && data.length > headerLength) {
+        const encrypted = data.slice(headerLength);
+        if (encrypted.length % 16 !== 0) fail(DesfireStatus.LENGTH_ERROR);
+        const plain = Spec.aesCbcDecrypt(session.keyEnc, encrypted, session.iv);
+        session.iv = encrypted.slice(encrypted.length - 16);
+        const crcOf = (d: Buffer) => Spec.crc32(Buffer.concat([Buffer.from([cmd]), header, d]));
+        const body = withoutCrc(plain, 4, crcOf, bodyLength);
+        if (!body) fail(DesfireStatus.INTEGRITY_ERROR);
+        return Buffer.concat([header, body]);
+      }
+      const macPresent = commMode === CommMode.MAC && data.length > headerLength;
+      const content = macPresent ? data.slice(0, data.length - 8) : data;
+      const cmac = Spec.cmac(session.keyEnc, Buffer.concat([Buffer.from([cmd]), content]), session.iv);
+      if (macPresent && !cmac.slice(0, 8).equals(data.slice(data.length - 8))) fail(DesfireStatus.INTEGRITY_ERROR);
+      session.iv = cmac;
+      return content;
+    }
+
+    if (commMode === CommMode.PLAIN || data.length === headerLength) return data;
+    if (commMode === CommMode.MAC) {
+      if (data.length < headerLength + 4) fail(DesfireStatus.LENGTH_ERROR);
+      const body = data.slice(headerLength, data.length - 4);
+      if (!Spec.legacyMac(session.keyEnc, body).equals(data.slice(data.length - 4))) {
+        fail(DesfireStatus.INTEGRITY_ERROR);
+      }
+      return data.slice(0, data.length - 4);
+    }
+    const encrypted = data.slice(headerLength);
+    if (encrypted.length % 8 !== 0) fail(DesfireStatus.LENGTH_ERROR);
+    const body = withoutCrc(Spec.legacyReceive(session.keyEnc, encrypted), 2, Spec.crcA, bodyLength);
+    if (!body) fail(DesfireStatus.INTEGRITY_ERROR);
+    return Buffer.concat([header, body]);
+  }
+
+  /**
+   * Protect response data
+   *   EV2     MACt over RC || CmdCtr+1 || TI || data; FULL data is padded and
+   *           encrypted with the response IV
+   *   EV1     CMAC over data || RC (also in PLAIN); FULL:
+   *           E(data || CRC32(data || RC) || 0..)
+   *   legacy  MAC over data; FULL: CBC over data || CRC-A(data) || 0..
+   */
+  private wrapResponse(response: Buffer, commMode: CommMode): Buffer {
+    const session = this.secureSession();
+    if (!session) return response;
+    const status = Buffer.from([DesfireStatus.OPERATION_OK]);
+
+    if (session.mode === 'EV2') {
+      session.ctr = (session.ctr + 1) & 0xFFFF;
+      if (commMode === CommMode.PLAIN) return response;
+      let body = response;
+      if (commMode === CommMode.FULL && response.length > 0) {
+        const iv = Spec.ev2Iv(session.keyEnc, 'response', session.ti, session.ctr);
+        body = Spec.aesCbcEncrypt(session.keyEnc, Spec.isoPad(response, 16), iv);
+      }
+      const ctr = Buffer.alloc(2);
+      ctr.writeUInt16LE(session.ctr, 0);
+      const macInput = Buffer.concat([status, ctr, session.ti, body]);
+      return Buffer.concat([body, Spec.macT(Spec.cmac(session.keyMac, macInput))]);
+    }
+
+    if (session.mode === 'AES') {
+      if (commMode === CommMode.FULL && response.length > 0) {
+        const crc = Spec.crc32(Buffer.concat([response, status]));
+        const encrypted = Spec.aesCbcEncrypt(session.keyEnc, Spec.zeroPad(Buffer.concat([response, crc]), 16), session.iv);
+        session.iv = encrypted.slice(encrypted.length - 16);
+        return encrypted;
+      }
+      const cmac = Spec.cmac(session.keyEnc, Buffer.concat([response, status]), session.iv);
+      session.iv = cmac;
+      return Buffer.concat([response, cmac.slice(0, 8)]);
+    }
+
+    if (commMode === CommMode.PLAIN || response.length === 0) return response;
+    if (commMode === CommMode.MAC) return Buffer.concat([response, Spec.legacyMac(session.keyEnc, response)]);
+    const plain = Spec.zeroPad(Buffer.concat([response, Spec.crcA(response)]), 8);
+    return Spec.tdesCbcEncrypt(session.keyEnc, plain);
+  }
+
+  // ============================================================================
+  // AUTHENTICATION
+  // ============================================================================
+
+  private authenticateStep1(cmd: number, data: Buffer): Frame {
+    if (data.length < 1) fail(DesfireStatus.LENGTH_ERROR);
+    const nonFirst = cmd === DesfireCommand.AUTHENTICATE_EV2_NON_FIRST;
+    if (nonFirst && this.session?.mode !== 'EV2') fail(DesfireStatus.AUTHENTICATION_ERROR);
+    if (!nonFirst) {
+      this.session = null;
+      this.abortTransaction();
+    }
+
+    const keyNo = data[0] & 0x0F;
+    const keySet = this.current().keySets[0];
+    if (keyNo >= keySet.keys.length) fail(DesfireStatus.NO_SUCH_KEY);
+    // Authenticate (0x0A) takes DES/3DES keys, the AES variants AES keys
+    const desAuth = cmd === DesfireCommand.AUTHENTICATE;
+    if (desAuth !== (keySet.keyType !== 'AES')) fail(DesfireStatus.AUTHENTICATION_ERROR);
+
+    const key = keySet.keys[keyNo].key;
+    const rndB = crypto.randomBytes(desAuth ? 8 : 16);
+    this.pendingAuth = { cmd, keyNo, key, rndB };
+    const encRndB = desAuth ? Spec.tdesCbcEncrypt(key, rndB) : Spec.aesCbcEncrypt(key, rndB);
+    return { status: DesfireStatus.ADDITIONAL_FRAME, data: encRndB };
+  }
+
+  private authenticateStep2({ cmd, keyNo, key, rndB }: PendingAuth, data: Buffer): Frame {
+    if (cmd === DesfireCommand.AUTHENTICATE) {
+      if (data.length !== 16) fail(DesfireStatus.LENGTH_ERROR);
+      // The PCD sends D(K, RndA) || D(K, RndB' XOR D(K, RndA))
+      const plain = Spec.legacyReceive(key, data);
+      const rndA = plain.slice(0, 8);
+      if (!plain.slice(8).equals(Spec.rotl(rndB))) fail(DesfireStatus.AUTHENTICATION_ERROR);
+
+      // No legacy secure messaging with 3K3DES keys
+      const sessionKey = key.length === 24 ? null : Spec.legacySessionKey(key, rndA, rndB);
+      this.session = this.newSession('DES', keyNo, sessionKey, sessionKey);
+      return { status: DesfireStatus.OPERATION_OK, data: Spec.tdesCbcEncrypt(key, Spec.rotl(rndA)) };
+    }
+
+    if (data.length !== 32) fail(DesfireStatus.LENGTH_ERROR);
+    // AuthenticateAES chains the CBC IV through the exchange (E(K, RndB), then
+    // the last block of the PCD cryptogram); the EV2 authentications start
+    // every cryptogram from a zero IV
+    const ev1 = cmd === DesfireCommand.AUTHENTICATE_AES;
+    const challenge = Spec.aesCbcDecrypt(key, data, ev1 ? Spec.aesCbcEncrypt(key, rndB) : undefined);
+    const rndA = challenge.slice(0, 16);
+    if (!challenge.slice(16).equals(Spec.rotl(rndB))) fail(DesfireStatus.AUTHENTICATION_ERROR);
+    const rndAPrime = Spec.rotl(rndA);
+
+    if (ev1) {
+      const sessionKey = Spec.aesSessionKey(rndA, rndB);
+      this.session = this.newSession('AES', keyNo, sessionKey, sessionKey);
+      return { status: DesfireStatus.OPERATION_OK, data: Spec.aesCbcEncrypt(key, rndAPrime, data.slice(16)) };
+    }
+
+    const { enc: keyEnc, mac: keyMac } = Spec.ev2SessionKeys(key, rndA, rndB);
+    if (cmd === DesfireCommand.AUTHENTICATE_EV2_NON_FIRST) {
+      // Transaction identifier and command counter carry over
+      const previous = this.session;
+      if (!previous || previous.mode !== 'EV2') fail(DesfireStatus.AUTHENTICATION_ERROR);
+      this.session = { ...this.newSession('EV2', keyNo, keyEnc, keyMac), ti: previous.ti, ctr: previous.ctr };
+      return { status: DesfireStatus.OPERATION_OK, data: Spec.aesCbcEncrypt(key, rndAPrime) };
+    }
+
+    const ti = crypto.randomBytes(4);
+    this.session = { ...this.newSession('EV2', keyNo, keyEnc, keyMac), ti };
+    // TI || RndA' || PDcap2 || PCDcap2
+    const response = Buffer.concat([ti, rndAPrime, Buffer.alloc(12, 0x00)]);
+    return { status: DesfireStatus.OPERATION_OK, data: Spec.aesCbcEncrypt(key, response) };
+  }
+
+  private newSession(mode: Session['mode'], keyNo: number, keyEnc: Buffer | null, keyMac: Buffer | null): Session {
+    return { mode, keyNo, keyEnc, keyMac, iv: Buffer.alloc(16, 0x00), ti: EMPTY, ctr: 0 };
+  }
+
+  // ============================================================================
+  // ACCESS CONTROL
+  // ============================================================================
+
+  private current(): Application {
+    return this.apps.get(this.selected)!;
+  }
+
+  /**
+   * Selected application (file commands are refused at PICC level)
+   */
+  private application(): Application {
+    if (this.selected === 0) fail(DesfireStatus.PERMISSION_DENIED);
+    return this.current();
+  }
+
+  private file(fileNo: number): SimFile {
+    const file = this.application().files.get(fileNo & 0x1F);
+    if (!file) fail(DesfireStatus.FILE_NOT_FOUND);
+    return file;
+  }
+
+  private deny(): never {
+    fail(this.session ? DesfireStatus.PERMISSION_DENIED : DesfireStatus.AUTHENTICATION_ERROR);
+  }
+
+  private authenticatedWith(keyNo: number): boolean {
+    return this.session !== null && this.session.keyNo === keyNo;
+  }
+
+  private requireMasterKey(): void {
+    if (!this.authenticatedWith(0)) this.deny();
+  }
+
+  /**
+   * Key settings bit 2: create/delete without the master key
+   */
+  private requireCreateDelete(): void {
+    if (!(this.current().keySettings & 0x04)) this.requireMasterKey();
+  }
+
+  /**
+   * Key settings bit 1: directory listing without the master key
+   */
+  private requireListing(): void {
+    if (!(this.current().keySettings & 0x02)) this.requireMasterKey();
+  }
+
+  /**
+   * Check the access rights of a file operation and return its communication mode:
+   * the file's mode when granted by the authenticated key, plain when granted as free
+   */
+  private fileAccess(file: SimFile, cmd: number): CommMode {
+    const { read, write, readWrite } = file.access;
+    let rights: number[];
+    switch (cmd) {
+      case DesfireCommand.READ_DATA:
+      case DesfireCommand.READ_RECORDS:
+        rights = [read, readWrite];
+        break;
+      case DesfireCommand.WRITE_DATA:
+      case DesfireCommand.WRITE_RECORD:
+      case DesfireCommand.LIMITED_CREDIT:
+        rights = [write, readWrite];
+        break;
+      case DesfireCommand.GET_VALUE:
+      case DesfireCommand.DEBIT:
+        rights = [read, write, readWrite];
+        if (cmd === DesfireCommand.GET_VALUE && file.type === 'value' && file.options & VALUE_FREE_GET_VALUE) {
+          rights.push(ACCESS_FREE);
+        }
+        break;
+      default:
+        rights = [readWrite];
+    }
+
+    if (this.session && rights.includes(this.session.keyNo)) return file.commMode;
+    if (rights.includes(ACCESS_FREE)) return CommMode.PLAIN;
+    this.deny();
+  }
+
+  // ============================================================================
+  // COMMANDS
+  // ============================================================================
+
+  private run(cmd: number, data: Buffer): Buffer {
+    switch (cmd) {
+      case DesfireCommand.GET_VERSION:
+        return this.version();
+      case DesfireCommand.FORMAT_PICC:
+        if (this.selected !== 0) fail(DesfireStatus.PERMISSION_DENIED);
+        this.requireMasterKey();
+        this.apps = new Map([[0, this.current()]]);
+        return EMPTY;
+      case DesfireCommand.GET_FREE_MEMORY:
+        return this.uint(this.freeMemory(), 3);
+
+      case DesfireCommand.GET_APPLICATION_IDS:
+        if (this.selected !== 0) fail(DesfireStatus.PERMISSION_DENIED);
+        this.requireListing();
+        return Buffer.concat(Array.from(this.apps.keys()).filter((aid) => aid !== 0).map((aid) => this.uint(aid, 3)));
+      case DesfireCommand.CREATE_APPLICATION:
+        this.createApplication(data);
+        return EMPTY;
+      case DesfireCommand.DELETE_APPLICATION:
+        this.deleteApplication(data);
+        return EMPTY;
+
+      case DesfireCommand.GET_KEY_SETTINGS: {
+        const app = this.current();
+        const keySet = app.keySets[0];
+        return Buffer.from([app.keySettings, keySet.keys.length | keyTypeBits(keySet.keyType)]);
+      }
+      case DesfireCommand.CHANGE_KEY_SETTINGS: {
+        const app = this.current();
+        this.requireMasterKey();
+        if (!(app.keySettings & 0x08)) fail(DesfireStatus.PERMISSION_DENIED);
+        if (data.length !== 1) fail(DesfireStatus.LENGTH_ERROR);
+        app.keySettings = data[0];
+        return EMPTY;
+      }
+      case DesfireCommand.GET_KEY_VERSION: {
+        if (data.length < 1) fail(DesfireStatus.LENGTH_ERROR);
+        const keys = this.current().keySets[0].keys;
+        const keyNo = data[0] & 0x0F;
+        if (keyNo >= keys.length) fail(DesfireStatus.NO_SUCH_KEY);
+        return Buffer.from([keys[keyNo].version]);
+      }
+      case DesfireCommand.INITIALIZE_KEY_SET:
+      case DesfireCommand.FINALIZE_KEY_SET:
+      case DesfireCommand.ROLL_KEY_SET:
+        this.keySetCommand(cmd, data);
+        return EMPTY;
+
+      case DesfireCommand.GET_FILE_IDS:
+        this.application();
+        this.requireListing();
+        return Buffer.from(Array.from(this.current().files.keys()).sort((a, b) => a - b));
+      case DesfireCommand.GET_FILE_SETTINGS:
+        this.requireListing();
+        return this.fileSettings(this.file(data[0]));
+      case DesfireCommand.CHANGE_FILE_SETTINGS:
+        this.changeFileSettings(data);
+        return EMPTY;
+      case DesfireCommand.CREATE_STD_DATA_FILE:
+      case DesfireCommand.CREATE_BACKUP_DATA_FILE:
+      case DesfireCommand.CREATE_VALUE_FILE:
+      case DesfireCommand.CREATE_LINEAR_RECORD_FILE:
+      case DesfireCommand.CREATE_CYCLIC_RECORD_FILE:
+        this.createFile(cmd, data);
+        return EMPTY;
+      case DesfireCommand.DELETE_FILE:
+        this.file(data[0]);
+        this.requireCreateDelete();
+        this.current().files.delete(data[0] & 0x1F);
+        return EMPTY;
+
+      case DesfireCommand.READ_DATA:
+        return this.readData(data);
+      case DesfireCommand.WRITE_DATA:
+        this.writeData(data);
+        return EMPTY;
+      case DesfireCommand.GET_VALUE:
+      case DesfireCommand.CREDIT:
+      case DesfireCommand.DEBIT:
+      case DesfireCommand.LIMITED_CREDIT:
+        return this.valueCommand(cmd, data);
+      case DesfireCommand.WRITE_RECORD:
+        this.writeRecord(data);
+        return EMPTY;
+      case DesfireCommand.READ_RECORDS:
+        return this.readRecords(data);
+      case DesfireCommand.CLEAR_RECORD_FILE: {
+        const file = this.recordFile(data[0]);
+        this.fileAccess(file, cmd);
+        file.pending = { cleared: true, record: null };
+        return EMPTY;
+      }
+      case DesfireCommand.COMMIT_TRANSACTION:
+        this.application();
+        this.commitTransaction();
+        return EMPTY;
+      case DesfireCommand.ABORT_TRANSACTION:
+        this.application();
+        this.abortTransaction();
+        return EMPTY;
+    }
+    fail(DesfireStatus.ILLEGAL_COMMAND_CODE);
+  }
+
+  private uint(value: number, bytes: number): Buffer {
+    const buffer = Buffer.alloc(bytes);
+    buffer.writeUIntLE(value, 0, bytes);
+    return buffer;
+  }
+
+  private version(): Buffer {
+    const major = this.model === 'EV2' ? 0x12 : 0x01;
+    // Vendor NXP, type DESFire, subtype, major, minor, storage 8K (0x1A), ISO 14443-4
+    const part = Buffer.from([0x04, 0x01, 0x01, major, 0x00, 0x1A, 0x05]);
+    return Buffer.concat([part, part, this.uid, this.batch, Buffer.from([0x01, 0x24])]);
+  }
+
+  private freeMemory(): number {
+    let used = 0;
+    this.apps.forEach((app) => app.files.forEach((file) => (used += allocation(file))));
+    return Math.max(0, this.memory - used);
+  }
+
+  private selectApplication(data: Buffer): void {
+    if (data.length !== 3) fail(DesfireStatus.LENGTH_ERROR);
+    const aid = data.readUIntLE(0, 3);
+    this.abortTransaction();
+    this.session = null;
+    if (!this.apps.has(aid)) fail(DesfireStatus.APPLICATION_NOT_FOUND);
+    this.selected = aid;
+  }
+
+  private createApplication(data: Buffer): void {
+    if (this.selected !== 0) fail(DesfireStatus.PERMISSION_DENIED);
+    if (data.length < 5) fail(DesfireStatus.LENGTH_ERROR);
+    this.requireCreateDelete();
+
+    const aid = data.readUIntLE(0, 3);
+    const numKeys = data[4] & 0x0F;
+    if (aid === 0 || numKeys < 1 || numKeys > 14) fail(DesfireStatus.PARAMETER_ERROR);
+    if (this.apps.has(aid)) fail(DesfireStatus.DUPLICATE_ERROR);
+    if (this.apps.size - 1 >= MAX_APPLICATIONS) fail(DesfireStatus.COUNT_ERROR);
+
+    this.apps.set(aid, {
+      aid,
+      keySettings: data[3],
+      keySets: [newKeySet(keyTypeOf(data[4]), numKeys)],
+      files: new Map()
+    });
+  }
+
+  private deleteApplication(data: Buffer): void {
+    if (data.length !== 3) fail(DesfireStatus.LENGTH_ERROR);
+    const aid = data.readUIntLE(0, 3);
+    if (aid === 0 || !this.apps.has(aid)) fail(DesfireStatus.APPLICATION_NOT_FOUND);
+    // PICC master key, or the application master key with the application selected
+    if (!(this.authenticatedWith(0) && (this.selected === 0 || this.selected === aid))) this.deny();
+    this.apps.delete(aid);
+    if (this.selected === aid) {
+      this.selected = 0;
+      this.session = null;
+    }
+  }
+
+  // ============================================================================
+  // KEYS
+  // ============================================================================
+
+  /**
+   * Key addressed by a ChangeKey/ChangeKeyEV2 header and the cryptogram layout
+   */
+  private changeKeyTarget(cmd: number, data: Buffer, session: Session) {
+    const ev2 = cmd === DesfireCommand.CHANGE_KEY_EV2;
+    const headerLength = ev2 ? 2 : 1;
+    if (data.length < headerLength) fail(DesfireStatus.LENGTH_ERROR);
+
+    const app = this.current();
+    const keySetNo = ev2 ? data[0] : 0;
+    const keyNoByte = data[headerLength - 1];
+    const keyNo = keyNoByte & 0x0F;
+    const keySet = app.keySets[keySetNo];
+    if (!keySet) fail(DesfireStatus.PARAMETER_ERROR);
+    if (keyNo >= keySet.keys.length) fail(DesfireStatus.NO_SUCH_KEY);
+
+    // The PICC master key type is given in the key number byte
+    const keyType = this.selected === 0 ? keyTypeOf(keyNoByte) : keySet.keyType;
+    const length = keyLength(keyType);
+    return {
+      headerLength,
+      keySet,
+      keyNo,
+      keyType,
+      keyLength: length,
+      keyDataLength: length + (keyType === 'AES' || session.mode === 'EV2' ? 1 : 0),
+      sameKey: keySetNo === 0 && keyNo === session.keyNo
+    };
+  }
+
+  /**
+   * ChangeKey / ChangeKeyEV2
+   * Cryptogram: the new key (XOR the old one when changing another key), the
+   * key version (AES keys, EV2), the CRC of Cmd || header || key data (EV1;
+   * legacy: of the key data), and for another key the CRC of the new key
+   */
+  private changeKey(cmd: number, data: Buffer): Buffer {
+    const session = this.secureSession();
+    if (!session) fail(DesfireStatus.AUTHENTICATION_ERROR);
+    if (cmd === DesfireCommand.CHANGE_KEY_EV2 && session.mode !== 'EV2') fail(DesfireStatus.PERMISSION_DENIED);
+
+    const target = this.changeKeyTarget(cmd, data, session);
+    const { headerLength, keySet, keyNo, keyType, keyLength: length, keyDataLength, sameKey } = target;
+    this.checkChangeKey(keySet === this.current().keySets[0], keyNo);
+
+    const header = data.slice(0, headerLength);
+    let keyData: Buffer;
+    let newKeyCrc: Buffer;
+    let crcOfKey: (key: Buffer) => Buffer;
+
+    if (session.mode === 'EV2') {
+      const body = this.unwrapCommand(cmd, data, CommMode.FULL, headerLength).slice(headerLength);
+      if (body.length !== keyDataLength + (sameKey ? 0 : 4)) fail(DesfireStatus.LENGTH_ERROR);
+      keyData = body.slice(0, keyDataLength);
+      newKeyCrc = body.slice(keyDataLength);
+      crcOfKey = Spec.crc32;
+    } else if (session.mode === 'AES') {
+      const encrypted = data.slice(headerLength);
+      if (encrypted.length === 0 || encrypted.length % 16 !== 0) fail(DesfireStatus.LENGTH_ERROR);
+      const plain = Spec.aesCbcDecrypt(session.keyEnc, encrypted, session.iv);
+      session.iv = encrypted.slice(encrypted.length - 16);
+      keyData = plain.slice(0, keyDataLength);
+      const crc = Spec.crc32(Buffer.concat([Buffer.from([cmd]), header, keyData]));
+      if (!crc.equals(plain.slice(keyDataLength, keyDataLength + 4))) fail(DesfireStatus.INTEGRITY_ERROR);
+      newKeyCrc = sameKey ? EMPTY : plain.slice(keyDataLength + 4, keyDataLength + 8);
+      crcOfKey = Spec.crc32;
+    } else {
+      const encrypted = data.slice(headerLength);
+      if (encrypted.length === 0 || encrypted.length % 8 !== 0) fail(DesfireStatus.LENGTH_ERROR);
+      const plain = Spec.legacyReceive(session.keyEnc, encrypted);
+      keyData = plain.slice(0, keyDataLength);
+      if (!Spec.crcA(keyData).equals(plain.slice(keyDataLength, keyDataLength + 2))) {
+        fail(DesfireStatus.INTEGRITY_ERROR);
+      }
+      newKeyCrc = sameKey ? EMPTY : plain.slice(keyDataLength + 2, keyDataLength + 4);
+      crcOfKey = Spec.crcA;
+    }
+
+    let newKey: Buffer = keyData.slice(0, length);
+    if (!sameKey) {
+      const old = keySet.keys[keyNo].key;
+      newKey = Spec.xor(newKey, old.length === length ? old : Buffer.alloc(length, 0x00));
+      if (!crcOfKey(newKey).equals(newKeyCrc)) fail(DesfireStatus.INTEGRITY_ERROR);
+    }
+    const version = keyDataLength > length ? keyData[length] : desKeyVersion(newKey);
+
+    keySet.keys[keyNo] = { key: Buffer.from(newKey), version };
+    if (this.selected === 0) keySet.keyType = keyType;
+
+    if (sameKey) {
+      // Changing the authenticated key ends the session; no MAC in the response
+      this.session = null;
+      return EMPTY;
+    }
+    return this.wrapResponse(EMPTY, session.mode === 'EV2' ? CommMode.MAC : CommMode.PLAIN);
+  }
+
+  /**
+   * ChangeKey access: the master key changes itself when bit 0 of the key
+   * settings allows it; other keys need the ChangeKey key (bits 7-4): a key
+   * number, 0xE for the key itself, 0xF for frozen. Key sets being prepared
+   * are written with the master key.
+   */
+  private checkChangeKey(activeKeySet: boolean, keyNo: number): void {
+    const settings = this.current().keySettings;
+    if (!activeKeySet || keyNo === 0 || this.selected === 0) {
+      if (activeKeySet && !(settings & 0x01)) fail(DesfireStatus.PERMISSION_DENIED);
+      this.requireMasterKey();
+      return;
+    }
+    const changeKey = settings >> 4;
+    if (changeKey === 0x0F) fail(DesfireStatus.PERMISSION_DENIED);
+    if (!this.authenticatedWith(changeKey === 0x0E ? keyNo : changeKey)) this.deny();
+  }
+
+  /**
+   * InitializeKeySet / FinalizeKeySet / RollKeySet (EV2, application level, master key)
+   */
+  private keySetCommand(cmd: number, data: Buffer): void {
+    const app = this.application();
+    this.requireMasterKey();
+    if (data.length < 1) fail(DesfireStatus.LENGTH_ERROR);
+    const keySetNo = data[0];
+    if (keySetNo < 1 || keySetNo > 15) fail(DesfireStatus.PARAMETER_ERROR);
+
+    if (cmd === DesfireCommand.INITIALIZE_KEY_SET) {
+      if (data.length !== 2) fail(DesfireStatus.LENGTH_ERROR);
+      app.keySets[keySetNo] = { ...newKeySet(keyTypeOf(data[1]), app.keySets[0].keys.length), finalized: false };
+      return;
+    }
+
+    const keySet = app.keySets[keySetNo];
+    if (!keySet) fail(DesfireStatus.PARAMETER_ERROR);
+    if (cmd === DesfireCommand.FINALIZE_KEY_SET) {
+      if (data.length !== 2) fail(DesfireStatus.LENGTH_ERROR);
+      keySet.version = data[1];
+      keySet.finalized = true;
+      return;
+    }
+
+    if (!keySet.finalized) fail(DesfireStatus.PERMISSION_DENIED);
+    app.keySets[0] = keySet;
+    delete app.keySets[keySetNo];
+    // The response is still protected with the old session keys
+    this.endSession = true;
+  }
+
+  // ============================================================================
+  // FILES
+  // ============================================================================
+
+  private createFile(cmd: number, data: Buffer): void {
+    const app = this.application();
+    this.requireCreateDelete();
+    if (data.length < 4) fail(DesfireStatus.LENGTH_ERROR);
+    const fileNo = data[0];
+    if (fileNo >= MAX_FILES) fail(DesfireStatus.PARAMETER_ERROR);
+    if (app.files.has(fileNo)) fail(DesfireStatus.DUPLICATE_ERROR);
+
+    const mode = data[1] & 0x03;
+    const base: FileBase = {
+      fileNo,
+      commMode: (mode === 0x02 ? CommMode.PLAIN : mode) as CommMode,
+      access: decodeAccessRights(data, 2)
+    };
+
+    let file: SimFile;
+    switch (cmd) {
+      case DesfireCommand.CREATE_STD_DATA_FILE:
+      case DesfireCommand.CREATE_BACKUP_DATA_FILE: {
+        if (data.length !== 7) fail(DesfireStatus.LENGTH_ERROR);
+        const size = data.readUIntLE(4, 3);
+        if (size === 0) fail(DesfireStatus.PARAMETER_ERROR);
+        const type = cmd === DesfireCommand.CREATE_STD_DATA_FILE ? 'std' : 'backup';
+        file = { ...base, type, data: Buffer.alloc(size, 0x00), pending: null };
+        break;
+      }
+      case DesfireCommand.CREATE_VALUE_FILE: {
+        if (data.length !== 17) fail(DesfireStatus.LENGTH_ERROR);
+        const lowerLimit = data.readInt32LE(4);
+        const upperLimit = data.readInt32LE(8);
+        const value = data.readInt32LE(12);
+        if (lowerLimit > upperLimit || value < lowerLimit || value > upperLimit) fail(DesfireStatus.BOUNDARY_ERROR);
+        file = { ...base, type: 'value', lowerLimit, upperLimit, value, limitedCreditValue: 0, options: data[16], pending: null };
+        break;
+      }
+      default: {
+        if (data.length !== 10) fail(DesfireStatus.LENGTH_ERROR);
+        const recordSize = data.readUIntLE(4, 3);
+        const maxRecords = data.readUIntLE(7, 3);
+        const type = cmd === DesfireCommand.CREATE_LINEAR_RECORD_FILE ? 'linear' : 'cyclic';
+        if (recordSize === 0 || maxRecords < (type === 'cyclic' ? 2 : 1)) fail(DesfireStatus.PARAMETER_ERROR);
+        file = { ...base, type, recordSize, maxRecords, records: [], pending: null };
+      }
+    }
+
+    if (allocation(file) > this.freeMemory()) fail(DesfireStatus.OUT_OF_EEPROM_ERROR);
+    app.files.set(fileNo, file);
+  }
+
+  private fileSettings(file: SimFile): Buffer {
+    const type = {
+      std: FileType.STANDARD,
+      backup: FileType.BACKUP,
+      value: FileType.VALUE,
+      linear: FileType.LINEAR_RECORD,
+      cyclic: FileType.CYCLIC_RECORD
+    }[file.type];
+    const head = Buffer.concat([Buffer.from([type, file.commMode]), encodeAccessRights(file.access)]);
+
+    switch (file.type) {
+      case 'std':
+      case 'backup':
+        return Buffer.concat([head, this.uint(file.data.length, 3)]);
+      case 'value': {
+        const limits = Buffer.alloc(12);
+        limits.writeInt32LE(file.lowerLimit, 0);
+        limits.writeInt32LE(file.upperLimit, 4);
+        limits.writeInt32LE(file.limitedCreditValue, 8);
+        return Buffer.concat([head, limits, Buffer.from([file.options])]);
+      }
+      default:
+        return Buffer.concat([
+          head,
+          this.uint(file.recordSize, 3),
+          this.uint(file.maxRecords, 3),
+          this.uint(file.records.length, 3)
+        ]);
+    }
+  }
+
+  private changeFileSettings(data: Buffer): void {
+    if (data.length !== 4) fail(DesfireStatus.LENGTH_ERROR);
+    const file = this.file(data[0]);
+    const change = file.access.change;
+    if (change === ACCESS_NEVER) fail(DesfireStatus.PERMISSION_DENIED);
+    if (change !== ACCESS_FREE && !this.authenticatedWith(change)) this.deny();
+
+    const mode = data[1] & 0x03;
+    file.commMode = (mode === 0x02 ? CommMode.PLAIN : mode) as CommMode;
+    file.access = decodeAccessRights(data, 2);
+  }
+
+  private dataFile(fileNo: number): DataFile {
+    const file = this.file(fileNo);
+    if (file.type !== 'std' && file.type !== 'backup') fail(DesfireStatus.PARAMETER_ERROR);
+    return file;
+  }
+
+  private recordFile(fileNo: number): RecordFile {
+    const file = this.file(fileNo);
+    if (file.type !== 'linear' && file.type !== 'cyclic') fail(DesfireStatus.PARAMETER_ERROR);
+    return file;
+  }
+
+  private readData(data: Buffer): Buffer {
+    if (data.length !== 7) fail(DesfireStatus.LENGTH_ERROR);
+    const file = this.dataFile(data[0]);
+    this.fileAccess(file, DesfireCommand.READ_DATA);
+    const offset = data.readUIntLE(1, 3);
+    const length = data.readUIntLE(4, 3) || file.data.length - offset;
+    if (offset >= file.data.length || offset + length > file.data.length) fail(DesfireStatus.BOUNDARY_ERROR);
+    // Backup files read the committed image
+    return Buffer.from(file.data.slice(offset, offset + length));
+  }
+
+  private writeData(data: Buffer): void {
+    if (data.length < 7) fail(DesfireStatus.LENGTH_ERROR);
+    const file = this.dataFile(data[0]);
+    this.fileAccess(file, DesfireCommand.WRITE_DATA);
+    const offset = data.readUIntLE(1, 3);
+    const length = data.readUIntLE(4, 3);
+    if (data.length !== 7 + length || length === 0) fail(DesfireStatus.LENGTH_ERROR);
+    if (offset + length > file.data.length) fail(DesfireStatus.BOUNDARY_ERROR);
+
+    if (file.type === 'std') {
+      data.copy(file.data, offset, 7);
+      return;
+    }
+    if (!file.pending) file.pending = Buffer.from(file.data);
+    data.copy(file.pending, offset, 7);
+  }
+
+  private valueCommand(cmd: number, data: Buffer): Buffer {
+    const file = this.file(data[0]);
+    if (file.type !== 'value') fail(DesfireStatus.PARAMETER_ERROR);
+    this.fileAccess(file, cmd);
+
+    if (cmd === DesfireCommand.GET_VALUE) {
+      if (data.length !== 1) fail(DesfireStatus.LENGTH_ERROR);
+      const value = Buffer.alloc(4);
+      value.writeInt32LE(file.value, 0);
+      return value;
+    }
+
+    if (data.length !== 5) fail(DesfireStatus.LENGTH_ERROR);
+    const amount = data.readInt32LE(1);
+    if (amount < 0) fail(DesfireStatus.PARAMETER_ERROR);
+    const pending = file.pending || { value: file.value, debited: 0, credited: false };
+
+    if (cmd === DesfireCommand.DEBIT) {
+      if (pending.value - amount < file.lowerLimit) fail(DesfireStatus.BOUNDARY_ERROR);
+      pending.value -= amount;
+      pending.debited += amount;
+    } else {
+      if (cmd === DesfireCommand.LIMITED_CREDIT) {
+        if (!(file.options & VALUE_LIMITED_CREDIT)) fail(DesfireStatus.PERMISSION_DENIED);
+        if (pending.credited || amount > file.limitedCreditValue) fail(DesfireStatus.BOUNDARY_ERROR);
+      }
+      if (pending.value + amount > file.upperLimit) fail(DesfireStatus.BOUNDARY_ERROR);
+      pending.value += amount;
+      pending.credited = true;
+    }
+    file.pending = pending;
+    return EMPTY;
+  }
+
+  private writeRecord(data: Buffer): void {
+    if (data.length < 7) fail(DesfireStatus.LENGTH_ERROR);
+    const file = this.recordFile(data[0]);
+    this.fileAccess(file, DesfireCommand.WRITE_RECORD);
+    const offset = data.readUIntLE(1, 3);
+    const length = data.readUIntLE(4, 3);
+    if (data.length !== 7 + length || length === 0) fail(DesfireStatus.LENGTH_ERROR);
+    if (offset + length > file.recordSize) fail(DesfireStatus.BOUNDARY_ERROR);
+
+    const pending = file.pending || { cleared: false, record: null };
+    if (!pending.record) {
+      const existing = pending.cleared ? 0 : file.records.length;
+      if (file.type === 'linear' && existing >= file.maxRecords) fail(DesfireStatus.BOUNDARY_ERROR);
+      pending.record = Buffer.alloc(file.recordSize, 0x00);
+    }
+    data.copy(pending.record, offset, 7);
+    file.pending = pending;
+  }
+
+  /**
+   * Records oldest first; offset counts back from the newest record, count 0 reads all
+   */
+  private readRecords(data: Buffer): Buffer {
+    if (data.length !== 7) fail(DesfireStatus.LENGTH_ERROR);
+    const file = this.recordFile(data[0]);
+    this.fileAccess(file, DesfireCommand.READ_RECORDS);
+    const offset = data.readUIntLE(1, 3);
+    const count = data.readUIntLE(4, 3);
+
+    const end = file.records.length - offset;
+    const start = count === 0 ? 0 : end - count;
+    if (end <= 0 || start < 0) fail(DesfireStatus.BOUNDARY_ERROR);
+    return Buffer.concat(file.records.slice(start, end));
+  }
+
+  private commitTransaction(): void {
+    this.current().files.forEach((file) => {
+      switch (file.type) {
+        case 'std':
+        case 'backup':
+          if (file.pending) file.data = file.pending;
+          break;
+        case 'value':
+          if (file.pending) {
+            const { value, debited, credited } = file.pending;
+            file.value = value;
+            // Limited credit may return what was debited since the last credit
+            file.limitedCreditValue = (credited ? 0 : file.limitedCreditValue) + debited;
+          }
+          break;
+        default:
+          if (file.pending) {
+            const { cleared, record } = file.pending;
+            if (cleared) file.records = [];
+            if (record) file.records.push(record);
+            // A cyclic file keeps one record free for the next write
+            const capacity = file.type === 'cyclic' ? file.maxRecords - 1 : file.maxRecords;
+            if (file.records.length > capacity) file.records.splice(0, file.records.length - capacity);
+          }
+      }
+      file.pending = null;
+    });
+  }
+
+  private abortTransaction(): void {
+    this.apps.get(this.selected)?.files.forEach((file) => {
+      file.pending = null;
+    });
+  }
+}
+
+export default SimulatedCard;
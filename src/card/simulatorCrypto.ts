@@ -0,0 +1,214 @@
+/**
+ * Cryptography of the card simulator
+ * Written from the standards and the DESFire documentation, not from
+ * crypto.ts, so the simulator does not repeat a mistake of the client it is
+ * tested against:
+ *   AES-CMAC      NIST SP 800-38B / RFC 4493
+ *   CRC32         IEEE 802.3 polynomial, preset 0xFFFFFFFF, not complemented
+ *                 (DESFire EV1), appended least significant byte first
+ *   CRC-A         ISO/IEC 14443-3 Type A, preset 0x6363, LSB first
+ *   Padding       ISO/IEC 9797-1 method 2 (EV2), zero bytes (EV1, legacy)
+ *   EV2 keys      SV1/SV2 and MACt as in the MIFARE DESFire EV2 datasheet
+ *                 (NXP AN12343)
+ */
+
+import crypto from 'crypto';
+
+const ZERO_IV_AES = Buffer.alloc(16, 0x00);
+const ZERO_IV_DES = Buffer.alloc(8, 0x00);
+
+export function xor(a: Buffer, b: Buffer): Buffer {
+  return Buffer.from(a.map((byte, i) => byte ^ b[i]));
+}
+
+/**
+ * Rotate left by one byte (RndA', RndB')
+ */
+export function rotl(data: Buffer): Buffer {
+  return Buffer.concat([data.subarray(1), data.subarray(0, 1)]);
+}
+
+function cipher(algorithm: string, key: Buffer, iv: Buffer | null, decrypt: boolean, data: Buffer): Buffer {
+  const c = decrypt ? crypto.createDecipheriv(algorithm, key, iv) : crypto.createCipheriv(algorithm, key, iv);
+  c.setAutoPadding(false);
+  return Buffer.concat([c.update(data), c.final()]);
+}
+
+export function aesCbcEncrypt(key: Buffer, data: Buffer, iv: Buffer = ZERO_IV_AES): Buffer {
+  return cipher('aes-128-cbc', key, iv, false, data);
+}
+
+export function aesCbcDecrypt(key: Buffer, data: Buffer, iv: Buffer = ZERO_IV_AES): Buffer {
+  return cipher('aes-128-cbc', key, iv, true, data);
+}
+
+/**
+ * DES (K1 == K2), 2K3DES or 3K3DES, by key length 8, 16 or 24
+ */
+function tdesAlgorithm(key: Buffer, mode: 'cbc' | 'ecb'): { algorithm: string; key: Buffer } {
+  if (key.length === 24) return { algorithm: `des-ede3-${mode}`, key };
+  return { algorithm: `des-ede-${mode}`, key: key.length === 8 ? Buffer.concat([key, key]) : key };
+}
+
+export function tdesCbcEncrypt(key: Buffer, data: Buffer, iv: Buffer = ZERO_IV_DES): Buffer {
+  const t = tdesAlgorithm(key, 'cbc');
+  return cipher(t.algorithm, t.key, iv, false, data);
+}
+
+export function tdesCbcDecrypt(key: Buffer, data: Buffer, iv: Buffer = ZERO_IV_DES): Buffer {
+  const t = tdesAlgorithm(key, 'cbc');
+  return cipher(t.algorithm, t.key, iv, true, data);
+}
+
+/**
+ * Shift a 128-bit block left by one bit; XOR Rb (0x87) on carry out
+ */
+function doubleBlock(block: Buffer): Buffer {
+  const out = Buffer.alloc(16);
+  for (let i = 0; i < 16; i++) {
+    out[i] = ((block[i] << 1) | (i < 15 ? block[i + 1] >> 7 : 0)) & 0xFF;
+  }
+  if (block[0] & 0x80) out[15] ^= 0x87;
+  return out;
+}
+
+/**
+ * AES-CMAC (RFC 4493), 16 bytes
+ * @param iv Chaining value; EV1 secure messaging starts each CMAC from the
+ *           previous one instead of zero
+ */
+export function cmac(key: Buffer, data: Buffer, iv: Buffer = ZERO_IV_AES): Buffer {
+  const k1 = doubleBlock(cipher('aes-128-ecb', key, null, false, ZERO_IV_AES));
+  const k2 = doubleBlock(k1);
+  const complete = data.length > 0 && data.length % 16 === 0;
+  const blocks = complete ? data : Buffer.concat([data, Buffer.from([0x80]), Buffer.alloc(15 - (data.length % 16))]);
+  const last = xor(blocks.subarray(blocks.length - 16), complete ? k1 : k2);
+  const input = Buffer.concat([blocks.subarray(0, blocks.length - 16), last]);
+  return aesCbcEncrypt(key, input, iv).subarray(input.length - 16);
+}
+
+/**
+ * EV2 MACt: the bytes S14, S12, ..., S0 of the CMAC S15..S0 (first byte is S15)
+ */
+export function macT(mac: Buffer): Buffer {
+  return Buffer.from(Array.from({ length: 8 }, (_, i) => mac[2 * i + 1]));
+}
+
+/**
+ * Legacy MAC: CBC over the zero-padded data, first 4 bytes of the last block
+ */
+export function legacyMac(key: Buffer, data: Buffer): Buffer {
+  const padded = zeroPad(data.length ? data : Buffer.alloc(1), 8);
+  const enc = tdesCbcEncrypt(key, padded);
+  return enc.subarray(enc.length - 8, enc.length - 4);
+}
+
+/**
+ * Legacy "send mode" as seen by the PICC: the PCD enciphers with DES decipher
+ * operations, C(i) = D(K, P(i) XOR C(i-1)); the PICC recovers
+ * P(i) = E(K, C(i)) XOR C(i-1).
+ */
+export function legacyReceive(key: Buffer, data: Buffer): Buffer {
+  const t = tdesAlgorithm(key, 'ecb');
+  const out = Buffer.alloc(data.length);
+  let previous: Buffer = ZERO_IV_DES;
+  for (let i = 0; i < data.length; i += 8) {
+    const block = data.subarray(i, i + 8);
+    xor(cipher(t.algorithm, t.key, null, false, block), previous).copy(out, i);
+    previous = block;
+  }
+  return out;
+}
+
+export function crc32(data: Buffer): Buffer {
+  let crc = 0xFFFFFFFF;
+  for (const byte of data) {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; bit++) crc = crc & 1 ? (crc >>> 1) ^ 0xEDB88320 : crc >>> 1;
+  }
+  const out = Buffer.alloc(4);
+  out.writeUInt32LE(crc >>> 0, 0);
+  return out;
+}
+
+export function crcA(data: Buffer): Buffer {
+  let crc = 0x6363;
+  for (const byte of data) {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; bit++) crc = crc & 1 ? (crc >>> 1) ^ 0x8408 : crc >>> 1;
+  }
+  const out = Buffer.alloc(2);
+  out.writeUInt16LE(crc, 0);
+  return out;
+}
+
+export function zeroPad(data: Buffer, blockSize: number): Buffer {
+  const padded = Buffer.alloc(Math.ceil(data.length / blockSize) * blockSize, 0x00);
+  data.copy(padded);
+  return padded;
+}
+
+/**
+ * ISO/IEC 9797-1 method 2: 0x80, then zeros to the next block (always adds)
+ */
+export function isoPad(data: Buffer, blockSize: number): Buffer {
+  return zeroPad(Buffer.concat([data, Buffer.from([0x80])]), blockSize);
+}
+
+/**
+ * Strip method 2 padding, or null if there is none
+ */
+export function isoUnpad(data: Buffer): Buffer | null {
+  let end = data.length - 1;
+  while (end >= 0 && data[end] === 0x00) end--;
+  return end >= 0 && data[end] === 0x80 ? data.subarray(0, end) : null;
+}
+
+/**
+ * Legacy session key: RndA[0..3] || RndB[0..3], and for 2K3DES keys
+ * RndA[4..7] || RndB[4..7] as the second half (bytes numbered from the first)
+ */
+export function legacySessionKey(key: Buffer, rndA: Buffer, rndB: Buffer): Buffer {
+  const first = Buffer.concat([rndA.subarray(0, 4), rndB.subarray(0, 4)]);
+  const singleDes = key.subarray(0, 8).equals(key.subarray(8, 16));
+  return Buffer.concat([first, singleDes ? first : Buffer.concat([rndA.subarray(4, 8), rndB.subarray(4, 8)])]);
+}
+
+/**
+ * EV1 AES session key: RndA[0..3] || RndB[0..3] || RndA[12..15] || RndB[12..15]
+ */
+export function aesSessionKey(rndA: Buffer, rndB: Buffer): Buffer {
+  return Buffer.concat([rndA.subarray(0, 4), rndB.subarray(0, 4), rndA.subarray(12, 16), rndB.subarray(12, 16)]);
+}
+
+/**
+ * EV2 session keys from SV1 (label A5 5A, SesAuthENC) and SV2 (label 5A A5,
+ * SesAuthMAC). The datasheet numbers bytes from the last, so RndA[15..14] is
+ * the first two bytes:
+ *   SV = label || 00 01 00 80 || RndA[15..14] || (RndA[13..8] XOR RndB[15..10])
+ *        || RndB[9..0] || RndA[7..0]
+ */
+export function ev2SessionKeys(key: Buffer, rndA: Buffer, rndB: Buffer): { enc: Buffer; mac: Buffer } {
+  const context = Buffer.concat([
+    Buffer.from([0x00, 0x01, 0x00, 0x80]),
+    rndA.subarray(0, 2),
+    xor(rndA.subarray(2, 8), rndB.subarray(0, 6)),
+    rndB.subarray(6, 16),
+    rndA.subarray(8, 16)
+  ]);
+  return {
+    enc: cmac(key, Buffer.concat([Buffer.from([0xA5, 0x5A]), context])),
+    mac: cmac(key, Buffer.concat([Buffer.from([0x5A, 0xA5]), context]))
+  };
+}
+
+/**
+ * EV2 IV: E(SesAuthENC, label || TI || CmdCtr (LSB first) || 0^8), label A5 5A
+ * for command data and 5A A5 for response data
+ */
+export function ev2Iv(encKey: Buffer, direction: 'command' | 'response', ti: Buffer, ctr: number): Buffer {
+  const label = direction === 'command' ? [0xA5, 0x5A] : [0x5A, 0xA5];
+  const counter = Buffer.alloc(2);
+  counter.writeUInt16LE(ctr & 0xFFFF, 0);
+  return aesCbcEncrypt(encKey, Buffer.concat([Buffer.from(label), ti, counter, Buffer.alloc(8, 0x00)]));
+}
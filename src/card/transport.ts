@@ -0,0 +1,124 @@
+/**
+ * Card transport
+ * The interface DESFireCard talks to (an nfc-pcsc reader, a simulated
+ * reader, a trace replay) and the reader manager chosen by READER_BACKEND, so
+ * the tools run against the in-process simulator on machines without PC/SC.
+ */
+
+import { EventEmitter } from 'events';
+import type { ReplayMatch } from './apduTrace';
+import type { SimulatedCardModel } from './simulator';
+
+/**
+ * Sends one APDU to the card in the field and returns the response (data || SW1 SW2)
+ */
+export interface Transport {
+  /** Reader name as reported by PC/SC; nfc-pcsc readers carry it in reader.name */
+  readonly name?: string;
+  readonly reader?: { name: string };
+  transmit(data: Buffer, responseLength: number): Promise<Buffer>;
+  /** Reader-specific preparation before the first GetVersion (ACR122U: ISO-DEP activation) */
+  activate?(): Promise<void>;
+  /** Second path for an APDU the reader did not answer (ACR122U: escape pass-through) */
+  escape?(data: Buffer): Promise<Buffer>;
+}
+
+/**
+ * Card in the field, as reported with card-detected and card-removed
+ */
+export interface CardInfo {
+  uid?: string;
+  atr?: Buffer;
+  type?: string;
+}
+
+export interface CardEvent {
+  reader: Transport;
+  card?: CardInfo;
+}
+
+export interface ReaderErrorEvent {
+  reader: Transport;
+  error: Error;
+}
+
+/**
+ * Source of reader and card events
+ *   reader-connected     (reader)
+ *   reader-disconnected  (reader)
+ *   reader-error         (ReaderErrorEvent)
+ *   card-detected        (CardEvent)
+ *   card-removed         (CardEvent)
+ */
+export interface ReaderManager extends EventEmitter {
+  getReaders(): Transport[];
+  getReader(name: string): Transport | undefined;
+  close(): void;
+}
+
+export type ReaderBackend = 'pcsc' | 'simulator' | 'replay';
+
+export interface ReaderManagerOptions {
+  backend?: ReaderBackend;
+  /** Simulator: card model (default EV2) */
+  model?: SimulatedCardModel;
+  /** Simulator: number of readers, each with a blank card (default 1) */
+  readers?: number;
+  /** Replay: APDU trace to play back */
+  replayFile?: string;
+  /** Replay: match whole APDUs (exact, default) or command codes only (command) */
+  replayMatch?: ReplayMatch;
+  /** Record the card exchanges of all readers to this JSONL file */
+  traceFile?: string;
+}
+
+/**
+ * Create the reader manager selected by options or the environment
+ *   READER_BACKEND       pcsc (default), simulator or replay
+ *   DESFIRE_SIM_MODEL    EV1 or EV2 (default EV2)
+ *   DESFIRE_SIM_READERS  number of simulated readers (default 1)
+ *   APDU_REPLAY_FILE     trace played back by the replay backend
+ *   APDU_REPLAY_MATCH    exact (default) or command
+ *   APDU_TRACE_FILE      record the card exchanges to this JSONL file
+ */
+export function createReaderManager(options: ReaderManagerOptions = {}): ReaderManager {
+  const manager = createBackend(options);
+  const traceFile = options.traceFile ?? process.env.APDU_TRACE_FILE;
+  if (traceFile) {
+    const { ApduRecorder, RecordingReaderManager } = require('./apduTrace');
+    return new RecordingReaderManager(manager, new ApduRecorder(traceFile));
+  }
+  return manager;
+}
+
+function createBackend(options: ReaderManagerOptions): ReaderManager {
+  const backend = options.backend || (process.env.READER_BACKEND || 'pcsc').toLowerCase();
+
+  switch (backend) {
+    case 'pcsc': {
+      // Loaded on demand: nfc-pcsc needs the native PC/SC library
+      const { NFCReaderManager } = require('./reader');
+      return new NFCReaderManager();
+    }
+    case 'simulator': {
+      const { SimulatedReaderManager } = require('./simulatedReader');
+      const model = options.model || (process.env.DESFIRE_SIM_MODEL || 'EV2').toUpperCase();
+      if (model !== 'EV1' && model !== 'EV2') {
+        throw new Error(`Unknown simulated card model: ${model} (expected EV1 or EV2)`);
+      }
+      const readers = options.readers ?? parseInt(process.env.DESFIRE_SIM_READERS || '1', 10);
+      return new SimulatedReaderManager({ model, readers });
+    }
+    case 'replay': {
+      const file = options.replayFile || process.env.APDU_REPLAY_FILE;
+      if (!file) throw new Error('Replay backend needs a trace file (APDU_REPLAY_FILE)');
+      const match = options.replayMatch || (process.env.APDU_REPLAY_MATCH || 'exact').toLowerCase();
+      if (match !== 'exact' && match !== 'command') {
+        throw new Error(`Unknown replay match: ${match} (expected exact or command)`);
+      }
+      const { ReplayReaderManager } = require('./apduTrace');
+      return new ReplayReaderManager(file, { match });
+    }
+  }
+  throw new Error(`Unknown reader backend: ${backend} (expected pcsc, simulator or replay)`);
+}
@@ -0,0 +1,73 @@
+/**
+ * Terminal prompts shared by the command-line tools
+ */
+
+import readline from 'readline';
+import { ShareCollector } from '../card/shamir';
+
+/**
+ * Read a line from the terminal
+ */
+export function promptLine(question: string): Promise<string> {
+  return new Promise((resolve) => {
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+    rl.question(question, (answer) => {
+      rl.close();
+      resolve(answer);
+    });
+  });
+}
+
+/**
+ * readline writes the prompt and the echo of typed keys through this
+ * (undocumented) method; replacing it hides the input
+ */
+type EchoInterface = readline.Interface & { _writeToOutput?: (text: string) => void };
+
+/**
+ * Read a line from the terminal without echoing it
+ */
+export function promptHidden(question: string): Promise<string> {
+  return new Promise((resolve) => {
+    const rl: EchoInterface = readline.createInterface({ input: process.stdin, output: process.stdout, terminal: true });
+    rl._writeToOutput = (text: string) => {
+      if (text.includes(question)) process.stdout.write(text);
+    };
+    rl.question(question, (answer) => {
+      rl.close();
+      process.stdout.write('\n');
+      resolve(answer);
+    });
+  });
+}
+
+/**
+ * Collect Shamir key shares from custodians until a quorum reconstructs the key
+ * @param setId Key ceremony id of the keystore (rejects shares of other ceremonies)
+ */
+export async function promptShares(setId: string | null): Promise<Buffer> {
+  const collector = new ShareCollector(setId);
+  console.log('Each custodian enters their key share (input is hidden).');
+  for (;;) {
+    const { threshold, received } = collector.status();
+    const progress = threshold ? ` (${received.length}/${threshold})` : '';
+    const text = await promptHidden(`Key share${progress}: `);
+    if (!text.trim()) continue;
+    try {
+      if (collector.add(text)) {
+        return collector.combine();
+      }
+      console.log('  Share accepted; next custodian');
+    } catch (error: any) {
+      console.log(`  ${error?.message || error}`);
+    }
+  }
+}
+
+/**
+ * Ask for the master password, or for key shares when it is left empty
+ */
+export async function promptMasterKey(setId: string | null): Promise<Buffer | string> {
+  const password = await promptHidden('Master password (leave empty to enter key shares): ');
+  return password || promptShares(setId);
+}
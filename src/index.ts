@@ -4,7 +4,7 @@
  */
 
 import 'dotenv/config';
-import NFCReaderManager from './card/reader';
+import { createReaderManager } from './card/transport';
 import DESFireCard from './card/desfire';
 
 async function main() {
@@ -13,7 +13,7 @@ async function main() {
   console.log('='.repeat(60));
   console.log('');
 
-  const readerManager = new NFCReaderManager();
+  const readerManager = createReaderManager();
 
   // Wait for reader
   await new Promise<void>((resolve) => {
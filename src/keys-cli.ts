@@ -0,0 +1,354 @@
+/**
+ * Keystore CLI
+ *   npm run keys -- info                       Backend, format header and stored records
+ *   npm run keys -- verify                     Decrypt every record with the master key
+ *   npm run keys -- rotate-master [--kdf scrypt|pbkdf2] [--backup-dir dir]
+ *   npm run keys -- ceremony --shares N --threshold M [--out dir] [--backup-dir dir]
+ *   npm run keys -- campaign <start|status|complete|cancel> --app 000001 [--key-set N]
+ *   npm run keys -- bundle-keygen --out dir         Site key pairs for key bundles
+ *   npm run keys -- export --app 000001[,000002] --sign key.pem [--to recipient.pub.pem] --out bundle.json
+ *   npm run keys -- import bundle.json --trust sender.pub.pem[,...] [--key encryption.key.pem] [--dry-run]
+ *   npm run keys -- inspect bundle.json
+ *   npm run keys -- audit-verify [log file] [--anchor seq:hash[,...]]
+ *
+ * The current master password is read from KEYSTORE_MASTER_PASSWORD (or
+ * KEYSTORE_MASTER_KEY_HEX) and prompted for otherwise; an empty password
+ * switches to entering Shamir key shares. rotate-master takes the new
+ * password from KEYSTORE_NEW_MASTER_PASSWORD or prompts twice.
+ * Key bundles without --to/--key use the shared transport key in
+ * KEY_BUNDLE_TRANSPORT_KEY (32 bytes hex).
+ * Commands are recorded in the audit log (AUDIT_LOG_FILE) as cli:<user>.
+ */
+
+import 'dotenv/config';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import KeyManager, { KdfAlgorithm } from './card/keyManager';
+import { createKeyStore } from './card/keyStore';
+import { encodeShare, splitSecret } from './card/shamir';
+import { KeyBundleTransport, generateBundleKeyPairs, parseKeyBundle } from './card/keyBundle';
+import { RotationCampaign } from './provisioning/rotationCampaign';
+import { promptHidden, promptLine, promptMasterKey } from './cli/prompt';
+import { AuditHead, AuditLog, auditHmacKeyFromEnv, auditLogFromEnv, configureAuditLog, flushAuditLog } from './audit/auditLog';
+
+const args = process.argv.slice(2);
+
+function option(name: string): string | undefined {
+  const i = args.indexOf(name);
+  return i >= 0 ? args[i + 1] : undefined;
+}
+
+async function currentMasterKey(keyManager: KeyManager): Promise<Buffer | string> {
+  if (process.env.KEYSTORE_MASTER_PASSWORD) return process.env.KEYSTORE_MASTER_PASSWORD;
+  if (process.env.KEYSTORE_MASTER_KEY_HEX) return Buffer.from(process.env.KEYSTORE_MASTER_KEY_HEX.replace(/\s+/g, ''), 'hex');
+  return promptMasterKey(keyManager.getShareSetId());
+}
+
+async function newMasterPassword(): Promise<string> {
+  if (process.env.KEYSTORE_NEW_MASTER_PASSWORD) return process.env.KEYSTORE_NEW_MASTER_PASSWORD;
+  const password = await promptHidden('New master password: ');
+  const again = await promptHidden('Repeat new master password: ');
+  if (password !== again) throw new Error('Passwords do not match');
+  if (password.length < 12) throw new Error('New master password must be at least 12 characters');
+  return password;
+}
+
+async function openKeyManager(keyManager: KeyManager = new KeyManager(createKeyStore())): Promise<KeyManager> {
+  keyManager.setMasterKey(await currentMasterKey(keyManager), (process.env.KEYSTORE_KDF || 'scrypt') as KdfAlgorithm);
+  return keyManager;
+}
+
+async function info(): Promise<void> {
+  const keyManager = new KeyManager(createKeyStore());
+  const store = keyManager.getKeyStore();
+  const header = keyManager.getKeyStoreHeader();
+
+  console.log(`Backend: ${store.backend}`);
+  if (header) {
+    console.log(`Format:  v${header.version}, KDF ${header.kdf.algorithm}, KCV ${header.kcv}`);
+    if (header.kdf.algorithm === 'none') {
+      console.log(`Shares:  key ceremony ${keyManager.getShareSetId()}`);
+    }
+  } else {
+    console.log('Format:  no header (new store, or v1 records awaiting migration)');
+  }
+  console.log('Records:');
+  store.list().forEach((name) => console.log(`  ${name}`));
+  store.close();
+}
+
+async function verify(): Promise<void> {
+  const keyManager = await openKeyManager();
+  const results = keyManager.verifyKeyRecords();
+  results.forEach((r) => console.log(`${r.ok ? '✓' : '✗'} ${r.name}${r.error ? `: ${r.error}` : ''}`));
+  keyManager.getKeyStore().close();
+  if (results.some((r) => !r.ok)) {
+    process.exitCode = 1;
+  }
+}
+
+async function rotateMaster(): Promise<void> {
+  const keyManager = await openKeyManager();
+  const kdf = option('--kdf') as KdfAlgorithm | undefined;
+  const result = keyManager.rotateMasterKey(await newMasterPassword(), { kdf, backupDir: option('--backup-dir') });
+
+  console.log(`Re-encrypted ${result.records.length} record(s) with ${result.kdf}:`);
+  result.records.forEach((name) => console.log(`  ${name}`));
+  if (result.backup) {
+    console.log(`Old records kept in ${result.backup} (they open with the old password; remove them once the new one is deployed)`);
+  }
+  console.log('Update KEYSTORE_MASTER_PASSWORD wherever the keystore is used.');
+  keyManager.clearKeys();
+  keyManager.getKeyStore().close();
+}
+
+/**
+ * Replace the master key with a random key split into Shamir shares
+ */
+async function ceremony(): Promise<void> {
+  const count = parseInt(option('--shares') || '', 10);
+  const threshold = parseInt(option('--threshold') || '', 10);
+  if (!(threshold >= 2 && threshold <= count && count <= 255)) {
+    throw new Error('Usage: ceremony --shares N --threshold M (2 <= M <= N <= 255)');
+  }
+  const outDir = option('--out');
+
+  const keyManager = new KeyManager(createKeyStore());
+  const masterKey = crypto.randomBytes(32);
+  if (keyManager.getKeyStore().list().length) {
+    // Existing store: re-encrypt everything under the new key
+    await openKeyManager(keyManager);
+    keyManager.rotateMasterKey(masterKey, { backupDir: option('--backup-dir') });
+  } else {
+    keyManager.setMasterKey(masterKey);
+  }
+
+  const setId = keyManager.getShareSetId()!;
+  const shares = splitSecret(masterKey, threshold, count, setId).map(encodeShare);
+  masterKey.fill(0);
+  keyManager.clearKeys();
+  keyManager.getKeyStore().close();
+
+  console.log(`Key ceremony ${setId}: ${threshold} of ${count} shares unlock the keystore`);
+  if (outDir) {
+    fs.mkdirSync(outDir, { recursive: true });
+    shares.forEach((share, i) => {
+      const filename = path.join(outDir, `custodian-${i + 1}.txt`);
+      fs.writeFileSync(filename,
+        `DESFire keystore key share ${i + 1} of ${count} (${threshold} needed, ceremony ${setId})\n${share}\n`,
+        { mode: 0o600 });
+      console.log(`  Share ${i + 1} written to ${filename}`);
+    });
+    console.log('Hand each file to its custodian and delete it from this machine.');
+  } else if (process.stdout.isTTY) {
+    for (let i = 0; i < shares.length; i++) {
+      await promptLine(`Custodian ${i + 1}: press Enter to show your share`);
+      console.log(`\n  ${shares[i]}\n`);
+      await promptLine('Write it down, then press Enter to clear the screen');
+      process.stdout.write('\x1b[2J\x1b[H');
+    }
+  } else {
+    shares.forEach((share, i) => console.log(`Share ${i + 1}: ${share}`));
+  }
+  console.log('Start services without KEYSTORE_MASTER_PASSWORD and unlock them with a quorum of shares.');
+}
+
+/**
+ * Manage the key set rotation campaign of an application
+ * Cards are upgraded when presented to the web server (POST /api/campaigns/upgrade).
+ */
+async function campaign(): Promise<void> {
+  const action = args[1];
+  const appHex = option('--app');
+  const usage = 'Usage: campaign <start|status|complete|cancel> --app <aid hex> [--key-set N]';
+  if (!appHex || !/^[0-9a-fA-F]{1,6}$/.test(appHex) || !['start', 'status', 'complete', 'cancel'].includes(action)) {
+    throw new Error(usage);
+  }
+  const appId = parseInt(appHex, 16);
+
+  const keyManager = await openKeyManager();
+  try {
+    keyManager.loadKeySet(appId);
+    const rotation = action === 'start'
+      ? RotationCampaign.start(keyManager, appId, parseInt(option('--key-set') || '1', 10))
+      : RotationCampaign.load(keyManager, appId);
+    if (!rotation) {
+      throw new Error(`No rotation campaign for application ${appHex}`);
+    }
+    if (action === 'complete') rotation.complete();
+    if (action === 'cancel') rotation.cancel();
+    console.log(JSON.stringify(rotation.summary(), null, 2));
+  } finally {
+    keyManager.clearKeys();
+    keyManager.getKeyStore().close();
+  }
+}
+
+function parseAppIds(list: string | undefined): number[] {
+  if (!list || !list.split(',').every((aid) => /^[0-9a-fA-F]{1,6}$/.test(aid))) {
+    throw new Error('--app <aid hex>[,<aid hex>...] required');
+  }
+  return list.split(',').map((aid) => parseInt(aid, 16));
+}
+
+function readKeyFile(filename: string | undefined, what: string): crypto.KeyObject {
+  if (!filename) {
+    throw new Error(`${what} (PEM file) required`);
+  }
+  const pem = fs.readFileSync(filename, 'utf8');
+  return pem.includes('PRIVATE KEY') ? crypto.createPrivateKey(pem) : crypto.createPublicKey(pem);
+}
+
+function transportKey(): Buffer {
+  const hex = (process.env.KEY_BUNDLE_TRANSPORT_KEY || '').replace(/\s+/g, '');
+  if (!/^[0-9a-fA-F]{64}$/.test(hex)) {
+    throw new Error('Set KEY_BUNDLE_TRANSPORT_KEY (32 bytes hex) or use an X25519 recipient key');
+  }
+  return Buffer.from(hex, 'hex');
+}
+
+/**
+ * Generate this site's key pairs: Ed25519 to sign bundles, X25519 to receive them
+ */
+async function bundleKeygen(): Promise<void> {
+  const outDir = option('--out');
+  if (!outDir) {
+    throw new Error('Usage: bundle-keygen --out <dir>');
+  }
+  const { signing, encryption } = generateBundleKeyPairs();
+  fs.mkdirSync(outDir, { recursive: true });
+  const files: [string, string, number][] = [
+    ['signing.key.pem', signing.privateKey, 0o600],
+    ['signing.pub.pem', signing.publicKey, 0o644],
+    ['encryption.key.pem', encryption.privateKey, 0o600],
+    ['encryption.pub.pem', encryption.publicKey, 0o644]
+  ];
+  for (const [name, pem, mode] of files) {
+    const filename = path.join(outDir, name);
+    if (fs.existsSync(filename)) {
+      throw new Error(`${filename} already exists`);
+    }
+    fs.writeFileSync(filename, pem, { mode });
+    console.log(`  ${filename}`);
+  }
+  console.log('Give the .pub.pem files to the other sites; keep the .key.pem files on this one.');
+}
+
+async function exportBundle(): Promise<void> {
+  const appIds = parseAppIds(option('--app'));
+  const outFile = option('--out');
+  if (!outFile) {
+    throw new Error('--out <bundle file> required');
+  }
+  const signingKey = readKeyFile(option('--sign'), '--sign');
+  const recipient = option('--to');
+  const transport: KeyBundleTransport = recipient
+    ? { scheme: 'x25519', recipientPublicKey: readKeyFile(recipient, '--to') }
+    : { scheme: 'aes-kw', transportKey: transportKey() };
+
+  const keyManager = await openKeyManager();
+  try {
+    appIds.forEach((appId) => keyManager.loadKeySet(appId));
+    fs.writeFileSync(outFile, keyManager.exportKeySet(appIds, transport, signingKey), { mode: 0o600 });
+    console.log(`Key bundle written to ${outFile} (${transport.scheme})`);
+  } finally {
+    keyManager.clearKeys();
+    keyManager.getKeyStore().close();
+  }
+}
+
+async function importBundle(): Promise<void> {
+  const bundleFile = args[1];
+  if (!bundleFile || bundleFile.startsWith('--')) {
+    throw new Error('Usage: import <bundle file> --trust <signer.pub.pem>[,...] [--key <encryption.key.pem>] [--dry-run]');
+  }
+  const text = fs.readFileSync(bundleFile, 'utf8');
+  const trusted = (option('--trust') || '').split(',').filter(Boolean).map((file) => readKeyFile(file, '--trust'));
+  const scheme = parseKeyBundle(text).transport.scheme;
+
+  const keyManager = await openKeyManager();
+  try {
+    const appIds = keyManager.importKeySet(text, {
+      trustedSigners: trusted,
+      transportKey: scheme === 'aes-kw' ? transportKey() : undefined,
+      recipientPrivateKey: scheme === 'x25519' ? readKeyFile(option('--key'), '--key') : undefined
+    });
+    for (const appId of appIds) {
+      if (!args.includes('--dry-run')) keyManager.saveKeySet(appId);
+      console.log(`${args.includes('--dry-run') ? 'Verified' : 'Imported'} key set 0x${appId.toString(16).padStart(6, '0')}`);
+    }
+  } finally {
+    keyManager.clearKeys();
+    keyManager.getKeyStore().close();
+  }
+}
+
+/**
+ * Show the public metadata of a bundle (no keys needed)
+ */
+async function inspectBundle(): Promise<void> {
+  if (!args[1]) {
+    throw new Error('Usage: inspect <bundle file>');
+  }
+  const { signature, wrappedKey, iv, authTag, ciphertext, ...header } = parseKeyBundle(fs.readFileSync(args[1], 'utf8'));
+  console.log(JSON.stringify(header, null, 2));
+}
+
+/**
+ * Check the hash chain of the audit log; exits with 1 if it was edited or truncated
+ * Anchors are head hashes noted earlier (seq:hash), e.g. from a daily report.
+ */
+async function auditVerify(): Promise<void> {
+  const file = args[1] && !args[1].startsWith('--') ? args[1] : process.env.AUDIT_LOG_FILE || './logs/audit.jsonl';
+  const anchors: AuditHead[] = (option('--anchor') || '')
+    .split(',')
+    .filter(Boolean)
+    .map((anchor) => {
+      const [seq, hash] = anchor.split(':');
+      return { seq: parseInt(seq, 10), hash };
+    });
+
+  const result = AuditLog.verify(file, { hmacKey: auditHmacKeyFromEnv(), anchors });
+  console.log(`Audit log: ${file} (${result.records} record(s))`);
+  if (result.head) {
+    console.log(`Head:      ${result.head.seq}:${result.head.hash}`);
+  }
+  if (result.ok) {
+    console.log('Chain intact');
+    return;
+  }
+  result.errors.forEach((error) => console.log(`  ${error}`));
+  console.log(`Audit log FAILED verification (${result.errors.length} problem(s))`);
+  process.exitCode = 1;
+}
+
+const COMMANDS: Record<string, () => Promise<void>> = {
+  info,
+  verify,
+  'rotate-master': rotateMaster,
+  ceremony,
+  campaign,
+  'bundle-keygen': bundleKeygen,
+  export: exportBundle,
+  import: importBundle,
+  inspect: inspectBundle,
+  'audit-verify': auditVerify
+};
+
+if (require.main === module) {
+  const command = COMMANDS[args[0]];
+  if (!command) {
+    console.log(`Usage: npm run keys -- <${Object.keys(COMMANDS).join('|')}>`);
+    process.exit(args[0] ? 1 : 0);
+  }
+  if (args[0] !== 'audit-verify') {
+    configureAuditLog(auditLogFromEnv(`cli:${os.userInfo().username}`));
+  }
+  command().catch(async (error) => {
+    console.error('ERROR:', error?.message || error);
+    await flushAuditLog();
+    process.exit(1);
+  });
+}
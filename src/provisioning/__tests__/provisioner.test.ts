@@ -0,0 +1,119 @@
+/**
+ * Provisioning against the card simulator: apply a profile, verify that a
+ * second plan has nothing left to do, then take payments on the result
+ */
+
+import path from 'path';
+import DESFireCard, { CommMode } from '../../card/desfire';
+import { SimulatedReader } from '../../card/simulatedReader';
+import { SimulatedCard } from '../../card/simulator';
+import { AuthenticateHook, PICC_AID } from '../planner';
+import { loadProfile, parseProfile } from '../profile';
+import { Provisioner } from '../provisioner';
+
+const ZERO_KEY = Buffer.alloc(16, 0x00);
+
+function cardOn(model: 'EV1' | 'EV2'): DESFireCard {
+  const reader = new SimulatedReader('Test Reader');
+  reader.present(new SimulatedCard({ model }));
+  return new DESFireCard(reader);
+}
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+test('the default profile provisions a blank card and then plans nothing', async () => {
+  const profile = loadProfile(path.join(__dirname, '../../../profiles/sabado-default.yaml'));
+  const card = cardOn('EV2');
+
+  const result = await new Provisioner(card).provision(profile);
+  // Two applications with three and one file
+  expect(result.applied.length).toBe(6);
+  expect(result.drift).toEqual([]);
+
+  const verify = await new Provisioner(card).plan(profile);
+  expect(verify.steps).toEqual([]);
+  expect(verify.drift).toEqual([]);
+
+  // Balance: R=K1, W=K2, RW=K2, plain
+  await card.selectApplication(0x000001);
+  await card.authenticateDES(2, ZERO_KEY);
+  await card.credit(0, 500);
+  await card.commitTransaction();
+  await card.debit(0, 120);
+  await card.commitTransaction();
+  expect(await card.getValue(0)).toBe(380);
+});
+
+describe.each<['EV1' | 'EV2', (card: DESFireCard, keyNo: number, key: Buffer) => Promise<void>]>([
+  ['EV1', (card, keyNo, key) => card.authenticateAES(keyNo, key)],
+  ['EV2', (card, keyNo, key) => card.authenticateEV2First(keyNo, key)]
+])('an AES profile on an %s card', (model, authenticateAes) => {
+  const profile = parseProfile({
+    name: 'aes-payment',
+    applications: [
+      {
+        aid: '0000A2',
+        keySettings: '0x0B',
+        numKeys: 3,
+        keyType: 'AES',
+        files: [
+          {
+            fileNo: 0,
+            type: 'value',
+            commMode: 'full',
+            accessRights: { read: 1, write: 2, readWrite: 2, change: 0 },
+            upperLimit: 100000,
+            limitedCredit: true
+          },
+          {
+            fileNo: 1,
+            type: 'cyclic',
+            commMode: 'mac',
+            accessRights: { read: 1, write: 2, readWrite: 2, change: 0 },
+            recordSize: 16,
+            maxRecords: 5
+          },
+          {
+            fileNo: 2,
+            type: 'std',
+            commMode: 'full',
+            accessRights: { read: 'free', write: 0, readWrite: 0, change: 0 },
+            fileSize: 64
+          }
+        ]
+      }
+    ]
+  });
+  const authenticate: AuthenticateHook = (card, aid) =>
+    aid === PICC_AID ? card.authenticateDES(0, ZERO_KEY) : authenticateAes(card, 0, ZERO_KEY);
+
+  test('provisions, verifies and takes payments in the file comm modes', async () => {
+    const card = cardOn(model);
+
+    const result = await new Provisioner(card, { authenticate }).provision(profile);
+    expect(result.applied.length).toBe(4);
+    const verify = await new Provisioner(card, { authenticate }).plan(profile);
+    expect(verify.steps).toEqual([]);
+    expect(verify.drift).toEqual([]);
+
+    await card.selectApplication(0x0000A2);
+    await authenticateAes(card, 2, ZERO_KEY);
+    await card.credit(0, 1000, CommMode.FULL);
+    await card.writeRecord(1, 0, Buffer.alloc(16, 0x01), CommMode.MAC);
+    await card.commitTransaction();
+    await card.debit(0, 250, CommMode.FULL);
+    await card.writeRecord(1, 0, Buffer.alloc(16, 0x02), CommMode.MAC);
+    await card.commitTransaction();
+
+    await authenticateAes(card, 1, ZERO_KEY);
+    expect(await card.getValue(0, CommMode.FULL)).toBe(750);
+    const records = await card.readRecords(1, 0, 0, CommMode.MAC);
+    expect(records).toEqual(Buffer.concat([Buffer.alloc(16, 0x01), Buffer.alloc(16, 0x02)]));
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Key rotation against the card simulator: a rotation campaign (EV2 key
+ * sets) and the key version upgrade of a card that missed a rotation
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import DESFireCard from '../../card/desfire';
+import KeyManager from '../../card/keyManager';
+import { FileKeyStore } from '../../card/keyStore';
+import { SimulatedReader } from '../../card/simulatedReader';
+import { SimulatedCard } from '../../card/simulator';
+import { authenticateWithKeyVersion } from '../keyVersions';
+import { personalizeKeys } from '../personalizer';
+import { RotationCampaign } from '../rotationCampaign';
+
+const APP = 0x0000B1;
+
+let dir: string;
+let keyManager: KeyManager;
+
+/**
+ * Card with APP personalized to version 1 of a generated AES key set
+ */
+async function personalizedCard(model: 'EV1' | 'EV2'): Promise<DESFireCard> {
+  const reader = new SimulatedReader('Test Reader');
+  reader.present(new SimulatedCard({ model }));
+  const card = new DESFireCard(reader);
+  await card.getVersion();
+
+  await card.selectApplication(0);
+  await card.authenticateDES(0, Buffer.alloc(16, 0x00));
+  await card.createApplication(APP, 0x0F, 3, 0x80);
+  await card.selectApplication(APP);
+
+  keyManager.generateKeySet(APP, 3, 'AES');
+  [0, 1, 2].forEach((keyNo) => keyManager.rotateKey(APP, keyNo));
+  keyManager.saveKeySet(APP);
+  await personalizeKeys(card, keyManager.getKeySet(APP)!, 1);
+  return card;
+}
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'desfire-rotation-'));
+  keyManager = new KeyManager(new FileKeyStore(dir));
+  keyManager.setMasterKey('rotation-test-master-key');
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test('a campaign rolls an EV2 card to the staged key set', async () => {
+  const card = await personalizedCard('EV2');
+  const oldK1 = keyManager.getKey(APP, 1);
+
+  const campaign = RotationCampaign.start(keyManager, APP, 1);
+  const progress = await campaign.upgradeCard(card);
+  expect(progress.state).toBe('rolled');
+  expect(progress.changedKeys).toEqual([0, 1, 2]);
+  expect(await card.getKeyVersion(1)).toBe(2);
+
+  // During the campaign the card authenticates with the staged keys
+  const auth = await authenticateWithKeyVersion(card, keyManager, APP, 1, { ev2: true });
+  expect(auth.cardVersion).toBe(2);
+  await expect(card.authenticateEV2First(1, oldK1)).rejects.toThrow();
+
+  campaign.complete();
+  expect(keyManager.getKeyVersion(APP, 1)).toBe(2);
+  await card.selectApplication(APP);
+  await card.authenticateEV2First(1, keyManager.getKey(APP, 1));
+  expect(card.getAuthenticatedKeyNo()).toBe(1);
+});
+
+test('a card that missed a rotation is upgraded on its next tap', async () => {
+  const card = await personalizedCard('EV1');
+  const oldK1 = keyManager.getKey(APP, 1);
+  expect(keyManager.rotateKey(APP, 1)).toBe(2);
+
+  await card.selectApplication(APP);
+  const result = await authenticateWithKeyVersion(card, keyManager, APP, 1, { upgrade: true });
+  expect(result).toEqual({ keyNo: 1, cardVersion: 1, currentVersion: 2, upgraded: [1] });
+  expect(card.getAuthenticatedKeyNo()).toBe(1);
+  expect(await card.getKeyVersion(1)).toBe(2);
+
+  await expect(card.authenticateAES(1, oldK1)).rejects.toThrow();
+  await card.authenticateAES(1, keyManager.getKey(APP, 1));
+  expect(card.getAuthenticatedKeyNo()).toBe(1);
+});
@@ -0,0 +1,113 @@
+/**
+ * Key Version Authentication
+ * Reads the version of a card key before authenticating and picks the
+ * matching key generation from the KeyManager, so cards that missed a key
+ * rotation still authenticate. Stale keys can be upgraded to the current
+ * generation on the same tap. Cards already rolled to the staged key set of
+ * a rotation campaign authenticate with the staged keys and are left alone.
+ */
+
+import DESFireCard from '../card/desfire';
+import KeyManager, { KeySet } from '../card/keyManager';
+import { authenticateKey } from './personalizer';
+
+export interface KeyVersionAuthOptions {
+  /** Card UID for diversified key sets (defaults to the UID read by GetVersion) */
+  uid?: Buffer;
+  /** Use EV2 first authentication for AES keys */
+  ev2?: boolean;
+  /** Change a stale key to the current generation after authenticating */
+  upgrade?: boolean;
+  /** Key that authorizes key changes (default K0) */
+  changeKeyNo?: number;
+}
+
+export interface KeyVersionAuthResult {
+  keyNo: number;
+  /** Key version found on the card */
+  cardVersion: number;
+  /** Current key version in the key set */
+  currentVersion: number;
+  /** Key numbers changed to the current generation during this call */
+  upgraded: number[];
+}
+
+/**
+ * Authenticate to the selected application with the key generation the card carries
+ * With options.upgrade, a stale key is changed to the current generation
+ * (authorized by options.changeKeyNo, upgraded first if stale itself) and
+ * the session ends authenticated with the current key.
+ */
+export async function authenticateWithKeyVersion(
+  card: DESFireCard,
+  keyManager: KeyManager,
+  appId: number,
+  keyNo: number,
+  options: KeyVersionAuthOptions = {}
+): Promise<KeyVersionAuthResult> {
+  const keySet = keySetOf(keyManager, appId);
+  const uid = options.uid ?? card.getCardUid() ?? undefined;
+  const currentVersion = keyManager.getKeyVersion(appId, keyNo);
+  const cardVersion = await card.getKeyVersion(keyNo);
+  const cardKey = keyForVersion(keyManager, appId, keyNo, cardVersion, uid);
+  const result: KeyVersionAuthResult = { keyNo, cardVersion, currentVersion, upgraded: [] };
+
+  const staged = keyManager.getStagedKeySet(appId)?.version === cardVersion;
+  if (cardVersion === currentVersion || staged || !options.upgrade) {
+    await authenticateKey(card, keySet.keyType, keyNo, cardKey, options.ev2);
+    return result;
+  }
+
+  const changeKeyNo = options.changeKeyNo ?? 0;
+  const currentKey = keyManager.getKey(appId, keyNo, uid);
+  if (changeKeyNo === keyNo) {
+    await authenticateKey(card, keySet.keyType, keyNo, cardKey, options.ev2);
+    await card.changeKey(keyNo, currentKey, undefined, currentVersion, keySet.keyType);
+  } else {
+    const change = await authenticateWithKeyVersion(card, keyManager, appId, changeKeyNo, { ...options, uid });
+    result.upgraded.push(...change.upgraded);
+    await card.changeKey(keyNo, currentKey, cardKey, currentVersion, keySet.keyType);
+  }
+  result.upgraded.push(keyNo);
+  console.log(`Upgraded K${keyNo} of 0x${appId.toString(16).padStart(6, '0')} from version ${cardVersion} to ${currentVersion}`);
+
+  await authenticateKey(card, keySet.keyType, keyNo, currentKey, options.ev2);
+  return result;
+}
+
+/**
+ * Compare the key versions on the card with the key set of the selected application
+ * @returns Key numbers whose card version differs from the current generation
+ */
+export async function staleKeys(card: DESFireCard, keyManager: KeyManager, appId: number): Promise<number[]> {
+  const keySet = keySetOf(keyManager, appId);
+  const stale: number[] = [];
+  const keyNos = Array.from(keySet.keys.keys()).sort((a, b) => a - b);
+  for (const keyNo of keyNos) {
+    const version = await card.getKeyVersion(keyNo);
+    if (version !== keyManager.getKeyVersion(appId, keyNo) && version !== keySet.staged?.version) {
+      stale.push(keyNo);
+    }
+  }
+  return stale;
+}
+
+function keySetOf(keyManager: KeyManager, appId: number): KeySet {
+  const keySet = keyManager.getKeySet(appId);
+  if (!keySet) {
+    throw new Error(`Key set not loaded for application 0x${appId.toString(16).padStart(6, '0')}`);
+  }
+  return keySet;
+}
+
+function keyForVersion(keyManager: KeyManager, appId: number, keyNo: number, version: number, uid?: Buffer): Buffer {
+  const key = keyManager.getKeyForVersion(appId, keyNo, version, uid);
+  if (!key) {
+    const known = keyManager.getKeyGenerations(appId, keyNo).map((g) => g.version).join(', ');
+    throw new Error(
+      `Card key K${keyNo} of 0x${appId.toString(16).padStart(6, '0')} has version ${version}, ` +
+      `which is not in the key history (known: ${known || 'none'})`
+    );
+  }
+  return key;
+}
@@ -0,0 +1,76 @@
+/**
+ * Key Personalization
+ * Replaces the factory default keys of an application with card-specific
+ * keys. Personalized keys carry a non-zero key version, so an interrupted
+ * run can be resumed: keys that already have the target version are skipped.
+ */
+
+import DESFireCard from '../card/desfire';
+import { KeySet, KeyType } from '../card/keyManager';
+
+/**
+ * Factory default key of an application key type
+ */
+export function defaultKeyFor(keyType: KeyType): Buffer {
+  return Buffer.alloc(keyType === '3DES' ? 24 : 16, 0x00);
+}
+
+/**
+ * Authenticate with the scheme matching the application key type
+ * @param ev2 Use EV2 first authentication for AES keys
+ */
+export async function authenticateKey(card: DESFireCard, keyType: KeyType, keyNo: number, key: Buffer, ev2: boolean = false): Promise<void> {
+  if (keyType === 'AES' && ev2) {
+    await card.authenticateEV2First(keyNo, key);
+  } else if (keyType === 'AES') {
+    await card.authenticateAES(keyNo, key);
+  } else {
+    await card.authenticateDES(keyNo, key);
+  }
+}
+
+/**
+ * Change all keys of the selected application to the keys of keySet
+ * Keys other than K0 are changed first (K0 authenticates those changes);
+ * changing K0 ends the session.
+ * @param version Key version of the personalized keys (must be non-zero)
+ * @returns Key numbers that were changed by this call
+ */
+export async function personalizeKeys(
+  card: DESFireCard,
+  keySet: KeySet,
+  version: number
+): Promise<number[]> {
+  if (version === 0) {
+    throw new Error('Personalized keys need a non-zero key version');
+  }
+  if (keySet.keyType === '3DES') {
+    throw new Error('3K3DES key personalization is not supported (requires ISO authentication)');
+  }
+
+  const defaultKey = defaultKeyFor(keySet.keyType);
+  const newK0 = keySet.keys.get(0);
+  if (!newK0) {
+    throw new Error(`Key set for 0x${keySet.appId.toString(16).padStart(6, '0')} has no K0`);
+  }
+
+  const changed: number[] = [];
+  const k0Done = (await card.getKeyVersion(0)) === version;
+  await authenticateKey(card, keySet.keyType, 0, k0Done ? newK0 : defaultKey);
+
+  const keyNos = Array.from(keySet.keys.keys()).filter((n) => n !== 0).sort((a, b) => a - b);
+  for (const keyNo of keyNos) {
+    if ((await card.getKeyVersion(keyNo)) === version) continue;
+    await card.changeKey(keyNo, keySet.keys.get(keyNo)!, defaultKey, version, keySet.keyType);
+    changed.push(keyNo);
+  }
+
+  if (!k0Done) {
+    await card.changeKey(0, newK0, undefined, version, keySet.keyType);
+    changed.push(0);
+  }
+
+  // Prove the new master key works
+  await authenticateKey(card, keySet.keyType, 0, newK0);
+  return changed;
+}
@@ -0,0 +1,332 @@
+/**
+ * Provisioning Planner
+ * Reads the actual state of a card, diffs it against a CardProfile and
+ * produces a plan of the changes needed. Differences that cannot be fixed
+ * in place (without deleting data or formatting) are reported as drift.
+ */
+
+import DESFireCard, { CommMode } from '../card/desfire';
+import { ACCESS_FREE, AccessRights, FileSettings, describeAccess } from '../card/fileSettings';
+import { ApplicationProfile, CardProfile, FileProfile, describeFile, keyTypeFlag } from './profile';
+
+export const PICC_AID = 0x000000;
+
+export type AuthenticateHook = (card: DESFireCard, aid: number) => Promise<void>;
+
+export interface AppState {
+  aid: number;
+  keySettings: { settings: number; maxKeys: number; keyType: number } | null;
+  /** Key versions by key number (null if unreadable) */
+  keyVersions: (number | null)[];
+  fileIds: number[];
+  files: Map<number, FileSettings>;
+  /** Read failures, e.g. missing authentication */
+  errors: string[];
+}
+
+export interface CardState {
+  piccKeySettings: number | null;
+  applications: number[];
+  apps: Map<number, AppState>;
+}
+
+export type PlanStep =
+  | { action: 'change-picc-key-settings'; aid: number; keySettings: number; description: string }
+  | { action: 'create-app'; aid: number; app: ApplicationProfile; description: string }
+  | { action: 'change-key-settings'; aid: number; keySettings: number; description: string }
+  | { action: 'create-file'; aid: number; file: FileProfile; description: string }
+  | {
+      action: 'change-file-settings';
+      aid: number;
+      fileNo: number;
+      commMode: CommMode;
+      accessRights: AccessRights;
+      /** Current Change right is free: the command must be sent plain */
+      changeFree: boolean;
+      description: string;
+    };
+
+export interface ProvisionPlan {
+  profile: string;
+  steps: PlanStep[];
+  /** Differences that cannot be fixed without deleting data or formatting */
+  drift: string[];
+  /** Observations that need no action */
+  notes: string[];
+}
+
+export function formatAid(aid: number): string {
+  return '0x' + aid.toString(16).padStart(6, '0');
+}
+
+const COMM_MODE_NAMES: Record<number, string> = {
+  [CommMode.PLAIN]: 'plain',
+  [CommMode.MAC]: 'mac',
+  [CommMode.FULL]: 'full'
+};
+
+function describeRights(rights: AccessRights): string {
+  return `R=${describeAccess(rights.read)} W=${describeAccess(rights.write)} ` +
+    `RW=${describeAccess(rights.readWrite)} C=${describeAccess(rights.change)}`;
+}
+
+function sameRights(a: AccessRights, b: AccessRights): boolean {
+  return a.read === b.read && a.write === b.write && a.readWrite === b.readWrite && a.change === b.change;
+}
+
+// ============================================================================
+// READING CARD STATE
+// ============================================================================
+
+async function select(card: DESFireCard, aid: number, authenticate?: AuthenticateHook): Promise<void> {
+  await card.selectApplication(aid);
+  if (authenticate) await authenticate(card, aid);
+}
+
+/**
+ * Read the parts of the card state a profile refers to
+ * A failed read drops the card's authentication state, so the hook is
+ * called again before the next read.
+ */
+export async function readCardState(
+  card: DESFireCard,
+  profile: CardProfile,
+  authenticate?: AuthenticateHook
+): Promise<CardState> {
+  await select(card, PICC_AID, authenticate);
+
+  let piccKeySettings: number | null = null;
+  if (profile.picc?.keySettings !== undefined) {
+    try {
+      piccKeySettings = (await card.getKeySettings()).settings;
+    } catch {
+      await select(card, PICC_AID, authenticate);
+    }
+  }
+
+  const state: CardState = {
+    piccKeySettings,
+    applications: await card.getApplicationIDs(),
+    apps: new Map()
+  };
+
+  for (const app of profile.applications) {
+    if (!state.applications.includes(app.aid)) continue;
+
+    const appState: AppState = {
+      aid: app.aid,
+      keySettings: null,
+      keyVersions: [],
+      fileIds: [],
+      files: new Map(),
+      errors: []
+    };
+    const attempt = async <T>(what: string, fn: () => Promise<T>): Promise<T | null> => {
+      try {
+        return await fn();
+      } catch (error: any) {
+        appState.errors.push(`${what}: ${error?.message || error}`);
+        await select(card, app.aid, authenticate);
+        return null;
+      }
+    };
+
+    await select(card, app.aid, authenticate);
+    appState.keySettings = await attempt('key settings', () => card.getKeySettings());
+
+    const numKeys = appState.keySettings?.maxKeys ?? app.numKeys;
+    for (let keyNo = 0; keyNo < numKeys; keyNo++) {
+      appState.keyVersions.push(await attempt(`key ${keyNo} version`, () => card.getKeyVersion(keyNo)));
+    }
+
+    appState.fileIds = (await attempt('file IDs', () => card.getFileIDs())) ?? [];
+    for (const fileNo of appState.fileIds) {
+      const settings = await attempt(`file ${fileNo} settings`, () => card.getFileSettings(fileNo));
+      if (settings) appState.files.set(fileNo, settings);
+    }
+
+    state.apps.set(app.aid, appState);
+  }
+
+  await select(card, PICC_AID);
+  return state;
+}
+
+// ============================================================================
+// DIFF
+// ============================================================================
+
+/**
+ * Layout differences of an existing file that ChangeFileSettings cannot fix
+ */
+function fileLayoutDrift(file: FileProfile, actual: FileSettings): string[] {
+  if (actual.type !== file.type) {
+    return [`type is ${actual.type}, expected ${file.type}`];
+  }
+
+  const drift: string[] = [];
+  const check = (name: string, actualValue: unknown, expected: unknown) => {
+    if (actualValue !== expected) drift.push(`${name} is ${actualValue}, expected ${expected}`);
+  };
+
+  if ((file.type === 'std' || file.type === 'backup') && (actual.type === 'std' || actual.type === 'backup')) {
+    check('size', actual.fileSize, file.fileSize);
+  } else if (file.type === 'value' && actual.type === 'value') {
+    check('lower limit', actual.lowerLimit, file.lowerLimit);
+    check('upper limit', actual.upperLimit, file.upperLimit);
+    check('limited credit', actual.limitedCreditEnabled, file.limitedCredit);
+    check('free GetValue', actual.freeGetValue, file.freeGetValue);
+  } else if ((file.type === 'linear' || file.type === 'cyclic') && (actual.type === 'linear' || actual.type === 'cyclic')) {
+    check('record size', actual.recordSize, file.recordSize);
+    check('max records', actual.maxRecords, file.maxRecords);
+  }
+  return drift;
+}
+
+function planApplication(app: ApplicationProfile, state: CardState, plan: ProvisionPlan): void {
+  const label = `App ${formatAid(app.aid)}${app.name ? ` (${app.name})` : ''}`;
+
+  if (!state.applications.includes(app.aid)) {
+    plan.steps.push({
+      action: 'create-app',
+      aid: app.aid,
+      app,
+      description: `Create ${label}: ${app.numKeys} ${app.keyType} keys, key settings 0x${app.keySettings.toString(16).padStart(2, '0')}`
+    });
+    for (const file of app.files) {
+      plan.steps.push({
+        action: 'create-file',
+        aid: app.aid,
+        file,
+        description: `${label}: create ${describeFile(file)}${file.name ? ` (${file.name})` : ''}`
+      });
+    }
+    return;
+  }
+
+  const appState = state.apps.get(app.aid)!;
+  for (const error of appState.errors) {
+    plan.drift.push(`${label}: could not read ${error}`);
+  }
+
+  const keySettings = appState.keySettings;
+  if (keySettings) {
+    if (keySettings.maxKeys !== app.numKeys) {
+      plan.drift.push(`${label}: has ${keySettings.maxKeys} keys, expected ${app.numKeys}`);
+    }
+    if (keySettings.keyType !== keyTypeFlag(app.keyType)) {
+      plan.drift.push(`${label}: key type 0x${keySettings.keyType.toString(16)}, expected ${app.keyType}`);
+    }
+    if (keySettings.settings !== app.keySettings) {
+      plan.steps.push({
+        action: 'change-key-settings',
+        aid: app.aid,
+        keySettings: app.keySettings,
+        description: `${label}: change key settings 0x${keySettings.settings.toString(16).padStart(2, '0')} -> 0x${app.keySettings.toString(16).padStart(2, '0')}`
+      });
+    }
+  }
+
+  const versions = appState.keyVersions.map((v, i) => `K${i}=${v === null ? '?' : v}`).join(' ');
+  if (versions) plan.notes.push(`${label}: key versions ${versions}`);
+
+  for (const file of app.files) {
+    const fileLabel = `${label}: file ${file.fileNo}${file.name ? ` (${file.name})` : ''}`;
+
+    if (!appState.fileIds.includes(file.fileNo)) {
+      plan.steps.push({
+        action: 'create-file',
+        aid: app.aid,
+        file,
+        description: `${label}: create ${describeFile(file)}${file.name ? ` (${file.name})` : ''}`
+      });
+      continue;
+    }
+
+    const actual = appState.files.get(file.fileNo);
+    if (!actual) continue; // Read failure already reported
+
+    for (const d of fileLayoutDrift(file, actual)) {
+      plan.drift.push(`${fileLabel}: ${d}`);
+    }
+    if (actual.type !== file.type) continue;
+
+    if (actual.commMode !== file.commMode || !sameRights(actual.accessRights, file.accessRights)) {
+      const changes: string[] = [];
+      if (actual.commMode !== file.commMode) {
+        changes.push(`comm mode ${COMM_MODE_NAMES[actual.commMode]} -> ${COMM_MODE_NAMES[file.commMode]}`);
+      }
+      if (!sameRights(actual.accessRights, file.accessRights)) {
+        changes.push(`access ${describeRights(actual.accessRights)} -> ${describeRights(file.accessRights)}`);
+      }
+      plan.steps.push({
+        action: 'change-file-settings',
+        aid: app.aid,
+        fileNo: file.fileNo,
+        commMode: file.commMode,
+        accessRights: file.accessRights,
+        changeFree: actual.accessRights.change === ACCESS_FREE,
+        description: `${fileLabel}: ${changes.join(', ')}`
+      });
+    }
+  }
+
+  for (const fileNo of appState.fileIds) {
+    if (!app.files.some((f) => f.fileNo === fileNo)) {
+      plan.notes.push(`${label}: file ${fileNo} is not part of the profile`);
+    }
+  }
+}
+
+/**
+ * Diff the card state against a profile
+ */
+export function planProvisioning(profile: CardProfile, state: CardState): ProvisionPlan {
+  const plan: ProvisionPlan = { profile: profile.name, steps: [], drift: [], notes: [] };
+
+  const piccSettings = profile.picc?.keySettings;
+  if (piccSettings !== undefined) {
+    if (state.piccKeySettings === null) {
+      plan.drift.push('PICC: could not read key settings');
+    } else if (state.piccKeySettings !== piccSettings) {
+      plan.steps.push({
+        action: 'change-picc-key-settings',
+        aid: PICC_AID,
+        keySettings: piccSettings,
+        description: `PICC: change key settings 0x${state.piccKeySettings.toString(16).padStart(2, '0')} -> 0x${piccSettings.toString(16).padStart(2, '0')}`
+      });
+    }
+  }
+
+  for (const app of profile.applications) {
+    planApplication(app, state, plan);
+  }
+
+  for (const aid of state.applications) {
+    if (!profile.applications.some((a) => a.aid === aid)) {
+      plan.notes.push(`App ${formatAid(aid)} is not part of the profile`);
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Human-readable plan
+ */
+export function formatPlan(plan: ProvisionPlan): string {
+  const lines: string[] = [`Plan for profile "${plan.profile}":`];
+  if (plan.steps.length === 0) {
+    lines.push('  No changes needed');
+  }
+  plan.steps.forEach((step, i) => lines.push(`  ${i + 1}. ${step.description}`));
+  if (plan.drift.length) {
+    lines.push('Drift (cannot be fixed without a format):');
+    plan.drift.forEach((d) => lines.push(`  ! ${d}`));
+  }
+  if (plan.notes.length) {
+    lines.push('Notes:');
+    plan.notes.forEach((n) => lines.push(`  - ${n}`));
+  }
+  return lines.join('\n');
+}
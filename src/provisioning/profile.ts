@@ -0,0 +1,325 @@
+/**
+ * Card Profiles
+ * Declarative description of a card layout (PICC settings, applications,
+ * files) loaded from JSON or YAML, so each deployment can ship its own layout.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import { KeyType } from '../card/keyManager';
+import { CommMode } from '../card/desfire';
+import { AccessRights, ACCESS_FREE, ACCESS_NEVER } from '../card/fileSettings';
+
+export interface CardProfile {
+  name: string;
+  description?: string;
+  picc?: PiccProfile;
+  applications: ApplicationProfile[];
+}
+
+export interface PiccProfile {
+  /** PICC master key settings byte (applied when authenticated at PICC level) */
+  keySettings?: number;
+}
+
+export interface ApplicationProfile {
+  aid: number;
+  name?: string;
+  keySettings: number;
+  numKeys: number;
+  keyType: KeyType;
+  /** ISO 7816-4 file ID and DF name (optional) */
+  isoFileId?: number;
+  dfName?: Buffer;
+  files: FileProfile[];
+}
+
+interface FileProfileBase {
+  fileNo: number;
+  name?: string;
+  commMode: CommMode;
+  accessRights: AccessRights;
+}
+
+export interface DataFileProfile extends FileProfileBase {
+  type: 'std' | 'backup';
+  fileSize: number;
+}
+
+export interface ValueFileProfile extends FileProfileBase {
+  type: 'value';
+  lowerLimit: number;
+  upperLimit: number;
+  value: number;
+  limitedCredit: boolean;
+  freeGetValue: boolean;
+}
+
+export interface RecordFileProfile extends FileProfileBase {
+  type: 'linear' | 'cyclic';
+  recordSize: number;
+  maxRecords: number;
+}
+
+export type FileProfile = DataFileProfile | ValueFileProfile | RecordFileProfile;
+
+/**
+ * Key type byte used by CreateApplication
+ */
+export function keyTypeFlag(keyType: KeyType): number {
+  if (keyType === 'AES') return 0x80;
+  if (keyType === '3DES') return 0x40;
+  return 0x00;
+}
+
+/**
+ * Default layout (Sabado):
+ * - App 1 (0x000001): balance value file, transaction history, metadata
+ * - App 2 (0x000002): 1KB third-party storage
+ */
+export const DEFAULT_PROFILE: CardProfile = {
+  name: 'sabado-default',
+  description: 'Sabado payment application and third-party storage',
+  applications: [
+    {
+      aid: 0x000001,
+      name: 'Sabado Payment',
+      keySettings: 0x0F,
+      numKeys: 5,
+      // DES/3DES by default for broad compatibility (EV1/ACR122U)
+      keyType: 'DES',
+      files: [
+        {
+          fileNo: 0x00,
+          name: 'balance',
+          type: 'value',
+          commMode: CommMode.PLAIN,
+          accessRights: { read: 1, write: 2, readWrite: 2, change: 3 },
+          lowerLimit: 0,
+          upperLimit: 1000000,
+          value: 0,
+          limitedCredit: true,
+          freeGetValue: false
+        },
+        {
+          fileNo: 0x01,
+          name: 'transaction history',
+          type: 'cyclic',
+          commMode: CommMode.PLAIN,
+          accessRights: { read: 1, write: 2, readWrite: 2, change: 3 },
+          recordSize: 24, // [type 1][amount 4][epochMs 8][balance 4][reserved 7]
+          maxRecords: 40  // 39 usable records
+        },
+        {
+          fileNo: 0x02,
+          name: 'metadata',
+          type: 'std',
+          commMode: CommMode.PLAIN,
+          accessRights: { read: 1, write: 2, readWrite: 2, change: 3 },
+          fileSize: 256
+        }
+      ]
+    },
+    {
+      aid: 0x000002,
+      name: 'Third-Party',
+      keySettings: 0x0F,
+      numKeys: 5,
+      keyType: 'DES',
+      files: [
+        {
+          fileNo: 0x00,
+          name: 'storage',
+          type: 'std',
+          commMode: CommMode.PLAIN,
+          accessRights: { read: 1, write: 2, readWrite: 2, change: 3 },
+          fileSize: 1024
+        }
+      ]
+    }
+  ]
+};
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+function fail(where: string, message: string): never {
+  throw new Error(`Invalid profile (${where}): ${message}`);
+}
+
+/**
+ * Integer from a number or a hex string ("0x0F", "000001")
+ */
+function parseInteger(value: unknown, where: string, hex: boolean = false): number {
+  if (typeof value === 'number' && Number.isInteger(value)) return value;
+  if (typeof value === 'string' && value.trim()) {
+    const text = value.trim();
+    const n = /^0x/i.test(text) || hex ? parseInt(text.replace(/^0x/i, ''), 16) : parseInt(text, 10);
+    if (!Number.isNaN(n)) return n;
+  }
+  return fail(where, `expected an integer, got ${JSON.stringify(value)}`);
+}
+
+function parseRange(value: unknown, where: string, min: number, max: number, hex: boolean = false): number {
+  const n = parseInteger(value, where, hex);
+  if (n < min || n > max) fail(where, `${n} is out of range ${min}-${max}`);
+  return n;
+}
+
+function parseCommMode(value: unknown, where: string): CommMode {
+  if (value === undefined) return CommMode.PLAIN;
+  if (value === CommMode.PLAIN || value === CommMode.MAC || value === CommMode.FULL) return value;
+  switch (String(value).toLowerCase()) {
+    case 'plain': return CommMode.PLAIN;
+    case 'mac': return CommMode.MAC;
+    case 'full': return CommMode.FULL;
+  }
+  return fail(where, `commMode must be plain, mac or full`);
+}
+
+function parseAccess(value: unknown, where: string): number {
+  if (value === 'free') return ACCESS_FREE;
+  if (value === 'never') return ACCESS_NEVER;
+  return parseRange(value, where, 0, 0x0F);
+}
+
+function parseAccessRights(value: any, where: string): AccessRights {
+  if (!value || typeof value !== 'object') fail(where, 'accessRights must be an object');
+  return {
+    read: parseAccess(value.read, `${where}.read`),
+    write: parseAccess(value.write, `${where}.write`),
+    readWrite: parseAccess(value.readWrite, `${where}.readWrite`),
+    change: parseAccess(value.change, `${where}.change`)
+  };
+}
+
+function parseKeyType(value: unknown, where: string): KeyType {
+  if (value === 'AES' || value === 'DES' || value === '3DES') return value;
+  return fail(where, 'keyType must be AES, DES or 3DES');
+}
+
+function parseFile(raw: any, where: string): FileProfile {
+  if (!raw || typeof raw !== 'object') fail(where, 'file must be an object');
+  const base = {
+    fileNo: parseRange(raw.fileNo, `${where}.fileNo`, 0, 31),
+    name: raw.name !== undefined ? String(raw.name) : undefined,
+    commMode: parseCommMode(raw.commMode, `${where}.commMode`),
+    accessRights: parseAccessRights(raw.accessRights, `${where}.accessRights`)
+  };
+
+  switch (raw.type) {
+    case 'std':
+    case 'backup':
+      return { ...base, type: raw.type, fileSize: parseRange(raw.fileSize, `${where}.fileSize`, 1, 0xFFFFFF) };
+    case 'value': {
+      const file: ValueFileProfile = {
+        ...base,
+        type: 'value',
+        lowerLimit: parseInteger(raw.lowerLimit ?? 0, `${where}.lowerLimit`),
+        upperLimit: parseInteger(raw.upperLimit, `${where}.upperLimit`),
+        value: parseInteger(raw.value ?? 0, `${where}.value`),
+        limitedCredit: raw.limitedCredit === true,
+        freeGetValue: raw.freeGetValue === true
+      };
+      if (file.lowerLimit > file.upperLimit || file.value < file.lowerLimit || file.value > file.upperLimit) {
+        fail(where, 'value limits must satisfy lowerLimit <= value <= upperLimit');
+      }
+      return file;
+    }
+    case 'linear':
+    case 'cyclic':
+      return {
+        ...base,
+        type: raw.type,
+        recordSize: parseRange(raw.recordSize, `${where}.recordSize`, 1, 0xFFFFFF),
+        maxRecords: parseRange(raw.maxRecords, `${where}.maxRecords`, raw.type === 'cyclic' ? 2 : 1, 0xFFFFFF)
+      };
+  }
+  return fail(where, 'type must be std, backup, value, linear or cyclic');
+}
+
+function parseApplication(raw: any, where: string): ApplicationProfile {
+  if (!raw || typeof raw !== 'object') fail(where, 'application must be an object');
+  const app: ApplicationProfile = {
+    aid: parseRange(raw.aid, `${where}.aid`, 1, 0xFFFFFF, true),
+    name: raw.name !== undefined ? String(raw.name) : undefined,
+    keySettings: parseRange(raw.keySettings ?? 0x0F, `${where}.keySettings`, 0, 0xFF),
+    numKeys: parseRange(raw.numKeys, `${where}.numKeys`, 1, 14),
+    keyType: parseKeyType(raw.keyType ?? 'AES', `${where}.keyType`),
+    files: []
+  };
+  if (raw.isoFileId !== undefined) {
+    app.isoFileId = parseRange(raw.isoFileId, `${where}.isoFileId`, 0, 0xFFFF, true);
+  }
+  if (raw.dfName !== undefined) {
+    if (app.isoFileId === undefined) fail(where, 'dfName requires isoFileId');
+    app.dfName = Buffer.from(String(raw.dfName), 'hex');
+    if (app.dfName.length < 1 || app.dfName.length > 16) fail(`${where}.dfName`, 'must be 1-16 bytes (hex)');
+  }
+
+  const files = raw.files ?? [];
+  if (!Array.isArray(files)) fail(where, 'files must be a list');
+  app.files = files.map((f: any, i: number) => parseFile(f, `${where}.files[${i}]`));
+
+  const seen = new Set<number>();
+  for (const f of app.files) {
+    if (seen.has(f.fileNo)) fail(where, `duplicate file number ${f.fileNo}`);
+    seen.add(f.fileNo);
+  }
+  return app;
+}
+
+/**
+ * Validate and normalize a profile object (as parsed from JSON/YAML)
+ * Numbers may be given as hex strings; access rights accept "free"/"never".
+ */
+export function parseProfile(raw: any): CardProfile {
+  if (!raw || typeof raw !== 'object') fail('root', 'profile must be an object');
+  if (!Array.isArray(raw.applications)) fail('root', 'applications must be a list');
+
+  const profile: CardProfile = {
+    name: raw.name ? String(raw.name) : 'unnamed',
+    description: raw.description !== undefined ? String(raw.description) : undefined,
+    applications: raw.applications.map((a: any, i: number) => parseApplication(a, `applications[${i}]`))
+  };
+  if (raw.picc) {
+    profile.picc = {};
+    if (raw.picc.keySettings !== undefined) {
+      profile.picc.keySettings = parseRange(raw.picc.keySettings, 'picc.keySettings', 0, 0xFF);
+    }
+  }
+
+  const seen = new Set<number>();
+  for (const app of profile.applications) {
+    if (seen.has(app.aid)) fail('root', `duplicate AID 0x${app.aid.toString(16).padStart(6, '0')}`);
+    seen.add(app.aid);
+  }
+  return profile;
+}
+
+/**
+ * Load a profile from a .json, .yaml or .yml file
+ */
+export function loadProfile(filePath: string): CardProfile {
+  const text = fs.readFileSync(filePath, 'utf8');
+  const ext = path.extname(filePath).toLowerCase();
+  const raw = ext === '.yaml' || ext === '.yml' ? YAML.parse(text) : JSON.parse(text);
+  return parseProfile(raw);
+}
+
+/**
+ * Human-readable one-line description of a file profile
+ */
+export function describeFile(file: FileProfile): string {
+  switch (file.type) {
+    case 'std':
+    case 'backup':
+      return `${file.type === 'std' ? 'Std' : 'Backup'} Data File ${file.fileNo}, ${file.fileSize}B`;
+    case 'value':
+      return `Value File ${file.fileNo}, ${file.lowerLimit}..${file.upperLimit}`;
+    default:
+      return `${file.type === 'linear' ? 'Linear' : 'Cyclic'} Record File ${file.fileNo}, ${file.maxRecords} x ${file.recordSize}B`;
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Card Provisioner
+ * Applies a CardProfile to a DESFire card using a plan/apply flow: the
+ * card state is diffed against the profile first and only the needed
+ * changes are made.
+ */
+
+import DESFireCard, { CommMode } from '../card/desfire';
+import { encodeAccessRights, VALUE_FREE_GET_VALUE, VALUE_LIMITED_CREDIT } from '../card/fileSettings';
+import { CardProfile, ApplicationProfile, FileProfile, keyTypeFlag } from './profile';
+import { AuthenticateHook, PICC_AID, PlanStep, ProvisionPlan, planProvisioning, readCardState } from './planner';
+
+export { formatAid, formatPlan } from './planner';
+
+export interface ProvisionerOptions {
+  /**
+   * Called after selecting the PICC (aid 0) or an application, before any
+   * read or change is made there. Cards with default (free create) key
+   * settings do not need it.
+   */
+  authenticate?: AuthenticateHook;
+}
+
+export interface ProvisionResult {
+  applied: string[];
+  drift: string[];
+}
+
+/**
+ * Create a file described by a file profile in the selected application
+ */
+export async function createFile(card: DESFireCard, file: FileProfile): Promise<void> {
+  const accessRights = encodeAccessRights(file.accessRights);
+
+  switch (file.type) {
+    case 'std':
+      await card.createStdDataFile(file.fileNo, file.commMode, accessRights, file.fileSize);
+      break;
+    case 'backup':
+      await card.createBackupDataFile(file.fileNo, file.commMode, accessRights, file.fileSize);
+      break;
+    case 'value':
+      await card.createValueFile(
+        file.fileNo,
+        file.commMode,
+        accessRights,
+        file.lowerLimit,
+        file.upperLimit,
+        file.value,
+        (file.limitedCredit ? VALUE_LIMITED_CREDIT : 0) | (file.freeGetValue ? VALUE_FREE_GET_VALUE : 0)
+      );
+      break;
+    case 'linear':
+      await card.createLinearRecordFile(file.fileNo, file.commMode, accessRights, file.recordSize, file.maxRecords);
+      break;
+    case 'cyclic':
+      await card.createCyclicRecordFile(file.fileNo, file.commMode, accessRights, file.recordSize, file.maxRecords);
+      break;
+  }
+}
+
+/**
+ * Create an application described by an application profile (PICC must be selected)
+ */
+export async function createApplication(card: DESFireCard, app: ApplicationProfile): Promise<void> {
+  await card.createApplication(
+    app.aid,
+    app.keySettings,
+    app.numKeys,
+    keyTypeFlag(app.keyType),
+    app.isoFileId !== undefined ? { fileId: app.isoFileId, dfName: app.dfName } : undefined
+  );
+}
+
+export class Provisioner {
+  private card: DESFireCard;
+  private options: ProvisionerOptions;
+  private selectedAid: number | null = null;
+
+  constructor(card: DESFireCard, options: ProvisionerOptions = {}) {
+    this.card = card;
+    this.options = options;
+  }
+
+  /**
+   * Read the card state and diff it against the profile (no changes are made)
+   */
+  async plan(profile: CardProfile): Promise<ProvisionPlan> {
+    const state = await readCardState(this.card, profile, this.options.authenticate);
+    this.selectedAid = PICC_AID;
+    return planProvisioning(profile, state);
+  }
+
+  /**
+   * Execute the steps of a plan in order
+   * Drift is not touched; it is returned for reporting.
+   */
+  async apply(plan: ProvisionPlan): Promise<ProvisionResult> {
+    const result: ProvisionResult = { applied: [], drift: [...plan.drift] };
+
+    console.log(`Applying ${plan.steps.length} step(s) for profile "${plan.profile}"...`);
+    for (const step of plan.steps) {
+      await this.applyStep(step);
+      result.applied.push(step.description);
+    }
+
+    await this.select(PICC_AID);
+    return result;
+  }
+
+  /**
+   * Plan and apply in one go
+   */
+  async provision(profile: CardProfile): Promise<ProvisionResult> {
+    return await this.apply(await this.plan(profile));
+  }
+
+  private async applyStep(step: PlanStep): Promise<void> {
+    switch (step.action) {
+      case 'change-picc-key-settings':
+        await this.select(PICC_AID);
+        await this.card.changeKeySettings(step.keySettings);
+        break;
+      case 'create-app':
+        await this.select(PICC_AID);
+        await createApplication(this.card, step.app);
+        break;
+      case 'change-key-settings':
+        await this.select(step.aid);
+        await this.card.changeKeySettings(step.keySettings);
+        break;
+      case 'create-file':
+        await this.select(step.aid);
+        await createFile(this.card, step.file);
+        break;
+      case 'change-file-settings':
+        await this.select(step.aid);
+        await this.card.changeFileSettings(
+          step.fileNo,
+          step.commMode,
+          step.accessRights,
+          step.changeFree ? CommMode.PLAIN : undefined
+        );
+        break;
+    }
+  }
+
+  private async select(aid: number): Promise<void> {
+    if (this.selectedAid === aid && this.card.isAuthenticated()) return;
+    await this.card.selectApplication(aid);
+    this.selectedAid = aid;
+    if (this.options.authenticate) {
+      await this.options.authenticate(this.card, aid);
+    }
+  }
+}
+
+export default Provisioner;
@@ -0,0 +1,259 @@
+/**
+ * Key Rotation Campaign
+ * Rolls the keys of an application across a fleet of EV2 cards using card
+ * key sets. The new keys are staged in the KeyManager; each card is upgraded
+ * when it is presented:
+ *
+ *   InitializeKeySet -> ChangeKeyEV2 (every key) -> FinalizeKeySet -> RollKeySet
+ *
+ * Progress is recorded per UID after every step (encrypted in the key store
+ * as campaign_XXXXXX), so a card pulled mid-upgrade resumes on its next tap.
+ * During the campaign cards on either key set authenticate: the card's key
+ * version selects the current or the staged keys. Completing the campaign
+ * makes the staged keys current and keeps the old ones in the key history.
+ */
+
+import DESFireCard from '../card/desfire';
+import KeyManager, { KeyType } from '../card/keyManager';
+import { authenticateWithKeyVersion } from './keyVersions';
+
+export type CardRotationState = 'initialized' | 'changed' | 'finalized' | 'rolled' | 'failed';
+export type CampaignStatus = 'active' | 'completed' | 'cancelled';
+
+export interface CardRotationProgress {
+  uid: string;
+  state: CardRotationState;
+  /** Keys written to the new key set so far */
+  changedKeys: number[];
+  updatedAt: string;
+  /** Step that failed */
+  failedIn?: CardRotationState | 'authenticate';
+  error?: string;
+}
+
+export interface CampaignState {
+  appId: number;
+  keyType: KeyType;
+  keySetNo: number;
+  version: number;
+  status: CampaignStatus;
+  startedAt: string;
+  finishedAt?: string;
+  cards: Record<string, CardRotationProgress>;
+}
+
+export interface CampaignSummary {
+  appId: string;
+  keySetNo: number;
+  version: number;
+  status: CampaignStatus;
+  startedAt: string;
+  finishedAt?: string;
+  cards: Record<CardRotationState, number>;
+}
+
+// InitializeKeySet key type byte (bits 7-6 = 10: AES)
+const KEY_SET_TYPE_AES = 0x80;
+
+function formatAppId(appId: number): string {
+  return `0x${appId.toString(16).padStart(6, '0')}`;
+}
+
+export class RotationCampaign {
+  private constructor(private keyManager: KeyManager, private state: CampaignState) {}
+
+  /**
+   * Stage a new key set for the application and start a campaign
+   * The application key set must be loaded; it is saved with the staged keys.
+   * @param keySetNo Card key set to prepare (must differ from the active one)
+   */
+  static start(keyManager: KeyManager, appId: number, keySetNo: number = 1): RotationCampaign {
+    const existing = keyManager.loadCampaign(appId) as CampaignState | null;
+    if (existing && existing.status === 'active') {
+      throw new Error(`A rotation campaign for ${formatAppId(appId)} is already active`);
+    }
+    const keySet = keyManager.getKeySet(appId);
+    if (!keySet) {
+      throw new Error(`Key set not loaded for application ${formatAppId(appId)}`);
+    }
+    if (keySet.keyType !== 'AES') {
+      throw new Error('Key set rotation requires AES keys (EV2 secure messaging)');
+    }
+
+    const staged = keyManager.stageKeySet(appId, keySetNo);
+    keyManager.saveKeySet(appId);
+
+    const campaign = new RotationCampaign(keyManager, {
+      appId,
+      keyType: keySet.keyType,
+      keySetNo,
+      version: staged.version,
+      status: 'active',
+      startedAt: staged.stagedAt,
+      cards: {}
+    });
+    campaign.save();
+    console.log(`Rotation campaign for ${formatAppId(appId)} started: key set ${keySetNo}, version ${staged.version}`);
+    return campaign;
+  }
+
+  /**
+   * Load the campaign of an application, or null if there is none
+   */
+  static load(keyManager: KeyManager, appId: number): RotationCampaign | null {
+    const state = keyManager.loadCampaign(appId) as CampaignState | null;
+    return state ? new RotationCampaign(keyManager, state) : null;
+  }
+
+  get appId(): number {
+    return this.state.appId;
+  }
+
+  get status(): CampaignStatus {
+    return this.state.status;
+  }
+
+  /**
+   * Progress of one card, or null if it was not presented yet
+   */
+  getCard(uid: string): CardRotationProgress | null {
+    return this.state.cards[uid.toUpperCase()] || null;
+  }
+
+  summary(): CampaignSummary {
+    const cards: Record<CardRotationState, number> = { initialized: 0, changed: 0, finalized: 0, rolled: 0, failed: 0 };
+    Object.values(this.state.cards).forEach((card) => cards[card.state]++);
+    return {
+      appId: formatAppId(this.state.appId),
+      keySetNo: this.state.keySetNo,
+      version: this.state.version,
+      status: this.state.status,
+      startedAt: this.state.startedAt,
+      finishedAt: this.state.finishedAt,
+      cards
+    };
+  }
+
+  /**
+   * Upgrade a presented card to the staged key set
+   * The card must have been identified with GetVersion (or setCardUid).
+   * A card pulled after FinalizeKeySet resumes with RollKeySet; otherwise
+   * the key set is initialized again. A card already on the new key set is
+   * only recorded as rolled.
+   */
+  async upgradeCard(card: DESFireCard): Promise<CardRotationProgress> {
+    if (this.state.status !== 'active') {
+      throw new Error(`Rotation campaign for ${formatAppId(this.state.appId)} is ${this.state.status}`);
+    }
+    const uidBuffer = card.getCardUid();
+    if (!uidBuffer) {
+      throw new Error('Card UID unknown; call getVersion() first');
+    }
+    const uid = uidBuffer.toString('hex').toUpperCase();
+    const { appId, keySetNo, version } = this.state;
+    const previous = this.state.cards[uid];
+    let state: CardRotationState | 'authenticate' = 'authenticate';
+    let changedKeys: number[] = [];
+
+    try {
+      await card.selectApplication(appId);
+      const auth = await authenticateWithKeyVersion(card, this.keyManager, appId, 0, { uid: uidBuffer, ev2: true });
+      if (auth.cardVersion === version) {
+        return this.record(uid, 'rolled', previous?.changedKeys || []);
+      }
+
+      // A finalized key set can no longer be changed, only rolled to
+      const resumeRoll = previous?.state === 'finalized';
+      if (resumeRoll) {
+        changedKeys = previous.changedKeys;
+      } else {
+        state = 'initialized';
+        await card.initializeKeySet(keySetNo, KEY_SET_TYPE_AES);
+        this.record(uid, 'initialized', changedKeys);
+
+        state = 'changed';
+        const keyNos = Array.from(this.keyManager.getStagedKeySet(appId)!.keys.keys()).sort((a, b) => a - b);
+        for (const keyNo of keyNos) {
+          const newKey = this.keyManager.getStagedKey(appId, keyNo, uidBuffer);
+          await card.changeKeyEV2(keySetNo, keyNo, newKey, undefined, version, 'AES');
+          changedKeys = [...changedKeys, keyNo];
+        }
+        this.record(uid, 'changed', changedKeys);
+
+        state = 'finalized';
+        await card.finalizeKeySet(keySetNo, version);
+        this.record(uid, 'finalized', changedKeys);
+      }
+
+      state = 'rolled';
+      await card.rollKeySet(keySetNo);
+      await card.authenticateEV2First(0, this.keyManager.getStagedKey(appId, 0, uidBuffer));
+      const progress = this.record(uid, 'rolled', changedKeys);
+      console.log(`Card ${uid} rolled to key set ${keySetNo} (version ${version})`);
+      return progress;
+    } catch (error: any) {
+      const message = error?.message || String(error);
+      const progress = this.record(uid, 'failed', changedKeys, { failedIn: state, error: message });
+      console.log(`Card ${uid} rotation failed (${progress.failedIn}): ${message}`);
+      return progress;
+    }
+  }
+
+  /**
+   * Make the staged keys current and close the campaign
+   * Cards that were not rolled keep working with the old keys (key history)
+   * and can be upgraded with authenticateWithKeyVersion({ upgrade: true }).
+   */
+  complete(): CampaignSummary {
+    this.requireActive();
+    this.keyManager.promoteStagedKeySet(this.state.appId);
+    this.keyManager.saveKeySet(this.state.appId);
+    this.finish('completed');
+    return this.summary();
+  }
+
+  /**
+   * Abandon the campaign and discard the staged keys
+   * Refused once a card has rolled to the new key set (its keys would be lost).
+   */
+  cancel(): CampaignSummary {
+    this.requireActive();
+    const rolled = Object.values(this.state.cards).filter((card) => card.state === 'rolled');
+    if (rolled.length) {
+      throw new Error(`${rolled.length} card(s) already use the new key set; complete the campaign instead`);
+    }
+    this.keyManager.discardStagedKeySet(this.state.appId);
+    this.keyManager.saveKeySet(this.state.appId);
+    this.finish('cancelled');
+    return this.summary();
+  }
+
+  private requireActive(): void {
+    if (this.state.status !== 'active') {
+      throw new Error(`Rotation campaign for ${formatAppId(this.state.appId)} is ${this.state.status}`);
+    }
+  }
+
+  private finish(status: CampaignStatus): void {
+    this.state.status = status;
+    this.state.finishedAt = new Date().toISOString();
+    this.save();
+    console.log(`Rotation campaign for ${formatAppId(this.state.appId)} ${status}`);
+  }
+
+  private record(
+    uid: string,
+    state: CardRotationState,
+    changedKeys: number[],
+    extra: Pick<CardRotationProgress, 'failedIn' | 'error'> = {}
+  ): CardRotationProgress {
+    const progress: CardRotationProgress = { uid, state, changedKeys, updatedAt: new Date().toISOString(), ...extra };
+    this.state.cards[uid] = progress;
+    this.save();
+    return progress;
+  }
+
+  private save(): void {
+    this.keyManager.saveCampaign(this.state.appId, this.state);
+  }
+}
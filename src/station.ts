@@ -0,0 +1,275 @@
+/**
+ * Batch Provisioning Station
+ * Provisions card after card from a card profile:
+ *   npm run station -- profiles/sabado-default.yaml
+ *
+ * For every card: plan/apply the profile, replace the factory keys with
+ * card-specific keys (stored encrypted in the keystore before they are
+ * written), and write a per-UID JSON report to STATION_REPORT_DIR.
+ * A card pulled mid-provisioning is reported as interrupted; tapping it
+ * again resumes where it stopped.
+ */
+
+import 'dotenv/config';
+import fs from 'fs';
+import path from 'path';
+import { ReaderManager, createReaderManager } from './card/transport';
+import DESFireCard from './card/desfire';
+import KeyManager, { KdfAlgorithm, KeySet } from './card/keyManager';
+import { createKeyStore } from './card/keyStore';
+import { CardProfile, DEFAULT_PROFILE, loadProfile } from './provisioning/profile';
+import { Provisioner, formatAid, formatPlan } from './provisioning/provisioner';
+import { personalizeKeys } from './provisioning/personalizer';
+import { promptMasterKey } from './cli/prompt';
+import { auditLogFromEnv, configureAuditLog, flushAuditLog } from './audit/auditLog';
+
+const REPORT_DIR = process.env.STATION_REPORT_DIR || './reports';
+const KEY_DIR = process.env.STATION_KEY_DIR; // File store directory (defaults to KEYSTORE_DIR)
+const PERSONALIZED_KEY_VERSION = 1;
+
+type CardStatus = 'success' | 'failed' | 'interrupted';
+
+interface StepReport {
+  name: string;
+  ok: boolean;
+  ms: number;
+  detail?: string;
+  error?: string;
+}
+
+interface CardReport {
+  uid: string;
+  reader: string;
+  profile: string;
+  status: CardStatus;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  steps: StepReport[];
+  error?: string;
+}
+
+function loadStationProfile(): CardProfile {
+  const profilePath = process.argv[2] || process.env.PROVISION_PROFILE;
+  return profilePath ? loadProfile(profilePath) : DEFAULT_PROFILE;
+}
+
+async function createKeyManager(): Promise<KeyManager> {
+  const keyManager = new KeyManager(createKeyStore({ dir: KEY_DIR }));
+  if (process.env.KEYSTORE_MASTER_PASSWORD) {
+    keyManager.setMasterKey(process.env.KEYSTORE_MASTER_PASSWORD, (process.env.KEYSTORE_KDF || 'scrypt') as KdfAlgorithm);
+  } else if (process.env.KEYSTORE_MASTER_KEY_HEX) {
+    keyManager.setMasterKey(Buffer.from(process.env.KEYSTORE_MASTER_KEY_HEX.replace(/\s+/g, ''), 'hex'));
+  } else if (process.stdin.isTTY && keyManager.getShareSetId()) {
+    // Master password, or a quorum of key shares after a key ceremony
+    keyManager.setMasterKey(await promptMasterKey(keyManager.getShareSetId()));
+  } else {
+    throw new Error('KEYSTORE_MASTER_PASSWORD or KEYSTORE_MASTER_KEY_HEX is required to store card keys');
+  }
+  return keyManager;
+}
+
+export class ProvisioningStation {
+  private profile: CardProfile;
+  private keyManager: KeyManager;
+  private busy = false;
+  private removed = false;
+  private tally: Record<CardStatus, number> = { success: 0, failed: 0, interrupted: 0 };
+  private totalMs = 0;
+
+  constructor(profile: CardProfile, keyManager: KeyManager) {
+    this.profile = profile;
+    this.keyManager = keyManager;
+    fs.mkdirSync(REPORT_DIR, { recursive: true });
+  }
+
+  attach(readerManager: ReaderManager): void {
+    readerManager.on('card-detected', ({ reader, card }: any) => {
+      if (this.busy) {
+        console.log('Station busy; ignoring card');
+        return;
+      }
+      this.processCard(reader, card).catch((error) => {
+        console.error('Unexpected station error:', error);
+      });
+    });
+
+    readerManager.on('card-removed', () => {
+      if (this.busy) this.removed = true;
+    });
+  }
+
+  /**
+   * Provision one card and record the outcome
+   */
+  async processCard(reader: any, card: any): Promise<CardReport> {
+    this.busy = true;
+    this.removed = false;
+
+    const started = Date.now();
+    const report: CardReport = {
+      uid: String(card?.uid || 'unknown').toUpperCase(),
+      reader: reader?.reader?.name || 'unknown',
+      profile: this.profile.name,
+      status: 'failed',
+      startedAt: new Date(started).toISOString(),
+      finishedAt: '',
+      durationMs: 0,
+      steps: []
+    };
+
+    const step = async <T>(name: string, fn: () => Promise<T>, detail?: (result: T) => string): Promise<T> => {
+      if (this.removed) throw new Error('Card removed');
+      const t0 = Date.now();
+      try {
+        const result = await fn();
+        report.steps.push({ name, ok: true, ms: Date.now() - t0, detail: detail ? detail(result) : undefined });
+        return result;
+      } catch (error: any) {
+        report.steps.push({ name, ok: false, ms: Date.now() - t0, error: error?.message || String(error) });
+        throw error;
+      }
+    };
+
+    console.log('');
+    console.log('-'.repeat(60));
+
+    try {
+      const desfire = new DESFireCard(reader);
+
+      // The third GetVersion frame is UID (7 bytes) || batch number || production date
+      const version = await step('get-version', () => desfire.getVersion(), (v) => v.uid.toString('hex').toUpperCase());
+      const uid = version.uid.subarray(0, 7);
+      if (uid.length) report.uid = uid.toString('hex').toUpperCase();
+      console.log(`Card ${report.uid}`);
+
+      const provisioner = new Provisioner(desfire);
+      const plan = await step('plan', () => provisioner.plan(this.profile), (p) => `${p.steps.length} step(s), ${p.drift.length} drift`);
+      console.log(formatPlan(plan));
+      if (plan.drift.length) {
+        throw new Error(`Card drifted from profile: ${plan.drift.join('; ')}`);
+      }
+
+      await step('apply', () => provisioner.apply(plan), (r) => `${r.applied.length} change(s)`);
+
+      const keySets = await step('keys', async () => this.cardKeySets(report.uid), (k) => `${k.length} key set(s)`);
+
+      for (const keySet of keySets) {
+        await step(`personalize ${formatAid(keySet.appId)}`, async () => {
+          await desfire.selectApplication(keySet.appId);
+          return personalizeKeys(desfire, keySet, PERSONALIZED_KEY_VERSION);
+        }, (changed) => changed.length ? `changed K${changed.join(', K')}` : 'already personalized');
+      }
+
+      await step('verify', async () => {
+        const verify = await provisioner.plan(this.profile);
+        if (verify.steps.length) throw new Error(`${verify.steps.length} step(s) still pending`);
+      });
+
+      report.status = 'success';
+    } catch (error: any) {
+      report.error = error?.message || String(error);
+      report.status = this.removed ? 'interrupted' : 'failed';
+    } finally {
+      report.finishedAt = new Date().toISOString();
+      report.durationMs = Date.now() - started;
+      this.busy = false;
+    }
+
+    this.writeReport(report);
+    this.tally[report.status]++;
+    this.totalMs += report.durationMs;
+
+    const icon = report.status === 'success' ? '✓' : report.status === 'interrupted' ? '⚠' : '✗';
+    console.log(`${icon} ${report.uid}: ${report.status} in ${report.durationMs}ms${report.error ? ` (${report.error})` : ''}`);
+    if (report.status === 'interrupted') {
+      console.log('  Card was removed; tap it again to resume');
+    }
+    console.log(this.formatTally());
+    console.log('Remove card and place the next one...');
+    return report;
+  }
+
+  /**
+   * Key sets for a card: the stored ones if it was (partially) personalized
+   * before, otherwise freshly generated and stored before use
+   */
+  private cardKeySets(uid: string): KeySet[] {
+    const stored = this.keyManager.loadCardKeySets(uid);
+    if (stored) return stored;
+
+    const keySets: KeySet[] = this.profile.applications.map((app) => {
+      const keySet: KeySet = { appId: app.aid, keyType: app.keyType, keys: new Map(), keyVersions: new Map() };
+      for (let keyNo = 0; keyNo < app.numKeys; keyNo++) {
+        keySet.keys.set(keyNo, this.keyManager.generateKey(app.keyType));
+        keySet.keyVersions.set(keyNo, PERSONALIZED_KEY_VERSION);
+      }
+      return keySet;
+    });
+
+    this.keyManager.saveCardKeySets(uid, keySets);
+    return keySets;
+  }
+
+  /**
+   * Append the attempt to reports/<UID>.json
+   */
+  private writeReport(report: CardReport): void {
+    const filename = path.join(REPORT_DIR, `${report.uid.replace(/[^0-9A-Za-z_-]/g, '_')}.json`);
+    let attempts: CardReport[] = [];
+    try {
+      attempts = JSON.parse(fs.readFileSync(filename, 'utf8')).attempts || [];
+    } catch {}
+    attempts.push(report);
+
+    const data = { uid: report.uid, status: report.status, attempts };
+    const tmp = `${filename}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(data, null, 2));
+    fs.renameSync(tmp, filename);
+  }
+
+  formatTally(): string {
+    const total = this.tally.success + this.tally.failed + this.tally.interrupted;
+    const avg = total ? (this.totalMs / total / 1000).toFixed(1) : '0.0';
+    return `Tally: ${this.tally.success} ok, ${this.tally.failed} failed, ${this.tally.interrupted} interrupted ` +
+      `(${total} card(s), avg ${avg}s)`;
+  }
+}
+
+async function runStation() {
+  console.log('='.repeat(60));
+  console.log('DESFire Provisioning Station');
+  console.log('='.repeat(60));
+
+  configureAuditLog(auditLogFromEnv('station'));
+  const profile = loadStationProfile();
+  const keyManager = await createKeyManager();
+  const station = new ProvisioningStation(profile, keyManager);
+  console.log(`Profile: ${profile.name}`);
+  console.log(`Reports: ${path.resolve(REPORT_DIR)}`);
+  console.log(`Key store: ${keyManager.getKeyStore().backend}`);
+
+  const readerManager = createReaderManager();
+  readerManager.on('reader-connected', () => {
+    console.log('Place a card on the reader...');
+  });
+  station.attach(readerManager);
+
+  process.on('SIGINT', async () => {
+    console.log('');
+    console.log(station.formatTally());
+    readerManager.close();
+    keyManager.clearKeys();
+    keyManager.getKeyStore().close();
+    await flushAuditLog();
+    process.exit(0);
+  });
+}
+
+if (require.main === module) {
+  runStation().catch(async (error) => {
+    console.error('ERROR:', error?.message || error);
+    await flushAuditLog();
+    process.exit(1);
+  });
+}
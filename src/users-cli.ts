@@ -0,0 +1,137 @@
+/**
+ * Web Users CLI
+ *   npm run users -- list
+ *   npm run users -- add <name> --role admin|operator|cashier|key_custodian|auditor
+ *   npm run users -- passwd <name>
+ *   npm run users -- role <name> <role>
+ *   npm run users -- remove <name>
+ *   npm run users -- token <name> --name till-1     Create an API token (shown once)
+ *   npm run users -- revoke <name> <token id>
+ *
+ * Users are stored in WEB_USERS_FILE (default ./keys/web-users.json).
+ * Passwords are read from WEB_USER_PASSWORD or prompted for twice.
+ * Role changes and removals apply to running servers on the next request.
+ */
+
+import 'dotenv/config';
+import os from 'os';
+import { ROLES, ROLE_PERMISSIONS, Role, UserStore, isRole } from './web/auth';
+import { auditLogFromEnv, configureAuditLog, flushAuditLog } from './audit/auditLog';
+import { promptHidden } from './cli/prompt';
+
+const args = process.argv.slice(2);
+
+function option(name: string): string | undefined {
+  const i = args.indexOf(name);
+  return i >= 0 ? args[i + 1] : undefined;
+}
+
+function userStore(): UserStore {
+  return new UserStore(process.env.WEB_USERS_FILE || './keys/web-users.json');
+}
+
+function requireArg(index: number, usage: string): string {
+  const value = args[index];
+  if (!value || value.startsWith('--')) {
+    throw new Error(`Usage: ${usage}`);
+  }
+  return value;
+}
+
+function requireRole(value: string | undefined): Role {
+  if (!value || !isRole(value)) {
+    throw new Error(`Role must be one of: ${ROLES.join(', ')}`);
+  }
+  return value;
+}
+
+async function newPassword(): Promise<string> {
+  if (process.env.WEB_USER_PASSWORD) return process.env.WEB_USER_PASSWORD;
+  const password = await promptHidden('Password: ');
+  const again = await promptHidden('Repeat password: ');
+  if (password !== again) throw new Error('Passwords do not match');
+  return password;
+}
+
+async function list(): Promise<void> {
+  const users = userStore().list();
+  if (!users.length) {
+    console.log('No users');
+    return;
+  }
+  users.forEach((user) => {
+    console.log(`${user.username}  ${user.role}  (created ${user.createdAt})`);
+    user.tokens.forEach((token) => {
+      console.log(`    token ${token.id}  ${token.name}  last used ${token.lastUsedAt || 'never'}`);
+    });
+  });
+  console.log('');
+  ROLES.forEach((role) => console.log(`${role}: ${ROLE_PERMISSIONS[role].join(', ')}`));
+}
+
+async function add(): Promise<void> {
+  const username = requireArg(1, 'add <name> --role <role>');
+  const role = requireRole(option('--role'));
+  userStore().addUser(username, await newPassword(), role);
+  console.log(`User ${username} added (${role})`);
+}
+
+async function passwd(): Promise<void> {
+  const username = requireArg(1, 'passwd <name>');
+  userStore().setPassword(username, await newPassword());
+  console.log(`Password of ${username} changed`);
+}
+
+async function role(): Promise<void> {
+  const username = requireArg(1, 'role <name> <role>');
+  const newRole = requireRole(args[2]);
+  userStore().setRole(username, newRole);
+  console.log(`${username} is now ${newRole}`);
+}
+
+async function remove(): Promise<void> {
+  const username = requireArg(1, 'remove <name>');
+  userStore().removeUser(username);
+  console.log(`User ${username} removed`);
+}
+
+async function token(): Promise<void> {
+  const username = requireArg(1, 'token <name> --name <label>');
+  const name = option('--name') || 'api';
+  const value = userStore().createToken(username, name);
+  console.log(`API token for ${username} (${name}); it is not shown again:`);
+  console.log(value);
+}
+
+async function revoke(): Promise<void> {
+  const username = requireArg(1, 'revoke <name> <token id>');
+  const id = requireArg(2, 'revoke <name> <token id>');
+  if (!userStore().revokeToken(username, id)) {
+    throw new Error(`${username} has no token ${id}`);
+  }
+  console.log(`Token ${id} of ${username} revoked`);
+}
+
+const COMMANDS: Record<string, () => Promise<void>> = {
+  list,
+  add,
+  passwd,
+  role,
+  remove,
+  token,
+  revoke
+};
+
+if (require.main === module) {
+  const command = COMMANDS[args[0]];
+  if (!command) {
+    console.log(`Usage: npm run users -- <${Object.keys(COMMANDS).join('|')}>`);
+    process.exit(args[0] ? 1 : 0);
+  }
+  configureAuditLog(auditLogFromEnv(`cli:${os.userInfo().username}`));
+  command().catch(async (error) => {
+    console.error('ERROR:', error?.message || error);
+    await flushAuditLog();
+    process.exit(1);
+  });
+}
@@ -0,0 +1,176 @@
+/**
+ * Web access control: the permissions of each role, the route guard, and
+ * sessions and API tokens resolving to the current role of their user
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Request, Response } from 'express';
+import { AuditLog, configureAuditLog } from '../../audit/auditLog';
+import {
+  hasPermission,
+  Permission,
+  Principal,
+  requirePermission,
+  resolvePrincipal,
+  Role,
+  ROLE_PERMISSIONS,
+  ROLES,
+  SessionStore,
+  UserStore
+} from '../auth';
+
+const PASSWORD = 'correct horse battery';
+
+let dir: string;
+let users: UserStore;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'desfire-web-auth-'));
+  users = new UserStore(path.join(dir, 'users.json'));
+});
+
+afterEach(() => {
+  configureAuditLog(null);
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('role permissions', () => {
+  const granted = (permission: Permission) => ROLES.filter((role) => hasPermission(role, permission));
+
+  test('admin has every permission', () => {
+    const all = new Set(Object.values(ROLE_PERMISSIONS).flat());
+    expect([...all].every((permission) => hasPermission('admin', permission))).toBe(true);
+  });
+
+  test('npm scripts are admin only', () => {
+    expect(granted('scripts:run')).toEqual(['admin']);
+  });
+
+  test('only admins and auditors verify the audit log', () => {
+    expect(granted('audit:read')).toEqual(['admin', 'auditor']);
+  });
+
+  test('a cashier reads balances and debits, nothing else', () => {
+    expect(ROLE_PERMISSIONS.cashier).toEqual(['status:read', 'payment:read', 'payment:debit']);
+  });
+
+  test('an auditor only reads', () => {
+    for (const permission of ROLE_PERMISSIONS.auditor) {
+      expect(permission).toMatch(/:read$/);
+    }
+  });
+
+  test('keys are revealed, managed and unlocked by key custodians, not by the card desk', () => {
+    const custodians: Role[] = ['admin', 'key_custodian'];
+    for (const permission of ['keys:manage', 'keys:reveal', 'keys:unlock', 'keystore:rotate-master'] as Permission[]) {
+      expect(granted(permission)).toEqual(custodians);
+    }
+    expect(granted('payment:credit')).toEqual(['admin', 'operator']);
+    expect(granted('card:format')).toEqual(['admin', 'operator']);
+  });
+});
+
+describe('requirePermission', () => {
+  interface MockResponse {
+    locals: { principal?: Principal };
+    statusCode?: number;
+    body?: any;
+    status(code: number): MockResponse;
+    json(body: any): MockResponse;
+  }
+
+  function call(permission: Permission, principal?: Principal): { res: MockResponse; next: jest.Mock } {
+    const res: MockResponse = {
+      locals: { principal },
+      status(code) {
+        this.statusCode = code;
+        return this;
+      },
+      json(body) {
+        this.body = body;
+        return this;
+      }
+    };
+    const req = { method: 'POST', originalUrl: '/api/run-script?x=1' } as Request;
+    const next = jest.fn();
+    requirePermission(permission)(req, res as unknown as Response, next);
+    return { res, next };
+  }
+
+  test('passes a principal with the permission on', () => {
+    const { res, next } = call('payment:debit', { username: 'till', role: 'cashier', via: 'token', tokenName: 'till-1' });
+    expect(next).toHaveBeenCalled();
+    expect(res.statusCode).toBeUndefined();
+  });
+
+  test('answers 401 without a principal', () => {
+    const { res, next } = call('status:read');
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(401);
+  });
+
+  test('answers 403 without the permission and records the refusal', async () => {
+    const file = path.join(dir, 'audit.jsonl');
+    const log = new AuditLog(file);
+    configureAuditLog(log);
+
+    const { res, next } = call('scripts:run', { username: 'bob', role: 'operator', via: 'session' });
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(403);
+    expect(res.body).toEqual({ error: 'Role operator lacks permission scripts:run' });
+
+    await log.flush();
+    const [record] = fs.readFileSync(file, 'utf8').trim().split('\n').map((line) => JSON.parse(line));
+    expect(record).toMatchObject({
+      action: 'web.denied',
+      outcome: 'failed',
+      details: { method: 'POST', path: '/api/run-script', permission: 'scripts:run' }
+    });
+  });
+});
+
+describe('resolvePrincipal', () => {
+  test('a session follows role changes and ends with its user', () => {
+    users.addUser('alice', PASSWORD, 'operator');
+    const sessions = new SessionStore(60_000);
+    const principal = users.verifyLogin('alice', PASSWORD)!;
+    const { token } = sessions.create(principal);
+
+    expect(resolvePrincipal(token, users, sessions)).toMatchObject({ username: 'alice', role: 'operator' });
+    users.setRole('alice', 'auditor');
+    expect(resolvePrincipal(token, users, sessions)).toMatchObject({ username: 'alice', role: 'auditor' });
+    users.removeUser('alice');
+    expect(resolvePrincipal(token, users, sessions)).toBeNull();
+  });
+
+  test('expired and revoked sessions and wrong passwords resolve to nobody', () => {
+    users.addUser('alice', PASSWORD, 'operator');
+    expect(users.verifyLogin('alice', 'wrong password!')).toBeNull();
+    expect(users.verifyLogin('mallory', PASSWORD)).toBeNull();
+
+    const expiring = new SessionStore(-1);
+    const expired = expiring.create(users.verifyLogin('alice', PASSWORD)!);
+    expect(resolvePrincipal(expired.token, users, expiring)).toBeNull();
+
+    const sessions = new SessionStore(60_000);
+    const { token } = sessions.create(users.verifyLogin('alice', PASSWORD)!);
+    sessions.revoke(token);
+    expect(resolvePrincipal(token, users, sessions)).toBeNull();
+    expect(resolvePrincipal(null, users, sessions)).toBeNull();
+  });
+
+  test('an API token resolves to its user until it is revoked', () => {
+    users.addUser('till', PASSWORD, 'cashier');
+    const token = users.createToken('till', 'till-1');
+    const sessions = new SessionStore(60_000);
+
+    expect(resolvePrincipal(token, users, sessions)).toEqual({ username: 'till', role: 'cashier', via: 'token', tokenName: 'till-1' });
+    expect(resolvePrincipal(`${token}x`, users, sessions)).toBeNull();
+
+    const [{ id }] = users.list()[0].tokens;
+    expect(users.revokeToken('till', id)).toBe(true);
+    expect(resolvePrincipal(token, users, sessions)).toBeNull();
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Card sessions: one card handle per card presence, ended when the card is
+ * removed, with the authentication kept only for the caller who made it
+ */
+
+import { SimulatedReader } from '../../card/simulatedReader';
+import { SimulatedCard } from '../../card/simulator';
+import { CardSessionManager } from '../cardSessions';
+
+const READER = 'Test Reader';
+const ZERO_KEY = Buffer.alloc(16);
+const ALICE = 'web:alice';
+const BOB = 'web:bob';
+
+let reader: SimulatedReader;
+let sessions: CardSessionManager;
+
+/** Place a new card on the reader and open its session, as the card detection does */
+function present(uid?: string) {
+  const card = new SimulatedCard({ model: 'EV2', uid: uid ? Buffer.from(uid, 'hex') : undefined });
+  reader.present(card);
+  return sessions.open(READER, reader, card.uid.toString('hex'));
+}
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+beforeEach(() => {
+  reader = new SimulatedReader(READER);
+  sessions = new CardSessionManager();
+});
+
+describe('session lifetime', () => {
+  test('requests get the session of the card on the reader', () => {
+    const session = present('04112233445566');
+    expect(sessions.require(READER, ALICE)).toBe(session);
+    expect(sessions.require(READER, ALICE, session.id)).toBe(session);
+    expect(sessions.list()).toMatchObject([{ id: session.id, readerName: READER, uid: '04112233445566', authenticated: false }]);
+  });
+
+  test('a request naming a session of a removed card is refused', () => {
+    const first = present('04112233445566');
+    sessions.close(READER);
+    expect(() => sessions.require(READER, ALICE, first.id)).toThrow('No card present');
+
+    const second = present('04aabbccddeeff');
+    expect(() => sessions.require(READER, ALICE, first.id)).toThrow(
+      `Card session ${first.id} ended (card removed or replaced); current session is ${second.id}`
+    );
+    expect(sessions.require(READER, ALICE, second.id)).toBe(second);
+  });
+
+  test('a new card replaces the session of the previous one', () => {
+    const first = present('04112233445566');
+    const second = present('04aabbccddeeff');
+    expect(second.id).not.toBe(first.id);
+    expect(sessions.list().map((info) => info.id)).toEqual([second.id]);
+    expect(sessions.get(READER)).toBe(second);
+  });
+
+  test('a reader without a card has no session', () => {
+    expect(() => sessions.require(READER, ALICE)).toThrow('No card present');
+    expect(() => sessions.require(undefined, ALICE)).toThrow('No card present');
+    expect(sessions.close(READER)).toBeNull();
+  });
+});
+
+describe('authentication', () => {
+  test('the selected application and authentication carry over for the same caller', async () => {
+    const session = sessions.require(present().readerName, ALICE);
+    await session.card.selectApplication(0);
+    await session.card.authenticateDES(0, ZERO_KEY);
+
+    const next = sessions.require(READER, ALICE, session.id);
+    expect(next).toBe(session);
+    expect(next.info()).toMatchObject({ application: '0x000000', authenticated: true, authenticatedKeyNo: 0, authenticatedBy: ALICE });
+  });
+
+  test('another caller starts from an unauthenticated card', async () => {
+    const session = sessions.require(present().readerName, ALICE);
+    await session.card.selectApplication(0);
+    await session.card.authenticateDES(0, ZERO_KEY);
+
+    sessions.require(READER, BOB);
+    expect(session.card.isAuthenticated()).toBe(false);
+    expect(session.info()).toMatchObject({ application: '0x000000', authenticated: false, authenticatedBy: null });
+  });
+
+  test('removing the card ends the authentication', async () => {
+    const session = sessions.require(present().readerName, ALICE);
+    await session.card.selectApplication(0);
+    await session.card.authenticateDES(0, ZERO_KEY);
+
+    expect(sessions.close(READER)).toBe(session);
+    expect(session.card.isAuthenticated()).toBe(false);
+  });
+});
+
+describe('reader operations', () => {
+  /** Start an operation of the session and wait until its function runs */
+  async function started(
+    session: ReturnType<typeof present>,
+    label: string,
+    fn: () => Promise<void>
+  ): Promise<{ operation: Promise<void> }> {
+    let running!: () => void;
+    const isRunning = new Promise<void>((resolve) => (running = resolve));
+    const operation = session.exclusive(label, () => {
+      running();
+      return fn();
+    });
+    await isRunning;
+    return { operation };
+  }
+
+  test('removing the card cancels the running and waiting operations of the session', async () => {
+    const session = present();
+    let release!: () => void;
+    const { operation: running } = await started(session, 'debit', () => new Promise<void>((resolve) => (release = resolve)));
+    const waiting = session.exclusive('history', async () => 'read');
+
+    sessions.close(READER);
+    await expect(running).rejects.toThrow(`${READER}: debit cancelled: card removed`);
+    await expect(waiting).rejects.toThrow(`${READER}: history cancelled: card removed`);
+
+    // The next card waits until the cancelled operation has stopped
+    const next = present();
+    const order: string[] = [];
+    const after = next.exclusive('status', async () => {
+      order.push('status');
+    });
+    await new Promise((resolve) => setImmediate(resolve));
+    order.push('debit stopped');
+    release();
+    await after;
+    expect(order).toEqual(['debit stopped', 'status']);
+  });
+
+  test('a cancelled operation stops before its next command to the card', async () => {
+    const session = present();
+    let resume!: () => void;
+    const paused = new Promise<void>((resolve) => (resume = resolve));
+    const transmit = jest.spyOn(reader, 'transmit');
+    const { operation } = await started(session, 'format', async () => {
+      await paused;
+      await session.card.getVersion();
+    });
+
+    sessions.close(READER);
+    resume();
+    await expect(operation).rejects.toThrow(`${READER}: format cancelled: card removed`);
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(transmit).not.toHaveBeenCalled();
+  });
+});
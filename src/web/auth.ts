@@ -0,0 +1,451 @@
+/**
+ * Web authentication and role-based access control
+ *
+ * Local users (scrypt password hashes) and their API tokens are kept in a
+ * JSON file (WEB_USERS_FILE, default ./keys/web-users.json). Users log in
+ * for a session token; terminals use long-lived API tokens. Both are sent as
+ * "Authorization: Bearer <token>" (the SSE log stream, which cannot set
+ * headers, takes ?token=). Each route declares the permission it needs and
+ * each role grants a fixed set of permissions.
+ */
+
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { NextFunction, Request, Response } from "express";
+import { audit } from "../audit/auditLog";
+
+export type Role =
+  | "admin"
+  | "operator"
+  | "cashier"
+  | "key_custodian"
+  | "auditor";
+
+export type Permission =
+  | "status:read"
+  | "logs:read"
+  | "scripts:run"
+  | "card:authenticate"
+  | "card:format"
+  | "payment:read"
+  | "payment:debit"
+  | "payment:credit"
+  | "payment:refund"
+  | "keys:read"
+  | "keys:use"
+  | "keys:manage"
+  | "keys:reveal"
+  | "keys:unlock"
+  | "keystore:rotate-master"
+  | "audit:read";
+
+export const ROLES: Role[] = [
+  "admin",
+  "operator",
+  "cashier",
+  "key_custodian",
+  "auditor",
+];
+
+const ALL_PERMISSIONS: Permission[] = [
+  "status:read",
+  "logs:read",
+  "scripts:run",
+  "card:authenticate",
+  "card:format",
+  "payment:read",
+  "payment:debit",
+  "payment:credit",
+  "payment:refund",
+  "keys:read",
+  "keys:use",
+  "keys:manage",
+  "keys:reveal",
+  "keys:unlock",
+  "keystore:rotate-master",
+  "audit:read",
+];
+
+/**
+ * Permissions of each role
+ *   operator       runs the card desk: card auth, format, payments (npm scripts are admin only)
+ *   cashier        reads balances and debits; never sees keys or formats cards
+ *   key_custodian  manages the keystore: key sets, reveal, shares, master rotation
+ *   auditor        read-only: status, logs, key check values, audit log
+ */
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: ALL_PERMISSIONS,
+  operator: [
+    "status:read",
+    "logs:read",
+    "card:authenticate",
+    "card:format",
+    "payment:read",
+    "payment:debit",
+    "payment:credit",
+    "payment:refund",
+    "keys:read",
+    "keys:use",
+  ],
+  cashier: ["status:read", "payment:read", "payment:debit"],
+  key_custodian: [
+    "status:read",
+    "logs:read",
+    "keys:read",
+    "keys:use",
+    "keys:manage",
+    "keys:reveal",
+    "keys:unlock",
+    "keystore:rotate-master",
+  ],
+  auditor: ["status:read", "logs:read", "keys:read", "audit:read"],
+};
+
+export interface ApiToken {
+  id: string;
+  name: string;
+  /** SHA-256 of the token secret (hex) */
+  hash: string;
+  createdAt: string;
+  lastUsedAt?: string;
+}
+
+export interface WebUser {
+  username: string;
+  role: Role;
+  passwordHash: string;
+  createdAt: string;
+  tokens: ApiToken[];
+}
+
+/** Authenticated caller of a request */
+export interface Principal {
+  username: string;
+  role: Role;
+  via: "session" | "token" | "none";
+  tokenName?: string;
+}
+
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const TOKEN_PREFIX = "dft_";
+
+export function isRole(value: string): value is Role {
+  return (ROLES as string[]).includes(value);
+}
+
+export function hasPermission(role: Role, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * Hash a password as scrypt$N$r$p$salt$hash (salt and hash base64)
+ */
+export function hashPassword(password: string): string {
+  const { N, r, p } = SCRYPT_PARAMS;
+  const salt = crypto.randomBytes(16);
+  const hash = crypto.scryptSync(password, salt, 32, { N, r, p });
+  return [
+    "scrypt",
+    N,
+    r,
+    p,
+    salt.toString("base64"),
+    hash.toString("base64"),
+  ].join("$");
+}
+
+export function verifyPassword(password: string, stored: string): boolean {
+  const [scheme, N, r, p, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !hash) return false;
+  const expected = Buffer.from(hash, "base64");
+  const actual = crypto.scryptSync(
+    password,
+    Buffer.from(salt, "base64"),
+    expected.length,
+    { N: Number(N), r: Number(r), p: Number(p) }
+  );
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+function sha256(text: string): string {
+  return crypto.createHash("sha256").update(text).digest("hex");
+}
+
+// Hash compared against for unknown users, so a login takes the same time either way
+const DUMMY_HASH = hashPassword(crypto.randomBytes(16).toString("hex"));
+
+/**
+ * Local users and API tokens (JSON file, written with mode 0600)
+ */
+export class UserStore {
+  constructor(public readonly file: string) {}
+
+  private read(): WebUser[] {
+    if (!fs.existsSync(this.file)) return [];
+    return JSON.parse(fs.readFileSync(this.file, "utf8")).users || [];
+  }
+
+  private write(users: WebUser[]): void {
+    fs.mkdirSync(path.dirname(path.resolve(this.file)), { recursive: true });
+    const tmp = `${this.file}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify({ users }, null, 2), { mode: 0o600 });
+    fs.renameSync(tmp, this.file);
+  }
+
+  private update<T>(username: string, fn: (user: WebUser) => T): T {
+    const users = this.read();
+    const user = users.find((u) => u.username === username);
+    if (!user) throw new Error(`Unknown user: ${username}`);
+    const result = fn(user);
+    this.write(users);
+    return result;
+  }
+
+  isEmpty(): boolean {
+    return this.read().length === 0;
+  }
+
+  /**
+   * Users with their tokens (no password hashes or token hashes)
+   */
+  list(): {
+    username: string;
+    role: Role;
+    createdAt: string;
+    tokens: Omit<ApiToken, "hash">[];
+  }[] {
+    return this.read().map(({ username, role, createdAt, tokens }) => ({
+      username,
+      role,
+      createdAt,
+      tokens: tokens.map(({ hash, ...token }) => token),
+    }));
+  }
+
+  addUser(username: string, password: string, role: Role): void {
+    if (!/^[A-Za-z0-9._-]{1,64}$/.test(username))
+      throw new Error("Username may contain letters, digits, . _ - only");
+    if (!isRole(role))
+      throw new Error(`Unknown role ${role} (${ROLES.join(", ")})`);
+    checkPassword(password);
+    const users = this.read();
+    if (users.some((u) => u.username === username))
+      throw new Error(`User ${username} already exists`);
+    users.push({
+      username,
+      role,
+      passwordHash: hashPassword(password),
+      createdAt: new Date().toISOString(),
+      tokens: [],
+    });
+    this.write(users);
+    audit({ action: "user.add", details: { username, role } });
+  }
+
+  removeUser(username: string): void {
+    const users = this.read();
+    if (!users.some((u) => u.username === username))
+      throw new Error(`Unknown user: ${username}`);
+    this.write(users.filter((u) => u.username !== username));
+    audit({ action: "user.remove", details: { username } });
+  }
+
+  setPassword(username: string, password: string): void {
+    checkPassword(password);
+    this.update(username, (user) => {
+      user.passwordHash = hashPassword(password);
+    });
+    audit({ action: "user.password", details: { username } });
+  }
+
+  setRole(username: string, role: Role): void {
+    if (!isRole(role))
+      throw new Error(`Unknown role ${role} (${ROLES.join(", ")})`);
+    this.update(username, (user) => {
+      user.role = role;
+    });
+    audit({ action: "user.role", details: { username, role } });
+  }
+
+  /**
+   * Create an API token for a user; the token is only returned here
+   * @returns dft_<id>.<secret>
+   */
+  createToken(username: string, name: string): string {
+    const id = crypto.randomBytes(6).toString("hex");
+    const secret = crypto.randomBytes(32).toString("base64url");
+    this.update(username, (user) => {
+      user.tokens.push({
+        id,
+        name,
+        hash: sha256(secret),
+        createdAt: new Date().toISOString(),
+      });
+    });
+    audit({ action: "user.token-create", details: { username, id, name } });
+    return `${TOKEN_PREFIX}${id}.${secret}`;
+  }
+
+  revokeToken(username: string, id: string): boolean {
+    const removed = this.update(username, (user) => {
+      const before = user.tokens.length;
+      user.tokens = user.tokens.filter((token) => token.id !== id);
+      return user.tokens.length !== before;
+    });
+    if (removed)
+      audit({ action: "user.token-revoke", details: { username, id } });
+    return removed;
+  }
+
+  /**
+   * Current role of a user, or null if the user was removed
+   */
+  roleOf(username: string): Role | null {
+    return this.read().find((u) => u.username === username)?.role || null;
+  }
+
+  /**
+   * Check a username and password
+   */
+  verifyLogin(username: string, password: string): Principal | null {
+    const user = this.read().find((u) => u.username === username);
+    const ok = verifyPassword(password, user ? user.passwordHash : DUMMY_HASH);
+    return user && ok
+      ? { username: user.username, role: user.role, via: "session" }
+      : null;
+  }
+
+  /**
+   * Resolve an API token (dft_<id>.<secret>) to its user
+   */
+  verifyToken(token: string): Principal | null {
+    const match = /^dft_([0-9a-f]{12})\.(.+)$/.exec(token);
+    if (!match) return null;
+    const [, id, secret] = match;
+    const users = this.read();
+    for (const user of users) {
+      const entry = user.tokens.find((t) => t.id === id);
+      if (!entry) continue;
+      const expected = Buffer.from(entry.hash, "hex");
+      const actual = Buffer.from(sha256(secret), "hex");
+      if (!crypto.timingSafeEqual(actual, expected)) return null;
+      // Recorded at minute resolution to spare the file a write per request
+      const now = new Date();
+      if (!entry.lastUsedAt || now.getTime() - Date.parse(entry.lastUsedAt) > 60 * 1000) {
+        entry.lastUsedAt = now.toISOString();
+        this.write(users);
+      }
+      return {
+        username: user.username,
+        role: user.role,
+        via: "token",
+        tokenName: entry.name,
+      };
+    }
+    return null;
+  }
+}
+
+function checkPassword(password: string): void {
+  if (password.length < 12)
+    throw new Error("Password must be at least 12 characters");
+}
+
+/**
+ * Login sessions (in memory; a restart logs everyone out)
+ */
+export class SessionStore {
+  private sessions = new Map<string, { principal: Principal; expires: number }>();
+
+  constructor(private ttlMs: number) {}
+
+  create(principal: Principal): { token: string; expiresAt: string } {
+    const token = crypto.randomBytes(32).toString("base64url");
+    const expires = Date.now() + this.ttlMs;
+    this.sessions.set(sha256(token), { principal, expires });
+    return { token, expiresAt: new Date(expires).toISOString() };
+  }
+
+  get(token: string): Principal | null {
+    const key = sha256(token);
+    const session = this.sessions.get(key);
+    if (!session) return null;
+    if (session.expires < Date.now()) {
+      this.sessions.delete(key);
+      return null;
+    }
+    return session.principal;
+  }
+
+  revoke(token: string): void {
+    this.sessions.delete(sha256(token));
+  }
+}
+
+/**
+ * Bearer token of a request (?token= only for event streams)
+ */
+export function requestToken(req: Request): string | null {
+  const header = req.headers.authorization || "";
+  if (header.startsWith("Bearer ")) return header.slice(7).trim();
+  if (
+    (req.headers.accept || "").includes("text/event-stream") &&
+    typeof req.query.token === "string"
+  )
+    return req.query.token;
+  return null;
+}
+
+/**
+ * Resolve a session or API token to the calling principal
+ * The role is read from the user store on every request, so role changes
+ * and removed users take effect on open sessions too.
+ */
+export function resolvePrincipal(
+  token: string | null,
+  users: UserStore,
+  sessions: SessionStore
+): Principal | null {
+  if (!token) return null;
+  if (token.startsWith(TOKEN_PREFIX)) return users.verifyToken(token);
+  const session = sessions.get(token);
+  const role = session && users.roleOf(session.username);
+  return session && role ? { ...session, role } : null;
+}
+
+/**
+ * Audit actor of a principal, e.g. web:alice@10.0.0.5 or web:till-1/alice@10.0.0.7
+ */
+export function principalActor(principal: Principal, ip?: string): string {
+  const who = principal.tokenName
+    ? `${principal.tokenName}/${principal.username}`
+    : principal.username;
+  return `web:${who}${ip ? `@${ip}` : ""}`;
+}
+
+export function getPrincipal(res: Response): Principal | null {
+  return (res.locals.principal as Principal) || null;
+}
+
+/**
+ * Route guard: 401 without a principal, 403 without the permission
+ */
+export function requirePermission(permission: Permission) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const principal = getPrincipal(res);
+    if (!principal)
+      return res.status(401).json({ error: "Authentication required" });
+    if (!hasPermission(principal.role, permission)) {
+      audit({
+        action: "web.denied",
+        outcome: "failed",
+        details: { method: req.method, path: req.originalUrl.split("?")[0], permission },
+      });
+      return res.status(403).json({
+        error: `Role ${principal.role} lacks permission ${permission}`,
+      });
+    }
+    next();
+  };
+}
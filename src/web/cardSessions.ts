@@ -0,0 +1,144 @@
+/**
+ * Card sessions
+ * One DESFireCard handle per card presence (reader + UID), shared by all
+ * requests while the card stays on the reader, so the selected application
+ * and the authentication carry over from one request to the next. The
+ * session ends when the card is removed; a request naming an ended session
+ * is refused instead of running against whatever card is there now.
+ *
+ * An authentication belongs to the caller whose request made it: a request
+ * from someone else starts from an unauthenticated card.
+ */
+
+import crypto from "crypto";
+import DESFireCard from "../card/desfire";
+import { readerQueue } from "../card/readerQueue";
+
+export interface CardSessionInfo {
+  id: string;
+  readerName: string;
+  uid: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  /** Selected application (0xXXXXXX), null before the first SelectApplication */
+  application: string | null;
+  authenticated: boolean;
+  authenticatedKeyNo: number | null;
+  /** Caller whose request made the authentication */
+  authenticatedBy: string | null;
+}
+
+export class CardSession {
+  readonly id = crypto.randomBytes(8).toString("hex");
+  readonly createdAt = new Date();
+  private lastUsedAt = new Date();
+  private caller: string | null = null;
+  readonly card: DESFireCard;
+
+  /**
+   * @param presentedUid UID reported when the card was detected (hex)
+   */
+  constructor(readonly readerName: string, readonly reader: any, readonly presentedUid: string | null = null) {
+    this.card = new DESFireCard(reader);
+  }
+
+  get uid(): string | null {
+    return this.card.getCardUid()?.toString("hex").toUpperCase() ?? this.presentedUid?.toUpperCase() ?? null;
+  }
+
+  /**
+   * Start a request of a caller; an authentication made by another caller is
+   * dropped. Requests hold the reader (exclusive()), so an authentication
+   * present when the next request starts was made by the previous caller.
+   */
+  touch(caller: string): void {
+    this.lastUsedAt = new Date();
+    if (this.caller !== caller && this.card.isAuthenticated()) this.card.resetAuth();
+    this.caller = caller;
+  }
+
+  /**
+   * Run the card exchanges of a request as one operation on the reader, so
+   * card detection and other requests cannot interleave with them
+   */
+  exclusive<T>(label: string, operation: () => Promise<T>): Promise<T> {
+    return readerQueue(this.reader).run(label, operation);
+  }
+
+  info(): CardSessionInfo {
+    const app = this.card.getSelectedApplication();
+    return {
+      id: this.id,
+      readerName: this.readerName,
+      uid: this.uid,
+      createdAt: this.createdAt.toISOString(),
+      lastUsedAt: this.lastUsedAt.toISOString(),
+      application:
+        app === null ? null : "0x" + app.toString(16).padStart(6, "0"),
+      authenticated: this.card.isAuthenticated(),
+      authenticatedKeyNo: this.card.getAuthenticatedKeyNo(),
+      authenticatedBy: this.card.isAuthenticated() ? this.caller : null,
+    };
+  }
+}
+
+function presenceKey(readerName: string, uid: string | null): string {
+  return `${readerName}|${(uid || "").toUpperCase()}`;
+}
+
+export class CardSessionManager {
+  private sessions = new Map<string, CardSession>(); // reader name + presented UID -> session
+
+  /**
+   * Start the session of a card placed on a reader (ends the previous one)
+   */
+  open(readerName: string, reader: any, uid: string | null = null): CardSession {
+    this.close(readerName);
+    const session = new CardSession(readerName, reader, uid);
+    this.sessions.set(presenceKey(readerName, uid), session);
+    return session;
+  }
+
+  /**
+   * End the session of a reader (card removed) and cancel its pending operations
+   * @returns The ended session, or null if there was none
+   */
+  close(readerName: string): CardSession | null {
+    const session = this.get(readerName);
+    if (!session) return null;
+    readerQueue(session.reader).cancel("card removed");
+    session.card.resetAuth();
+    this.sessions.delete(presenceKey(readerName, session.presentedUid));
+    return session;
+  }
+
+  /**
+   * Session of the card on a reader (a reader holds one card at a time)
+   */
+  get(readerName: string): CardSession | null {
+    for (const session of this.sessions.values()) {
+      if (session.readerName === readerName) return session;
+    }
+    return null;
+  }
+
+  /**
+   * Session of a reader for a request
+   * @param caller Who makes the request (keeps or drops the authentication, see touch())
+   * @param expectedId Session the caller worked with; refused if the card was removed since
+   */
+  require(readerName: string | undefined, caller: string, expectedId?: string): CardSession {
+    const session = readerName ? this.get(readerName) : null;
+    if (!session) throw new Error("No card present");
+    if (expectedId && expectedId !== session.id)
+      throw new Error(
+        `Card session ${expectedId} ended (card removed or replaced); current session is ${session.id}`
+      );
+    session.touch(caller);
+    return session;
+  }
+
+  list(): CardSessionInfo[] {
+    return Array.from(this.sessions.values()).map((session) => session.info());
+  }
+}
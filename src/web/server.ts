@@ -1,10 +1,40 @@
 import "dotenv/config";
-import express, { Request, Response } from "express";
+import express, { NextFunction, Request, Response } from "express";
 import path from "path";
+import os from "os";
 import { spawn } from "child_process";
-import NFCReaderManager from "../card/reader";
-import DESFireCard from "../card/desfire";
-import KeyManager, { KeyType } from "../card/keyManager";
+import { createReaderManager } from "../card/transport";
+import DESFireCard, { CommMode, RecordCodec } from "../card/desfire";
+import KeyManager, { KdfAlgorithm, KeyType } from "../card/keyManager";
+import { createKeyStore } from "../card/keyStore";
+import { ShareCollector } from "../card/shamir";
+import { keyCheckValue, matchesKeyCheckValue } from "../card/kcv";
+import { ACCESS_FREE, describeAccess } from "../card/fileSettings";
+import { authenticateWithKeyVersion } from "../provisioning/keyVersions";
+import { RotationCampaign } from "../provisioning/rotationCampaign";
+import {
+  AuditLog,
+  audit,
+  auditHmacKeyFromEnv,
+  auditLogFromEnv,
+  configureAuditLog,
+  getAuditLog,
+  onAuditFailure,
+  runAsActor,
+} from "../audit/auditLog";
+import {
+  Principal,
+  ROLE_PERMISSIONS,
+  SessionStore,
+  UserStore,
+  getPrincipal,
+  principalActor,
+  requestToken,
+  requirePermission,
+  resolvePrincipal,
+} from "./auth";
+import { CardSession, CardSessionManager } from "./cardSessions";
+import { readerQueue } from "../card/readerQueue";
 import fs from "fs";
 
 type CardInfo = {
@@ -16,6 +46,8 @@ type CardInfo = {
   hardware?: string;
   software?: string;
   cardUidHex?: string;
+  /** Card session of this card presence (see cardSessions.ts) */
+  cardSession?: string;
   applications?: string[];
   freeMemory?: number;
   lastError?: string;
@@ -24,6 +56,32 @@ type CardInfo = {
 const app = express();
 app.use(express.json());
 
+// Users, API tokens and login sessions; WEB_AUTH=off grants every request admin rights
+const users = new UserStore(
+  process.env.WEB_USERS_FILE || "./keys/web-users.json"
+);
+const sessions = new SessionStore(
+  Number(process.env.WEB_SESSION_TTL_MINUTES || 480) * 60 * 1000
+);
+const authDisabled = process.env.WEB_AUTH === "off";
+const ANONYMOUS_ADMIN: Principal = {
+  username: "anonymous",
+  role: "admin",
+  via: "none",
+};
+
+// Resolve the caller; audit events of a request are recorded under it
+app.use("/api", (req, res, next) => {
+  const principal = authDisabled
+    ? ANONYMOUS_ADMIN
+    : resolvePrincipal(requestToken(req), users, sessions);
+  if (principal) res.locals.principal = principal;
+  runAsActor(
+    principal ? principalActor(principal, req.ip) : `web:-@${req.ip}`,
+    next
+  );
+});
+
 const publicDir = path.join(__dirname, "../../public");
 app.use(express.static(publicDir));
 
@@ -47,15 +105,129 @@ function pushLog(message: string) {
 }
 
 // Shared state
-const readerManager = new NFCReaderManager();
-let currentReader: any = null;
-let lastCardInfo: CardInfo = { present: false };
-const keyManager = new KeyManager("./keys");
+const readerManager = createReaderManager();
+// Connected readers by name, in connection order, with the card on each
+type ReaderState = { name: string; reader: any; card: CardInfo };
+const readers = new Map<string, ReaderState>();
+configureAuditLog(auditLogFromEnv("web"));
+// A record that cannot be written does not fail the request (a committed
+// debit stays committed); it raises an alarm instead
+onAuditFailure((error, event) => {
+  pushLog(`ALARM: audit log write failed, ${event.action} not recorded: ${error.message}`);
+});
+pushLog(
+  `Audit log: ${getAuditLog() ? path.resolve(getAuditLog()!.file) : "disabled"}`
+);
+const keyManager = new KeyManager(createKeyStore());
+pushLog(`KeyManager: using ${keyManager.getKeyStore().backend} key store`);
+
+if (authDisabled) {
+  pushLog("WARNING: WEB_AUTH=off, every request has admin rights");
+} else if (users.isEmpty()) {
+  if (process.env.WEB_ADMIN_PASSWORD) {
+    const admin = process.env.WEB_ADMIN_USER || "admin";
+    users.addUser(admin, process.env.WEB_ADMIN_PASSWORD, "admin");
+    pushLog(`Web users: created ${admin} (admin) from WEB_ADMIN_PASSWORD`);
+  } else {
+    pushLog(
+      "Web users: none configured; add one with `npm run users -- add <name> --role admin`"
+    );
+  }
+}
+
+// One DESFireCard per presented card; selection and authentication persist across requests
+const cardSessions = new CardSessionManager();
+
+/**
+ * Card route paths: /api/<path> for the default reader and
+ * /api/readers/:reader/<path> for a named one
+ */
+function readerPaths(route: string): string[] {
+  return [`/api${route}`, `/api/readers/:reader${route}`];
+}
+
+/**
+ * Reader of requests that do not name one: the only connected reader, else
+ * the only reader with a card
+ */
+function defaultReader(): ReaderState | undefined {
+  const states = Array.from(readers.values());
+  if (states.length === 1) return states[0];
+  const withCard = states.filter((state) => state.card.present);
+  return withCard.length === 1 ? withCard[0] : undefined;
+}
+
+/**
+ * Reader resolved for a card request by cardOperation(), if its card is present
+ */
+function readerWithCard(res: Response): ReaderState | undefined {
+  const state = res.locals.reader as ReaderState | undefined;
+  return state?.card.present ? state : undefined;
+}
+
+/**
+ * Card session of the presented card for a request
+ * A client that names the session it worked with (X-Card-Session header or
+ * cardSession in the body) is refused once that card has been removed.
+ */
+function cardSession(req: Request, res: Response): CardSession {
+  const state = readerWithCard(res);
+  if (!state) throw new Error("No card present");
+  const expected =
+    (req.headers["x-card-session"] as string | undefined) ||
+    (req.body || {}).cardSession;
+  const principal = getPrincipal(res);
+  const caller = principal ? principalActor(principal) : "web:-";
+  return cardSessions.require(state.name, caller, expected);
+}
+
+/**
+ * Resolve the reader of a card request (res.locals.reader) and hold it for
+ * the whole request so its card exchanges (select, authenticate, debit, ...)
+ * run as one operation: card detection and other requests on that reader
+ * wait. A request that times out or whose card is removed fails at its next
+ * card command.
+ */
+function cardOperation(label: string) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const name = req.params.reader;
+    const state = name ? readers.get(name) : defaultReader();
+    if (name && !state)
+      return res.status(404).json({ error: `Reader not connected: ${name}` });
+    if (!state && readers.size > 1)
+      return res.status(409).json({
+        error: "Several readers connected; use /api/readers/:name/...",
+      });
+    res.locals.reader = state;
+    if (!state) return next();
+    let started = false;
+    readerQueue(state.reader)
+      .run(
+        label,
+        () =>
+          new Promise<void>((resolve) => {
+            res.once("close", resolve);
+            started = true;
+            next();
+          })
+      )
+      .catch((e: any) => {
+        // Still waiting for the reader: the route never ran
+        if (!started && !res.headersSent)
+          res.status(503).json({ error: e?.message || String(e) });
+      });
+  };
+}
 
 // Initialize keystore master key
+const keystoreKdf = (process.env.KEYSTORE_KDF || "scrypt") as KdfAlgorithm;
 if (process.env.KEYSTORE_MASTER_PASSWORD) {
-  keyManager.setMasterKey(process.env.KEYSTORE_MASTER_PASSWORD);
-  pushLog("KeyManager: master key set from KEYSTORE_MASTER_PASSWORD");
+  try {
+    keyManager.setMasterKey(process.env.KEYSTORE_MASTER_PASSWORD, keystoreKdf);
+    pushLog("KeyManager: master key set from KEYSTORE_MASTER_PASSWORD");
+  } catch (e: any) {
+    pushLog(`KeyManager: master key rejected: ${e?.message || e}`);
+  }
 } else if (process.env.KEYSTORE_MASTER_KEY_HEX) {
   try {
     const mk = Buffer.from(
@@ -64,36 +236,51 @@ if (process.env.KEYSTORE_MASTER_PASSWORD) {
     );
     keyManager.setMasterKey(mk);
     pushLog("KeyManager: master key set from KEYSTORE_MASTER_KEY_HEX");
-  } catch {
-    pushLog("KeyManager: failed to parse KEYSTORE_MASTER_KEY_HEX");
+  } catch (e: any) {
+    pushLog(`KeyManager: KEYSTORE_MASTER_KEY_HEX rejected: ${e?.message || e}`);
   }
+} else if (keyManager.getShareSetId()) {
+  pushLog(
+    `KeyManager: keystore locked; unlock with key shares of ceremony ${keyManager.getShareSetId()}`
+  );
 } else {
   pushLog(
     "KeyManager: master key not set; saving/loading will be disabled until set"
   );
 }
 
+// Key shares entered by custodians until a quorum unlocks the keystore
+const shareCollector = new ShareCollector(keyManager.getShareSetId());
+
 readerManager.on("reader-connected", (reader: any) => {
-  currentReader = reader;
-  lastCardInfo = {
-    ...lastCardInfo,
-    readerName: reader.reader.name,
-    present: false,
-    lastError: undefined,
-  };
-  pushLog(`Reader connected: ${reader.reader.name}`);
+  const name = reader.reader.name;
+  readers.set(name, { name, reader, card: { readerName: name, present: false } });
+  pushLog(`Reader connected: ${name}`);
 });
 
-readerManager.on("reader-error", ({ error }: { reader: any; error: Error }) => {
-  lastCardInfo.lastError = error?.message || String(error);
-  pushLog(`Reader error: ${lastCardInfo.lastError}`);
+readerManager.on("reader-disconnected", (reader: any) => {
+  const name = reader.reader.name;
+  readers.delete(name);
+  const session = cardSessions.close(name);
+  pushLog(
+    `Reader disconnected: ${name}${session ? ` (session ${session.id} ended)` : ""}`
+  );
+});
+
+readerManager.on("reader-error", ({ reader, error }: { reader: any; error: Error }) => {
+  const state = readers.get(reader.reader.name);
+  const message = error?.message || String(error);
+  if (state) state.card.lastError = message;
+  pushLog(`Reader error on ${reader.reader.name}: ${message}`);
 });
 
 readerManager.on("card-detected", async ({ reader, card }: any) => {
   pushLog(`Card detected on ${reader.reader.name}`);
+  const session = cardSessions.open(reader.reader.name, reader, card?.uid ? String(card.uid) : null);
   const info: CardInfo = {
     readerName: reader.reader.name,
     present: true,
+    cardSession: session.id,
     uid: card?.uid,
     atr: Buffer.isBuffer(card?.atr) ? card.atr.toString("hex") : undefined,
     type: card?.type,
@@ -101,91 +288,235 @@ readerManager.on("card-detected", async ({ reader, card }: any) => {
   };
 
   try {
-    // Extra delay to stabilize link on some readers
-    await new Promise((r) => setTimeout(r, 350));
+    // Requests wait until the card has been read
+    await session.exclusive("card detection", async () => {
+      // Extra delay to stabilize link on some readers
+      await new Promise((r) => setTimeout(r, 350));
 
-    const desfire = new DESFireCard(reader);
+      const desfire = session.card;
 
-    // Try GetVersion with a few retries if the transport returns too-short frames
-    let version: { hardware: Buffer; software: Buffer; uid: Buffer } | null =
-      null;
-    let lastErr: any = null;
-    for (let attempt = 1; attempt <= 3; attempt++) {
-      try {
-        version = await desfire.getVersion();
-        break;
-      } catch (e: any) {
-        lastErr = e;
-        const msg = (e?.message || "").toString();
-        if (
-          msg.includes("Invalid APDU response: too short") ||
-          msg.includes("Transmission failed")
-        ) {
-          await new Promise((r) => setTimeout(r, 200));
-          continue;
+      // Try GetVersion with a few retries if the transport returns too-short frames
+      let version: { hardware: Buffer; software: Buffer; uid: Buffer } | null =
+        null;
+      let lastErr: any = null;
+      for (let attempt = 1; attempt <= 3; attempt++) {
+        try {
+          version = await desfire.getVersion();
+          break;
+        } catch (e: any) {
+          lastErr = e;
+          const msg = (e?.message || "").toString();
+          if (
+            msg.includes("Invalid APDU response: too short") ||
+            msg.includes("Transmission failed")
+          ) {
+            await new Promise((r) => setTimeout(r, 200));
+            continue;
+          }
+          throw e;
         }
-        throw e;
       }
-    }
 
-    if (version) {
-      info.hardware = version.hardware?.toString("hex");
-      info.software = version.software?.toString("hex");
-      info.cardUidHex = version.uid?.toString("hex").toUpperCase();
-    } else if (lastErr) {
-      throw lastErr;
-    }
+      if (version) {
+        info.hardware = version.hardware?.toString("hex");
+        info.software = version.software?.toString("hex");
+        info.cardUidHex = version.uid?.subarray(0, 7).toString("hex").toUpperCase();
+      } else if (lastErr) {
+        throw lastErr;
+      }
 
-    try {
-      const aids = await desfire.getApplicationIDs();
-      info.applications = aids.map(
-        (aid) => "0x" + aid.toString(16).padStart(6, "0")
-      );
-    } catch {}
+      try {
+        const aids = await desfire.getApplicationIDs();
+        info.applications = aids.map(
+          (aid) => "0x" + aid.toString(16).padStart(6, "0")
+        );
+      } catch {}
 
-    try {
-      const fm = await desfire.getFreeMemory();
-      info.freeMemory = fm;
-    } catch {}
+      try {
+        const fm = await desfire.getFreeMemory();
+        info.freeMemory = fm;
+      } catch {}
+
+      if (process.env.ROTATION_UPGRADE_ON_TAP === "1" && keyManager.hasMasterKey())
+        await upgradeOnTap(desfire, info.applications || []);
+    });
   } catch (e: any) {
     info.lastError = e?.message || String(e);
     pushLog(`Card info error: ${info.lastError}`);
   }
 
-  lastCardInfo = info;
+  // Removed (or replaced) while being read
+  const state = readers.get(reader.reader.name);
+  if (!state || cardSessions.get(reader.reader.name) !== session) return;
+  state.card = info;
 });
 
-readerManager.on("card-removed", () => {
-  lastCardInfo.present = false;
-  pushLog("Card removed");
+readerManager.on("card-removed", ({ reader }: any) => {
+  const session = cardSessions.close(reader.reader.name);
+  const state = readers.get(reader.reader.name);
+  if (state) state.card = { ...state.card, present: false, cardSession: undefined };
+  pushLog(
+    `Card removed from ${reader.reader.name}${session ? ` (session ${session.id} ended)` : ""}`
+  );
+});
+
+// Failed logins per username+address; locked for LOGIN_LOCK_MS after LOGIN_MAX_FAILURES
+const LOGIN_MAX_FAILURES = 5;
+const LOGIN_LOCK_MS = 5 * 60 * 1000;
+const loginFailures = new Map<string, { count: number; until: number }>();
+
+// API: auth - log in with username and password, returns a session token
+app.post("/api/auth/login", (req: Request, res: Response) => {
+  const { username, password } = req.body || {};
+  if (typeof username !== "string" || typeof password !== "string")
+    return res
+      .status(400)
+      .json({ error: "username and password (strings) required" });
+  const key = `${username}@${req.ip}`;
+  const failures = loginFailures.get(key);
+  if (failures && failures.count >= LOGIN_MAX_FAILURES) {
+    if (failures.until > Date.now())
+      return res
+        .status(429)
+        .json({ error: "Too many failed logins, try again later" });
+    loginFailures.delete(key);
+  }
+
+  const principal = users.verifyLogin(username, password);
+  if (!principal) {
+    const count = (failures?.count || 0) + 1;
+    loginFailures.set(key, { count, until: Date.now() + LOGIN_LOCK_MS });
+    audit({
+      action: "web.login",
+      actor: `web:${username}@${req.ip}`,
+      outcome: "failed",
+      error: "wrong username or password",
+    });
+    return res.status(401).json({ error: "Wrong username or password" });
+  }
+  loginFailures.delete(key);
+  const session = sessions.create(principal);
+  audit({ action: "web.login", actor: principalActor(principal, req.ip) });
+  pushLog(`User ${principal.username} logged in (${principal.role})`);
+  res.json({ ...session, username: principal.username, role: principal.role });
 });
 
-// API: get status
-app.get("/api/status", (_req, res) => {
+// API: auth - end the current session
+app.post("/api/auth/logout", (req: Request, res: Response) => {
+  const token = requestToken(req);
+  if (token && getPrincipal(res)?.via === "session") {
+    sessions.revoke(token);
+    audit({ action: "web.logout" });
+  }
+  res.json({ ok: true });
+});
+
+// API: auth - current user and permissions
+app.get("/api/auth/me", (_req: Request, res: Response) => {
+  const principal = getPrincipal(res);
+  if (!principal)
+    return res.status(401).json({ error: "Authentication required" });
+  res.json({
+    username: principal.username,
+    role: principal.role,
+    via: principal.via,
+    permissions: ROLE_PERMISSIONS[principal.role],
+  });
+});
+
+// API: get status of the default reader (see defaultReader), with all readers
+app.get("/api/status", requirePermission("status:read"), (_req, res) => {
+  const state = defaultReader() || Array.from(readers.values()).pop();
   res.json({
-    reader: lastCardInfo.readerName || null,
-    card: lastCardInfo,
+    reader: state?.name || null,
+    card: state?.card || { present: false },
+    readers: Array.from(readers.keys()),
   });
 });
 
-// API: list npm scripts
-app.get("/api/scripts", (_req, res) => {
+// API: connected readers and the card on each
+app.get("/api/readers", requirePermission("status:read"), (_req, res) => {
+  res.json({
+    readers: Array.from(readers.values()).map((state) => ({
+      name: state.name,
+      card: state.card,
+    })),
+  });
+});
+
+// API: status of one reader
+app.get("/api/readers/:reader", requirePermission("status:read"), (req, res) => {
+  const state = readers.get(req.params.reader);
+  if (!state)
+    return res
+      .status(404)
+      .json({ error: `Reader not connected: ${req.params.reader}` });
+  res.json({ reader: state.name, card: state.card });
+});
+
+// API: card sessions (selected application and authentication state per reader)
+app.get("/api/card-sessions", requirePermission("status:read"), (_req, res) => {
+  res.json({ sessions: cardSessions.list() });
+});
+
+// npm scripts the web UI may run (WEB_SCRIPTS, comma separated)
+const WEB_SCRIPTS = (process.env.WEB_SCRIPTS ?? "build,test")
+  .split(",")
+  .map((s) => s.trim())
+  .filter(Boolean);
+// Environment passed to scripts: no keystore, key or password variables
+const SCRIPT_ENV_NAMES = [
+  "PATH", "Path", "PATHEXT", "HOME", "USER", "LOGNAME", "USERPROFILE", "APPDATA",
+  "SystemRoot", "ComSpec", "TEMP", "TMP", "TMPDIR", "LANG", "LC_ALL", "TERM", "NODE_ENV",
+];
+const SCRIPT_OUTPUT_LIMIT = 64 * 1024;
+const SCRIPT_RUNS_KEPT = 10;
+
+interface ScriptRun {
+  script: string;
+  caller: string;
+  running: boolean;
+  code: number | null;
+  output: string;
+}
+const scriptRuns = new Map<number, ScriptRun>();
+
+function scriptEnv(): NodeJS.ProcessEnv {
+  const env: NodeJS.ProcessEnv = {};
+  for (const name of SCRIPT_ENV_NAMES)
+    if (process.env[name] !== undefined) env[name] = process.env[name];
+  // dotenv in the script would otherwise load the secrets from .env again
+  env.DOTENV_CONFIG_PATH = os.devNull;
+  return env;
+}
+
+function allowedScripts(): Record<string, string> {
+  const pkgPath = path.join(process.cwd(), "package.json");
+  const pkg = JSON.parse(fs.readFileSync(pkgPath, "utf-8"));
+  const scripts: Record<string, string> = pkg.scripts || {};
+  return Object.fromEntries(
+    Object.entries(scripts).filter(([name]) => WEB_SCRIPTS.includes(name))
+  );
+}
+
+// API: list the npm scripts the web UI may run
+app.get("/api/scripts", requirePermission("scripts:run"), (_req, res) => {
   try {
-    const pkgPath = path.join(process.cwd(), "package.json");
-    const pkg = JSON.parse(fs.readFileSync(pkgPath, "utf-8"));
-    const scripts = pkg.scripts || {};
-    res.json({ scripts });
+    res.json({ scripts: allowedScripts() });
   } catch (e: any) {
     res.status(500).json({ error: e?.message || String(e) });
   }
 });
 
-// API: run npm script
-app.post("/api/run-script", (req, res) => {
+// API: run npm script; its output goes only to the caller (GET /api/run-script/:pid)
+app.post("/api/run-script", requirePermission("scripts:run"), (req, res) => {
   const { script } = req.body || {};
   if (!script || typeof script !== "string") {
     return res.status(400).json({ error: "script is required" });
   }
+  if (!(script in allowedScripts())) {
+    return res.status(403).json({ error: `Script ${script} is not in WEB_SCRIPTS` });
+  }
 
   // Spawn npm run <script>
   const child = spawn(
@@ -193,51 +524,128 @@ app.post("/api/run-script", (req, res) => {
     ["run", script],
     {
       cwd: process.cwd(),
-      env: process.env,
+      env: scriptEnv(),
     }
   );
+  if (child.pid === undefined) {
+    return res.status(500).json({ error: `Could not start npm run ${script}` });
+  }
 
-  let output = "";
+  const principal = getPrincipal(res);
+  const run: ScriptRun = {
+    script,
+    caller: principal ? principalActor(principal) : "web:-",
+    running: true,
+    code: null,
+    output: "",
+  };
+  scriptRuns.set(child.pid, run);
+  for (const pid of [...scriptRuns.keys()].slice(0, -SCRIPT_RUNS_KEPT))
+    if (!scriptRuns.get(pid)!.running) scriptRuns.delete(pid);
+
+  const collect = (d: Buffer) => {
+    run.output = (run.output + d.toString()).slice(-SCRIPT_OUTPUT_LIMIT);
+  };
   pushLog(`Starting script: npm run ${script} (pid ${child.pid})`);
-  child.stdout.on("data", (d) => {
-    const text = d.toString();
-    output += text;
-    text
-      .split(/\r?\n/)
-      .forEach((line: string) => line && pushLog(`[${script}] ${line}`));
-  });
-  child.stderr.on("data", (d) => {
-    const text = d.toString();
-    output += text;
-    text
-      .split(/\r?\n/)
-      .forEach((line: string) => line && pushLog(`[${script}] ${line}`));
-  });
+  child.stdout.on("data", collect);
+  child.stderr.on("data", collect);
   child.on("close", (code) => {
+    run.running = false;
+    run.code = code;
     pushLog(`Script finished: ${script} (exit ${code})`);
   });
 
   res.json({ pid: child.pid, started: true });
 });
 
+// API: state and output of a script run, for the user who started it
+app.get("/api/run-script/:pid", requirePermission("scripts:run"), (req, res) => {
+  const principal = getPrincipal(res);
+  const run = scriptRuns.get(Number(req.params.pid));
+  if (!run || run.caller !== (principal ? principalActor(principal) : "web:-")) {
+    return res.status(404).json({ error: "No such script run" });
+  }
+  res.json(run);
+});
+
+/**
+ * Reject a manually entered or configured key that does not match its KCV
+ */
+function checkKeyCheckValue(key: Buffer, type: string, kcv?: string): void {
+  if (!kcv) return;
+  const keyType: KeyType = type === "DES" || type === "3DES" ? type : "AES";
+  if (!matchesKeyCheckValue(key, keyType, kcv))
+    throw new Error(
+      `Key check value mismatch: expected ${kcv.toUpperCase()}, key has ${keyCheckValue(key, keyType)}`
+    );
+}
+
 function requireMasterKey(): void {
-  if (!(keyManager as any)["masterKey"]) {
+  if (!keyManager.hasMasterKey()) {
     throw new Error(
-      "Keystore master key not set. Configure KEYSTORE_MASTER_PASSWORD or KEYSTORE_MASTER_KEY_HEX"
+      "Keystore master key not set. Configure KEYSTORE_MASTER_PASSWORD or KEYSTORE_MASTER_KEY_HEX, or unlock with key shares"
     );
   }
 }
 
-// API: keys - list loaded keysets
-app.get("/api/keys/list", (_req: Request, res: Response) => {
+function unlockStatus() {
+  return { unlocked: keyManager.hasMasterKey(), ...shareCollector.status() };
+}
+
+// API: keys - key ceremony unlock status
+app.get("/api/keys/unlock", requirePermission("keys:read"), (_req: Request, res: Response) => {
+  res.json(unlockStatus());
+});
+
+// API: keys - submit one custodian's key share
+app.post("/api/keys/unlock", requirePermission("keys:unlock"), (req: Request, res: Response) => {
+  const { share } = req.body || {};
+  if (typeof share !== "string")
+    return res.status(400).json({ error: "share (string) required" });
+  if (keyManager.hasMasterKey())
+    return res.status(409).json({ error: "Keystore is already unlocked" });
+  try {
+    if (shareCollector.add(share)) {
+      const masterKey = shareCollector.combine();
+      try {
+        keyManager.setMasterKey(masterKey);
+      } finally {
+        masterKey.fill(0);
+      }
+      pushLog("KeyManager: keystore unlocked with key shares");
+    } else {
+      const { received, threshold } = shareCollector.status();
+      pushLog(`KeyManager: key share accepted (${received.length}/${threshold})`);
+    }
+    res.json({ ok: true, ...unlockStatus() });
+  } catch (e: any) {
+    if (shareCollector.isComplete()) shareCollector.reset();
+    res.status(400).json({ error: e?.message || String(e), ...unlockStatus() });
+  }
+});
+
+// API: keys - discard the shares entered so far
+app.post("/api/keys/unlock/reset", requirePermission("keys:unlock"), (_req: Request, res: Response) => {
+  shareCollector.reset();
+  pushLog("KeyManager: entered key shares discarded");
+  res.json({ ok: true, ...unlockStatus() });
+});
+
+// API: keys - list loaded keysets and stored key records
+app.get("/api/keys/list", requirePermission("keys:read"), (_req: Request, res: Response) => {
   const ids = keyManager
     .listKeySets()
     .map((id) => "0x" + id.toString(16).padStart(6, "0").toUpperCase());
-  res.json({ apps: ids });
+  const store = keyManager.getKeyStore();
+  try {
+    res.json({ apps: ids, backend: store.backend, stored: store.list() });
+  } catch (e: any) {
+    res.json({ apps: ids, backend: store.backend, error: e?.message || String(e) });
+  }
 });
 
 // API: keys - generate new keyset
-app.post("/api/keys/generate", (req: Request, res: Response) => {
+app.post("/api/keys/generate", requirePermission("keys:manage"), (req: Request, res: Response) => {
   const { appId, numKeys, keyType, save } = req.body || {};
   if (typeof appId !== "number")
     return res.status(400).json({ error: "appId (number) required" });
@@ -262,7 +670,7 @@ app.post("/api/keys/generate", (req: Request, res: Response) => {
 });
 
 // API: keys - save keyset
-app.post("/api/keys/save", (req: Request, res: Response) => {
+app.post("/api/keys/save", requirePermission("keys:manage"), (req: Request, res: Response) => {
   try {
     requireMasterKey();
   } catch (e: any) {
@@ -280,7 +688,7 @@ app.post("/api/keys/save", (req: Request, res: Response) => {
 });
 
 // API: keys - load keyset
-app.post("/api/keys/load", (req: Request, res: Response) => {
+app.post("/api/keys/load", requirePermission("keys:use"), (req: Request, res: Response) => {
   try {
     requireMasterKey();
   } catch (e: any) {
@@ -297,57 +705,316 @@ app.post("/api/keys/load", (req: Request, res: Response) => {
   }
 });
 
-// API: keys - show keyset (masked)
-app.get("/api/keys/show", (req: Request, res: Response) => {
+// API: keys - re-encrypt the keystore under a new master password
+// Only for password stores: a store opened with a raw master key or key shares
+// (KDF none) would silently become a password store, so it is refused.
+app.post("/api/keys/rotate-master", requirePermission("keystore:rotate-master"), (req: Request, res: Response) => {
+  const { currentPassword, newPassword, kdf } = req.body || {};
+  try {
+    requireMasterKey();
+  } catch (e: any) {
+    return res.status(400).json({ error: e?.message || String(e) });
+  }
+  if (keyManager.getKeyStoreHeader()?.kdf.algorithm === "none")
+    return res.status(409).json({
+      error:
+        "The keystore is opened with a master key or key shares, not a password; " +
+        "re-key it on the command line (npm run keys -- ceremony, or rotate-master to switch to a password)",
+    });
+  if (typeof currentPassword !== "string" || typeof newPassword !== "string")
+    return res
+      .status(400)
+      .json({ error: "currentPassword and newPassword (strings) required" });
+  if (newPassword.length < 12)
+    return res
+      .status(400)
+      .json({ error: "newPassword must be at least 12 characters" });
+  try {
+    if (!keyManager.verifyMasterKey(currentPassword))
+      return res.status(403).json({ error: "currentPassword is wrong" });
+    const result = keyManager.rotateMasterKey(newPassword, {
+      kdf: kdf === "pbkdf2" || kdf === "scrypt" ? kdf : undefined,
+    });
+    pushLog(
+      `KeyManager: master password rotated (${result.records.length} record(s) re-encrypted); update KEYSTORE_MASTER_PASSWORD`
+    );
+    res.json({ ok: true, ...result });
+  } catch (e: any) {
+    res.status(400).json({ error: e?.message || String(e) });
+  }
+});
+
+// API: keys - replace one key with a new generation (older versions stay usable)
+app.post("/api/keys/rotate-key", requirePermission("keys:manage"), (req: Request, res: Response) => {
+  const { appId, keyNo, save } = req.body || {};
+  if (typeof appId !== "number" || typeof keyNo !== "number")
+    return res
+      .status(400)
+      .json({ error: "appId and keyNo (numbers) required" });
+  try {
+    if (save) requireMasterKey();
+    const version = keyManager.rotateKey(appId, keyNo);
+    if (save) keyManager.saveKeySet(appId);
+    pushLog(
+      `KeySet 0x${appId
+        .toString(16)
+        .padStart(6, "0")}: K${keyNo} rotated to version ${version}`
+    );
+    res.json({
+      ok: true,
+      version,
+      generations: keyManager.getKeyGenerations(appId, keyNo),
+    });
+  } catch (e: any) {
+    res.status(400).json({ error: e?.message || String(e) });
+  }
+});
+
+// API: keys - enter a key by hand; the KCV read out with it must match
+app.post("/api/keys/set", requirePermission("keys:manage"), (req: Request, res: Response) => {
+  const { appId, keyNo, keyHex, keyType, version, kcv, save } = req.body || {};
+  if (typeof appId !== "number" || typeof keyNo !== "number")
+    return res
+      .status(400)
+      .json({ error: "appId and keyNo (numbers) required" });
+  if (typeof keyHex !== "string" || typeof kcv !== "string")
+    return res
+      .status(400)
+      .json({ error: "keyHex and kcv (strings) required" });
+  try {
+    if (save) requireMasterKey();
+    const kt: KeyType = keyType === "DES" || keyType === "3DES" ? keyType : "AES";
+    keyManager.setKey(
+      appId,
+      keyNo,
+      Buffer.from(keyHex.replace(/\s+/g, ""), "hex"),
+      typeof version === "number" ? version : 0,
+      kt,
+      kcv
+    );
+    if (save) keyManager.saveKeySet(appId);
+    pushLog(
+      `KeySet 0x${appId
+        .toString(16)
+        .padStart(6, "0")}: K${keyNo} entered (KCV ${keyManager.getKeyCheckValue(appId, keyNo)})`
+    );
+    res.json({ ok: true, kcv: keyManager.getKeyCheckValue(appId, keyNo) });
+  } catch (e: any) {
+    res.status(400).json({ error: e?.message || String(e) });
+  }
+});
+
+// API: audit - check the hash chain of the audit log
+app.get("/api/audit/verify", requirePermission("audit:read"), (_req: Request, res: Response) => {
+  const log = getAuditLog();
+  if (!log) return res.status(404).json({ error: "audit log disabled" });
+  try {
+    if (!fs.existsSync(log.file))
+      return res.json({ ok: true, records: 0, head: null, errors: [] });
+    res.json(AuditLog.verify(log.file, { hmacKey: auditHmacKeyFromEnv() }));
+  } catch (e: any) {
+    res.status(500).json({ error: e?.message || String(e) });
+  }
+});
+
+// API: keys - show keyset (KCVs; full keys only with reveal=1)
+// Key check values are readable with keys:read, full keys need keys:reveal
+const showKeysPermission = (req: Request, res: Response, next: NextFunction) =>
+  requirePermission(req.query.reveal === "1" ? "keys:reveal" : "keys:read")(
+    req,
+    res,
+    next
+  );
+
+app.get("/api/keys/show", showKeysPermission, async (req: Request, res: Response) => {
   const appIdStr = req.query.appId as string;
   const reveal = req.query.reveal === "1";
   if (!appIdStr) return res.status(400).json({ error: "appId required" });
   const appId = parseInt(appIdStr as string, 10);
   try {
-    const ks = (keyManager as any).keySets.get(appId);
+    const ks = keyManager.getKeySet(appId);
     if (!ks) return res.status(404).json({ error: "not_loaded" });
+    const uidHex = req.query.uid as string | undefined;
+    const uid = uidHex ? Buffer.from(uidHex, "hex") : undefined;
     const out: any = {
       appId: "0x" + appId.toString(16).padStart(6, "0"),
       keyType: ks.keyType,
+      diversified: !!ks.diversification,
       keys: {},
+      versions: {},
     };
     ks.keys.forEach((buf: Buffer, keyNo: number) => {
-      const hex = buf.toString("hex");
-      out.keys["K" + keyNo] = reveal
-        ? hex
-        : hex.length > 8
-        ? hex.slice(0, 4) + "…" + hex.slice(-4)
-        : "****";
+      out.keys["K" + keyNo] = {
+        version: keyManager.getKeyVersion(appId, keyNo),
+        kcv: keyManager.getKeyCheckValue(appId, keyNo),
+        ...(uid && ks.diversification
+          ? { cardKcv: keyManager.getKeyCheckValue(appId, keyNo, uid) }
+          : {}),
+        ...(reveal ? { hex: buf.toString("hex") } : {}),
+      };
+      out.versions["K" + keyNo] = keyManager.getKeyGenerations(appId, keyNo);
     });
+    // Keys are only revealed once the reveal is recorded
+    if (reveal && !(await audit({ action: "key.reveal", appId: out.appId, details: { format: "web" } })))
+      return res.status(500).json({ error: "Key reveal could not be recorded in the audit log" });
     res.json(out);
   } catch (e: any) {
     res.status(400).json({ error: e?.message || String(e) });
   }
 });
 
+/**
+ * Rotation campaign of an application (loads its key set if needed)
+ */
+function campaignFor(appId: number): RotationCampaign | null {
+  requireMasterKey();
+  if (!keyManager.getKeySet(appId)) keyManager.loadKeySet(appId);
+  return RotationCampaign.load(keyManager, appId);
+}
+
+/**
+ * Upgrade a presented card in every active campaign of its applications
+ */
+async function upgradeOnTap(desfire: DESFireCard, applications: string[]) {
+  for (const appId of keyManager.listCampaigns()) {
+    if (!applications.includes("0x" + appId.toString(16).padStart(6, "0")))
+      continue;
+    try {
+      const campaign = campaignFor(appId);
+      if (!campaign || campaign.status !== "active") continue;
+      const progress = await campaign.upgradeCard(desfire);
+      pushLog(
+        `Rotation 0x${appId.toString(16).padStart(6, "0")}: card ${progress.uid} ${progress.state}` +
+          (progress.error ? ` (${progress.failedIn}: ${progress.error})` : "")
+      );
+    } catch (e: any) {
+      pushLog(`Rotation upgrade failed: ${e?.message || e}`);
+    }
+  }
+}
+
+// API: rotation campaigns - summaries of all stored campaigns
+app.get("/api/campaigns", requirePermission("keys:read"), (_req: Request, res: Response) => {
+  try {
+    requireMasterKey();
+    res.json({
+      campaigns: keyManager
+        .listCampaigns()
+        .map((appId) => campaignFor(appId)?.summary())
+        .filter(Boolean),
+    });
+  } catch (e: any) {
+    res.status(400).json({ error: e?.message || String(e) });
+  }
+});
+
+// API: rotation campaigns - stage a new key set and start a campaign
+app.post("/api/campaigns/start", requirePermission("keys:manage"), (req: Request, res: Response) => {
+  const { appId, keySetNo } = req.body || {};
+  if (typeof appId !== "number")
+    return res.status(400).json({ error: "appId (number) required" });
+  try {
+    campaignFor(appId);
+    const campaign = RotationCampaign.start(
+      keyManager,
+      appId,
+      typeof keySetNo === "number" ? keySetNo : 1
+    );
+    const summary = campaign.summary();
+    pushLog(
+      `Rotation ${summary.appId} started: key set ${summary.keySetNo}, version ${summary.version}`
+    );
+    res.json({ ok: true, ...summary });
+  } catch (e: any) {
+    res.status(400).json({ error: e?.message || String(e) });
+  }
+});
+
+// API: rotation campaigns - upgrade the presented card
+app.post(readerPaths("/campaigns/upgrade"), requirePermission("keys:use"), cardOperation("campaign upgrade"), async (req: Request, res: Response) => {
+  if (!readerWithCard(res))
+    return res.status(400).json({ error: "No card present" });
+  const { appId } = req.body || {};
+  if (typeof appId !== "number")
+    return res.status(400).json({ error: "appId (number) required" });
+  try {
+    const campaign = campaignFor(appId);
+    if (!campaign) throw new Error("No rotation campaign for this AID");
+    const desfire = cardSession(req, res).card;
+    if (!desfire.getCardUid()) await desfire.getVersion();
+    const progress = await campaign.upgradeCard(desfire);
+    pushLog(
+      `Rotation 0x${appId.toString(16).padStart(6, "0")}: card ${progress.uid} ${progress.state}`
+    );
+    res.status(progress.state === "failed" ? 500 : 200).json({
+      ok: progress.state !== "failed",
+      progress,
+      campaign: campaign.summary(),
+    });
+  } catch (e: any) {
+    res.status(400).json({ error: e?.message || String(e) });
+  }
+});
+
+// API: rotation campaigns - make the staged keys current, or abandon them
+app.post("/api/campaigns/:action(complete|cancel)", requirePermission("keys:manage"), (req: Request, res: Response) => {
+  const { appId } = req.body || {};
+  if (typeof appId !== "number")
+    return res.status(400).json({ error: "appId (number) required" });
+  try {
+    const campaign = campaignFor(appId);
+    if (!campaign) throw new Error("No rotation campaign for this AID");
+    const summary =
+      req.params.action === "complete" ? campaign.complete() : campaign.cancel();
+    pushLog(`Rotation ${summary.appId} ${summary.status}`);
+    res.json({ ok: true, ...summary });
+  } catch (e: any) {
+    res.status(400).json({ error: e?.message || String(e) });
+  }
+});
+
 // API: authenticate application using keystore/env/manual
-app.post("/api/app/auth", async (req: Request, res: Response) => {
-  if (!currentReader || !lastCardInfo.present)
+app.post(readerPaths("/app/auth"), requirePermission("card:authenticate"), cardOperation("app authentication"), async (req: Request, res: Response) => {
+  if (!readerWithCard(res))
     return res.status(400).json({ error: "No card present" });
-  const { aid, source, keyNo, keyHex, keyType, method } = req.body || {};
+  const { aid, source, keyNo, keyHex, keyType, method, upgrade, kcv } =
+    req.body || {};
   if (typeof aid !== "number")
     return res.status(400).json({ error: "aid (number) required" });
   try {
-    const desfire = new DESFireCard(currentReader);
+    const session = cardSession(req, res);
+    const desfire = session.card;
     await desfire.selectApplication(aid);
     let buf: Buffer | null = null;
     let type: string | undefined = keyType;
     const no = typeof keyNo === "number" ? keyNo : 0;
 
     if (source === "keystore") {
-      const ks = (keyManager as any).keySets.get(aid);
-      if (!ks) throw new Error("Keyset not loaded for this AID");
-      buf = ks.keys.get(no);
-      type = ks.keyType;
+      // Pick the key generation matching the card's key version
+      const result = await authenticateWithKeyVersion(
+        desfire,
+        keyManager,
+        aid,
+        no,
+        {
+          uid: session.card.getCardUid() || undefined,
+          ev2: method === "AES_EV2",
+          upgrade: !!upgrade,
+        }
+      );
+      pushLog(
+        `App 0x${aid.toString(16).padStart(6, "0")} authenticated with K${no} ` +
+          `(card version ${result.cardVersion}, current ${result.currentVersion}` +
+          (result.upgraded.length
+            ? `, upgraded ${result.upgraded.map((n) => "K" + n).join(", ")})`
+            : ")")
+      );
+      return res.json({ ok: true, cardSession: session.id, ...result });
     } else if (source === "manual") {
       if (!keyHex || !keyType)
         throw new Error("keyHex and keyType required for manual");
       buf = Buffer.from(keyHex.replace(/\s+/g, ""), "hex");
+      checkKeyCheckValue(buf, keyType, kcv);
     } else if (source === "env") {
       const aidHex = aid.toString(16).padStart(6, "0").toUpperCase();
       const prefix = `DESFIRE_APP_${aidHex}`;
@@ -359,6 +1026,7 @@ app.post("/api/app/auth", async (req: Request, res: Response) => {
       if (!t || !h) throw new Error("env key not set");
       type = t;
       buf = Buffer.from(h.replace(/\s+/g, ""), "hex");
+      checkKeyCheckValue(buf, t, process.env[`${prefix}_KEY_KCV`]);
     } else {
       throw new Error("unknown source");
     }
@@ -374,7 +1042,7 @@ app.post("/api/app/auth", async (req: Request, res: Response) => {
         .toString(16)
         .padStart(6, "0")} authenticated with K${no} (${type})`
     );
-    res.json({ ok: true });
+    res.json({ ok: true, cardSession: session.id });
   } catch (e: any) {
     const msg = e?.message || String(e);
     pushLog("App auth failed: " + msg);
@@ -391,20 +1059,27 @@ function getPiccKeyFromEnv(): {
   const keyNo = process.env.DESFIRE_PICC_KEY_NO
     ? Number(process.env.DESFIRE_PICC_KEY_NO)
     : 0;
-  if (keyType && keyHex) return { keyType, keyHex, keyNo };
-  return null;
+  if (!keyType || !keyHex) return null;
+  checkKeyCheckValue(
+    Buffer.from(keyHex.replace(/\s+/g, ""), "hex"),
+    keyType,
+    process.env.DESFIRE_PICC_KEY_KCV
+  );
+  return { keyType, keyHex, keyNo };
 }
 
 // API: erase/format card (PICC format)
-app.post("/api/erase", async (req, res) => {
-  if (!currentReader || !lastCardInfo.present) {
+app.post(readerPaths("/erase"), requirePermission("card:format"), cardOperation("format"), async (req, res) => {
+  const state = readerWithCard(res);
+  if (!state) {
     return res.status(400).json({ error: "No card present" });
   }
   try {
-    const desfire = new DESFireCard(currentReader);
-    pushLog("Erase requested: Formatting PICC");
-    // Always select PICC first
-    await desfire.selectApplication(0x000000);
+    const desfire = cardSession(req, res).card;
+    pushLog(`Erase requested: Formatting PICC on ${state.name}`);
+    // FormatPICC needs the PICC level; keep a PICC authentication from an earlier request
+    if (desfire.getSelectedApplication() !== 0x000000)
+      await desfire.selectApplication(0x000000);
 
     // Resolve key (request body first, then env)
     let { keyType, keyHex, keyNo } = (req.body || {}) as {
@@ -452,7 +1127,7 @@ app.post("/api/erase", async (req, res) => {
       await desfire.formatPICC();
       pushLog("PICC formatted after default auth");
     }
-    lastCardInfo = { ...lastCardInfo, applications: [], freeMemory: undefined };
+    state.card = { ...state.card, applications: [], freeMemory: undefined };
     res.json({ ok: true });
   } catch (e: any) {
     const msg = e?.message || String(e);
@@ -462,7 +1137,7 @@ app.post("/api/erase", async (req, res) => {
 });
 
 // API: SSE log stream
-app.get("/api/logs", (req: Request, res: Response) => {
+app.get("/api/logs", requirePermission("logs:read"), (req: Request, res: Response) => {
   res.setHeader("Content-Type", "text/event-stream");
   res.setHeader("Cache-Control", "no-cache");
   res.setHeader("Connection", "keep-alive");
@@ -484,8 +1159,8 @@ app.get("/api/logs", (req: Request, res: Response) => {
 });
 
 // API: authenticate PICC with provided key
-app.post("/api/auth-picc", async (req: Request, res: Response) => {
-  if (!currentReader || !lastCardInfo.present) {
+app.post(readerPaths("/auth-picc"), requirePermission("card:authenticate"), cardOperation("PICC authentication"), async (req: Request, res: Response) => {
+  if (!readerWithCard(res)) {
     return res.status(400).json({ error: "No card present" });
   }
   const { keyType, keyHex, keyNo } = (req.body || {}) as {
@@ -497,7 +1172,8 @@ app.post("/api/auth-picc", async (req: Request, res: Response) => {
     return res.status(400).json({ error: "keyType and keyHex are required" });
   }
   try {
-    const desfire = new DESFireCard(currentReader);
+    const session = cardSession(req, res);
+    const desfire = session.card;
     await desfire.selectApplication(0x000000);
     const keyBuf = Buffer.from(keyHex.replace(/\s+/g, ""), "hex");
     pushLog(`Authenticating PICC with ${keyType} (K${keyNo ?? 0})`);
@@ -511,7 +1187,7 @@ app.post("/api/auth-picc", async (req: Request, res: Response) => {
       throw new Error("Unsupported keyType");
     }
     pushLog("PICC authentication successful");
-    res.json({ ok: true });
+    res.json({ ok: true, cardSession: session.id });
   } catch (e: any) {
     const msg = e?.message || String(e);
     pushLog("PICC authentication failed: " + msg);
@@ -533,56 +1209,138 @@ const PAYMENT_AID = process.env.PAYMENT_AID
   ? parseInt(process.env.PAYMENT_AID, 16)
   : 0x000001;
 const FILE_BALANCE = 0x00;
-const FILE_TX_HISTORY = 0x01; // Std data file
-const FILE_METADATA = 0x02; // Std data file
+const FILE_TX_HISTORY = 0x01; // Cyclic record file
 const TX_RECORD_SIZE = 24; // bytes: [type 1][amount 4][epochMs 8][balance 4][reserved 7]
+const TX_TYPES = ["credit", "debit", "refund"] as const;
+
+type TxRecord = {
+  type: (typeof TX_TYPES)[number];
+  amount: number;
+  epochMs: number;
+  balanceAfter: number;
+};
+
+const txRecordCodec: RecordCodec<TxRecord> = {
+  recordSize: TX_RECORD_SIZE,
+  encode(rec) {
+    const buf = Buffer.alloc(TX_RECORD_SIZE, 0);
+    buf.writeUInt8(TX_TYPES.indexOf(rec.type), 0);
+    buf.writeInt32LE(rec.amount, 1);
+    buf.writeBigUInt64LE(BigInt(rec.epochMs), 5);
+    buf.writeInt32LE(rec.balanceAfter, 13);
+    // reserved [17..23]
+    return buf;
+  },
+  decode(buf) {
+    return {
+      type: TX_TYPES[buf.readUInt8(0)] ?? "credit",
+      amount: buf.readInt32LE(1),
+      epochMs: Number(buf.readBigUInt64LE(5)),
+      balanceAfter: buf.readInt32LE(13),
+    };
+  },
+};
 
 async function withPaymentCard<T>(
+  req: Request,
+  res: Response,
   fn: (desfire: DESFireCard) => Promise<T>
 ): Promise<T> {
-  if (!currentReader || !lastCardInfo.present)
-    throw new Error("No card present");
-  const desfire = new DESFireCard(currentReader);
-  await desfire.selectApplication(PAYMENT_AID);
+  const desfire = cardSession(req, res).card;
+  // Reselecting would end an authentication made by an earlier request
+  if (desfire.getSelectedApplication() !== PAYMENT_AID)
+    await desfire.selectApplication(PAYMENT_AID);
   return await fn(desfire);
 }
 
+/**
+ * Run the value change, history record and commit of a payment; when a step
+ * fails the pending changes are aborted on the card before the error is passed on
+ */
+async function paymentTransaction<T>(
+  desfire: DESFireCard,
+  fn: () => Promise<T>
+): Promise<T> {
+  try {
+    return await fn();
+  } catch (e) {
+    await desfire
+      .abortTransaction()
+      .catch((abortError: any) =>
+        pushLog("AbortTransaction failed: " + (abortError?.message || String(abortError)))
+      );
+    throw e;
+  }
+}
+
+/**
+ * Application key of a request: entered manually or from the environment
+ * (DESFIRE_APP_<AID>_KEY*, or DESFIRE_APP_<AID>_<role>_KEY* for a role key)
+ */
 function resolveAppKey(
   req: Request,
-  aid: number
+  aid: number,
+  role: "" | "DEBIT" = "",
+  defaultNo = 0
 ): { buf: Buffer; type: string; no: number } | null {
-  const { source, keyNo, keyHex, keyType } = (req.body || {}) as any;
-  const no = typeof keyNo === "number" ? keyNo : 0;
+  const { source, keyNo, keyHex, keyType, kcv } = (req.body || {}) as any;
+  const no = typeof keyNo === "number" ? keyNo : defaultNo;
   if (source === "manual") {
     if (!keyHex || !keyType) throw new Error("manual keyType/keyHex required");
-    return {
-      buf: Buffer.from(keyHex.replace(/\s+/g, ""), "hex"),
-      type: keyType,
-      no,
-    };
+    const buf = Buffer.from(keyHex.replace(/\s+/g, ""), "hex");
+    checkKeyCheckValue(buf, keyType, kcv);
+    return { buf, type: keyType, no };
   }
   if (source === "env" || !source) {
     const aidHex = aid.toString(16).padStart(6, "0").toUpperCase();
-    const prefix = `DESFIRE_APP_${aidHex}`;
+    const prefix = `DESFIRE_APP_${aidHex}${role ? "_" + role : ""}`;
     const t = process.env[`${prefix}_KEY_TYPE`];
     const h = process.env[`${prefix}_KEY`];
+    // A role key has a fixed number (the UI always sends a key number)
     const n = process.env[`${prefix}_KEY_NO`]
       ? Number(process.env[`${prefix}_KEY_NO`])
-      : no;
-    if (t && h)
-      return { buf: Buffer.from(h.replace(/\s+/g, ""), "hex"), type: t, no: n };
+      : role
+        ? defaultNo
+        : no;
+    if (t && h) {
+      const buf = Buffer.from(h.replace(/\s+/g, ""), "hex");
+      checkKeyCheckValue(buf, t, process.env[`${prefix}_KEY_KCV`]);
+      return { buf, type: t, no: n };
+    }
   }
   // keystore not used here; could be added similarly
   return null;
 }
 
+/**
+ * Debit key of the payment app: the Write key of the balance file, which
+ * authorizes Debit and LimitedCredit but not Credit
+ */
+async function debitKeyNo(desfire: DESFireCard): Promise<number> {
+  const { write } = (await desfire.getFileSettings(FILE_BALANCE)).accessRights;
+  if (write > 13) throw new Error(`The balance file has no debit key (Write access: ${describeAccess(write)})`);
+  return write;
+}
+
 async function ensureAuthForPayment(
   desfire: DESFireCard,
   req: Request,
-  purpose: "read" | "write"
+  purpose: "read" | "write" | "refund"
 ): Promise<void> {
+  // Refunds use the debit key (DESFIRE_APP_<AID>_DEBIT_KEY*), the others the app key
+  const defaultNo = purpose === "refund" ? await debitKeyNo(desfire) : 0;
   // Try env/manual app key first
-  const resolved = resolveAppKey(req, PAYMENT_AID);
+  const resolved = resolveAppKey(req, PAYMENT_AID, purpose === "refund" ? "DEBIT" : "", defaultNo);
+  const keyNo = resolved ? resolved.no : defaultNo;
+  // Reuse the caller's authentication of the payment app with the key this
+  // request would use, unless the request brings its own key
+  if (
+    desfire.isAuthenticated() &&
+    desfire.getSelectedApplication() === PAYMENT_AID &&
+    desfire.getAuthenticatedKeyNo() === keyNo &&
+    (req.body || {}).source !== "manual"
+  )
+    return;
   if (resolved) {
     const { buf, type, no } = resolved;
     if (type === "AES_EV2") await desfire.authenticateEV2First(no, buf);
@@ -592,64 +1350,60 @@ async function ensureAuthForPayment(
   }
   // If not provided, try default zeros (common on blank cards)
   try {
-    await desfire.authenticateDES(0, Buffer.alloc(16, 0));
+    await desfire.authenticateDES(keyNo, Buffer.alloc(16, 0));
     return;
   } catch {}
   if (purpose === "read")
     throw new Error("Authentication required to read balance");
+  if (purpose === "refund")
+    throw new Error(`Authentication with the debit key (K${keyNo}) required to refund`);
   throw new Error("Authentication required to modify balance");
 }
 
-async function readRecordCount(desfire: DESFireCard): Promise<number> {
-  try {
-    const buf = await desfire.readData(FILE_METADATA, 0, 4);
-    if (buf.length >= 4) return buf.readUInt32LE(0);
-  } catch {}
-  return 0;
-}
-
-async function writeRecordCount(
-  desfire: DESFireCard,
-  count: number
-): Promise<void> {
-  const b = Buffer.alloc(4);
-  b.writeUInt32LE(count, 0);
-  await desfire.writeData(FILE_METADATA, 0, b);
+/**
+ * Communication mode of a payment file, as provisioned (plain, mac or full)
+ */
+async function fileCommMode(desfire: DESFireCard, fileNo: number): Promise<CommMode> {
+  return (await desfire.getFileSettings(fileNo)).commMode;
 }
 
-function buildTxRecord(
-  type: number,
-  amount: number,
-  epochMs: bigint,
-  balanceAfter: number
-): Buffer {
-  const buf = Buffer.alloc(TX_RECORD_SIZE, 0);
-  buf.writeUInt8(type, 0);
-  buf.writeInt32LE(amount, 1);
-  // epochMs 8 bytes LE at offset 5
-  const lo = Number(epochMs & BigInt(0xffffffff));
-  const hi = Number((epochMs >> BigInt(32)) & BigInt(0xffffffff));
-  buf.writeUInt32LE(lo, 5);
-  buf.writeUInt32LE(hi, 9);
-  buf.writeInt32LE(balanceAfter, 13);
-  // reserved [17..23]
-  return buf;
+async function readTxHistory(desfire: DESFireCard): Promise<TxRecord[]> {
+  try {
+    const commMode = await fileCommMode(desfire, FILE_TX_HISTORY);
+    return await desfire.readRecordsAs(FILE_TX_HISTORY, txRecordCodec, 0, 0, commMode);
+  } catch (e: any) {
+    // An empty record file answers ReadRecords with BOUNDARY_ERROR
+    if (String(e?.message || e).includes("BOUNDARY_ERROR")) return [];
+    throw e;
+  }
 }
 
-app.get("/api/payment/status", async (_req: Request, res: Response) => {
+app.get(readerPaths("/payment/status"), requirePermission("payment:read"), cardOperation("payment status"), async (_req: Request, res: Response) => {
   try {
-    const result = await withPaymentCard(async (desfire) => {
+    const result = await withPaymentCard(_req, res, async (desfire) => {
       // Try read balance (auth if env provided)
       let balance: number | null = null;
+      let records: number | null = null;
+      let limits: Record<string, unknown> | null = null;
+      let commMode = CommMode.PLAIN;
+      try {
+        const settings = await desfire.getFileSettings(FILE_BALANCE);
+        commMode = settings.commMode;
+        if (settings.type === "value") {
+          const { lowerLimit, upperLimit, limitedCreditValue, limitedCreditEnabled, freeGetValue } = settings;
+          limits = { lowerLimit, upperLimit, limitedCreditValue, limitedCreditEnabled, freeGetValue };
+        }
+      } catch {}
       try {
         await ensureAuthForPayment(desfire, _req as any, "read");
-        balance = await desfire.getValue(FILE_BALANCE);
+        balance = await desfire.getValue(FILE_BALANCE, commMode);
+        records = (await readTxHistory(desfire)).length;
       } catch {}
-      const count = await readRecordCount(desfire);
       return {
         aid: "0x" + PAYMENT_AID.toString(16).padStart(6, "0"),
         balance,
-        records: count,
+        records,
+        limits,
       };
     });
     res.json(result);
@@ -658,28 +1412,28 @@ app.get("/api/payment/status", async (_req: Request, res: Response) => {
   }
 });
 
-app.post("/api/payment/credit", async (req: Request, res: Response) => {
+app.post(readerPaths("/payment/credit"), requirePermission("payment:credit"), cardOperation("credit"), async (req: Request, res: Response) => {
   const amount = Number((req.body || {}).amount || 0);
   if (!Number.isInteger(amount) || amount <= 0)
     return res.status(400).json({ error: "amount must be positive integer" });
   try {
-    const result = await withPaymentCard(async (desfire) => {
+    const result = await withPaymentCard(req, res, async (desfire) => {
       await ensureAuthForPayment(desfire, req, "write");
-      // Read pre-balance for record
-      let before = 0;
-      try {
-        before = await desfire.getValue(FILE_BALANCE);
-      } catch {}
-      await desfire.credit(FILE_BALANCE, amount);
-      await desfire.commitTransaction();
+      const commMode = await fileCommMode(desfire, FILE_BALANCE);
+      const before = await desfire.getValue(FILE_BALANCE, commMode);
       const after = before + amount;
-      // Append transaction record
-      const count = await readRecordCount(desfire);
-      const offset = count * TX_RECORD_SIZE;
-      const rec = buildTxRecord(0, amount, BigInt(Date.now()), after);
-      await desfire.writeData(FILE_TX_HISTORY, offset, rec);
-      await writeRecordCount(desfire, count + 1);
-      return { ok: true, balance: after, records: count + 1 };
+      // Balance and history record are committed in one transaction
+      return await paymentTransaction(desfire, async () => {
+        await desfire.credit(FILE_BALANCE, amount, commMode);
+        await desfire.writeRecordAs(
+          FILE_TX_HISTORY,
+          txRecordCodec,
+          { type: "credit", amount, epochMs: Date.now(), balanceAfter: after },
+          await fileCommMode(desfire, FILE_TX_HISTORY)
+        );
+        await desfire.commitTransaction();
+        return { ok: true, balance: after };
+      });
     });
     pushLog(`Payment credit ${amount} applied`);
     res.json(result);
@@ -690,24 +1444,28 @@ app.post("/api/payment/credit", async (req: Request, res: Response) => {
   }
 });
 
-app.post("/api/payment/debit", async (req: Request, res: Response) => {
+app.post(readerPaths("/payment/debit"), requirePermission("payment:debit"), cardOperation("debit"), async (req: Request, res: Response) => {
   const amount = Number((req.body || {}).amount || 0);
   if (!Number.isInteger(amount) || amount <= 0)
     return res.status(400).json({ error: "amount must be positive integer" });
   try {
-    const result = await withPaymentCard(async (desfire) => {
+    const result = await withPaymentCard(req, res, async (desfire) => {
       await ensureAuthForPayment(desfire, req, "write");
-      const before = await desfire.getValue(FILE_BALANCE);
+      const commMode = await fileCommMode(desfire, FILE_BALANCE);
+      const before = await desfire.getValue(FILE_BALANCE, commMode);
       if (before < amount) throw new Error("Insufficient funds");
-      await desfire.debit(FILE_BALANCE, amount);
-      await desfire.commitTransaction();
       const after = before - amount;
-      const count = await readRecordCount(desfire);
-      const offset = count * TX_RECORD_SIZE;
-      const rec = buildTxRecord(1, amount, BigInt(Date.now()), after);
-      await desfire.writeData(FILE_TX_HISTORY, offset, rec);
-      await writeRecordCount(desfire, count + 1);
-      return { ok: true, balance: after, records: count + 1 };
+      return await paymentTransaction(desfire, async () => {
+        await desfire.debit(FILE_BALANCE, amount, commMode);
+        await desfire.writeRecordAs(
+          FILE_TX_HISTORY,
+          txRecordCodec,
+          { type: "debit", amount, epochMs: Date.now(), balanceAfter: after },
+          await fileCommMode(desfire, FILE_TX_HISTORY)
+        );
+        await desfire.commitTransaction();
+        return { ok: true, balance: after };
+      });
     });
     pushLog(`Payment debit ${amount} applied`);
     res.json(result);
@@ -717,3 +1475,64 @@ app.post("/api/payment/debit", async (req: Request, res: Response) => {
     res.status(400).json({ error: msg });
   }
 });
+
+app.get(readerPaths("/payment/history"), requirePermission("payment:read"), cardOperation("payment history"), async (req: Request, res: Response) => {
+  try {
+    const records = await withPaymentCard(req, res, async (desfire) => {
+      await ensureAuthForPayment(desfire, req, "read");
+      return await readTxHistory(desfire);
+    });
+    res.json({
+      aid: "0x" + PAYMENT_AID.toString(16).padStart(6, "0"),
+      records: records.map((r) => ({
+        ...r,
+        time: new Date(r.epochMs).toISOString(),
+      })),
+    });
+  } catch (e: any) {
+    res.status(400).json({ error: e?.message || String(e) });
+  }
+});
+
+// Refunds use LimitedCredit, which the card authorizes with the Write (debit)
+// key and caps at the amount debited since the last full credit. The history
+// record is written in the same session, so the transaction history file must
+// be writable with the debit key too (Write or ReadWrite access).
+app.post(readerPaths("/payment/refund"), requirePermission("payment:refund"), cardOperation("refund"), async (req: Request, res: Response) => {
+  const amount = Number((req.body || {}).amount || 0);
+  if (!Number.isInteger(amount) || amount <= 0)
+    return res.status(400).json({ error: "amount must be positive integer" });
+  try {
+    const result = await withPaymentCard(req, res, async (desfire) => {
+      await ensureAuthForPayment(desfire, req, "refund");
+      const keyNo = desfire.getAuthenticatedKeyNo();
+      const history = await desfire.getFileSettings(FILE_TX_HISTORY);
+      const { write, readWrite } = history.accessRights;
+      if (![write, readWrite].some((access) => access === keyNo || access === ACCESS_FREE))
+        throw new Error(
+          `Refunds need the transaction history file writable with the debit key K${keyNo} ` +
+            `(Write access: ${describeAccess(write)}, ReadWrite access: ${describeAccess(readWrite)})`
+        );
+      const commMode = await fileCommMode(desfire, FILE_BALANCE);
+      const before = await desfire.getValue(FILE_BALANCE, commMode);
+      const after = before + amount;
+      return await paymentTransaction(desfire, async () => {
+        await desfire.limitedCredit(FILE_BALANCE, amount, commMode);
+        await desfire.writeRecordAs(
+          FILE_TX_HISTORY,
+          txRecordCodec,
+          { type: "refund", amount, epochMs: Date.now(), balanceAfter: after },
+          history.commMode
+        );
+        await desfire.commitTransaction();
+        return { ok: true, balance: after };
+      });
+    });
+    pushLog(`Payment refund ${amount} applied`);
+    res.json(result);
+  } catch (e: any) {
+    const msg = e?.message || String(e);
+    pushLog("Payment refund failed: " + msg);
+    res.status(400).json({ error: msg });
+  }
+});